@@ -24,7 +24,7 @@ module.exports = {
     'lcov',
     'html',
   ],
-  moduleNameMapping: pathsToModuleNameMapper(compilerOptions.paths, {
+  moduleNameMapper: pathsToModuleNameMapper(compilerOptions.paths, {
     prefix: '<rootDir>/src/',
   }),
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
@@ -1,16 +1,21 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before modules that read configuration on import
+dotenv.config();
+
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import dotenv from 'dotenv';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './config/swagger';
 import { logger } from './utils/logger';
 import { requestLogger, errorLogger } from './middleware/logging';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
-import { listRoutes, taskRoutes, authRoutes } from './routes';
-
-// Load environment variables
-dotenv.config();
+import { listRoutes, taskRoutes, authRoutes, dashboardRoutes, adminRoutes, tokenRoutes, roleRoutes, workspaceRoutes, labelRoutes } from './routes';
+import { storage } from './storage';
+import { userRepository } from './repositories';
+import { authService } from './services';
+import { jwtKeySet } from './keys';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -48,6 +53,12 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Public keys for verifying access tokens, for services that do not share a secret with this API
+app.get('/.well-known/jwks.json', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.status(200).json(jwtKeySet.getJwks());
+});
+
 // Basic API info endpoint
 app.get('/api', (req, res) => {
   res.status(200).json({
@@ -60,7 +71,14 @@ app.get('/api', (req, res) => {
       auth: '/api/v1/auth',
       lists: '/api/v1/lists',
       tasks: '/api/v1/tasks',
+      dashboard: '/api/v1/dashboard',
+      admin: '/api/v1/admin',
+      tokens: '/api/v1/tokens',
+      roles: '/api/v1/roles',
+      workspaces: '/api/v1/workspaces',
+      labels: '/api/v1/labels',
       health: '/health',
+      jwks: '/.well-known/jwks.json',
       docs: '/api-docs',
     },
   });
@@ -70,6 +88,12 @@ app.get('/api', (req, res) => {
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/lists', listRoutes);
 app.use('/api/v1/tasks', taskRoutes);
+app.use('/api/v1/dashboard', dashboardRoutes);
+app.use('/api/v1/admin', adminRoutes);
+app.use('/api/v1/tokens', tokenRoutes);
+app.use('/api/v1/roles', roleRoutes);
+app.use('/api/v1/workspaces', workspaceRoutes);
+app.use('/api/v1/labels', labelRoutes);
 
 // 404 handler for unmatched routes
 app.use(notFoundHandler);
@@ -80,15 +104,54 @@ app.use(errorLogger);
 // Global error handling middleware
 app.use(errorHandler);
 
-// Start server
-app.listen(PORT, () => {
-  logger.logStartup(Number(PORT), process.env.NODE_ENV || 'development');
-  logger.info(`🌐 Health check: http://localhost:${PORT}/health`);
-  logger.info(`📚 API info: http://localhost:${PORT}/api`);
-  logger.info(`📖 API docs: http://localhost:${PORT}/api-docs`);
-  logger.info(`🔐 Auth API: http://localhost:${PORT}/api/v1/auth`);
-  logger.info(`📋 Lists API: http://localhost:${PORT}/api/v1/lists`);
-  logger.info(`✅ Tasks API: http://localhost:${PORT}/api/v1/tasks`);
+// Start server once persisted data has been loaded
+const startServer = async (): Promise<void> => {
+  await storage.initialize();
+  await userRepository.seedDefaultUsers();
+  authService.startRevocationPruning();
+
+  const server = app.listen(PORT, () => {
+    logger.logStartup(Number(PORT), process.env.NODE_ENV || 'development');
+    logger.info(`🌐 Health check: http://localhost:${PORT}/health`);
+    logger.info(`📚 API info: http://localhost:${PORT}/api`);
+    logger.info(`📖 API docs: http://localhost:${PORT}/api-docs`);
+    logger.info(`🔐 Auth API: http://localhost:${PORT}/api/v1/auth`);
+    logger.info(`📋 Lists API: http://localhost:${PORT}/api/v1/lists`);
+    logger.info(`✅ Tasks API: http://localhost:${PORT}/api/v1/tasks`);
+    logger.info(`📊 Dashboard API: http://localhost:${PORT}/api/v1/dashboard`);
+    logger.info(`🛡️ Admin API: http://localhost:${PORT}/api/v1/admin`);
+    logger.info(`🔑 Tokens API: http://localhost:${PORT}/api/v1/tokens`);
+    logger.info(`🎭 Roles API: http://localhost:${PORT}/api/v1/roles`);
+    logger.info(`🏢 Workspaces API: http://localhost:${PORT}/api/v1/workspaces`);
+    logger.info(`🏷️ Labels API: http://localhost:${PORT}/api/v1/labels`);
+  });
+
+  // Graceful shutdown: stop accepting requests and flush pending writes
+  const shutdown = async (signal: string): Promise<void> => {
+    logger.info('Shutting down server', { signal });
+    server.close();
+    authService.stopRevocationPruning();
+
+    try {
+      await storage.flush();
+      process.exit(0);
+    } catch (error) {
+      logger.error('Failed to flush data during shutdown', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+};
+
+startServer().catch(error => {
+  logger.error('Failed to start server', {
+    error: error instanceof Error ? error.message : 'Unknown error',
+  });
+  process.exit(1);
 });
 
 export default app;
@@ -53,7 +53,7 @@ const swaggerDefinition = {
         type: 'http',
         scheme: 'bearer',
         bearerFormat: 'JWT',
-        description: 'JWT token obtained from login endpoint'
+        description: 'JWT token obtained from login endpoint, or a personal access token for list, task and dashboard endpoints covered by its scopes'
       }
     },
     schemas: {
@@ -149,7 +149,7 @@ const swaggerDefinition = {
           },
           role: {
             type: 'string',
-            enum: ['admin', 'user'],
+            description: 'Name of a built-in or custom role',
             example: 'user'
           },
           first_name: {
@@ -164,6 +164,11 @@ const swaggerDefinition = {
             type: 'boolean',
             example: true
           },
+          email_verified: {
+            type: 'boolean',
+            description: 'Unverified users can read their data but cannot make changes',
+            example: true
+          },
           created_at: {
             type: 'string',
             format: 'date-time'
@@ -198,11 +203,6 @@ const swaggerDefinition = {
           last_name: {
             type: 'string',
             example: 'Doe'
-          },
-          role: {
-            type: 'string',
-            enum: ['admin', 'user'],
-            default: 'user'
           }
         }
       },
@@ -235,8 +235,66 @@ const swaggerDefinition = {
           },
           expires_in: {
             type: 'number',
-            example: 86400,
-            description: 'Token expiration time in seconds'
+            example: 900,
+            description: 'Access token expiration time in seconds'
+          },
+          refresh_token: {
+            type: 'string',
+            example: 'mJx2c0n7yQ3p...',
+            description: 'Opaque single-use token for POST /api/v1/auth/refresh'
+          },
+          refresh_expires_in: {
+            type: 'number',
+            example: 2592000,
+            description: 'Refresh token expiration time in seconds'
+          },
+          two_factor_setup_required: {
+            type: 'boolean',
+            example: true,
+            description: 'Present when the role requires two-factor authentication the user has not enabled yet'
+          }
+        }
+      },
+      
+      TwoFactorChallenge: {
+        type: 'object',
+        properties: {
+          two_factor_required: {
+            type: 'boolean',
+            example: true
+          },
+          challenge_token: {
+            type: 'string',
+            example: 'Yq1f6oQm3Y0c...',
+            description: 'Single-use token for POST /api/v1/auth/login/2fa'
+          },
+          expires_in: {
+            type: 'number',
+            example: 300,
+            description: 'Challenge token expiration time in seconds'
+          }
+        }
+      },
+      
+      TwoFactorStatus: {
+        type: 'object',
+        properties: {
+          enabled: {
+            type: 'boolean',
+            example: true
+          },
+          required: {
+            type: 'boolean',
+            example: false,
+            description: 'Whether your role requires two-factor authentication'
+          },
+          enabled_at: {
+            type: 'string',
+            format: 'date-time'
+          },
+          recovery_codes_remaining: {
+            type: 'number',
+            example: 10
           }
         }
       },
@@ -250,6 +308,17 @@ const swaggerDefinition = {
             format: 'uuid',
             example: '123e4567-e89b-12d3-a456-426614174000'
           },
+          owner_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'ID of the user who owns the list',
+            example: '987e6543-e89b-12d3-a456-426614174000'
+          },
+          workspace_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'ID of the workspace the list belongs to, absent for personal lists'
+          },
           name: {
             type: 'string',
             example: 'Work Tasks'
@@ -292,6 +361,11 @@ const swaggerDefinition = {
           color: {
             type: 'string',
             example: '#3498db'
+          },
+          workspace_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Workspace to create the list in, defaults to the active workspace'
           }
         }
       },
@@ -314,6 +388,283 @@ const swaggerDefinition = {
         }
       },
       
+      PersonalAccessToken: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          user_id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          name: {
+            type: 'string',
+            example: 'CI pipeline'
+          },
+          token_prefix: {
+            type: 'string',
+            description: 'Leading characters of the token, to tell tokens apart',
+            example: 'todo_pat_Xk3v'
+          },
+          scopes: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['lists:read', 'lists:write', 'tasks:read', 'tasks:write']
+            }
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time'
+          },
+          expires_at: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Absent for tokens that do not expire'
+          },
+          last_used_at: {
+            type: 'string',
+            format: 'date-time'
+          }
+        }
+      },
+      
+      Permission: {
+        type: 'string',
+        enum: [
+          'list.read', 'list.read.any', 'list.create', 'list.update', 'list.update.any', 'list.delete', 'list.delete.any',
+          'task.read', 'task.read.any', 'task.create', 'task.update', 'task.update.any', 'task.delete', 'task.delete.any',
+          'workspace.read', 'workspace.create', 'workspace.update', 'workspace.delete', 'token.manage',
+          'user.manage', 'role.manage'
+        ],
+        description: '`.any` permissions extend the matching permission to resources of other users'
+      },
+      
+      Role: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            example: 'support'
+          },
+          description: {
+            type: 'string',
+            example: 'Reads every list and task'
+          },
+          permissions: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/Permission'
+            }
+          },
+          built_in: {
+            type: 'boolean',
+            description: 'Built-in roles (admin, user) cannot be changed or deleted',
+            example: false
+          },
+          two_factor_required: {
+            type: 'boolean',
+            description: 'Users holding the role must enable two-factor authentication',
+            example: false
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Absent for built-in roles'
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time'
+          }
+        }
+      },
+      
+      ListMember: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          email: {
+            type: 'string',
+            format: 'email',
+            example: 'user@todoapi.com'
+          },
+          first_name: {
+            type: 'string'
+          },
+          last_name: {
+            type: 'string'
+          },
+          role: {
+            type: 'string',
+            enum: ['viewer', 'editor', 'owner'],
+            description: 'Viewers read the list and its tasks, editors also change tasks and the list, owners also delete the list and manage members',
+            example: 'editor'
+          },
+          is_list_owner: {
+            type: 'boolean',
+            description: 'True for the user who created the list, whose access cannot be changed'
+          },
+          added_by: {
+            type: 'string',
+            format: 'uuid'
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time'
+          }
+        }
+      },
+      
+      Workspace: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          name: {
+            type: 'string',
+            example: 'Marketing team'
+          },
+          description: {
+            type: 'string'
+          },
+          created_by: {
+            type: 'string',
+            format: 'uuid'
+          },
+          role: {
+            type: 'string',
+            enum: ['viewer', 'editor', 'owner'],
+            description: 'Your role in the workspace, which applies to every list of the workspace'
+          },
+          is_active: {
+            type: 'boolean',
+            description: 'Whether your list and task queries are scoped to this workspace'
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time'
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time'
+          }
+        }
+      },
+      
+      Label: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          owner_id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          workspace_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Workspace of the label, absent for personal labels'
+          },
+          name: {
+            type: 'string',
+            example: 'Urgent'
+          },
+          color: {
+            type: 'string',
+            example: '#FF8800'
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time'
+          },
+          updated_at: {
+            type: 'string',
+            format: 'date-time'
+          }
+        }
+      },
+      
+      WorkspaceMember: {
+        type: 'object',
+        properties: {
+          user_id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          email: {
+            type: 'string',
+            format: 'email'
+          },
+          first_name: {
+            type: 'string'
+          },
+          last_name: {
+            type: 'string'
+          },
+          role: {
+            type: 'string',
+            enum: ['viewer', 'editor', 'owner'],
+            description: 'Viewers read every list of the workspace, editors also change them, owners also manage the workspace and its members'
+          },
+          added_by: {
+            type: 'string',
+            format: 'uuid'
+          },
+          created_at: {
+            type: 'string',
+            format: 'date-time'
+          }
+        }
+      },
+      
+      ListStatistics: {
+        type: 'object',
+        properties: {
+          totalTasks: {
+            type: 'number',
+            example: 10
+          },
+          completedTasks: {
+            type: 'number',
+            example: 4
+          },
+          pendingTasks: {
+            type: 'number',
+            example: 6
+          },
+          completionPercentage: {
+            type: 'number',
+            example: 40
+          },
+          tasksByPriority: {
+            type: 'object',
+            properties: {
+              high: { type: 'number', example: 3 },
+              medium: { type: 'number', example: 5 },
+              low: { type: 'number', example: 2 }
+            }
+          },
+          overdueTasksCount: {
+            type: 'number',
+            example: 1
+          },
+          upcomingTasksCount: {
+            type: 'number',
+            description: 'Pending tasks due within the next 7 days',
+            example: 2
+          }
+        }
+      },
+      
       // Task Schemas
       Task: {
         type: 'object',
@@ -348,13 +699,108 @@ const swaggerDefinition = {
           },
           status: {
             type: 'string',
-            enum: ['pending', 'in_progress', 'completed', 'cancelled'],
+            enum: ['pending', 'completed'],
+            description: '`completed` in the complete workflow state, `pending` in every other state',
             example: 'pending'
           },
+          state: {
+            type: 'string',
+            description: 'Workflow state, see `GET /api/v1/tasks/workflow`',
+            example: 'in_progress'
+          },
+          state_history: {
+            type: 'array',
+            description: 'Workflow state transitions, oldest first',
+            items: {
+              type: 'object',
+              properties: {
+                from: {
+                  type: 'string',
+                  nullable: true,
+                  description: 'null when the task was created'
+                },
+                to: {
+                  type: 'string'
+                },
+                at: {
+                  type: 'string',
+                  format: 'date-time'
+                }
+              }
+            }
+          },
           completed_at: {
             type: 'string',
             format: 'date-time',
-            nullable: true
+            nullable: true,
+            description: 'Set when the task enters the complete workflow state'
+          },
+          label_ids: {
+            type: 'array',
+            items: {
+              type: 'string',
+              format: 'uuid'
+            },
+            description: 'Labels attached to the task'
+          },
+          parent_task_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Parent of a subtask, absent for top-level tasks'
+          },
+          checklist: {
+            type: 'array',
+            items: {
+              $ref: '#/components/schemas/ChecklistItem'
+            }
+          },
+          auto_complete: {
+            type: 'boolean',
+            description: 'Complete the task once its checklist items and subtasks are all done'
+          },
+          blocked_by: {
+            type: 'array',
+            items: {
+              type: 'string',
+              format: 'uuid'
+            },
+            description: 'Tasks blocking this task'
+          },
+          recurrence: {
+            $ref: '#/components/schemas/RecurrenceRule'
+          },
+          recurrence_series_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'First task of the series a recurring task belongs to'
+          },
+          occurrence: {
+            type: 'integer',
+            description: '1-based position of the task in its series',
+            example: 1
+          },
+          next_occurrence_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Occurrence created when this one was completed'
+          },
+          is_blocked: {
+            type: 'boolean',
+            description: 'One of the blockers is still pending; only in overdue and due-this-week results'
+          },
+          progress: {
+            type: 'object',
+            description: 'Done checklist items and completed direct subtasks, absent when the task has neither',
+            properties: {
+              done: {
+                type: 'integer',
+                example: 3
+              },
+              total: {
+                type: 'integer',
+                example: 5
+              }
+            }
           },
           created_at: {
             type: 'string',
@@ -367,6 +813,170 @@ const swaggerDefinition = {
         }
       },
       
+      ChecklistItem: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          text: {
+            type: 'string',
+            example: 'Review the draft'
+          },
+          done: {
+            type: 'boolean'
+          },
+          position: {
+            type: 'integer',
+            example: 0
+          }
+        }
+      },
+      
+      RecurrenceRule: {
+        type: 'object',
+        required: ['frequency'],
+        description: 'Recurrence rule modelled on iCalendar RRULE; ends with `until` or `count`, not both',
+        properties: {
+          frequency: {
+            type: 'string',
+            enum: ['daily', 'weekly', 'monthly'],
+            example: 'weekly'
+          },
+          interval: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 365,
+            default: 1,
+            description: 'Every `interval` days, weeks or months'
+          },
+          by_weekday: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+            },
+            description: 'Weekly rules only',
+            example: ['MO', 'TH']
+          },
+          by_month_day: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 31,
+            description: 'Monthly rules only, clamped to the last day of shorter months'
+          },
+          until: {
+            type: 'string',
+            format: 'date-time',
+            description: 'No occurrence is due after this date'
+          },
+          count: {
+            type: 'integer',
+            minimum: 1,
+            maximum: 1000,
+            description: 'Total number of occurrences in the series'
+          }
+        }
+      },
+      
+      TaskDependencyGraph: {
+        type: 'object',
+        properties: {
+          task_id: {
+            type: 'string',
+            format: 'uuid'
+          },
+          nodes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  format: 'uuid'
+                },
+                title: {
+                  type: 'string'
+                },
+                status: {
+                  type: 'string',
+                  enum: ['pending', 'completed']
+                },
+                list_id: {
+                  type: 'string',
+                  format: 'uuid'
+                },
+                is_blocked: {
+                  type: 'boolean'
+                }
+              }
+            }
+          },
+          edges: {
+            type: 'array',
+            items: {
+              type: 'object',
+              description: '`task_id` is blocked by `blocker_id`',
+              properties: {
+                blocker_id: {
+                  type: 'string',
+                  format: 'uuid'
+                },
+                task_id: {
+                  type: 'string',
+                  format: 'uuid'
+                }
+              }
+            }
+          }
+        }
+      },
+      
+      TaskWorkflow: {
+        type: 'object',
+        properties: {
+          initial_state: {
+            type: 'string',
+            description: 'State of new tasks',
+            example: 'todo'
+          },
+          complete_state: {
+            type: 'string',
+            description: 'The only completed state, reached by completing a task',
+            example: 'done'
+          },
+          reopen_state: {
+            type: 'string',
+            description: 'State reached by uncompleting a task',
+            example: 'todo'
+          },
+          states: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  example: 'in_progress'
+                },
+                terminal: {
+                  type: 'boolean',
+                  description: 'Closes the task without completing it, the task stays pending but no longer blocks or counts towards progress'
+                },
+                transitions: {
+                  type: 'array',
+                  items: {
+                    type: 'string'
+                  },
+                  example: ['todo', 'blocked', 'done', 'cancelled']
+                }
+              }
+            }
+          }
+        }
+      },
+      
       CreateTaskInput: {
         type: 'object',
         required: ['list_id', 'title'],
@@ -393,6 +1003,15 @@ const swaggerDefinition = {
             type: 'string',
             enum: ['low', 'medium', 'high'],
             default: 'medium'
+          },
+          parent_task_id: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Create the task as a subtask of a task in the same list'
+          },
+          auto_complete: {
+            type: 'boolean',
+            default: false
           }
         }
       },
@@ -424,7 +1043,16 @@ const swaggerDefinition = {
           list_id: {
             type: 'string',
             format: 'uuid',
-            description: 'Move task to different list'
+            description: 'Move task to different list, together with its subtasks'
+          },
+          parent_task_id: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            description: 'Move the task under another task of its list, or null to make it a top-level task'
+          },
+          auto_complete: {
+            type: 'boolean'
           }
         }
       }
@@ -489,6 +1117,26 @@ const swaggerDefinition = {
           format: 'uuid'
         },
         description: 'UUID of the resource'
+      },
+      RoleNameParam: {
+        name: 'name',
+        in: 'path',
+        required: true,
+        schema: {
+          type: 'string',
+          pattern: '^[a-z][a-z0-9_-]{1,49}$'
+        },
+        description: 'Name of the role'
+      },
+      MemberUserIdParam: {
+        name: 'userId',
+        in: 'path',
+        required: true,
+        schema: {
+          type: 'string',
+          format: 'uuid'
+        },
+        description: 'UUID of the list member'
       }
     },
     
@@ -613,6 +1261,30 @@ const swaggerDefinition = {
     {
       name: 'Tasks',
       description: 'Task management operations'
+    },
+    {
+      name: 'Dashboard',
+      description: 'Aggregated task metrics for the authenticated user'
+    },
+    {
+      name: 'Admin',
+      description: 'User management operations (requires user.manage)'
+    },
+    {
+      name: 'Tokens',
+      description: 'Personal access tokens for scripts and integrations'
+    },
+    {
+      name: 'Roles',
+      description: 'Built-in and custom roles and their permissions (requires role.manage)'
+    },
+    {
+      name: 'Workspaces',
+      description: 'Team workspaces that own lists and scope list and task queries'
+    },
+    {
+      name: 'Labels',
+      description: 'Colored labels to categorize tasks, personal or shared within a workspace'
     }
   ]
 };
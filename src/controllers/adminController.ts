@@ -0,0 +1,338 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponseCode, UserFilterParams, DeletedUserListsAction } from '../models';
+import { adminService } from '../services';
+import { 
+  createApiResponse,
+  createErrorResponse,
+  createValidationErrorResponse
+} from '../models/responses';
+
+/**
+ * Controller for admin user management endpoints
+ * Handles request/response cycle and delegates business logic to services
+ */
+export class AdminController {
+  /**
+   * GET /api/admin/users
+   * Get all users with optional search, filters and pagination
+   */
+  async getUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const {
+        search,
+        role,
+        is_active,
+        page = '1',
+        limit = '10'
+      } = req.query;
+
+      // Parse pagination
+      const pageNum = parseInt(String(page), 10);
+      const limitNum = parseInt(String(limit), 10);
+
+      if (isNaN(pageNum) || pageNum < 1) {
+        const response = createValidationErrorResponse('Invalid page parameter', [
+          { field: 'page', message: 'Page must be a positive integer' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+        const response = createValidationErrorResponse('Invalid limit parameter', [
+          { field: 'limit', message: 'Limit must be between 1 and 100' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      // Build filter parameters
+      const filters: UserFilterParams = {};
+      if (search) filters.search = String(search);
+      if (role) filters.role = String(role);
+      if (is_active !== undefined) filters.is_active = String(is_active) === 'true';
+
+      const result = await adminService.getUsers(filters, pageNum, limitNum);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Users retrieved successfully',
+        {
+          users: result.users,
+          pagination: {
+            page: result.page,
+            limit: result.limit,
+            total: result.total,
+            totalPages: result.totalPages,
+            hasNext: result.hasNext,
+            hasPrev: result.hasPrev
+          }
+        }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/admin/users/:id
+   * Get a specific user by ID
+   */
+  async getUserById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid user ID', [
+          { field: 'id', message: 'User ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await adminService.getUserById(id);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'User retrieved successfully',
+        { user }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/admin/users/:id/status
+   * Deactivate or reactivate a user
+   */
+  async updateUserStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'User ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await adminService.setUserActive(id, req.body.is_active, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        user.is_active ? 'User reactivated successfully' : 'User deactivated successfully',
+        { user }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/admin/users/:id/role
+   * Change the role of a user
+   */
+  async updateUserRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'User ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await adminService.changeUserRole(id, req.body.role, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'User role updated successfully',
+        { user }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/admin/users/:id/unlock
+   * Clear failed logins and any lockout of a user
+   */
+  async unlockUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'User ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await adminService.unlockUser(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'User unlocked successfully',
+        { user }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/admin/users/:id/verify-email
+   * Mark the email address of a user as verified
+   */
+  async verifyUserEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'User ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await adminService.verifyUserEmail(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'User email verified successfully',
+        { user }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/admin/users/:id/2fa
+   * Turn off two-factor authentication for a user
+   */
+  async resetUserTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'User ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await adminService.resetUserTwoFactor(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'User two-factor authentication reset successfully',
+        { user }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/admin/users/:id/reset-password
+   * Set a new password for a user
+   */
+  async resetUserPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'User ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const user = await adminService.resetUserPassword(id, req.body.password, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'User password reset successfully',
+        { user }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/admin/users/:id
+   * Permanently delete a user and delete or transfer their lists
+   */
+  async deleteUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { lists, transfer_to } = req.query;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'User ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await adminService.deleteUser(
+        id,
+        {
+          ...(lists && { lists: String(lists) as DeletedUserListsAction }),
+          ...(transfer_to && { transferToUserId: String(transfer_to) }),
+        },
+        req.user
+      );
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'User deleted successfully',
+        result
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const adminController = new AdminController();
+
+export default adminController;
@@ -1,6 +1,7 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/authService';
-import { CreateUserInput, LoginInput } from '../models/entities';
+import { twoFactorService } from '../services/twoFactorService';
+import { CreateUserInput, LoginInput, UpdateProfileInput, ChangePasswordInput } from '../models/entities';
 import { ApiResponseCode } from '../models';
 import { createSuccessResponse, createErrorResponse } from '../models/responses';
 import { logger } from '../utils/logger';
@@ -70,6 +71,58 @@ export class AuthController {
         { timestamp: new Date().toISOString() }
       );
 
+      if ('user' in authResponse) {
+        logger.info('User login successful', {
+          userId: authResponse.user.id,
+          email: authResponse.user.email,
+          ip: req.ip,
+        });
+      }
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Login controller error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email: req.body.email,
+        ip: req.ip,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Login failed';
+      let statusCode = 401;
+      let responseCode = ApiResponseCode.UNAUTHORIZED;
+
+      if (errorMessage.includes('deactivated')) {
+        statusCode = 403; // Forbidden
+      } else if ((error as any)?.code === ApiResponseCode.TOO_MANY_REQUESTS) {
+        statusCode = 429; // Account locked or login delayed
+        responseCode = ApiResponseCode.TOO_MANY_REQUESTS;
+        res.set('Retry-After', String((error as any).retryAfter));
+      }
+
+      const response = createErrorResponse(
+        responseCode,
+        errorMessage
+      );
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * Complete a login of an account with two-factor authentication
+   * POST /api/auth/login/2fa
+   */
+  async completeTwoFactorLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const { challenge_token: challengeToken, code } = req.body;
+
+      const authResponse = await authService.completeTwoFactorLogin(challengeToken, code);
+
+      const response = createSuccessResponse(
+        authResponse,
+        { timestamp: new Date().toISOString() }
+      );
+
       logger.info('User login successful', {
         userId: authResponse.user.id,
         email: authResponse.user.email,
@@ -78,21 +131,23 @@ export class AuthController {
 
       res.status(200).json(response);
     } catch (error) {
-      logger.error('Login controller error', {
+      logger.error('Two-factor login controller error', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        email: req.body.email,
         ip: req.ip,
       });
 
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       let statusCode = 401;
+      let responseCode = ApiResponseCode.UNAUTHORIZED;
 
-      if (errorMessage.includes('deactivated')) {
-        statusCode = 403; // Forbidden
+      if ((error as any)?.code === ApiResponseCode.TOO_MANY_REQUESTS) {
+        statusCode = 429; // Account locked
+        responseCode = ApiResponseCode.TOO_MANY_REQUESTS;
+        res.set('Retry-After', String((error as any).retryAfter));
       }
 
       const response = createErrorResponse(
-        ApiResponseCode.UNAUTHORIZED,
+        responseCode,
         errorMessage
       );
 
@@ -148,21 +203,14 @@ export class AuthController {
   }
 
   /**
-   * Refresh authentication token
+   * Exchange a refresh token for a new token pair
    * POST /api/auth/refresh
    */
   async refreshToken(req: Request, res: Response): Promise<void> {
     try {
-      if (!req.user) {
-        const response = createErrorResponse(
-          ApiResponseCode.UNAUTHORIZED,
-          'Authentication required'
-        );
-        res.status(401).json(response);
-        return;
-      }
+      const { refresh_token: refreshToken } = req.body;
 
-      const authResponse = await authService.refreshToken(req.user.id);
+      const authResponse = await authService.refreshToken(refreshToken);
 
       const response = createSuccessResponse(
         authResponse,
@@ -179,7 +227,6 @@ export class AuthController {
     } catch (error) {
       logger.error('Token refresh controller error', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        userId: req.user?.id,
         ip: req.ip,
       });
 
@@ -202,22 +249,30 @@ export class AuthController {
   }
 
   /**
-   * Logout user (client-side token invalidation)
+   * Logout user by revoking the current token
    * POST /api/auth/logout
    */
   async logout(req: Request, res: Response): Promise<void> {
     try {
-      // Since we're using stateless JWT tokens, logout is handled client-side
-      // by removing the token from storage. We just return a success message.
-      
+      if (!req.user || !req.tokenClaims) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      await authService.logout(req.tokenClaims, req.body?.refresh_token);
+
       logger.info('User logout', {
-        userId: req.user?.id,
-        email: req.user?.email,
+        userId: req.user.id,
+        email: req.user.email,
         ip: req.ip,
       });
 
       const response = createSuccessResponse(
-        { message: 'Please remove the token from your client storage' },
+        { message: 'Logged out successfully' },
         { timestamp: new Date().toISOString() }
       );
 
@@ -229,6 +284,17 @@ export class AuthController {
         ip: req.ip,
       });
 
+      const errorMessage = error instanceof Error ? error.message : 'Logout failed';
+
+      if (errorMessage.includes('cannot be revoked')) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          errorMessage
+        );
+        res.status(400).json(response);
+        return;
+      }
+
       const response = createErrorResponse(
         ApiResponseCode.INTERNAL_ERROR,
         'Logout failed'
@@ -237,6 +303,346 @@ export class AuthController {
       res.status(500).json(response);
     }
   }
+
+  /**
+   * Logout user from all devices by revoking every issued token
+   * POST /api/auth/logout-all
+   */
+  async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      await authService.logoutAll(req.user.id);
+
+      logger.info('User logout from all devices', {
+        userId: req.user.id,
+        email: req.user.email,
+        ip: req.ip,
+      });
+
+      const response = createSuccessResponse(
+        { message: 'Logged out from all devices successfully' },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Logout all controller error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+        ip: req.ip,
+      });
+
+      const response = createErrorResponse(
+        ApiResponseCode.INTERNAL_ERROR,
+        'Logout failed'
+      );
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * Verify the email address of an account
+   * POST /api/auth/verify-email
+   */
+  async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      const userProfile = await authService.verifyEmail(token);
+
+      const response = createSuccessResponse(
+        userProfile,
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Send a new email verification token to the current user
+   * POST /api/auth/verify-email/resend
+   */
+  async resendEmailVerification(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await authService.resendEmailVerification(req.user!.id);
+
+      const response = createSuccessResponse(
+        { message: 'A new verification token has been sent to your email address' },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(202).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Request a password reset token by email
+   * POST /api/auth/forgot-password
+   */
+  async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      await authService.requestPasswordReset(email);
+
+      // Same response whether or not the email is registered
+      const response = createSuccessResponse(
+        { message: 'If an account exists for this email, a password reset token has been sent' },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(202).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Set a new password using a reset token
+   * POST /api/auth/reset-password
+   */
+  async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, password } = req.body;
+
+      await authService.resetPassword(token, password);
+
+      logger.info('User password reset', {
+        ip: req.ip,
+      });
+
+      const response = createSuccessResponse(
+        { message: 'Password has been reset, please log in with your new password' },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update profile fields of the current user
+   * PATCH /api/auth/me
+   */
+  async updateProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input: UpdateProfileInput = req.body;
+
+      const userProfile = await authService.updateProfile(req.user!.id, input);
+
+      const response = createSuccessResponse(
+        userProfile,
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Change the password of the current user, revoking other sessions
+   * POST /api/auth/change-password
+   */
+  async changePassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input: ChangePasswordInput = req.body;
+
+      await authService.changePassword(req.user!.id, input, req.tokenClaims?.sid);
+
+      logger.info('User password change', {
+        userId: req.user!.id,
+        ip: req.ip,
+      });
+
+      const response = createSuccessResponse(
+        { message: 'Password changed successfully, other sessions have been logged out' },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Request an email change, confirmed through a one-time token
+   * POST /api/auth/change-email
+   */
+  async requestEmailChange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email, password } = req.body;
+
+      const pendingChange = await authService.requestEmailChange(req.user!.id, email, password);
+
+      const response = createSuccessResponse(
+        {
+          message: 'Email change requested, confirm it with the token sent to the new address',
+          ...pendingChange,
+        },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(202).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm a pending email change
+   * POST /api/auth/change-email/confirm
+   */
+  async confirmEmailChange(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      const userProfile = await authService.confirmEmailChange(token);
+
+      const response = createSuccessResponse(
+        userProfile,
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the two-factor authentication state of the current user
+   * GET /api/auth/2fa
+   */
+  async getTwoFactorStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = await twoFactorService.getStatus(req.user!);
+
+      const response = createSuccessResponse(
+        status,
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Start two-factor enrollment with a new authenticator secret
+   * POST /api/auth/2fa/setup
+   */
+  async setupTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const setup = await twoFactorService.setup(req.user!.id);
+
+      const response = createSuccessResponse(
+        {
+          message: 'Add the secret to your authenticator app, then confirm with a code from POST /api/v1/auth/2fa/enable',
+          ...setup,
+        },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Confirm two-factor enrollment with a code
+   * POST /api/auth/2fa/enable
+   */
+  async enableTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const recoveryCodes = await twoFactorService.enable(req.user!.id, req.body.code);
+
+      logger.info('User enabled two-factor authentication', {
+        userId: req.user!.id,
+        ip: req.ip,
+      });
+
+      const response = createSuccessResponse(
+        {
+          message: 'Two-factor authentication enabled, store the recovery codes now as they will not be shown again',
+          recovery_codes: recoveryCodes,
+        },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Turn off two-factor authentication
+   * POST /api/auth/2fa/disable
+   */
+  async disableTwoFactor(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { password, code } = req.body;
+
+      await twoFactorService.disable(req.user!, password, code);
+
+      logger.info('User disabled two-factor authentication', {
+        userId: req.user!.id,
+        ip: req.ip,
+      });
+
+      const response = createSuccessResponse(
+        { message: 'Two-factor authentication disabled' },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the recovery codes of the current user
+   * POST /api/auth/2fa/recovery-codes
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+      const response = createSuccessResponse(
+        {
+          message: 'New recovery codes generated, the previous codes no longer work',
+          recovery_codes: recoveryCodes,
+        },
+        { timestamp: new Date().toISOString() }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const authController = new AuthController();
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponseCode } from '../models';
+import { listService } from '../services';
+import { 
+  createApiResponse,
+  createErrorResponse
+} from '../models/responses';
+
+/**
+ * Controller for dashboard HTTP endpoints
+ * Serves metrics aggregated across the authenticated user's lists
+ */
+export class DashboardController {
+  /**
+   * GET /api/dashboard
+   * Get task statistics across all of the user's lists
+   */
+  async getDashboard(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const dashboard = await listService.getDashboard(req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Dashboard retrieved successfully',
+        { dashboard }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const dashboardController = new DashboardController();
+
+export default dashboardController;
@@ -4,16 +4,37 @@
  */
 
 export { ListController, listController } from './listController';
+export { ListMemberController, listMemberController } from './listMemberController';
 export { TaskController, taskController } from './taskController';
 export { AuthController, authController } from './authController';
+export { DashboardController, dashboardController } from './dashboardController';
+export { AdminController, adminController } from './adminController';
+export { PersonalAccessTokenController, personalAccessTokenController } from './personalAccessTokenController';
+export { RoleController, roleController } from './roleController';
+export { WorkspaceController, workspaceController } from './workspaceController';
+export { LabelController, labelController } from './labelController';
 
 // Re-export default instances for convenience
 import { listController } from './listController';
+import { listMemberController } from './listMemberController';
 import { taskController } from './taskController';
 import { authController } from './authController';
+import { dashboardController } from './dashboardController';
+import { adminController } from './adminController';
+import { personalAccessTokenController } from './personalAccessTokenController';
+import { roleController } from './roleController';
+import { workspaceController } from './workspaceController';
+import { labelController } from './labelController';
 
 export default {
   listController,
+  listMemberController,
   taskController,
   authController,
+  dashboardController,
+  adminController,
+  personalAccessTokenController,
+  roleController,
+  workspaceController,
+  labelController,
 };
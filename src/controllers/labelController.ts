@@ -0,0 +1,183 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponseCode, CreateLabelInput, UpdateLabelInput } from '../models';
+import { labelService } from '../services';
+import {
+  createApiResponse,
+  createErrorResponse
+} from '../models/responses';
+
+/**
+ * Controller for label endpoints
+ * Handles request/response cycle and delegates business logic to services
+ */
+export class LabelController {
+  /**
+   * GET /api/labels
+   * Get the labels of the active workspace, a requested workspace or the personal labels
+   */
+  async getLabels(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const { workspace_id } = req.query;
+      const workspaceId = workspace_id
+        ? (workspace_id === 'personal' ? null : String(workspace_id))
+        : undefined;
+
+      const labels = await labelService.getLabels(req.user, workspaceId);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Labels retrieved successfully',
+        { labels }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/labels
+   * Create a label
+   */
+  async createLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const input: CreateLabelInput = {
+        name: req.body.name,
+        color: req.body.color,
+        ...(req.body.workspace_id && { workspace_id: req.body.workspace_id }),
+      };
+
+      const label = await labelService.createLabel(input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.CREATED,
+        'Label created successfully',
+        { label }
+      );
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/labels/:id
+   * Get a specific label
+   */
+  async getLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Label ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const label = await labelService.getLabel(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Label retrieved successfully',
+        { label }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/labels/:id
+   * Rename a label or change its color
+   */
+  async updateLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Label ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: UpdateLabelInput = {
+        ...(req.body.name && { name: req.body.name }),
+        ...(req.body.color && { color: req.body.color }),
+      };
+
+      const label = await labelService.updateLabel(id, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Label updated successfully',
+        { label }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/labels/:id
+   * Delete a label and detach it from its tasks
+   */
+  async deleteLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Label ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const { detachedTasksCount } = await labelService.deleteLabel(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Label deleted successfully',
+        { label_id: id, detached_tasks_count: detachedTasksCount }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const labelController = new LabelController();
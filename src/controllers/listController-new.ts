@@ -8,8 +8,10 @@ import {
 } from '../models';
 import { listService } from '../services';
 import { logger } from '../utils/logger';
+import { parseLabelFilter } from '../utils/labelFilter';
 import { 
   createApiResponse,
+  createErrorResponse,
   createValidationErrorResponse,
   ValidationError
 } from '../models/responses';
@@ -28,6 +30,7 @@ export class ListController {
       // Extract query parameters
       const {
         search,
+        workspace_id,
         sort_field,
         sort_order,
         page = '1',
@@ -58,6 +61,7 @@ export class ListController {
       // Build filter parameters
       const filters: ListFilterParams = {};
       if (search) filters.search = String(search);
+      if (workspace_id) filters.workspace_id = workspace_id === 'personal' ? null : String(workspace_id);
 
       // Build sort parameters
       let sort: SortParams | undefined;
@@ -69,7 +73,7 @@ export class ListController {
       }
 
       // Get lists from service
-      const result = await listService.getAllLists(filters, sort, pageNum, limitNum);
+      const result = await listService.getAllLists(filters, sort, pageNum, limitNum, req.user);
 
       // Create successful response
       const response = createApiResponse(
@@ -110,7 +114,7 @@ export class ListController {
         return;
       }
       
-      const list = await listService.getListById(id);
+      const list = await listService.getListById(id, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -124,14 +128,53 @@ export class ListController {
     }
   }
 
+  /**
+   * GET /api/lists/:id/stats
+   * Get task statistics for a specific list
+   */
+  async getListStatistics(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid list ID', [
+          { field: 'id', message: 'List ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+      
+      const { list, stats } = await listService.getListStatistics(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'List statistics retrieved successfully',
+        { list, stats }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /api/lists
    * Create a new list
    */
   async createList(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
       const input: CreateListInput = req.body;
-      const list = await listService.createList(input);
+      const list = await listService.createList(input, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.CREATED,
@@ -162,7 +205,7 @@ export class ListController {
       }
       
       const input: UpdateListInput = req.body;
-      const list = await listService.updateList(id, input);
+      const list = await listService.updateList(id, input, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -192,7 +235,7 @@ export class ListController {
         return;
       }
       
-      await listService.deleteList(id);
+      await listService.deleteList(id, {}, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -227,6 +270,7 @@ export class ListController {
         priority,
         deadline_from,
         deadline_to,
+        labels,
         sort_field,
         sort_order,
         page = '1',
@@ -271,10 +315,12 @@ export class ListController {
           priority: priority ? String(priority) as any : undefined,
           deadline_from: deadline_from ? new Date(String(deadline_from)) : undefined,
           deadline_to: deadline_to ? new Date(String(deadline_to)) : undefined,
+          labels: labels ? parseLabelFilter(String(labels)) : undefined,
         },
         sort,
         pageNum,
-        limitNum
+        limitNum,
+        req.user
       );
 
       // Create successful response
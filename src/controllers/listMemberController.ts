@@ -0,0 +1,147 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponseCode, AddListMemberInput } from '../models';
+import { listMemberService } from '../services';
+import {
+  createApiResponse,
+  createErrorResponse
+} from '../models/responses';
+
+/**
+ * Controller for list sharing endpoints
+ * Handles request/response cycle and delegates business logic to services
+ */
+export class ListMemberController {
+  /**
+   * GET /api/lists/:id/members
+   * Get the owner and members of a list
+   */
+  async getMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'List ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const members = await listMemberService.getMembers(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'List members retrieved successfully',
+        { members }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/lists/:id/members
+   * Share a list with a user by email
+   */
+  async addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'List ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: AddListMemberInput = {
+        email: req.body.email,
+        role: req.body.role,
+      };
+
+      const member = await listMemberService.addMember(id, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.CREATED,
+        'List shared successfully',
+        { member }
+      );
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/lists/:id/members/:userId
+   * Change the access level of a member
+   */
+  async updateMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      if (!id || !userId || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'List ID, user ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const member = await listMemberService.updateMember(id, userId, req.body.role, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'List member updated successfully',
+        { member }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/lists/:id/members/:userId
+   * Stop sharing a list with a member, or leave a shared list
+   */
+  async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      if (!id || !userId || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'List ID, user ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      await listMemberService.removeMember(id, userId, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'List member removed successfully',
+        { list_id: id, user_id: userId }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const listMemberController = new ListMemberController();
+
+export default listMemberController;
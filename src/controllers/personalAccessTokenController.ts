@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponseCode, CreatePersonalAccessTokenInput } from '../models';
+import { personalAccessTokenService } from '../services';
+import { 
+  createApiResponse,
+  createErrorResponse
+} from '../models/responses';
+
+/**
+ * Controller for personal access token endpoints
+ * Tokens are always managed for the authenticated user
+ */
+export class PersonalAccessTokenController {
+  /**
+   * GET /api/tokens
+   * Get the personal access tokens of the current user
+   */
+  async getTokens(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const tokens = await personalAccessTokenService.getTokens(req.user.id);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Personal access tokens retrieved successfully',
+        { tokens }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tokens
+   * Create a personal access token for the current user
+   */
+  async createToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const input: CreatePersonalAccessTokenInput = {
+        name: req.body.name.trim(),
+        scopes: req.body.scopes,
+        ...(req.body.expires_at && { expires_at: new Date(req.body.expires_at) }),
+      };
+
+      const { token, info } = await personalAccessTokenService.createToken(req.user.id, input);
+
+      const response = createApiResponse(
+        ApiResponseCode.CREATED,
+        'Personal access token created successfully, copy it now as it will not be shown again',
+        { token, tokenInfo: info }
+      );
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tokens/:id
+   * Revoke a personal access token of the current user
+   */
+  async revokeToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Token ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      await personalAccessTokenService.revokeToken(id, req.user.id);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Personal access token revoked successfully',
+        { tokenId: id }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const personalAccessTokenController = new PersonalAccessTokenController();
+
+export default personalAccessTokenController;
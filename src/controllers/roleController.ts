@@ -0,0 +1,203 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponseCode, CreateRoleInput, UpdateRoleInput } from '../models';
+import { roleService } from '../services';
+import {
+  createApiResponse,
+  createErrorResponse
+} from '../models/responses';
+
+/**
+ * Controller for role management endpoints
+ * Handles request/response cycle and delegates business logic to services
+ */
+export class RoleController {
+  /**
+   * GET /api/roles
+   * Get all built-in and custom roles
+   */
+  async getRoles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roles = await roleService.getRoles();
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Roles retrieved successfully',
+        { roles }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/roles/:name
+   * Get a specific role
+   */
+  async getRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      if (!name) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Role name is required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const role = await roleService.getRole(name);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Role retrieved successfully',
+        { role }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/roles
+   * Create a custom role
+   */
+  async createRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const description = req.body.description?.trim();
+      const input: CreateRoleInput = {
+        name: req.body.name,
+        permissions: req.body.permissions,
+        ...(description && { description }),
+      };
+
+      const role = await roleService.createRole(input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.CREATED,
+        'Role created successfully',
+        { role }
+      );
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/roles/:name
+   * Update the description or permissions of a custom role
+   */
+  async updateRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      if (!name || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Role name and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: UpdateRoleInput = {
+        ...(req.body.description !== undefined && { description: req.body.description.trim() }),
+        ...(req.body.permissions && { permissions: req.body.permissions }),
+      };
+
+      const role = await roleService.updateRole(name, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Role updated successfully',
+        { role }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/roles/:name/two-factor
+   * Require or stop requiring two-factor authentication for a role
+   */
+  async setTwoFactorRequirement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      if (!name || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Role name and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const role = await roleService.setTwoFactorRequired(name, req.body.required, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Role two-factor requirement updated successfully',
+        { role }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/roles/:name
+   * Delete a custom role that no user holds
+   */
+  async deleteRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name } = req.params;
+
+      if (!name || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Role name and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      await roleService.deleteRole(name, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Role deleted successfully',
+        { role: name }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const roleController = new RoleController();
+
+export default roleController;
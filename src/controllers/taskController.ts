@@ -6,12 +6,19 @@ import {
   SortParams,
   TaskStatus,
   TaskPriority,
-  ApiResponseCode
+  ApiResponseCode,
+  BulkTaskOperationInput,
+  CreateChecklistItemInput,
+  UpdateChecklistItemInput,
+  SubtaskDeletionMode,
+  RecurrenceRuleInput
 } from '../models';
 import { taskService } from '../services';
 import { logger } from '../utils/logger';
+import { parseLabelFilter } from '../utils/labelFilter';
 import { 
   createApiResponse,
+  createErrorResponse,
   createValidationErrorResponse,
   ValidationError
 } from '../models/responses';
@@ -35,6 +42,7 @@ export class TaskController {
         search,
         deadline_from,
         deadline_to,
+        labels,
         sort_field,
         sort_order,
         page = '1',
@@ -70,6 +78,7 @@ export class TaskController {
       if (search) filters.search = String(search);
       if (deadline_from) filters.deadline_from = new Date(String(deadline_from));
       if (deadline_to) filters.deadline_to = new Date(String(deadline_to));
+      if (labels) filters.labels = parseLabelFilter(String(labels));
 
       // Build sort parameters
       let sort: SortParams | undefined;
@@ -81,7 +90,7 @@ export class TaskController {
       }
 
       // Get tasks from service
-      const result = await taskService.getAllTasks(filters, sort, pageNum, limitNum);
+      const result = await taskService.getAllTasks(filters, sort, pageNum, limitNum, req.user);
 
       // Create successful response
       const response = createApiResponse(
@@ -123,7 +132,7 @@ export class TaskController {
         return;
       }
       
-      const task = await taskService.getTaskById(id);
+      const task = await taskService.getTaskById(id, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -144,7 +153,7 @@ export class TaskController {
   async createTask(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const input: CreateTaskInput = req.body;
-      const task = await taskService.createTask(input);
+      const task = await taskService.createTask(input, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.CREATED,
@@ -175,7 +184,7 @@ export class TaskController {
       }
       
       const input: UpdateTaskInput = req.body;
-      const task = await taskService.updateTask(id, input);
+      const task = await taskService.updateTask(id, input, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -205,12 +214,16 @@ export class TaskController {
         return;
       }
       
-      await taskService.deleteTask(id);
+      const subtasks: SubtaskDeletionMode = req.query.subtasks === 'reparent' ? 'reparent' : 'delete';
+      const { deletedSubtasksCount, reparentedSubtasksCount } = await taskService.deleteTask(id, req.user, subtasks);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
         'Task deleted successfully',
-        null
+        {
+          deleted_subtasks_count: deletedSubtasksCount,
+          reparented_subtasks_count: reparentedSubtasksCount,
+        }
       );
 
       res.status(200).json(response);
@@ -221,7 +234,7 @@ export class TaskController {
 
   /**
    * PATCH /api/tasks/:id/complete
-   * Mark a task as completed
+   * Mark a task as completed, with `force=true` even while it has pending blockers
    */
   async completeTask(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -235,7 +248,7 @@ export class TaskController {
         return;
       }
       
-      const task = await taskService.completeTask(id);
+      const task = await taskService.completeTask(id, req.user, req.query.force === 'true');
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -265,7 +278,7 @@ export class TaskController {
         return;
       }
       
-      const task = await taskService.uncompleteTask(id);
+      const task = await taskService.uncompleteTask(id, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -279,6 +292,470 @@ export class TaskController {
     }
   }
 
+  /**
+   * GET /api/tasks/workflow
+   * Get the workflow states and their allowed transitions
+   */
+  async getWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const workflow = taskService.getWorkflow();
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workflow retrieved successfully',
+        { workflow }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/tasks/:id/state
+   * Move a task to another workflow state
+   */
+  async transitionTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.transitionTask(id, req.body.state, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Task state changed successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/tasks/:id/labels/:labelId
+   * Attach a label to a task
+   */
+  async addLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, labelId } = req.params;
+
+      if (!id || !labelId) {
+        const response = createValidationErrorResponse('Invalid task or label ID', [
+          { field: 'id', message: 'Task ID and label ID are required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.addLabel(id, labelId, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Label attached successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/labels/:labelId
+   * Detach a label from a task
+   */
+  async removeLabel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, labelId } = req.params;
+
+      if (!id || !labelId) {
+        const response = createValidationErrorResponse('Invalid task or label ID', [
+          { field: 'id', message: 'Task ID and label ID are required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.removeLabel(id, labelId, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Label detached successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/tasks/:id/subtasks
+   * Get the direct subtasks of a task
+   */
+  async getSubtasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const subtasks = await taskService.getSubtasks(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Subtasks retrieved successfully',
+        { subtasks }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tasks/:id/checklist
+   * Add an item to the checklist of a task
+   */
+  async addChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: CreateChecklistItemInput = req.body;
+      const task = await taskService.addChecklistItem(id, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.CREATED,
+        'Checklist item added successfully',
+        { task }
+      );
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/tasks/:id/checklist/:itemId
+   * Change, check or move a checklist item
+   */
+  async updateChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, itemId } = req.params;
+
+      if (!id || !itemId) {
+        const response = createValidationErrorResponse('Invalid task or checklist item ID', [
+          { field: 'id', message: 'Task ID and checklist item ID are required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: UpdateChecklistItemInput = req.body;
+      const task = await taskService.updateChecklistItem(id, itemId, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Checklist item updated successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/checklist/:itemId
+   * Remove an item from the checklist of a task
+   */
+  async removeChecklistItem(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, itemId } = req.params;
+
+      if (!id || !itemId) {
+        const response = createValidationErrorResponse('Invalid task or checklist item ID', [
+          { field: 'id', message: 'Task ID and checklist item ID are required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.removeChecklistItem(id, itemId, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Checklist item removed successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tasks/:id/dependencies
+   * Mark a task as blocked by another task
+   */
+  async addDependency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.addDependency(id, req.body.blocker_id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Dependency added successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/dependencies/:blockerId
+   * Remove a blocker from a task
+   */
+  async removeDependency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, blockerId } = req.params;
+
+      if (!id || !blockerId) {
+        const response = createValidationErrorResponse('Invalid task or blocker ID', [
+          { field: 'id', message: 'Task ID and blocker ID are required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.removeDependency(id, blockerId, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Dependency removed successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/tasks/:id/dependency-graph
+   * Get the tasks a task depends on and the tasks depending on it
+   */
+  async getDependencyGraph(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const graph = await taskService.getDependencyGraph(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Dependency graph retrieved successfully',
+        { graph }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/tasks/:id/recurrence
+   * Make a task recur, or replace its recurrence rule
+   */
+  async setRecurrence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: RecurrenceRuleInput = {
+        frequency: req.body.frequency,
+        ...(req.body.interval !== undefined && { interval: req.body.interval }),
+        ...(req.body.by_weekday && { by_weekday: req.body.by_weekday }),
+        ...(req.body.by_month_day !== undefined && { by_month_day: req.body.by_month_day }),
+        ...(req.body.until && { until: new Date(req.body.until) }),
+        ...(req.body.count !== undefined && { count: req.body.count }),
+      };
+
+      const task = await taskService.setRecurrence(id, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Recurrence set successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tasks/:id/recurrence/skip
+   * Skip the current occurrence of a recurring task
+   */
+  async skipOccurrence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.skipOccurrence(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Occurrence skipped successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/tasks/:id/recurrence
+   * End the series of a recurring task
+   */
+  async endRecurrence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        const response = createValidationErrorResponse('Invalid task ID', [
+          { field: 'id', message: 'Task ID is required' }
+        ]);
+        res.status(400).json(response);
+        return;
+      }
+
+      const task = await taskService.endRecurrence(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Recurrence ended successfully',
+        { task }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/tasks/bulk
+   * Apply one operation (status, priority, move, deadline shift, delete) to many tasks
+   */
+  async bulkUpdateTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taskIds, operation = 'status', status, priority, list_id, deadline_shift_days, atomic } = req.body;
+
+      const input: BulkTaskOperationInput = {
+        taskIds,
+        operation,
+        ...(status && { status: status as TaskStatus }),
+        ...(priority && { priority: priority as TaskPriority }),
+        ...(list_id && { list_id }),
+        ...(deadline_shift_days !== undefined && { deadline_shift_days: Number(deadline_shift_days) }),
+        atomic: atomic === true,
+      };
+
+      const result = await taskService.bulkUpdateTasks(input, req.user);
+
+      // In atomic mode nothing was changed, report the per-task errors as a conflict
+      if (result.summary.rolledBack) {
+        const response = createErrorResponse(
+          ApiResponseCode.CONFLICT,
+          'Bulk operation rolled back because some tasks failed',
+          { failed: result.failed, summary: result.summary }
+        );
+        res.status(409).json(response);
+        return;
+      }
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Bulk operation completed',
+        result
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /api/tasks/due-this-week
    * Get tasks due this week
@@ -289,6 +766,7 @@ export class TaskController {
         list_id,
         status,
         priority,
+        labels,
         sort_field,
         sort_order,
         page = '1',
@@ -321,6 +799,7 @@ export class TaskController {
       if (list_id) filters.list_id = String(list_id);
       if (status) filters.status = String(status) as TaskStatus;
       if (priority) filters.priority = String(priority) as TaskPriority;
+      if (labels) filters.labels = parseLabelFilter(String(labels));
 
       // Build sort parameters
       let sort: SortParams | undefined;
@@ -332,7 +811,7 @@ export class TaskController {
       }
 
       // Get tasks due this week from service
-      const result = await taskService.getTasksDueThisWeek(filters, sort, pageNum, limitNum);
+      const result = await taskService.getTasksDueThisWeek(filters, sort, pageNum, limitNum, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -370,6 +849,7 @@ export class TaskController {
         list_id,
         status,
         priority,
+        labels,
         include_null_deadlines = 'false',
         page = '1',
         limit = '50'
@@ -402,13 +882,15 @@ export class TaskController {
       if (list_id) filters.list_id = String(list_id);
       if (status) filters.status = String(status) as TaskStatus;
       if (priority) filters.priority = String(priority) as TaskPriority;
+      if (labels) filters.labels = parseLabelFilter(String(labels));
 
       // Get tasks by deadline from service
       const result = await taskService.getTasksByDeadline(
         filters,
         pageNum,
         limitNum,
-        includeNullDeadlines
+        includeNullDeadlines,
+        req.user
       );
 
       const response = createApiResponse(
@@ -443,6 +925,7 @@ export class TaskController {
       const {
         list_id,
         priority,
+        labels,
         sort_field,
         sort_order,
         page = '1',
@@ -474,6 +957,7 @@ export class TaskController {
       const filters: Omit<TaskFilterParams, 'deadline_to' | 'status'> = {};
       if (list_id) filters.list_id = String(list_id);
       if (priority) filters.priority = String(priority) as TaskPriority;
+      if (labels) filters.labels = parseLabelFilter(String(labels));
 
       // Build sort parameters
       let sort: SortParams | undefined;
@@ -485,7 +969,7 @@ export class TaskController {
       }
 
       // Get overdue tasks from service
-      const result = await taskService.getOverdueTasks(filters, sort, pageNum, limitNum);
+      const result = await taskService.getOverdueTasks(filters, sort, pageNum, limitNum, req.user);
 
       const response = createApiResponse(
         ApiResponseCode.SUCCESS,
@@ -519,6 +1003,7 @@ export class TaskController {
       const {
         list_id,
         status,
+        labels,
         sort_field,
         sort_order,
         page = '1',
@@ -559,6 +1044,7 @@ export class TaskController {
       const filters: Omit<TaskFilterParams, 'priority'> = {};
       if (list_id) filters.list_id = String(list_id);
       if (status) filters.status = String(status) as TaskStatus;
+      if (labels) filters.labels = parseLabelFilter(String(labels));
 
       // Build sort parameters
       let sort: SortParams | undefined;
@@ -575,7 +1061,8 @@ export class TaskController {
         filters,
         sort,
         pageNum,
-        limitNum
+        limitNum,
+        req.user
       );
 
       const response = createApiResponse(
@@ -0,0 +1,338 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponseCode, CreateWorkspaceInput, UpdateWorkspaceInput, AddWorkspaceMemberInput } from '../models';
+import { workspaceService } from '../services';
+import {
+  createApiResponse,
+  createErrorResponse
+} from '../models/responses';
+
+/**
+ * Controller for workspace endpoints
+ * Handles request/response cycle and delegates business logic to services
+ */
+export class WorkspaceController {
+  /**
+   * GET /api/workspaces
+   * Get the workspaces of the authenticated user
+   */
+  async getWorkspaces(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const workspaces = await workspaceService.getWorkspaces(req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workspaces retrieved successfully',
+        { workspaces }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/workspaces
+   * Create a workspace owned by the authenticated user
+   */
+  async createWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const description = req.body.description?.trim();
+      const input: CreateWorkspaceInput = {
+        name: req.body.name,
+        ...(description && { description }),
+      };
+
+      const workspace = await workspaceService.createWorkspace(input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.CREATED,
+        'Workspace created successfully',
+        { workspace }
+      );
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/workspaces/active
+   * Switch to a workspace, or back to personal lists
+   */
+  async switchWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      const workspace = await workspaceService.switchWorkspace(req.body.workspace_id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        workspace ? 'Switched workspace successfully' : 'Switched to personal lists successfully',
+        { workspace }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/workspaces/:id
+   * Get a specific workspace
+   */
+  async getWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Workspace ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const workspace = await workspaceService.getWorkspace(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workspace retrieved successfully',
+        { workspace }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/workspaces/:id
+   * Rename a workspace or change its description
+   */
+  async updateWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Workspace ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: UpdateWorkspaceInput = {
+        ...(req.body.name && { name: req.body.name }),
+        ...(req.body.description !== undefined && { description: req.body.description }),
+      };
+
+      const workspace = await workspaceService.updateWorkspace(id, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workspace updated successfully',
+        { workspace }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/workspaces/:id
+   * Delete a workspace with its lists and tasks
+   */
+  async deleteWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Workspace ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const { deletedListsCount } = await workspaceService.deleteWorkspace(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workspace deleted successfully',
+        { workspace_id: id, deleted_lists_count: deletedListsCount }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/workspaces/:id/members
+   * Get the members of a workspace
+   */
+  async getMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Workspace ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const members = await workspaceService.getMembers(id, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workspace members retrieved successfully',
+        { members }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/workspaces/:id/members
+   * Add a user to a workspace by email
+   */
+  async addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Workspace ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const input: AddWorkspaceMemberInput = {
+        email: req.body.email,
+        role: req.body.role,
+      };
+
+      const member = await workspaceService.addMember(id, input, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.CREATED,
+        'Workspace member added successfully',
+        { member }
+      );
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/workspaces/:id/members/:userId
+   * Change the role of a workspace member
+   */
+  async updateMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      if (!id || !userId || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Workspace ID, user ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      const member = await workspaceService.updateMember(id, userId, req.body.role, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workspace member updated successfully',
+        { member }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/workspaces/:id/members/:userId
+   * Remove a member from a workspace, or leave a workspace
+   */
+  async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+
+      if (!id || !userId || !req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.BAD_REQUEST,
+          'Workspace ID, user ID and authentication are required'
+        );
+        res.status(400).json(response);
+        return;
+      }
+
+      await workspaceService.removeMember(id, userId, req.user);
+
+      const response = createApiResponse(
+        ApiResponseCode.SUCCESS,
+        'Workspace member removed successfully',
+        { workspace_id: id, user_id: userId }
+      );
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Create and export singleton instance
+export const workspaceController = new WorkspaceController();
+
+export default workspaceController;
@@ -0,0 +1,9 @@
+// Re-export key modules
+export { createJwtKeySet } from './keySetFactory';
+export * from './jwtKeySet';
+
+// Export the configured key set instance
+export { default as jwtKeySet } from './keySetFactory';
+
+// Export default as the main key set
+export { default } from './keySetFactory';
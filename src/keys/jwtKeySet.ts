@@ -0,0 +1,121 @@
+import jwt from 'jsonwebtoken';
+import { KeyObject, JsonWebKey } from 'crypto';
+
+/**
+ * Supported JWT signing algorithms
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Key used to sign or verify access tokens
+ * Keys without a signing key are kept to verify tokens issued before a rotation
+ */
+export interface JwtKey {
+  kid: string; // Key ID, sent in the `kid` header of every token signed with the key
+  algorithm: JwtAlgorithm;
+  signingKey?: KeyObject | string; // Private key (or shared secret for HS256)
+  verificationKey: KeyObject | string; // Public key (or shared secret for HS256)
+}
+
+/**
+ * Public key as published in the JWKS document
+ */
+export type PublicJwk = JsonWebKey & {
+  kid: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+};
+
+/**
+ * Set of keys for access tokens
+ * Tokens are signed with the active key and verified with the key named by their `kid` header,
+ * so tokens signed with an earlier key stay valid while it remains in the set.
+ */
+export class JwtKeySet {
+  private readonly keys: Map<string, JwtKey>;
+  private readonly activeKey: JwtKey;
+
+  constructor(keys: JwtKey[], activeKid: string) {
+    this.keys = new Map(keys.map(key => [key.kid, key]));
+
+    const activeKey = this.keys.get(activeKid);
+    if (!activeKey || !activeKey.signingKey) {
+      throw new Error(`JWT signing key '${activeKid}' not found or has no private key`);
+    }
+    this.activeKey = activeKey;
+  }
+
+  /**
+   * ID of the key new tokens are signed with
+   */
+  get activeKid(): string {
+    return this.activeKey.kid;
+  }
+
+  /**
+   * Sign a token with the active key
+   */
+  sign(payload: object, options: jwt.SignOptions = {}): string {
+    return jwt.sign(payload, this.activeKey.signingKey!, {
+      ...options,
+      algorithm: this.activeKey.algorithm,
+      keyid: this.activeKey.kid,
+    });
+  }
+
+  /**
+   * Verify a token with the key named in its header
+   * Throws for unknown keys, invalid signatures and expired tokens
+   */
+  verify(token: string, options: jwt.VerifyOptions = {}): jwt.JwtPayload {
+    const decoded = jwt.decode(token, { complete: true });
+    if (!decoded) {
+      throw new jwt.JsonWebTokenError('jwt malformed');
+    }
+
+    const key = this.findVerificationKey(decoded.header.kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+
+    return jwt.verify(token, key.verificationKey, {
+      ...options,
+      algorithms: [key.algorithm],
+    }) as jwt.JwtPayload;
+  }
+
+  /**
+   * Public keys for other services to verify tokens with (RFC 7517)
+   * Shared secrets are never published
+   */
+  getJwks(): { keys: PublicJwk[] } {
+    const keys: PublicJwk[] = [];
+
+    for (const key of this.keys.values()) {
+      if (typeof key.verificationKey === 'string') {
+        continue;
+      }
+
+      keys.push({
+        ...key.verificationKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      });
+    }
+
+    return { keys };
+  }
+
+  /**
+   * Find the key for a `kid` header
+   * Tokens without one predate key IDs and were signed with the shared secret
+   */
+  private findVerificationKey(kid: string | undefined): JwtKey | undefined {
+    if (kid === undefined) {
+      return [...this.keys.values()].find(key => key.algorithm === 'HS256');
+    }
+
+    return this.keys.get(kid);
+  }
+}
@@ -0,0 +1,119 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createPrivateKey, createPublicKey, randomBytes, KeyObject } from 'crypto';
+import { logger } from '../utils/logger';
+import { JwtKey, JwtKeySet, JwtAlgorithm } from './jwtKeySet';
+
+// Key ID of the shared secret
+const SECRET_KEY_ID = 'default';
+
+/**
+ * Get the signing algorithm for a public key
+ * Returns null for key types that are not supported
+ */
+const getAlgorithm = (publicKey: KeyObject): JwtAlgorithm | null => {
+  if (publicKey.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (publicKey.asymmetricKeyType === 'ec' && publicKey.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  return null;
+};
+
+/**
+ * Load the keys stored as PEM files in a directory
+ * The file name without `.pem` (or `.pub.pem`) is the key ID. Private keys can sign and verify;
+ * public keys only verify, which keeps tokens of a retired key valid until they expire.
+ */
+const loadKeys = (directory: string): JwtKey[] => {
+  const keys = new Map<string, JwtKey>();
+
+  const fileNames = readdirSync(directory)
+    .filter(fileName => fileName.endsWith('.pem'))
+    .sort();
+
+  for (const fileName of fileNames) {
+    const kid = fileName.replace(/(\.pub)?\.pem$/, '');
+    const pem = readFileSync(join(directory, fileName), 'utf8');
+
+    const privateKey = pem.includes('PRIVATE KEY') ? createPrivateKey(pem) : undefined;
+    const publicKey = createPublicKey(privateKey ?? pem);
+
+    const algorithm = getAlgorithm(publicKey);
+    if (!algorithm) {
+      logger.warn('Skipping JWT key of unsupported type, use RSA or EC P-256 keys', { kid, fileName });
+      continue;
+    }
+
+    // A private key covers the public key stored next to it
+    if (keys.get(kid)?.signingKey) {
+      continue;
+    }
+
+    keys.set(kid, {
+      kid,
+      algorithm,
+      ...(privateKey && { signingKey: privateKey }),
+      verificationKey: publicKey,
+    });
+  }
+
+  return [...keys.values()];
+};
+
+/**
+ * Create the key set selected by environment configuration
+ * With JWT_KEYS_DIR tokens are signed with RS256/ES256 keys from that directory, and JWT_SECRET
+ * only verifies tokens it signed earlier; otherwise they are signed with the JWT_SECRET shared secret (HS256).
+ */
+export const createJwtKeySet = (
+  keysDirectory: string | undefined = process.env.JWT_KEYS_DIR
+): JwtKeySet => {
+  if (!keysDirectory) {
+    let secret = process.env.JWT_SECRET;
+    if (!secret) {
+      // A random secret is safer than a known default; tokens stop working on restart
+      secret = randomBytes(32).toString('hex');
+      logger.warn('Neither JWT_KEYS_DIR nor JWT_SECRET is set, using a random secret that changes on every restart');
+    }
+
+    return new JwtKeySet(
+      [{ kid: SECRET_KEY_ID, algorithm: 'HS256', signingKey: secret, verificationKey: secret }],
+      SECRET_KEY_ID
+    );
+  }
+
+  const keys = loadKeys(keysDirectory);
+  const signingKeys = keys.filter(key => key.signingKey);
+  if (signingKeys.length === 0) {
+    logger.error('No JWT private key found', { directory: keysDirectory });
+    throw new Error(`No JWT private key found in ${keysDirectory}`);
+  }
+
+  // A shared secret left in place keeps verifying the tokens it signed before the switch, but signs nothing
+  const legacySecret = process.env.JWT_SECRET;
+  if (legacySecret && !keys.some(key => key.kid === SECRET_KEY_ID)) {
+    keys.push({ kid: SECRET_KEY_ID, algorithm: 'HS256', verificationKey: legacySecret });
+  }
+
+  // Without an explicit choice the last private key in file name order signs
+  const activeKid = process.env.JWT_ACTIVE_KEY_ID || signingKeys[signingKeys.length - 1]!.kid;
+
+  const keySet = new JwtKeySet(keys, activeKid);
+
+  logger.info('JWT keys loaded', {
+    directory: keysDirectory,
+    keyIds: keys.map(key => key.kid),
+    activeKeyId: keySet.activeKid,
+  });
+
+  return keySet;
+};
+
+// Create and export singleton instance
+const jwtKeySet = createJwtKeySet();
+
+export default jwtKeySet;
@@ -0,0 +1,10 @@
+// Re-export mail modules
+export { OutboxTransport } from './outboxTransport';
+export { createMailTransport } from './mailFactory';
+export * from './mailTransport';
+
+// Export the configured mail transport instance
+export { default as mailTransport } from './mailFactory';
+
+// Export default as the main mail transport
+export { default } from './mailFactory';
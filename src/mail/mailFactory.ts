@@ -0,0 +1,25 @@
+import { logger } from '../utils/logger';
+import { OutboxTransport } from './outboxTransport';
+import { MailTransport, MailTransportType } from './mailTransport';
+
+/**
+ * Create the mail transport selected by environment configuration
+ */
+export const createMailTransport = (
+  type: string = process.env.MAIL_TRANSPORT || 'outbox'
+): MailTransport => {
+  const from = process.env.MAIL_FROM || 'no-reply@todoapi.com';
+
+  switch (type as MailTransportType) {
+    case 'outbox':
+      return new OutboxTransport(process.env.MAIL_OUTBOX_DIR || './data/outbox', from);
+    default:
+      logger.error('Unsupported mail transport', { type });
+      throw new Error(`Unsupported mail transport: ${type}`);
+  }
+};
+
+// Create and export singleton instance
+const mailTransport = createMailTransport();
+
+export default mailTransport;
@@ -0,0 +1,20 @@
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Mail transport contract implemented by every delivery adapter
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Supported mail transport types
+ */
+export type MailTransportType = 'outbox';
@@ -0,0 +1,64 @@
+import { writeFile, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { MailMessage, MailTransport } from './mailTransport';
+
+const writeFileAsync = promisify(writeFile);
+
+/**
+ * Mail transport that writes each message as a JSON file to a local outbox directory
+ * Used for development and tests where no SMTP server is available
+ */
+export class OutboxTransport implements MailTransport {
+  private directory: string;
+  private from: string;
+
+  constructor(directory: string, from: string) {
+    this.directory = directory;
+    this.from = from;
+    this.ensureDirectoryExists();
+  }
+
+  /**
+   * Write a message to the outbox
+   * File names start with the send time so the outbox lists in delivery order
+   */
+  async send(message: MailMessage): Promise<void> {
+    const sentAt = new Date();
+    const fileName = `${sentAt.toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.json`;
+    const filePath = join(this.directory, fileName);
+
+    await writeFileAsync(
+      filePath,
+      JSON.stringify({ from: this.from, ...message, sent_at: sentAt.toISOString() }, null, 2),
+      'utf8'
+    );
+
+    logger.info('Mail written to outbox', {
+      to: message.to,
+      subject: message.subject,
+      filePath,
+    });
+  }
+
+  /**
+   * Get current outbox directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * Ensure the outbox directory exists
+   */
+  private ensureDirectoryExists(): void {
+    if (!existsSync(this.directory)) {
+      mkdirSync(this.directory, { recursive: true });
+      logger.debug('Created mail outbox directory', { directory: this.directory });
+    }
+  }
+}
+
+export default OutboxTransport;
@@ -1,76 +1,214 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { ApiResponseCode } from '../models';
+import { ApiResponseCode, AuthUser, AccessTokenClaims, TokenScope, Permission } from '../models';
 import { createErrorResponse } from '../models/responses';
+import { revokedTokenRepository, personalAccessTokenRepository, userRepository, roleRepository } from '../repositories';
+import { jwtKeySet } from '../keys';
 import { logger } from '../utils/logger';
 
-// Extend Request interface to include user
+// Extend Request interface to include user, token claims and scopes
 declare global {
   namespace Express {
     interface Request {
-      user?: {
-        id: string;
-        email: string;
-        role: string;
-      };
+      user?: AuthUser;
+      tokenClaims?: AccessTokenClaims; // Set for JWT sessions
+      tokenScopes?: TokenScope[]; // Set for personal access tokens
+      requiredScopes?: TokenScope[]; // Declared by requireScope
     }
   }
 }
 
+// Last-used timestamps are only written when older than this, to avoid a write per request
+const TOKEN_USAGE_UPDATE_INTERVAL_MS = 60 * 1000;
+
 /**
- * JWT Authentication middleware
- * Verifies JWT tokens and adds user info to request
+ * Declare the scopes a route requires from personal access tokens
+ * Must come before authenticateToken. Routes that declare no scopes reject personal access
+ * tokens; JWT sessions are not limited by scopes.
  */
-export const authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
+export const requireScope = (...scopes: TokenScope[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    req.requiredScopes = scopes;
+    next();
+  };
+};
+
+/**
+ * Authenticate a request with a personal access token
+ */
+const authenticatePersonalAccessToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string
+): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const accessToken = await personalAccessTokenRepository.findByToken(token);
+    const now = new Date();
 
-    if (!token) {
+    if (!accessToken || (accessToken.expires_at && accessToken.expires_at <= now)) {
       const response = createErrorResponse(
         ApiResponseCode.UNAUTHORIZED,
-        'Access token is required'
+        'Invalid or expired access token'
       );
       res.status(401).json(response);
       return;
     }
 
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      logger.error('JWT_SECRET environment variable is not set');
+    const user = await userRepository.findById(accessToken.user_id);
+    if (!user) {
       const response = createErrorResponse(
-        ApiResponseCode.INTERNAL_ERROR,
-        'Authentication service unavailable'
+        ApiResponseCode.UNAUTHORIZED,
+        'Invalid or expired access token'
       );
-      res.status(500).json(response);
+      res.status(401).json(response);
       return;
     }
 
-    jwt.verify(token, jwtSecret, (err: any, decoded: any) => {
-      if (err) {
-        const response = createErrorResponse(
-          ApiResponseCode.UNAUTHORIZED,
-          'Invalid or expired access token'
-        );
-        res.status(401).json(response);
-        return;
-      }
+    if (!req.requiredScopes) {
+      const response = createErrorResponse(
+        ApiResponseCode.FORBIDDEN,
+        'Personal access tokens cannot be used for this endpoint'
+      );
+      res.status(403).json(response);
+      return;
+    }
 
-      // Add user info to request
-      req.user = {
-        id: decoded.id,
-        email: decoded.email,
-        role: decoded.role || 'user',
-      };
-
-      logger.debug('User authenticated successfully', {
-        userId: req.user.id,
-        email: req.user.email,
-        role: req.user.role,
+    const missingScopes = req.requiredScopes.filter(scope => !accessToken.scopes.includes(scope));
+    if (missingScopes.length > 0) {
+      logger.warn('Personal access token missing required scopes', {
+        userId: user.id,
+        tokenId: accessToken.id,
+        missingScopes,
+        resource: req.originalUrl,
       });
 
-      next();
+      const response = createErrorResponse(
+        ApiResponseCode.FORBIDDEN,
+        `Token is missing required scope: ${missingScopes.join(', ')}`
+      );
+      res.status(403).json(response);
+      return;
+    }
+
+    if (!accessToken.last_used_at || now.getTime() - accessToken.last_used_at.getTime() >= TOKEN_USAGE_UPDATE_INTERVAL_MS) {
+      await personalAccessTokenRepository.touch(accessToken.id, now);
+    }
+
+    // Role and email come from the stored user, so changes apply to existing tokens
+    req.user = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      permissions: await roleRepository.getPermissions(user.role),
+    };
+    req.tokenScopes = accessToken.scopes;
+
+    logger.debug('User authenticated with personal access token', {
+      userId: user.id,
+      tokenId: accessToken.id,
     });
+
+    next();
+  } catch (error) {
+    logger.error('Personal access token authentication error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    const response = createErrorResponse(
+      ApiResponseCode.INTERNAL_ERROR,
+      'Authentication failed'
+    );
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Authenticate a request with a JWT access token
+ * The token is verified with the key named in its header, see JwtKeySet
+ */
+const authenticateJwt = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string
+): Promise<void> => {
+  let decoded: any;
+  try {
+    decoded = jwtKeySet.verify(token);
+  } catch (error) {
+    const response = createErrorResponse(
+      ApiResponseCode.UNAUTHORIZED,
+      'Invalid or expired access token'
+    );
+    res.status(401).json(response);
+    return;
+  }
+
+  const role = decoded.role || roleRepository.defaultRole;
+  let permissions: Permission[];
+  try {
+    if (await revokedTokenRepository.isRevoked(decoded)) {
+      const response = createErrorResponse(
+        ApiResponseCode.UNAUTHORIZED,
+        'Access token has been revoked'
+      );
+      res.status(401).json(response);
+      return;
+    }
+
+    // Permissions are resolved per request, so changes to a role apply immediately
+    permissions = await roleRepository.getPermissions(role);
+  } catch (error) {
+    const response = createErrorResponse(
+      ApiResponseCode.INTERNAL_ERROR,
+      'Authentication failed'
+    );
+    res.status(500).json(response);
+    return;
+  }
+
+  // Add user info to request
+  req.user = {
+    id: decoded.id,
+    email: decoded.email,
+    role,
+    permissions,
+  };
+  req.tokenClaims = decoded;
+
+  logger.debug('User authenticated successfully', {
+    userId: req.user.id,
+    email: req.user.email,
+    role: req.user.role,
+  });
+
+  next();
+};
+
+/**
+ * JWT Authentication middleware
+ * Verifies JWT tokens or personal access tokens and adds user info to request
+ */
+export const authenticateToken = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const authHeader = req.headers.authorization;
+    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+
+    if (!token) {
+      const response = createErrorResponse(
+        ApiResponseCode.UNAUTHORIZED,
+        'Access token is required'
+      );
+      res.status(401).json(response);
+      return;
+    }
+
+    if (personalAccessTokenRepository.isPersonalAccessToken(token)) {
+      void authenticatePersonalAccessToken(req, res, next, token);
+      return;
+    }
+
+    void authenticateJwt(req, res, next, token);
   } catch (error) {
     logger.error('Authentication middleware error', {
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -98,19 +236,25 @@ export const optionalAuth = (req: Request, res: Response, next: NextFunction): v
       return;
     }
 
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
+    let decoded: any;
+    try {
+      decoded = jwtKeySet.verify(token);
+    } catch (error) {
       next();
       return;
     }
 
-    jwt.verify(token, jwtSecret, (err: any, decoded: any) => {
-      if (!err && decoded) {
+    // Revoked tokens are ignored like invalid ones
+    void revokedTokenRepository.isRevoked(decoded).catch(() => true).then(async isRevoked => {
+      if (!isRevoked) {
+        const role = decoded.role || roleRepository.defaultRole;
         req.user = {
           id: decoded.id,
           email: decoded.email,
-          role: decoded.role || 'user',
+          role,
+          permissions: await roleRepository.getPermissions(role).catch(() => []),
         };
+        req.tokenClaims = decoded;
       }
       next();
     });
@@ -121,6 +265,7 @@ export const optionalAuth = (req: Request, res: Response, next: NextFunction): v
 };
 
 export default {
+  requireScope,
   authenticateToken,
   optionalAuth,
 };
@@ -1,15 +1,35 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiResponseCode } from '../models';
+import { ApiResponseCode, ListAccessLevel, Permission } from '../models';
 import { createErrorResponse } from '../models/responses';
+import {
+  listRepository,
+  taskRepository,
+  userRepository,
+  listMemberRepository,
+  roleRepository,
+  twoFactorRepository
+} from '../repositories';
 import { logger } from '../utils/logger';
+import { hasPermission, hasListAccess } from '../utils/ownership';
 
-export type UserRole = 'admin' | 'user' | 'guest';
+/**
+ * Resolves the owner ID of the resource targeted by a request
+ * Returns null when the resource does not exist
+ */
+export type OwnerResolver = (req: Request) => Promise<string | null>;
 
 /**
- * Role-based authorization middleware
- * Checks if user has required role
+ * Resolves the ID of the list targeted by a request
+ * Returns null when the list (or the task in it) does not exist
  */
-export const requireRole = (...allowedRoles: UserRole[]) => {
+export type ListResolver = (req: Request) => Promise<string | null>;
+
+/**
+ * Permission-based authorization middleware
+ * Checks if the user's role grants every required permission.
+ * Roles can require two-factor authentication; changes additionally require a verified email address.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     try {
       // Check if user is authenticated
@@ -22,13 +42,14 @@ export const requireRole = (...allowedRoles: UserRole[]) => {
         return;
       }
 
-      // Check if user has required role
-      const userRole = req.user.role as UserRole;
-      if (!allowedRoles.includes(userRole)) {
-        logger.warn('User access denied due to insufficient role', {
-          userId: req.user.id,
-          userRole,
-          requiredRoles: allowedRoles,
+      // Check if the user's role grants the required permissions
+      const user = req.user;
+      const missingPermissions = permissions.filter(permission => !hasPermission(user, permission));
+      if (missingPermissions.length > 0) {
+        logger.warn('User access denied due to missing permissions', {
+          userId: user.id,
+          userRole: user.role,
+          missingPermissions,
           resource: req.originalUrl,
         });
 
@@ -41,12 +62,12 @@ export const requireRole = (...allowedRoles: UserRole[]) => {
       }
 
       logger.debug('User authorized successfully', {
-        userId: req.user.id,
-        userRole,
+        userId: user.id,
+        userRole: user.role,
         resource: req.originalUrl,
       });
 
-      next();
+      void requireTwoFactor(req, res, () => void requireVerifiedEmail(req, res, next));
     } catch (error) {
       logger.error('Authorization middleware error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -64,10 +85,12 @@ export const requireRole = (...allowedRoles: UserRole[]) => {
 
 /**
  * Resource ownership authorization
- * Checks if user owns the resource or is admin
+ * Checks if user owns the resource or holds the permission for resources of other
+ * users. The owner is read from a request field, or looked up through a resolver
+ * for stored resources.
  */
-export const requireOwnership = (resourceUserIdField: string = 'userId') => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+export const requireOwnership = (resource: string | OwnerResolver = 'userId', anyPermission?: Permission) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
         const response = createErrorResponse(
@@ -78,20 +101,47 @@ export const requireOwnership = (resourceUserIdField: string = 'userId') => {
         return;
       }
 
-      const userRole = req.user.role as UserRole;
       const userId = req.user.id;
 
-      // Admins can access any resource
-      if (userRole === 'admin') {
+      // Users holding the permission can access resources of other users
+      if (anyPermission && hasPermission(req.user, anyPermission)) {
+        next();
+        return;
+      }
+
+      if (typeof resource === 'function') {
+        const ownerId = await resource(req);
+
+        // Let the route handler report missing resources
+        if (ownerId === null) {
+          next();
+          return;
+        }
+
+        if (ownerId !== userId) {
+          logger.warn('User access denied due to ownership mismatch', {
+            userId,
+            resourceUserId: ownerId,
+            resource: req.originalUrl,
+          });
+
+          const response = createErrorResponse(
+            ApiResponseCode.FORBIDDEN,
+            'You can only access your own resources'
+          );
+          res.status(403).json(response);
+          return;
+        }
+
         next();
         return;
       }
 
       // Get resource user ID from params, body, or query
       const resourceUserId = 
-        req.params[resourceUserIdField] || 
-        req.body[resourceUserIdField] || 
-        req.query[resourceUserIdField];
+        req.params[resource] || 
+        req.body[resource] || 
+        req.query[resource];
 
       if (!resourceUserId) {
         const response = createErrorResponse(
@@ -135,18 +185,203 @@ export const requireOwnership = (resourceUserIdField: string = 'userId') => {
 };
 
 /**
- * Admin only authorization
+ * List access authorization
+ * Checks if the user has the required access level on the targeted list, as its
+ * owner or a member, or holds the permission for lists of other users
  */
-export const requireAdmin = requireRole('admin');
+export const requireListAccess = (
+  resolveList: ListResolver,
+  required: ListAccessLevel,
+  anyPermission: Permission
+) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        const response = createErrorResponse(
+          ApiResponseCode.UNAUTHORIZED,
+          'Authentication required'
+        );
+        res.status(401).json(response);
+        return;
+      }
+
+      if (hasPermission(req.user, anyPermission)) {
+        next();
+        return;
+      }
+
+      const listId = await resolveList(req);
+
+      // Let the route handler report missing resources
+      if (listId === null) {
+        next();
+        return;
+      }
+
+      const accessLevel = await listMemberRepository.getAccessLevel(listId, req.user.id);
+      if (!hasListAccess(accessLevel, required)) {
+        logger.warn('User access denied due to insufficient list access', {
+          userId: req.user.id,
+          listId,
+          accessLevel,
+          required,
+          resource: req.originalUrl,
+        });
+
+        const response = createErrorResponse(
+          ApiResponseCode.FORBIDDEN,
+          accessLevel
+            ? `This action requires ${required} access to the list`
+            : 'You can only access lists you own or that are shared with you'
+        );
+        res.status(403).json(response);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      logger.error('List access authorization middleware error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user?.id,
+      });
+
+      const response = createErrorResponse(
+        ApiResponseCode.INTERNAL_ERROR,
+        'Authorization failed'
+      );
+      res.status(500).json(response);
+    }
+  };
+};
+
+/**
+ * Resolve the list identified by a route parameter
+ */
+export const listById = (paramName: string = 'id'): ListResolver => {
+  return async (req: Request): Promise<string | null> => {
+    const listId = req.params[paramName];
+    const list = listId ? await listRepository.getListById(listId) : null;
+    return list ? list.id : null;
+  };
+};
+
+/**
+ * Resolve the list of the task identified by a route parameter
+ */
+export const listOfTask = (paramName: string = 'id'): ListResolver => {
+  return async (req: Request): Promise<string | null> => {
+    const taskId = req.params[paramName];
+    const task = taskId ? await taskRepository.getTaskById(taskId) : null;
+    return task ? task.list_id : null;
+  };
+};
+
+/**
+ * Email verification authorization
+ * Read-only requests pass, changes require a verified email address.
+ * The stored user is checked, so a verification applies to tokens issued before it.
+ */
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      const response = createErrorResponse(
+        ApiResponseCode.UNAUTHORIZED,
+        'Authentication required'
+      );
+      res.status(401).json(response);
+      return;
+    }
+
+    if (['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+      next();
+      return;
+    }
+
+    const user = await userRepository.findById(req.user.id);
+    if (user && !userRepository.isEmailVerified(user)) {
+      logger.warn('User access denied due to unverified email', {
+        userId: req.user.id,
+        resource: req.originalUrl,
+      });
+
+      const response = createErrorResponse(
+        ApiResponseCode.FORBIDDEN,
+        'Please verify your email address before making changes'
+      );
+      res.status(403).json(response);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Email verification middleware error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.user?.id,
+    });
+
+    const response = createErrorResponse(
+      ApiResponseCode.INTERNAL_ERROR,
+      'Authorization failed'
+    );
+    res.status(500).json(response);
+  }
+};
 
 /**
- * User or admin authorization
+ * Two-factor enrollment authorization
+ * Users whose role requires two-factor authentication are turned away until they enable it.
+ * Both are read per request, so a new requirement applies to sessions that already exist.
  */
-export const requireUser = requireRole('user', 'admin');
+export const requireTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      const response = createErrorResponse(
+        ApiResponseCode.UNAUTHORIZED,
+        'Authentication required'
+      );
+      res.status(401).json(response);
+      return;
+    }
+
+    if (
+      await roleRepository.isTwoFactorRequired(req.user.role)
+      && !(await twoFactorRepository.isEnabled(req.user.id))
+    ) {
+      logger.warn('User access denied due to missing two-factor authentication', {
+        userId: req.user.id,
+        userRole: req.user.role,
+        resource: req.originalUrl,
+      });
+
+      const response = createErrorResponse(
+        ApiResponseCode.FORBIDDEN,
+        `The '${req.user.role}' role requires two-factor authentication, set it up with POST /api/v1/auth/2fa/setup`
+      );
+      res.status(403).json(response);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Two-factor authorization middleware error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      userId: req.user?.id,
+    });
+
+    const response = createErrorResponse(
+      ApiResponseCode.INTERNAL_ERROR,
+      'Authorization failed'
+    );
+    res.status(500).json(response);
+  }
+};
 
 export default {
-  requireRole,
+  requirePermission,
   requireOwnership,
-  requireAdmin,
-  requireUser,
+  requireListAccess,
+  listById,
+  listOfTask,
+  requireVerifiedEmail,
+  requireTwoFactor,
 };
@@ -4,18 +4,30 @@
  */
 
 // Authentication and Authorization
-export { authenticateToken, optionalAuth } from './authentication';
-export { requireRole, requireAdmin, requireUser, UserRole } from './authorization';
+export { authenticateToken, optionalAuth, requireScope } from './authentication';
+export {
+  requirePermission,
+  requireVerifiedEmail,
+  requireTwoFactor,
+  requireOwnership,
+  requireListAccess,
+  listById,
+  listOfTask,
+  OwnerResolver,
+  ListResolver
+} from './authorization';
 
 // Rate Limiting
 export { 
   RateLimiter,
   generalRateLimit, 
   authRateLimit, 
+  mailRateLimit,
   mutationRateLimit, 
   userRateLimit,
   createGeneralRateLimit,
   createAuthRateLimit,
+  createMailRateLimit,
   createMutationRateLimit,
   createUserRateLimit
 } from './rateLimiting';
@@ -154,6 +154,16 @@ export const createAuthRateLimit = () => new RateLimiter({
   skipSuccessfulRequests: true,
 });
 
+/**
+ * Create rate limiter for requests that send an email (password reset, verification, ...)
+ * Every request counts, since responses look the same whether or not a mail was sent
+ */
+export const createMailRateLimit = () => new RateLimiter({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 5, // 5 emails per hour
+  message: 'Too many email requests, please try again later',
+});
+
 /**
  * Create rate limiter for create/update operations
  */
@@ -176,6 +186,7 @@ export const createUserRateLimit = () => new RateLimiter({
 // Pre-configured instances
 export const generalRateLimit = createGeneralRateLimit().middleware();
 export const authRateLimit = createAuthRateLimit().middleware();
+export const mailRateLimit = createMailRateLimit().middleware();
 export const mutationRateLimit = createMutationRateLimit().middleware();
 export const userRateLimit = createUserRateLimit().middleware();
 
@@ -183,10 +194,12 @@ export default {
   RateLimiter,
   createGeneralRateLimit,
   createAuthRateLimit,
+  createMailRateLimit,
   createMutationRateLimit,
   createUserRateLimit,
   generalRateLimit,
   authRateLimit,
+  mailRateLimit,
   mutationRateLimit,
   userRateLimit,
 };
@@ -1,5 +1,6 @@
 import Joi from 'joi';
 import { validate } from './validation';
+import { Permission, RecurrenceFrequency, TokenScope, Weekday } from '../models';
 import {
   createListSchema,
   updateListSchema,
@@ -9,6 +10,8 @@ import {
   paginationSchema,
   listFilterSchema,
   taskFilterSchema,
+  createChecklistItemSchema,
+  updateChecklistItemSchema,
 } from '../models/validation';
 
 /**
@@ -36,9 +39,6 @@ const registerSchema = Joi.object({
     'string.min': 'Last name cannot be empty',
     'string.max': 'Last name cannot exceed 50 characters',
   }),
-  role: Joi.string().valid('admin', 'user').default('user').messages({
-    'any.only': 'Role must be either admin or user',
-  }),
 });
 
 const loginSchema = Joi.object({
@@ -51,6 +51,87 @@ const loginSchema = Joi.object({
   }),
 });
 
+const refreshTokenSchema = Joi.object({
+  refresh_token: Joi.string().required().messages({
+    'any.required': 'Refresh token is required',
+  }),
+});
+
+const updateProfileSchema = Joi.object({
+  first_name: registerSchema.extract('first_name'),
+  last_name: registerSchema.extract('last_name'),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update',
+});
+
+const changePasswordSchema = Joi.object({
+  current_password: Joi.string().required().messages({
+    'any.required': 'Current password is required',
+  }),
+  new_password: registerSchema.extract('password').messages({
+    'any.required': 'New password is required',
+  }),
+});
+
+const requestEmailChangeSchema = Joi.object({
+  email: registerSchema.extract('email'),
+  password: Joi.string().required().messages({
+    'any.required': 'Password is required',
+  }),
+});
+
+const confirmEmailChangeSchema = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Confirmation token is required',
+  }),
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Verification token is required',
+  }),
+});
+
+const forgotPasswordSchema = Joi.object({
+  email: registerSchema.extract('email'),
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().required().messages({
+    'any.required': 'Reset token is required',
+  }),
+  password: registerSchema.extract('password'),
+});
+
+const logoutSchema = Joi.object({
+  refresh_token: Joi.string().optional(),
+});
+
+// Authenticator app code or recovery code
+const twoFactorCodeSchema = Joi.string().trim().max(32).required().messages({
+  'string.empty': 'Two-factor authentication code is required',
+  'string.max': 'Two-factor authentication code cannot exceed 32 characters',
+  'any.required': 'Two-factor authentication code is required',
+});
+
+const twoFactorLoginSchema = Joi.object({
+  challenge_token: Joi.string().required().messages({
+    'any.required': 'Challenge token is required',
+  }),
+  code: twoFactorCodeSchema,
+});
+
+const twoFactorCodeBodySchema = Joi.object({
+  code: twoFactorCodeSchema,
+});
+
+const disableTwoFactorSchema = Joi.object({
+  password: Joi.string().required().messages({
+    'any.required': 'Password is required',
+  }),
+  code: twoFactorCodeSchema,
+});
+
 /**
  * Common parameter schemas
  */
@@ -97,6 +178,12 @@ const listQuerySchema = paginationQuerySchema.keys({
   search: Joi.string().trim().max(255).optional().messages({
     'string.max': 'Search term cannot exceed 255 characters',
   }),
+  workspace_id: Joi.alternatives()
+    .try(Joi.string().uuid({ version: 'uuidv4' }), Joi.string().valid('personal'))
+    .optional()
+    .messages({
+      'alternatives.match': 'Workspace ID must be a valid UUID or personal',
+    }),
 });
 
 const taskQuerySchema = paginationQuerySchema.keys({
@@ -121,6 +208,12 @@ const taskQuerySchema = paginationQuerySchema.keys({
   include_null_deadlines: Joi.boolean().optional().messages({
     'boolean.base': 'Include null deadlines must be a boolean',
   }),
+  labels: Joi.string()
+    .pattern(/^(any|all):[0-9a-f-]{36}(,[0-9a-f-]{36})*$/i)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Labels must be any: or all: followed by comma-separated label IDs',
+    }),
 });
 
 const listTasksQuerySchema = taskQuerySchema.keys({
@@ -133,14 +226,383 @@ const listTasksQuerySchema = taskQuerySchema.keys({
 const bulkUpdateTasksSchema = Joi.object({
   taskIds: Joi.array().items(
     Joi.string().uuid({ version: 'uuidv4' }).required()
-  ).min(1).max(50).required().messages({
+  ).min(1).max(50).unique().required().messages({
     'array.min': 'At least one task ID is required',
     'array.max': 'Cannot update more than 50 tasks at once',
+    'array.unique': 'Task IDs must be unique',
     'any.required': 'Task IDs are required',
   }),
-  status: Joi.string().valid('pending', 'completed').required().messages({
+  operation: Joi.string().valid('status', 'priority', 'move', 'shift_deadline', 'delete').default('status').messages({
+    'any.only': 'Operation must be one of: status, priority, move, shift_deadline, delete',
+  }),
+  status: Joi.string().valid('pending', 'completed').when('operation', {
+    is: 'status',
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }).messages({
     'any.only': 'Status must be either pending or completed',
     'any.required': 'Status is required',
+    'any.unknown': 'Status is only allowed for the status operation',
+  }),
+  priority: Joi.string().valid('low', 'medium', 'high').when('operation', {
+    is: 'priority',
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'any.only': 'Priority must be one of: low, medium, high',
+    'any.required': 'Priority is required',
+    'any.unknown': 'Priority is only allowed for the priority operation',
+  }),
+  list_id: Joi.string().uuid({ version: 'uuidv4' }).when('operation', {
+    is: 'move',
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'string.guid': 'List ID must be a valid UUID',
+    'any.required': 'List ID is required',
+    'any.unknown': 'List ID is only allowed for the move operation',
+  }),
+  deadline_shift_days: Joi.number().integer().min(-365).max(365).invalid(0).when('operation', {
+    is: 'shift_deadline',
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'number.base': 'Deadline shift must be a number of days',
+    'number.integer': 'Deadline shift must be a whole number of days',
+    'number.min': 'Deadline shift cannot exceed 365 days',
+    'number.max': 'Deadline shift cannot exceed 365 days',
+    'any.invalid': 'Deadline shift cannot be zero',
+    'any.required': 'Deadline shift days are required',
+    'any.unknown': 'Deadline shift days are only allowed for the shift_deadline operation',
+  }),
+  atomic: Joi.boolean().default(false).messages({
+    'boolean.base': 'Atomic must be a boolean',
+  }),
+});
+
+/**
+ * Admin user management schemas
+ */
+const userQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1).messages({
+    'number.base': 'Page must be a number',
+    'number.integer': 'Page must be an integer',
+    'number.min': 'Page must be at least 1',
+  }),
+  limit: Joi.number().integer().min(1).max(100).default(10).messages({
+    'number.base': 'Limit must be a number',
+    'number.integer': 'Limit must be an integer',
+    'number.min': 'Limit must be at least 1',
+    'number.max': 'Limit cannot exceed 100',
+  }),
+  search: Joi.string().trim().max(255).optional().messages({
+    'string.max': 'Search term cannot exceed 255 characters',
+  }),
+  role: Joi.string().trim().max(50).optional().messages({
+    'string.max': 'Role cannot exceed 50 characters',
+  }),
+  is_active: Joi.boolean().optional().messages({
+    'boolean.base': 'is_active must be true or false',
+  }),
+});
+
+const updateUserStatusSchema = Joi.object({
+  is_active: Joi.boolean().required().messages({
+    'boolean.base': 'is_active must be a boolean',
+    'any.required': 'is_active is required',
+  }),
+});
+
+const updateUserRoleSchema = Joi.object({
+  role: Joi.string().trim().min(1).max(50).required().messages({
+    'string.empty': 'Role cannot be empty',
+    'string.max': 'Role cannot exceed 50 characters',
+    'any.required': 'Role is required',
+  }),
+});
+
+/**
+ * Role schemas
+ */
+const roleNameSchema = Joi.string()
+  .pattern(/^[a-z][a-z0-9_-]{1,49}$/)
+  .messages({
+    'string.pattern.base': 'Role name must be 2-50 lowercase letters, digits, hyphens or underscores, starting with a letter',
+  });
+
+const rolePermissionsSchema = Joi.array()
+  .items(Joi.string().valid(...Object.values(Permission)))
+  .unique()
+  .messages({
+    'any.only': `Permissions must be one of: ${Object.values(Permission).join(', ')}`,
+    'array.unique': 'Permissions must not contain duplicates',
+  });
+
+const createRoleSchema = Joi.object({
+  name: roleNameSchema.required().messages({
+    'any.required': 'Role name is required',
+  }),
+  description: Joi.string().trim().max(255).allow('').optional().messages({
+    'string.max': 'Description cannot exceed 255 characters',
+  }),
+  permissions: rolePermissionsSchema.required().messages({
+    'any.required': 'Permissions are required',
+  }),
+});
+
+const updateRoleSchema = Joi.object({
+  description: createRoleSchema.extract('description'),
+  permissions: rolePermissionsSchema.optional(),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update',
+});
+
+const roleParamSchema = Joi.object({
+  name: roleNameSchema.required(),
+});
+
+const roleTwoFactorSchema = Joi.object({
+  required: Joi.boolean().required().messages({
+    'boolean.base': 'Required must be a boolean',
+    'any.required': 'Required is required',
+  }),
+});
+
+const resetUserPasswordSchema = Joi.object({
+  password: registerSchema.extract('password'),
+});
+
+/**
+ * List and workspace member schemas
+ */
+const listAccessLevelSchema = Joi.string().valid('viewer', 'editor', 'owner').messages({
+  'any.only': 'Role must be one of: viewer, editor, owner',
+  'any.required': 'Role is required',
+});
+
+const addListMemberSchema = Joi.object({
+  email: registerSchema.extract('email'),
+  role: listAccessLevelSchema.required(),
+});
+
+const updateListMemberSchema = Joi.object({
+  role: listAccessLevelSchema.required(),
+});
+
+const memberParamSchema = Joi.object({
+  id: uuidParamSchema.extract('id'),
+  userId: Joi.string().uuid({ version: 'uuidv4' }).required().messages({
+    'string.uuid': 'User ID must be a valid UUID',
+    'any.required': 'User ID is required',
+  }),
+});
+
+/**
+ * Workspace schemas
+ */
+const createWorkspaceSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required().messages({
+    'string.empty': 'Workspace name is required',
+    'string.max': 'Workspace name cannot exceed 100 characters',
+    'any.required': 'Workspace name is required',
+  }),
+  description: Joi.string().trim().max(1000).allow('').optional().messages({
+    'string.max': 'Description cannot exceed 1000 characters',
+  }),
+});
+
+const updateWorkspaceSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional().messages({
+    'string.empty': 'Workspace name cannot be empty',
+    'string.max': 'Workspace name cannot exceed 100 characters',
+  }),
+  description: createWorkspaceSchema.extract('description'),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update',
+});
+
+const switchWorkspaceSchema = Joi.object({
+  workspace_id: Joi.string().uuid({ version: 'uuidv4' }).allow(null).required().messages({
+    'string.uuid': 'Workspace ID must be a valid UUID',
+    'any.required': 'Workspace ID is required, use null for personal lists',
+  }),
+});
+
+/**
+ * Label schemas
+ */
+const createLabelSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(50).required().messages({
+    'string.empty': 'Label name is required',
+    'string.max': 'Label name cannot exceed 50 characters',
+    'any.required': 'Label name is required',
+  }),
+  color: Joi.string().pattern(/^#[0-9A-F]{6}$/i).required().messages({
+    'string.pattern.base': 'Color must be a hex color like #FF8800',
+    'any.required': 'Color is required',
+  }),
+  workspace_id: Joi.string().uuid({ version: 'uuidv4' }).optional().messages({
+    'string.uuid': 'Workspace ID must be a valid UUID',
+  }),
+});
+
+const updateLabelSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(50).optional().messages({
+    'string.empty': 'Label name cannot be empty',
+    'string.max': 'Label name cannot exceed 50 characters',
+  }),
+  color: createLabelSchema.extract('color').optional(),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update',
+});
+
+const labelQuerySchema = Joi.object({
+  workspace_id: listQuerySchema.extract('workspace_id'),
+});
+
+/**
+ * Subtask and checklist schemas
+ */
+const deleteTaskQuerySchema = Joi.object({
+  subtasks: Joi.string().valid('delete', 'reparent').default('delete').messages({
+    'any.only': 'Subtasks must be either delete or reparent',
+  }),
+});
+
+const checklistItemParamSchema = Joi.object({
+  id: uuidParamSchema.extract('id'),
+  itemId: Joi.string().uuid({ version: 'uuidv4' }).required().messages({
+    'string.uuid': 'Checklist item ID must be a valid UUID',
+    'any.required': 'Checklist item ID is required',
+  }),
+});
+
+/**
+ * Task dependency schemas
+ */
+const completeTaskQuerySchema = Joi.object({
+  force: Joi.boolean().optional().messages({
+    'boolean.base': 'Force must be a boolean value',
+  }),
+});
+
+const addDependencySchema = Joi.object({
+  blocker_id: Joi.string().uuid({ version: 'uuidv4' }).required().messages({
+    'string.uuid': 'Blocker ID must be a valid UUID',
+    'any.required': 'Blocker ID is required',
+  }),
+});
+
+const dependencyParamSchema = Joi.object({
+  id: uuidParamSchema.extract('id'),
+  blockerId: Joi.string().uuid({ version: 'uuidv4' }).required().messages({
+    'string.uuid': 'Blocker ID must be a valid UUID',
+    'any.required': 'Blocker ID is required',
+  }),
+});
+
+/**
+ * Recurrence rule schema, modelled on iCalendar RRULE
+ * Weekdays only apply to weekly rules and the day of the month only to monthly rules;
+ * a series ends at a date or after a number of occurrences, not both
+ */
+const recurrenceRuleSchema = Joi.object({
+  frequency: Joi.string().valid(...Object.values(RecurrenceFrequency)).required().messages({
+    'any.only': `Frequency must be one of: ${Object.values(RecurrenceFrequency).join(', ')}`,
+    'any.required': 'Frequency is required',
+  }),
+  interval: Joi.number().integer().min(1).max(365).optional().messages({
+    'number.base': 'Interval must be a number',
+    'number.integer': 'Interval must be an integer',
+    'number.min': 'Interval must be at least 1',
+    'number.max': 'Interval cannot exceed 365',
+  }),
+  by_weekday: Joi.when('frequency', {
+    is: RecurrenceFrequency.WEEKLY,
+    then: Joi.array().items(Joi.string().valid(...Object.values(Weekday))).min(1).unique().optional(),
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'any.only': `Weekdays must be among: ${Object.values(Weekday).join(', ')}`,
+    'array.min': 'At least one weekday is required',
+    'array.unique': 'Weekdays cannot repeat',
+    'any.unknown': 'Weekdays are only allowed for weekly rules',
+  }),
+  by_month_day: Joi.when('frequency', {
+    is: RecurrenceFrequency.MONTHLY,
+    then: Joi.number().integer().min(1).max(31).optional(),
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'number.base': 'Day of the month must be a number',
+    'number.integer': 'Day of the month must be an integer',
+    'number.min': 'Day of the month must be between 1 and 31',
+    'number.max': 'Day of the month must be between 1 and 31',
+    'any.unknown': 'A day of the month is only allowed for monthly rules',
+  }),
+  until: Joi.date().iso().optional().messages({
+    'date.base': 'Until must be a valid date',
+    'date.format': 'Until must be in ISO format',
+  }),
+  count: Joi.number().integer().min(1).max(1000).optional().messages({
+    'number.base': 'Count must be a number',
+    'number.integer': 'Count must be an integer',
+    'number.min': 'Count must be at least 1',
+    'number.max': 'Count cannot exceed 1000',
+  }),
+}).oxor('until', 'count').messages({
+  'object.oxor': 'A series ends either with until or with count, not both',
+});
+
+// States are configurable, whether a state exists is checked against the workflow
+const transitionTaskSchema = Joi.object({
+  state: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(30).required().messages({
+    'string.pattern.base': 'State must be lowercase letters, digits and underscores',
+    'string.max': 'State cannot exceed 30 characters',
+    'any.required': 'State is required',
+  }),
+});
+
+const taskLabelParamSchema = Joi.object({
+  id: uuidParamSchema.extract('id'),
+  labelId: Joi.string().uuid({ version: 'uuidv4' }).required().messages({
+    'string.uuid': 'Label ID must be a valid UUID',
+    'any.required': 'Label ID is required',
+  }),
+});
+
+/**
+ * Personal access token schemas
+ */
+const createPersonalAccessTokenSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required().messages({
+    'string.empty': 'Token name cannot be empty',
+    'string.max': 'Token name cannot exceed 100 characters',
+    'any.required': 'Token name is required',
+  }),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...Object.values(TokenScope)))
+    .min(1)
+    .required()
+    .messages({
+      'any.only': `Scopes must be one of: ${Object.values(TokenScope).join(', ')}`,
+      'array.min': 'At least one scope is required',
+      'any.required': 'Scopes are required',
+    }),
+  expires_at: Joi.date().iso().greater('now').optional().messages({
+    'date.format': 'Expiry must be a valid ISO date',
+    'date.greater': 'Expiry must be in the future',
+  }),
+});
+
+const deleteUserQuerySchema = Joi.object({
+  lists: Joi.string().valid('delete', 'transfer').default('delete').messages({
+    'any.only': 'Lists must be either delete or transfer',
+  }),
+  transfer_to: Joi.string().uuid({ version: 'uuidv4' }).optional().when('lists', {
+    is: 'transfer',
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'string.uuid': 'Transfer target must be a valid user ID',
+    'any.unknown': 'transfer_to is only allowed when lists is transfer',
   }),
 });
 
@@ -157,6 +619,111 @@ export const validateLogin = validate({
   body: loginSchema,
 });
 
+export const validateRefreshToken = validate({
+  body: refreshTokenSchema,
+});
+
+export const validateLogout = validate({
+  body: logoutSchema,
+});
+
+export const validateVerifyEmail = validate({
+  body: verifyEmailSchema,
+});
+
+export const validateForgotPassword = validate({
+  body: forgotPasswordSchema,
+});
+
+export const validateResetPassword = validate({
+  body: resetPasswordSchema,
+});
+
+export const validateUpdateProfile = validate({
+  body: updateProfileSchema,
+});
+
+export const validateChangePassword = validate({
+  body: changePasswordSchema,
+});
+
+export const validateRequestEmailChange = validate({
+  body: requestEmailChangeSchema,
+});
+
+export const validateConfirmEmailChange = validate({
+  body: confirmEmailChangeSchema,
+});
+
+export const validateTwoFactorLogin = validate({
+  body: twoFactorLoginSchema,
+});
+
+export const validateTwoFactorCode = validate({
+  body: twoFactorCodeBodySchema,
+});
+
+export const validateDisableTwoFactor = validate({
+  body: disableTwoFactorSchema,
+});
+
+// Admin user management validation middlewares
+export const validateUserQuery = validate({
+  query: userQuerySchema,
+});
+
+export const validateUserParams = validate({
+  params: uuidParamSchema,
+});
+
+export const validateUpdateUserStatus = validate({
+  body: updateUserStatusSchema,
+  params: uuidParamSchema,
+});
+
+export const validateUpdateUserRole = validate({
+  body: updateUserRoleSchema,
+  params: uuidParamSchema,
+});
+
+export const validateResetUserPassword = validate({
+  body: resetUserPasswordSchema,
+  params: uuidParamSchema,
+});
+
+export const validateDeleteUser = validate({
+  params: uuidParamSchema,
+  query: deleteUserQuerySchema,
+});
+
+// Role validation middlewares
+export const validateCreateRole = validate({
+  body: createRoleSchema,
+});
+
+export const validateUpdateRole = validate({
+  body: updateRoleSchema,
+  params: roleParamSchema,
+});
+
+export const validateRoleParams = validate({
+  params: roleParamSchema,
+});
+
+export const validateRoleTwoFactor = validate({
+  params: roleParamSchema,
+  body: roleTwoFactorSchema,
+});
+
+// Personal access token validation middlewares
+export const validateCreatePersonalAccessToken = validate({
+  body: createPersonalAccessTokenSchema,
+});
+
+export const validatePersonalAccessTokenParams = validate({
+  params: uuidParamSchema,
+});
+
 // List validation middlewares
 export const validateCreateList = validate({
   body: createListSchema,
@@ -180,6 +747,75 @@ export const validateListTasksQuery = validate({
   query: listTasksQuerySchema,
 });
 
+// List member validation middlewares
+export const validateAddListMember = validate({
+  body: addListMemberSchema,
+  params: uuidParamSchema,
+});
+
+export const validateUpdateListMember = validate({
+  body: updateListMemberSchema,
+  params: memberParamSchema,
+});
+
+export const validateListMemberParams = validate({
+  params: memberParamSchema,
+});
+
+// Workspace validation middlewares
+export const validateCreateWorkspace = validate({
+  body: createWorkspaceSchema,
+});
+
+export const validateUpdateWorkspace = validate({
+  body: updateWorkspaceSchema,
+  params: uuidParamSchema,
+});
+
+export const validateWorkspaceParams = validate({
+  params: uuidParamSchema,
+});
+
+export const validateSwitchWorkspace = validate({
+  body: switchWorkspaceSchema,
+});
+
+export const validateAddWorkspaceMember = validate({
+  body: addListMemberSchema,
+  params: uuidParamSchema,
+});
+
+export const validateUpdateWorkspaceMember = validate({
+  body: updateListMemberSchema,
+  params: memberParamSchema,
+});
+
+export const validateWorkspaceMemberParams = validate({
+  params: memberParamSchema,
+});
+
+// Label validation middlewares
+export const validateCreateLabel = validate({
+  body: createLabelSchema,
+});
+
+export const validateUpdateLabel = validate({
+  body: updateLabelSchema,
+  params: uuidParamSchema,
+});
+
+export const validateLabelParams = validate({
+  params: uuidParamSchema,
+});
+
+export const validateLabelQuery = validate({
+  query: labelQuerySchema,
+});
+
+export const validateTaskLabelParams = validate({
+  params: taskLabelParamSchema,
+});
+
 // Task validation middlewares
 export const validateCreateTask = validate({
   body: createTaskSchema,
@@ -207,6 +843,53 @@ export const validateBulkUpdateTasks = validate({
   body: bulkUpdateTasksSchema,
 });
 
+export const validateDeleteTask = validate({
+  params: uuidParamSchema,
+  query: deleteTaskQuerySchema,
+});
+
+// Checklist validation middlewares
+export const validateCreateChecklistItem = validate({
+  body: createChecklistItemSchema,
+  params: uuidParamSchema,
+});
+
+export const validateUpdateChecklistItem = validate({
+  body: updateChecklistItemSchema,
+  params: checklistItemParamSchema,
+});
+
+export const validateChecklistItemParams = validate({
+  params: checklistItemParamSchema,
+});
+
+// Task dependency validation middlewares
+export const validateCompleteTask = validate({
+  params: uuidParamSchema,
+  query: completeTaskQuerySchema,
+});
+
+export const validateAddDependency = validate({
+  body: addDependencySchema,
+  params: uuidParamSchema,
+});
+
+export const validateDependencyParams = validate({
+  params: dependencyParamSchema,
+});
+
+// Task recurrence validation middlewares
+export const validateSetRecurrence = validate({
+  body: recurrenceRuleSchema,
+  params: uuidParamSchema,
+});
+
+// Task workflow validation middlewares
+export const validateTransitionTask = validate({
+  body: transitionTaskSchema,
+  params: uuidParamSchema,
+});
+
 // Specialized task query validations
 export const validateTasksDueThisWeekQuery = validate({
   query: taskQuerySchema.fork(['deadline_from', 'deadline_to'], (schema) => 
@@ -276,6 +959,36 @@ export default {
   // Authentication validations
   validateRegister,
   validateLogin,
+  validateRefreshToken,
+  validateLogout,
+  validateVerifyEmail,
+  validateForgotPassword,
+  validateResetPassword,
+  validateUpdateProfile,
+  validateChangePassword,
+  validateRequestEmailChange,
+  validateConfirmEmailChange,
+  validateTwoFactorLogin,
+  validateTwoFactorCode,
+  validateDisableTwoFactor,
+  
+  // Admin user management validations
+  validateUserQuery,
+  validateUserParams,
+  validateUpdateUserStatus,
+  validateUpdateUserRole,
+  validateResetUserPassword,
+  validateDeleteUser,
+  
+  // Role validations
+  validateCreateRole,
+  validateUpdateRole,
+  validateRoleParams,
+  validateRoleTwoFactor,
+  
+  // Personal access token validations
+  validateCreatePersonalAccessToken,
+  validatePersonalAccessTokenParams,
   
   // List validations
   validateCreateList,
@@ -284,6 +997,27 @@ export default {
   validateListQuery,
   validateListTasksQuery,
   
+  // List member validations
+  validateAddListMember,
+  validateUpdateListMember,
+  validateListMemberParams,
+  
+  // Workspace validations
+  validateCreateWorkspace,
+  validateUpdateWorkspace,
+  validateWorkspaceParams,
+  validateSwitchWorkspace,
+  validateAddWorkspaceMember,
+  validateUpdateWorkspaceMember,
+  validateWorkspaceMemberParams,
+  
+  // Label validations
+  validateCreateLabel,
+  validateUpdateLabel,
+  validateLabelParams,
+  validateLabelQuery,
+  validateTaskLabelParams,
+  
   // Task validations
   validateCreateTask,
   validateUpdateTask,
@@ -291,6 +1025,23 @@ export default {
   validateTaskQuery,
   validateTasksByPriorityParams,
   validateBulkUpdateTasks,
+  validateDeleteTask,
+  
+  // Checklist validations
+  validateCreateChecklistItem,
+  validateUpdateChecklistItem,
+  validateChecklistItemParams,
+  
+  // Task dependency validations
+  validateCompleteTask,
+  validateAddDependency,
+  validateDependencyParams,
+  
+  // Task recurrence validations
+  validateSetRecurrence,
+  
+  // Task workflow validations
+  validateTransitionTask,
   
   // Specialized validations
   validateTasksDueThisWeekQuery,
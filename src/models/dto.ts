@@ -1,10 +1,12 @@
-import { TaskPriority, TaskStatus } from './enums';
+import { RecurrenceFrequency, TaskPriority, TaskStatus, Weekday } from './enums';
 
 /**
  * Data Transfer Object for List responses
  */
 export interface ListDTO {
   id: string;
+  owner_id: string;
+  workspace_id?: string;
   name: string;
   description?: string;
   color?: string;
@@ -24,11 +26,55 @@ export interface TaskDTO {
   deadline?: string; // ISO string format for API responses
   priority: TaskPriority;
   status: TaskStatus;
+  state?: string;
+  state_history?: TaskStateTransitionDTO[];
   completed_at?: string; // ISO string format for API responses
+  label_ids?: string[];
+  parent_task_id?: string;
+  checklist?: ChecklistItemDTO[];
+  auto_complete?: boolean;
+  blocked_by?: string[];
+  recurrence?: RecurrenceRuleDTO;
+  recurrence_series_id?: string;
+  occurrence?: number;
+  next_occurrence_id?: string;
+  progress?: { done: number; total: number }; // Checklist items and direct subtasks done
+  is_blocked?: boolean; // Overdue and due-this-week results only
   created_at: string; // ISO string format for API responses
   updated_at: string; // ISO string format for API responses
 }
 
+/**
+ * Data Transfer Object for a workflow state transition of a task
+ */
+export interface TaskStateTransitionDTO {
+  from: string | null;
+  to: string;
+  at: string; // ISO string format for API responses
+}
+
+/**
+ * Data Transfer Object for the recurrence rule of a task
+ */
+export interface RecurrenceRuleDTO {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  by_weekday?: Weekday[];
+  by_month_day?: number;
+  until?: string; // ISO string format for API responses
+  count?: number;
+}
+
+/**
+ * Data Transfer Object for checklist items of a task
+ */
+export interface ChecklistItemDTO {
+  id: string;
+  text: string;
+  done: boolean;
+  position: number;
+}
+
 /**
  * Data Transfer Object for List with embedded tasks
  */
@@ -63,6 +109,8 @@ export interface CreateTaskDTO {
   description?: string;
   deadline?: string; // ISO string format
   priority?: TaskPriority;
+  parent_task_id?: string;
+  auto_complete?: boolean;
 }
 
 /**
@@ -75,6 +123,8 @@ export interface UpdateTaskDTO {
   priority?: TaskPriority;
   status?: TaskStatus;
   list_id?: string;
+  parent_task_id?: string | null;
+  auto_complete?: boolean;
 }
 
 /**
@@ -104,6 +154,7 @@ export interface TaskQueryParamsDTO extends QueryParamsDTO {
   priority?: TaskPriority;
   deadline_from?: string;
   deadline_to?: string;
+  labels?: string; // `any:<id>,<id>` or `all:<id>,<id>`
 }
 
 /**
@@ -1,4 +1,4 @@
-import { TaskPriority, TaskStatus } from './enums';
+import { Permission, RecurrenceFrequency, TaskPriority, TaskStatus, TokenScope, Weekday } from './enums';
 
 /**
  * Base interface for entities with common fields
@@ -15,10 +15,11 @@ export interface BaseEntity {
 export interface User extends BaseEntity {
   email: string;
   password: string; // This will be hashed
-  role: 'admin' | 'user';
+  role: string; // Name of a built-in or custom role
   first_name?: string;
   last_name?: string;
   is_active: boolean;
+  email_verified?: boolean; // Absent for accounts created before verification was required (treated as verified)
 }
 
 /**
@@ -29,7 +30,37 @@ export interface CreateUserInput {
   password: string;
   first_name?: string;
   last_name?: string;
-  role?: 'admin' | 'user';
+  role?: string;
+}
+
+/**
+ * Filter parameters for users (admin)
+ */
+export interface UserFilterParams {
+  search?: string; // Matches email, first name and last name
+  role?: string;
+  is_active?: boolean;
+}
+
+/**
+ * What happens to a user's lists when the user is deleted
+ */
+export type DeletedUserListsAction = 'delete' | 'transfer';
+
+/**
+ * Self-service profile update input
+ */
+export interface UpdateProfileInput {
+  first_name?: string;
+  last_name?: string;
+}
+
+/**
+ * Password change input
+ */
+export interface ChangePasswordInput {
+  current_password: string;
+  new_password: string;
 }
 
 /**
@@ -50,29 +81,332 @@ export interface UserProfile {
   first_name?: string;
   last_name?: string;
   is_active: boolean;
+  email_verified: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Authenticated user attached to a request
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: string;
+  permissions: Permission[]; // Resolved from the role when the request is authenticated
+}
+
+/**
+ * Claims of a verified access token
+ */
+export interface AccessTokenClaims {
+  id: string;
+  email: string;
+  role: string;
+  jti?: string; // Absent in tokens issued before revocation support
+  sid?: string; // Session (refresh token family) the token was issued for
+  iat?: number; // Seconds since epoch, with millisecond precision
+  exp?: number; // Seconds since epoch
+}
+
+/**
+ * Access token revoked through logout
+ */
+export interface RevokedToken {
+  id: string; // Token jti
+  user_id: string;
+  revoked_at: Date;
+  expires_at: Date; // Entry can be pruned once the token has expired
+}
+
+/**
+ * Role granting a set of permissions
+ * Roles are identified by their name, which users reference
+ */
+export interface Role {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  built_in: boolean; // Built-in roles cannot be changed or deleted
+  two_factor_required: boolean; // Users holding the role must enable two-factor authentication
+  created_at?: Date; // Absent for built-in roles
+  updated_at?: Date;
+}
+
+/**
+ * Custom role creation input
+ */
+export interface CreateRoleInput {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+/**
+ * Custom role update input
+ */
+export interface UpdateRoleInput {
+  description?: string;
+  permissions?: Permission[];
+}
+
+/**
+ * Personal access token as stored (the token itself is never persisted)
+ */
+export interface PersonalAccessToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_hash: string; // SHA-256 hash of the token
+  token_prefix: string; // Leading characters of the token, to tell tokens apart
+  scopes: TokenScope[];
+  created_at: Date;
+  expires_at?: Date; // Absent for tokens that do not expire
+  last_used_at?: Date;
+}
+
+/**
+ * Personal access token as returned by the API
+ */
+export type PersonalAccessTokenInfo = Omit<PersonalAccessToken, 'token_hash'>;
+
+/**
+ * Personal access token creation input
+ */
+export interface CreatePersonalAccessTokenInput {
+  name: string;
+  scopes: TokenScope[];
+  expires_at?: Date;
+}
+
+/**
+ * Refresh token as stored (the opaque token itself is never persisted)
+ */
+export interface RefreshToken {
+  id: string; // SHA-256 hash of the opaque token
+  user_id: string;
+  family_id: string; // Shared by every token rotated from the same login
+  created_at: Date;
+  expires_at: Date;
+  replaced_by?: string; // Hash of the token issued when this one was used
+  revoked_at?: Date;
+}
+
+/**
+ * Purposes of single-use tokens sent to users
+ */
+export type OneTimeTokenPurpose = 'email_change' | 'password_reset' | 'email_verification' | 'two_factor_login';
+
+/**
+ * Single-use token as stored (the token itself is never persisted)
+ */
+export interface OneTimeToken {
+  id: string; // SHA-256 hash of the token
+  user_id: string;
+  purpose: OneTimeTokenPurpose;
+  created_at: Date;
+  expires_at: Date;
+  email?: string; // New address for email changes, verified address for email verification
+}
+
+/**
+ * Failed login tracking for an account
+ */
+export interface LoginAttempts {
+  id: string; // User ID
+  failed_count: number; // Failed logins since the last successful one
+  last_failed_at: Date;
+  locked_until?: Date; // Set once the failure limit is reached
+  expires_at: Date; // Failures are forgotten after this time
+}
+
+/**
+ * TOTP two-factor authentication settings of a user
+ * The secret has to be kept readable to compute codes; recovery codes are stored as hashes
+ */
+export interface TwoFactorSettings {
+  id: string; // User ID
+  secret: string; // Base32 TOTP secret
+  enabled: boolean; // False until enrollment is confirmed with a code
+  recovery_code_hashes: string[]; // SHA-256 hashes of the unused recovery codes
+  last_used_step?: number; // Time step of the last accepted code, which cannot be used again
+  created_at: Date;
+  enabled_at?: Date;
+}
+
+/**
+ * Two-factor authentication state as returned by the API
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // The user's role requires two-factor authentication
+  enabled_at?: Date;
+  recovery_codes_remaining: number;
+}
+
+/**
+ * Secret and provisioning URI for an authenticator app
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_uri: string;
+}
+
+/**
+ * First login step of an account with two-factor authentication
+ * The challenge token is exchanged for tokens together with a code
+ */
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+  expires_in: number; // Challenge token lifetime in seconds
+}
+
+/**
+ * Cut-off for every token issued to a user (logout from all devices)
+ */
+export interface UserTokenRevocation {
+  id: string; // User ID
+  revoked_at: Date; // Tokens issued before this time are rejected
+  except_session?: string; // Session kept alive (e.g. the one that changed the password)
+  expires_at: Date; // Entry can be pruned once every covered token has expired
+}
+
 /**
  * Authentication response
  */
 export interface AuthResponse {
   user: UserProfile;
   token: string;
-  expires_in: number;
+  expires_in: number; // Access token lifetime in seconds
+  refresh_token: string;
+  refresh_expires_in: number; // Refresh token lifetime in seconds
+  two_factor_setup_required?: boolean; // The role requires two-factor authentication the user has not enabled yet
 }
 
 /**
  * List entity interface
  */
 export interface List extends BaseEntity {
+  owner_id: string;
+  workspace_id?: string; // Absent for personal lists
   name: string;
   description?: string;
   color?: string;
   tasks_count: number;
 }
 
+/**
+ * Access level of a user on a list
+ * Viewers read the list and its tasks, editors also change them, owners also manage members
+ */
+export type ListAccessLevel = 'viewer' | 'editor' | 'owner';
+
+/**
+ * Membership of a user in a list shared with them
+ * The user who created the list is its owner without a membership
+ */
+export interface ListMember {
+  id: string; // `<list_id>:<user_id>`
+  list_id: string;
+  user_id: string;
+  role: ListAccessLevel;
+  added_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * List member as returned by the API
+ */
+export interface ListMemberInfo {
+  user_id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  role: ListAccessLevel;
+  is_list_owner: boolean; // The user who created the list, who cannot be removed
+  added_by?: string;
+  created_at: Date;
+}
+
+/**
+ * Input for inviting a user to a list
+ */
+export interface AddListMemberInput {
+  email: string;
+  role: ListAccessLevel;
+}
+
+/**
+ * Workspace shared by a team
+ * Workspaces own lists; their members get access to every list of the workspace
+ */
+export interface Workspace extends BaseEntity {
+  name: string;
+  description?: string;
+  created_by: string;
+}
+
+/**
+ * Membership of a user in a workspace
+ * The role applies to every list of the workspace, owners also manage the workspace and its members
+ */
+export interface WorkspaceMember {
+  id: string; // `<workspace_id>:<user_id>`
+  workspace_id: string;
+  user_id: string;
+  role: ListAccessLevel;
+  added_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Workspace as returned to one of its members
+ */
+export interface WorkspaceSummary extends Workspace {
+  role: ListAccessLevel; // Role of the requesting user
+  is_active: boolean; // Whether list and task queries of the user are scoped to this workspace
+}
+
+/**
+ * Workspace member as returned by the API
+ */
+export interface WorkspaceMemberInfo {
+  user_id: string;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+  role: ListAccessLevel;
+  added_by: string;
+  created_at: Date;
+}
+
+/**
+ * Input for creating a workspace
+ */
+export interface CreateWorkspaceInput {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Input for updating a workspace
+ */
+export interface UpdateWorkspaceInput {
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Input for adding a user to a workspace
+ */
+export interface AddWorkspaceMemberInput {
+  email: string;
+  role: ListAccessLevel;
+}
+
 /**
  * Task entity interface
  */
@@ -82,8 +416,160 @@ export interface Task extends BaseEntity {
   description?: string;
   deadline?: Date;
   priority: TaskPriority;
-  status: TaskStatus;
+  status: TaskStatus; // Follows the workflow state
+  state?: string; // Workflow state, absent for tasks stored before workflow states
+  state_history?: TaskStateTransition[]; // Oldest first
   completed_at?: Date;
+  label_ids?: string[]; // Absent for tasks that never had a label
+  parent_task_id?: string | null; // Absent for top-level tasks, null only in updates detaching a subtask
+  checklist?: ChecklistItem[]; // Sorted by position, absent for tasks that never had a checklist
+  auto_complete?: boolean; // Complete the task once its subtasks and checklist items are all done
+  blocked_by?: string[]; // IDs of the tasks blocking this one, absent for tasks that never had a blocker
+  recurrence?: RecurrenceRule | null; // Carried by the pending occurrence of a series, null only in updates ending it
+  recurrence_series_id?: string; // ID of the first task of the series
+  occurrence?: number; // 1-based position in the series
+  next_occurrence_id?: string; // Set on a completed occurrence once the next one is created
+  progress?: TaskProgress; // Computed when the task is read, never stored
+  is_blocked?: boolean; // Computed for overdue and due-this-week results, never stored
+}
+
+/**
+ * Move of a task from one workflow state to another
+ */
+export interface TaskStateTransition {
+  from: string | null; // null when the task was created
+  to: string;
+  at: Date;
+}
+
+/**
+ * Checklist item embedded in a task
+ */
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  position: number; // 0-based, contiguous within the checklist
+}
+
+/**
+ * Completion roll-up of a task over its checklist items and direct subtasks
+ */
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Checklist item creation input
+ */
+export interface CreateChecklistItemInput {
+  text: string;
+  position?: number; // Appended to the checklist when absent
+}
+
+/**
+ * Checklist item update input (partial fields)
+ */
+export interface UpdateChecklistItemInput {
+  text?: string;
+  done?: boolean;
+  position?: number;
+}
+
+/**
+ * What happens to the subtasks of a deleted task
+ * `delete` removes them with the task, `reparent` moves them up to the task's own parent
+ */
+export type SubtaskDeletionMode = 'delete' | 'reparent';
+
+/**
+ * Recurrence rule of a task, modelled on iCalendar RRULE
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every `interval` days, weeks or months
+  by_weekday?: Weekday[]; // Weekly rules only, sorted from Monday
+  by_month_day?: number; // Monthly rules only, clamped to the last day of shorter months
+  until?: Date; // No occurrence is due after this date
+  count?: number; // Total number of occurrences in the series
+}
+
+/**
+ * Recurrence rule input, the interval defaults to 1 and monthly rules default to the day of the deadline
+ */
+export interface RecurrenceRuleInput {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  by_weekday?: Weekday[];
+  by_month_day?: number;
+  until?: Date;
+  count?: number;
+}
+
+/**
+ * Task in a dependency graph
+ */
+export interface TaskDependencyNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  list_id: string;
+  is_blocked: boolean; // At least one of its blockers is still pending
+}
+
+/**
+ * "Blocked by" relationship in a dependency graph: `task_id` is blocked by `blocker_id`
+ */
+export interface TaskDependencyEdge {
+  blocker_id: string;
+  task_id: string;
+}
+
+/**
+ * The tasks a task depends on and the tasks depending on it, transitively
+ */
+export interface TaskDependencyGraph {
+  task_id: string;
+  nodes: TaskDependencyNode[];
+  edges: TaskDependencyEdge[];
+}
+
+/**
+ * Label to categorize tasks
+ * Like lists, labels are personal or belong to a workspace; tasks only carry labels of their list's scope
+ */
+export interface Label extends BaseEntity {
+  owner_id: string; // Owner of a personal label, creator of a workspace label
+  workspace_id?: string; // Absent for personal labels
+  name: string;
+  color: string;
+}
+
+/**
+ * Label creation input
+ */
+export interface CreateLabelInput {
+  name: string;
+  color: string;
+  workspace_id?: string; // Defaults to the active workspace of the user
+}
+
+/**
+ * Label update input (partial fields)
+ */
+export interface UpdateLabelInput {
+  name?: string;
+  color?: string;
+}
+
+/**
+ * Label filter for task queries
+ * `any` matches tasks carrying at least one of the labels, `all` tasks carrying every one of them
+ */
+export interface LabelFilter {
+  match: 'any' | 'all';
+  label_ids: string[];
 }
 
 /**
@@ -93,6 +579,32 @@ export interface ListWithTasks extends List {
   tasks: Task[];
 }
 
+/**
+ * Task metrics computed for a list or across several lists
+ */
+export interface ListStatistics {
+  totalTasks: number;
+  completedTasks: number;
+  pendingTasks: number;
+  completionPercentage: number;
+  tasksByPriority: {
+    high: number;
+    medium: number;
+    low: number;
+  };
+  overdueTasksCount: number;
+  upcomingTasksCount: number; // Due within 7 days
+}
+
+/**
+ * Dashboard overview aggregated across a user's lists
+ */
+export interface Dashboard {
+  listsCount: number;
+  stats: ListStatistics;
+  lists: { list: List; stats: ListStatistics }[];
+}
+
 /**
  * Task creation input (without auto-generated fields)
  */
@@ -102,6 +614,8 @@ export interface CreateTaskInput {
   description?: string;
   deadline?: Date;
   priority?: TaskPriority;
+  parent_task_id?: string; // The parent has to be in the same list
+  auto_complete?: boolean;
 }
 
 /**
@@ -114,6 +628,40 @@ export interface UpdateTaskInput {
   priority?: TaskPriority;
   status?: TaskStatus;
   list_id?: string;
+  parent_task_id?: string | null; // null detaches the task from its parent
+  auto_complete?: boolean;
+}
+
+/**
+ * Operations supported by bulk task updates
+ */
+export type BulkTaskOperationType = 'status' | 'priority' | 'move' | 'shift_deadline' | 'delete';
+
+/**
+ * Bulk task operation input
+ */
+export interface BulkTaskOperationInput {
+  taskIds: string[];
+  operation: BulkTaskOperationType;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  list_id?: string;
+  deadline_shift_days?: number;
+  atomic?: boolean; // All-or-nothing: roll back every change if any task fails
+}
+
+/**
+ * Bulk task operation result (deleted tasks are reported in `updated`)
+ */
+export interface BulkTaskOperationResult {
+  updated: Task[];
+  failed: { id: string; error: string; code?: string }[];
+  summary: {
+    total: number;
+    successful: number;
+    failed: number;
+    rolledBack: boolean;
+  };
 }
 
 /**
@@ -123,6 +671,7 @@ export interface CreateListInput {
   name: string;
   description?: string;
   color?: string;
+  workspace_id?: string; // Defaults to the active workspace of the user
 }
 
 /**
@@ -155,16 +704,24 @@ export interface SortParams {
  */
 export interface TaskFilterParams {
   list_id?: string;
+  owner_id?: string; // Tasks are owned through their list
+  shared_list_ids?: string[]; // With owner_id: also include tasks of these lists shared with the owner
+  workspace_id?: string | null; // Only tasks of lists in this workspace, null for personal lists
   status?: TaskStatus;
+  exclude_states?: string[]; // Leave out tasks in these workflow states
   priority?: TaskPriority;
   deadline_from?: Date;
   deadline_to?: Date;
   search?: string;
+  labels?: LabelFilter;
 }
 
 /**
  * Filter parameters for lists
  */
 export interface ListFilterParams {
+  owner_id?: string;
+  shared_list_ids?: string[]; // With owner_id: also include these lists shared with the owner
+  workspace_id?: string | null; // Only lists in this workspace, null for personal lists
   search?: string;
 }
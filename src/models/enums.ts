@@ -15,6 +15,66 @@ export enum TaskStatus {
   COMPLETED = 'completed',
 }
 
+/**
+ * How often a recurring task recurs
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+}
+
+/**
+ * Days of the week in recurrence rules, in RRULE notation and starting on Monday
+ */
+export enum Weekday {
+  MONDAY = 'MO',
+  TUESDAY = 'TU',
+  WEDNESDAY = 'WE',
+  THURSDAY = 'TH',
+  FRIDAY = 'FR',
+  SATURDAY = 'SA',
+  SUNDAY = 'SU',
+}
+
+/**
+ * Permissions that can be granted to personal access tokens
+ */
+export enum TokenScope {
+  LISTS_READ = 'lists:read',
+  LISTS_WRITE = 'lists:write',
+  TASKS_READ = 'tasks:read',
+  TASKS_WRITE = 'tasks:write',
+}
+
+/**
+ * Permissions granted to users through their role
+ * `.any` permissions extend the matching permission to resources owned by other users
+ */
+export enum Permission {
+  LIST_READ = 'list.read',
+  LIST_READ_ANY = 'list.read.any',
+  LIST_CREATE = 'list.create',
+  LIST_UPDATE = 'list.update',
+  LIST_UPDATE_ANY = 'list.update.any',
+  LIST_DELETE = 'list.delete',
+  LIST_DELETE_ANY = 'list.delete.any',
+  TASK_READ = 'task.read',
+  TASK_READ_ANY = 'task.read.any',
+  TASK_CREATE = 'task.create',
+  TASK_UPDATE = 'task.update',
+  TASK_UPDATE_ANY = 'task.update.any',
+  TASK_DELETE = 'task.delete',
+  TASK_DELETE_ANY = 'task.delete.any',
+  WORKSPACE_READ = 'workspace.read',
+  WORKSPACE_CREATE = 'workspace.create',
+  WORKSPACE_UPDATE = 'workspace.update',
+  WORKSPACE_DELETE = 'workspace.delete',
+  TOKEN_MANAGE = 'token.manage',
+  USER_MANAGE = 'user.manage',
+  ROLE_MANAGE = 'role.manage',
+}
+
 /**
  * API response status codes
  */
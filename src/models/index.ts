@@ -9,4 +9,4 @@ export * from './dto';
 export type { List, Task, ListWithTasks } from './entities';
 export type { ApiResponse, ApiError, ResponseMeta } from './responses';
 export type { ListDTO, TaskDTO, ListWithTasksDTO } from './dto';
-export { TaskPriority, TaskStatus, ApiResponseCode } from './enums';
+export { TaskPriority, TaskStatus, RecurrenceFrequency, Weekday, TokenScope, Permission, ApiResponseCode } from './enums';
@@ -37,6 +37,9 @@ export const createListSchema = Joi.object({
   color: Joi.string().trim().pattern(/^#[0-9A-F]{6}$/i).optional().messages({
     'string.pattern.base': 'Color must be a valid hex color (e.g., #FF0000)',
   }),
+  workspace_id: Joi.string().uuid({ version: 'uuidv4' }).optional().messages({
+    'string.uuid': 'Workspace ID must be a valid UUID',
+  }),
 });
 
 /**
@@ -83,6 +86,12 @@ export const createTaskSchema = Joi.object({
   priority: Joi.string().valid(...Object.values(TaskPriority)).optional().default(TaskPriority.MEDIUM).messages({
     'any.only': `Priority must be one of: ${Object.values(TaskPriority).join(', ')}`,
   }),
+  parent_task_id: optionalUuidSchema.messages({
+    'string.guid': 'Invalid parent task ID format',
+  }),
+  auto_complete: Joi.boolean().optional().messages({
+    'boolean.base': 'Auto complete must be a boolean value',
+  }),
 });
 
 /**
@@ -110,6 +119,44 @@ export const updateTaskSchema = Joi.object({
   list_id: optionalUuidSchema.messages({
     'string.guid': 'Invalid list ID format',
   }),
+  parent_task_id: optionalUuidSchema.allow(null).messages({
+    'string.guid': 'Invalid parent task ID format',
+  }),
+  auto_complete: Joi.boolean().optional().messages({
+    'boolean.base': 'Auto complete must be a boolean value',
+  }),
+}).min(1).messages({
+  'object.min': 'At least one field must be provided for update',
+});
+
+/**
+ * Checklist item creation validation schema
+ */
+export const createChecklistItemSchema = Joi.object({
+  text: Joi.string().trim().min(1).max(500).required().messages({
+    'string.empty': 'Checklist item text is required',
+    'string.max': 'Checklist item text cannot exceed 500 characters',
+    'any.required': 'Checklist item text is required',
+  }),
+  position: Joi.number().integer().min(0).optional().messages({
+    'number.base': 'Position must be a number',
+    'number.integer': 'Position must be an integer',
+    'number.min': 'Position cannot be negative',
+  }),
+});
+
+/**
+ * Checklist item update validation schema
+ */
+export const updateChecklistItemSchema = Joi.object({
+  text: Joi.string().trim().min(1).max(500).optional().messages({
+    'string.empty': 'Checklist item text cannot be empty',
+    'string.max': 'Checklist item text cannot exceed 500 characters',
+  }),
+  done: Joi.boolean().optional().messages({
+    'boolean.base': 'Done must be a boolean value',
+  }),
+  position: createChecklistItemSchema.extract('position'),
 }).min(1).messages({
   'object.min': 'At least one field must be provided for update',
 });
@@ -161,6 +208,7 @@ export const taskFilterSchema = Joi.object({
   status: Joi.string().valid(...Object.values(TaskStatus)).optional().messages({
     'any.only': `Status must be one of: ${Object.values(TaskStatus).join(', ')}`,
   }),
+  exclude_states: Joi.array().items(Joi.string()).optional(),
   priority: Joi.string().valid(...Object.values(TaskPriority)).optional().messages({
     'any.only': `Priority must be one of: ${Object.values(TaskPriority).join(', ')}`,
   }),
@@ -176,6 +224,16 @@ export const taskFilterSchema = Joi.object({
     'string.min': 'Search term must be at least 1 character long',
     'string.max': 'Search term cannot exceed 100 characters',
   }),
+  labels: Joi.object({
+    match: Joi.string().valid('any', 'all').required(),
+    label_ids: Joi.array().items(Joi.string().uuid({ version: 'uuidv4' })).min(1).max(20).unique().required(),
+  }).optional().messages({
+    'any.only': 'Label match must be either any or all',
+    'string.guid': 'Invalid label ID format',
+    'array.min': 'At least one label ID is required',
+    'array.max': 'Cannot filter by more than 20 labels',
+    'array.unique': 'Label IDs must be unique',
+  }),
 });
 
 /**
@@ -186,4 +244,7 @@ export const listFilterSchema = Joi.object({
     'string.min': 'Search term must be at least 1 character long',
     'string.max': 'Search term cannot exceed 100 characters',
   }),
+  workspace_id: Joi.string().uuid({ version: 'uuidv4' }).allow(null).optional().messages({
+    'string.uuid': 'Workspace ID must be a valid UUID',
+  }),
 });
@@ -2,15 +2,48 @@
 export { ListRepository, listRepository } from './listRepository';
 export { TaskRepository, taskRepository } from './taskRepository';
 export { UserRepository, userRepository } from './userRepository';
+export { RevokedTokenRepository, revokedTokenRepository } from './revokedTokenRepository';
+export { RefreshTokenRepository, refreshTokenRepository } from './refreshTokenRepository';
+export { OneTimeTokenRepository, oneTimeTokenRepository } from './oneTimeTokenRepository';
+export { LoginAttemptRepository, loginAttemptRepository } from './loginAttemptRepository';
+export { PersonalAccessTokenRepository, personalAccessTokenRepository } from './personalAccessTokenRepository';
+export { RoleRepository, roleRepository } from './roleRepository';
+export { ListMemberRepository, listMemberRepository } from './listMemberRepository';
+export { WorkspaceRepository, workspaceRepository } from './workspaceRepository';
+export { WorkspaceMemberRepository, workspaceMemberRepository } from './workspaceMemberRepository';
+export { TwoFactorRepository, twoFactorRepository } from './twoFactorRepository';
+export { LabelRepository, labelRepository } from './labelRepository';
 
 // Import instances for default export
 import { listRepository } from './listRepository';
 import { taskRepository } from './taskRepository';
 import { userRepository } from './userRepository';
+import { revokedTokenRepository } from './revokedTokenRepository';
+import { refreshTokenRepository } from './refreshTokenRepository';
+import { oneTimeTokenRepository } from './oneTimeTokenRepository';
+import { loginAttemptRepository } from './loginAttemptRepository';
+import { personalAccessTokenRepository } from './personalAccessTokenRepository';
+import { roleRepository } from './roleRepository';
+import { listMemberRepository } from './listMemberRepository';
+import { workspaceRepository } from './workspaceRepository';
+import { workspaceMemberRepository } from './workspaceMemberRepository';
+import { twoFactorRepository } from './twoFactorRepository';
+import { labelRepository } from './labelRepository';
 
 // Export default instances for easy importing
 export default {
   listRepository,
   taskRepository,
   userRepository,
+  revokedTokenRepository,
+  refreshTokenRepository,
+  oneTimeTokenRepository,
+  loginAttemptRepository,
+  personalAccessTokenRepository,
+  roleRepository,
+  listMemberRepository,
+  workspaceRepository,
+  workspaceMemberRepository,
+  twoFactorRepository,
+  labelRepository,
 };
@@ -0,0 +1,174 @@
+import { Label, CreateLabelInput, UpdateLabelInput } from '../models/entities';
+import { storage } from '../storage';
+import { generateId } from '../utils/idGenerator';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for task labels
+ * Labels are stored as records, the tasks carrying them are found through the storage label index
+ */
+export class LabelRepository {
+  private readonly collection = 'labels';
+
+  /**
+   * Find a label by ID
+   */
+  async findById(id: string): Promise<Label | null> {
+    try {
+      return storage.getRecord<Label>(this.collection, id) || null;
+    } catch (error) {
+      logger.error('Error finding label', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        labelId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the labels of a workspace, or the personal labels of the owner when the workspace ID is null
+   * Labels are sorted by name
+   */
+  async findByScope(ownerId: string, workspaceId: string | null): Promise<Label[]> {
+    try {
+      return storage
+        .getRecords<Label>(this.collection)
+        .filter(label => workspaceId
+          ? label.workspace_id === workspaceId
+          : !label.workspace_id && label.owner_id === ownerId)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      logger.error('Error getting labels', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ownerId,
+        workspaceId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a label, personal unless a workspace ID is given
+   */
+  async create(input: CreateLabelInput, ownerId: string): Promise<Label> {
+    try {
+      const now = new Date();
+      const label: Label = {
+        id: generateId(),
+        owner_id: ownerId,
+        ...(input.workspace_id && { workspace_id: input.workspace_id }),
+        name: input.name.trim(),
+        color: input.color.toUpperCase(),
+        created_at: now,
+        updated_at: now,
+      };
+
+      storage.putRecord(this.collection, label);
+      logger.debug('Label stored', { labelId: label.id, ownerId, workspaceId: input.workspace_id });
+
+      return label;
+    } catch (error) {
+      logger.error('Error storing label', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ownerId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a label or change its color
+   * Returns null when the label does not exist
+   */
+  async update(id: string, input: UpdateLabelInput): Promise<Label | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+
+      const label: Label = {
+        ...existing,
+        ...(input.name && { name: input.name.trim() }),
+        ...(input.color && { color: input.color.toUpperCase() }),
+        updated_at: new Date(),
+      };
+
+      storage.putRecord(this.collection, label);
+
+      return label;
+    } catch (error) {
+      logger.error('Error updating label', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        labelId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a label and detach it from every task carrying it
+   * Returns the number of tasks the label was detached from
+   */
+  async delete(id: string): Promise<number> {
+    try {
+      const tasks = storage.getTasksByLabelId(id);
+      for (const task of tasks) {
+        storage.updateTask(task.id, {
+          label_ids: (task.label_ids || []).filter(labelId => labelId !== id),
+        });
+      }
+
+      storage.deleteRecord(this.collection, id);
+
+      return tasks.length;
+    } catch (error) {
+      logger.error('Error deleting label', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        labelId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every label of a workspace
+   */
+  async deleteForWorkspace(workspaceId: string): Promise<void> {
+    const labels = storage
+      .getRecords<Label>(this.collection)
+      .filter(label => label.workspace_id === workspaceId);
+
+    for (const label of labels) {
+      await this.delete(label.id);
+    }
+  }
+
+  /**
+   * Delete every personal label of a user
+   */
+  async deleteForOwner(ownerId: string): Promise<void> {
+    for (const label of await this.findByScope(ownerId, null)) {
+      await this.delete(label.id);
+    }
+  }
+
+  /**
+   * Check if a label name is unique within a workspace, or within the owner's personal labels
+   * when the workspace ID is null
+   */
+  async isNameUnique(
+    name: string,
+    ownerId: string,
+    workspaceId: string | null,
+    excludeId?: string
+  ): Promise<boolean> {
+    const trimmedName = name.trim().toLowerCase();
+
+    return !(await this.findByScope(ownerId, workspaceId)).some(
+      label => label.name.toLowerCase() === trimmedName && label.id !== excludeId
+    );
+  }
+}
+
+export const labelRepository = new LabelRepository();
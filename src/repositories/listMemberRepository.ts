@@ -0,0 +1,226 @@
+import { ListMember, ListAccessLevel } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+import { hasListAccess } from '../utils/ownership';
+import { workspaceMemberRepository } from './workspaceMemberRepository';
+
+/**
+ * Repository for list memberships
+ * Memberships grant users other than the list owner access to a list
+ */
+export class ListMemberRepository {
+  private readonly collection = 'list_members';
+
+  /**
+   * Get the access level of a user on a list
+   * The list owner has owner access without a membership, members of the list's workspace
+   * get their workspace role; the higher level wins. The creator of a workspace list only keeps
+   * owner access while they are a member of the workspace. Returns null without access
+   */
+  async getAccessLevel(listId: string, userId: string): Promise<ListAccessLevel | null> {
+    try {
+      const list = storage.getListById(listId);
+      if (!list) {
+        return null;
+      }
+
+      const workspaceMember = list.workspace_id
+        ? await workspaceMemberRepository.find(list.workspace_id, userId)
+        : null;
+
+      if (list.owner_id === userId && (!list.workspace_id || workspaceMember)) {
+        return 'owner';
+      }
+
+      const member = storage.getRecord<ListMember>(this.collection, this.getId(listId, userId));
+
+      return [member?.role, workspaceMember?.role].reduce<ListAccessLevel | null>(
+        (highest, level) => (!level || hasListAccess(highest, level) ? highest : level),
+        null
+      );
+    } catch (error) {
+      logger.error('Error getting list access level', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the membership of a user in a list
+   */
+  async find(listId: string, userId: string): Promise<ListMember | null> {
+    try {
+      return storage.getRecord<ListMember>(this.collection, this.getId(listId, userId)) || null;
+    } catch (error) {
+      logger.error('Error finding list member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all memberships of a list, oldest first
+   */
+  async findByListId(listId: string): Promise<ListMember[]> {
+    try {
+      return storage
+        .getRecords<ListMember>(this.collection)
+        .filter(member => member.list_id === listId)
+        .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+    } catch (error) {
+      logger.error('Error getting list members', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the IDs of all lists shared with a user
+   */
+  async getSharedListIds(userId: string): Promise<string[]> {
+    try {
+      return storage
+        .getRecords<ListMember>(this.collection)
+        .filter(member => member.user_id === userId)
+        .map(member => member.list_id);
+    } catch (error) {
+      logger.error('Error getting shared lists', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a user to a list
+   */
+  async create(listId: string, userId: string, role: ListAccessLevel, addedBy: string): Promise<ListMember> {
+    try {
+      const now = new Date();
+      const member: ListMember = {
+        id: this.getId(listId, userId),
+        list_id: listId,
+        user_id: userId,
+        role,
+        added_by: addedBy,
+        created_at: now,
+        updated_at: now,
+      };
+
+      storage.putRecord(this.collection, member);
+      logger.debug('List member stored', { listId, userId, role });
+
+      return member;
+    } catch (error) {
+      logger.error('Error storing list member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the access level of a member
+   * Returns null when the user is not a member of the list
+   */
+  async updateRole(listId: string, userId: string, role: ListAccessLevel): Promise<ListMember | null> {
+    try {
+      const existing = await this.find(listId, userId);
+      if (!existing) {
+        return null;
+      }
+
+      const member: ListMember = { ...existing, role, updated_at: new Date() };
+      storage.putRecord(this.collection, member);
+
+      return member;
+    } catch (error) {
+      logger.error('Error updating list member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user from a list
+   */
+  async delete(listId: string, userId: string): Promise<boolean> {
+    try {
+      return storage.deleteRecord(this.collection, this.getId(listId, userId));
+    } catch (error) {
+      logger.error('Error deleting list member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every member of a list
+   */
+  async deleteForList(listId: string): Promise<number> {
+    try {
+      const members = await this.findByListId(listId);
+
+      for (const member of members) {
+        storage.deleteRecord(this.collection, member.id);
+      }
+
+      return members.length;
+    } catch (error) {
+      logger.error('Error deleting list members', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every membership of a user
+   */
+  async deleteForUser(userId: string): Promise<number> {
+    try {
+      const members = storage
+        .getRecords<ListMember>(this.collection)
+        .filter(member => member.user_id === userId);
+
+      for (const member of members) {
+        storage.deleteRecord(this.collection, member.id);
+      }
+
+      return members.length;
+    } catch (error) {
+      logger.error('Error deleting memberships of user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record ID of a membership
+   */
+  private getId(listId: string, userId: string): string {
+    return `${listId}:${userId}`;
+  }
+}
+
+export const listMemberRepository = new ListMemberRepository();
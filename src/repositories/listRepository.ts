@@ -1,11 +1,11 @@
 import { List, CreateListInput, UpdateListInput, ListFilterParams, SortParams } from '../models';
-import { memoryStore } from '../storage';
+import { storage } from '../storage';
 import { generateId } from '../utils/idGenerator';
 import { logger } from '../utils/logger';
 
 /**
  * Repository class for List entity operations
- * Provides data access abstraction over the memory store
+ * Provides data access abstraction over the storage backend
  */
 export class ListRepository {
   /**
@@ -18,31 +18,12 @@ export class ListRepository {
     offset?: number
   ): Promise<{ lists: List[]; total: number }> {
     try {
-      let lists = memoryStore.getAllLists();
-      const total = lists.length;
-
-      // Apply search filter
-      if (filters?.search) {
-        const searchTerm = filters.search.toLowerCase();
-        lists = lists.filter(
-          list =>
-            list.name.toLowerCase().includes(searchTerm) ||
-            (list.description && list.description.toLowerCase().includes(searchTerm))
-        );
-      }
-
-      // Apply sorting
-      if (sort) {
-        lists = this.sortLists(lists, sort);
-      } else {
-        // Default sort by created_at descending
-        lists = this.sortLists(lists, { field: 'created_at', order: 'desc' });
-      }
-
-      // Apply pagination
-      if (limit !== undefined && offset !== undefined) {
-        lists = lists.slice(offset, offset + limit);
-      }
+      const { lists, total } = storage.queryLists({
+        filters: filters || {},
+        ...(sort && { sort }),
+        ...(limit !== undefined && { limit }),
+        ...(offset !== undefined && { offset }),
+      });
 
       logger.debug('Retrieved lists', {
         total,
@@ -65,7 +46,7 @@ export class ListRepository {
    */
   async getListById(id: string): Promise<List | null> {
     try {
-      const list = memoryStore.getListById(id);
+      const list = storage.getListById(id);
       
       if (!list) {
         logger.debug('List not found', { listId: id });
@@ -84,13 +65,15 @@ export class ListRepository {
   }
 
   /**
-   * Create a new list
+   * Create a new list owned by the given user, in a workspace when the input names one
    */
-  async createList(input: CreateListInput): Promise<List> {
+  async createList(input: CreateListInput, ownerId: string): Promise<List> {
     try {
       const now = new Date();
       const list: List = {
         id: generateId(),
+        owner_id: ownerId,
+        ...(input.workspace_id && { workspace_id: input.workspace_id }),
         name: input.name.trim(),
         ...(input.description && { description: input.description.trim() }),
         ...(input.color && { color: input.color }),
@@ -99,22 +82,20 @@ export class ListRepository {
         updated_at: now,
       };
 
-      // Validate list name uniqueness
-      const existingLists = memoryStore.getAllLists();
-      const isDuplicate = existingLists.some(
-        existingList => existingList.name.toLowerCase() === list.name.toLowerCase()
-      );
+      // Validate list name uniqueness within the workspace or the owner's personal lists
+      const isUnique = await this.isListNameUnique(list.name, ownerId, list.workspace_id ?? null);
 
-      if (isDuplicate) {
+      if (!isUnique) {
         const error = new Error(`List with name '${list.name}' already exists`);
-        logger.warn('Attempted to create duplicate list', { name: list.name });
+        logger.warn('Attempted to create duplicate list', { name: list.name, ownerId });
         throw error;
       }
 
-      memoryStore.createList(list);
+      storage.createList(list);
 
       logger.info('List created successfully', {
         listId: list.id,
+        ownerId,
         name: list.name,
         description: list.description,
         color: list.color,
@@ -124,7 +105,8 @@ export class ListRepository {
     } catch (error) {
       logger.error('Error creating list', { 
         error: error instanceof Error ? error.message : 'Unknown error', 
-        input 
+        input,
+        ownerId,
       });
       throw error;
     }
@@ -136,7 +118,7 @@ export class ListRepository {
   async updateList(id: string, input: UpdateListInput): Promise<List | null> {
     try {
       // Check if list exists
-      const existingList = memoryStore.getListById(id);
+      const existingList = storage.getListById(id);
       if (!existingList) {
         logger.debug('List not found for update', { listId: id });
         return null;
@@ -145,8 +127,8 @@ export class ListRepository {
       // Validate name uniqueness if name is being updated
       if (input.name) {
         const trimmedName = input.name.trim();
-        const allLists = memoryStore.getAllLists();
-        const isDuplicate = allLists.some(
+        const ownerLists = storage.getListsByOwnerId(existingList.owner_id);
+        const isDuplicate = ownerLists.some(
           list => list.id !== id && list.name.toLowerCase() === trimmedName.toLowerCase()
         );
 
@@ -174,14 +156,14 @@ export class ListRepository {
         updateData.description = updateData.description.trim();
       }
 
-      const success = memoryStore.updateList(id, updateData);
+      const success = storage.updateList(id, updateData);
       
       if (!success) {
-        logger.error('Failed to update list in memory store', { listId: id, updateData });
+        logger.error('Failed to update list in storage', { listId: id, updateData });
         return null;
       }
 
-      const updatedList = memoryStore.getListById(id);
+      const updatedList = storage.getListById(id);
       
       logger.info('List updated successfully', {
         listId: id,
@@ -200,23 +182,47 @@ export class ListRepository {
     }
   }
 
+  /**
+   * Transfer a list to another owner
+   */
+  async transferList(id: string, ownerId: string): Promise<List | null> {
+    try {
+      const success = storage.updateList(id, { owner_id: ownerId, updated_at: new Date() });
+      if (!success) {
+        logger.debug('List not found for transfer', { listId: id });
+        return null;
+      }
+
+      logger.info('List transferred successfully', { listId: id, ownerId });
+
+      return storage.getListById(id) || null;
+    } catch (error) {
+      logger.error('Error transferring list', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        listId: id, 
+        ownerId 
+      });
+      throw error;
+    }
+  }
+
   /**
    * Delete a list
    */
   async deleteList(id: string, deleteAssociatedTasks: boolean = true): Promise<boolean> {
     try {
       // Check if list exists
-      const existingList = memoryStore.getListById(id);
+      const existingList = storage.getListById(id);
       if (!existingList) {
         logger.debug('List not found for deletion', { listId: id });
         return false;
       }
 
       // Get tasks count before deletion for logging
-      const tasks = memoryStore.getTasksByListId(id);
+      const tasks = storage.getTasksByListId(id);
       const tasksCount = tasks.length;
 
-      const success = memoryStore.deleteList(id, deleteAssociatedTasks);
+      const success = storage.deleteList(id, deleteAssociatedTasks);
       
       if (success) {
         logger.info('List deleted successfully', {
@@ -226,7 +232,7 @@ export class ListRepository {
           deletedTasksCount: deleteAssociatedTasks ? tasksCount : 0,
         });
       } else {
-        logger.error('Failed to delete list from memory store', { listId: id });
+        logger.error('Failed to delete list from storage', { listId: id });
       }
 
       return success;
@@ -245,7 +251,7 @@ export class ListRepository {
    */
   async listExists(id: string): Promise<boolean> {
     try {
-      const list = memoryStore.getListById(id);
+      const list = storage.getListById(id);
       return list !== undefined;
     } catch (error) {
       logger.error('Error checking if list exists', { 
@@ -256,6 +262,22 @@ export class ListRepository {
     }
   }
 
+  /**
+   * Get the owner ID of a list
+   */
+  async getListOwnerId(id: string): Promise<string | null> {
+    try {
+      const list = storage.getListById(id);
+      return list ? list.owner_id : null;
+    } catch (error) {
+      logger.error('Error getting list owner', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId: id,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get lists count
    */
@@ -273,11 +295,19 @@ export class ListRepository {
   }
 
   /**
-   * Check if list name is unique
+   * Check if list name is unique within a workspace, or within the owner's personal lists
+   * when the workspace ID is null
    */
-  async isListNameUnique(name: string, excludeId?: string): Promise<boolean> {
+  async isListNameUnique(
+    name: string,
+    ownerId: string,
+    workspaceId: string | null,
+    excludeId?: string
+  ): Promise<boolean> {
     try {
-      const lists = memoryStore.getAllLists();
+      const { lists } = storage.queryLists({
+        filters: workspaceId ? { workspace_id: workspaceId } : { owner_id: ownerId, workspace_id: null },
+      });
       const trimmedName = name.trim().toLowerCase();
       
       return !lists.some(
@@ -289,39 +319,13 @@ export class ListRepository {
       logger.error('Error checking list name uniqueness', { 
         error: error instanceof Error ? error.message : 'Unknown error', 
         name, 
-        excludeId 
+        ownerId,
+        workspaceId,
+        excludeId,
       });
       throw error;
     }
   }
-
-  /**
-   * Sort lists based on sort parameters
-   */
-  private sortLists(lists: List[], sort: SortParams): List[] {
-    return lists.sort((a, b) => {
-      let comparison = 0;
-
-      switch (sort.field) {
-        case 'name':
-          comparison = a.name.localeCompare(b.name);
-          break;
-        case 'created_at':
-          comparison = a.created_at.getTime() - b.created_at.getTime();
-          break;
-        case 'updated_at':
-          comparison = a.updated_at.getTime() - b.updated_at.getTime();
-          break;
-        case 'tasks_count':
-          comparison = a.tasks_count - b.tasks_count;
-          break;
-        default:
-          comparison = a.created_at.getTime() - b.created_at.getTime();
-      }
-
-      return sort.order === 'desc' ? -comparison : comparison;
-    });
-  }
 }
 
 // Create and export singleton instance
@@ -0,0 +1,86 @@
+import { LoginAttempts } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for failed login tracking per account
+ * Entries are forgotten once they expire, so an expired lockout starts a fresh count
+ */
+export class LoginAttemptRepository {
+  private readonly collection = 'login_attempts';
+
+  /**
+   * Get the current failed login state of a user
+   */
+  async findByUserId(userId: string, now: Date = new Date()): Promise<LoginAttempts | null> {
+    try {
+      const entry = storage.getRecord<LoginAttempts>(this.collection, userId);
+      return entry && entry.expires_at > now ? entry : null;
+    } catch (error) {
+      logger.error('Error getting login attempts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the failed login state of a user
+   */
+  async save(entry: LoginAttempts): Promise<void> {
+    try {
+      storage.putRecord(this.collection, entry);
+    } catch (error) {
+      logger.error('Error saving login attempts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: entry.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Clear failed logins and any lockout of a user
+   * Returns true when there was something to clear
+   */
+  async reset(userId: string): Promise<boolean> {
+    try {
+      return storage.deleteRecord(this.collection, userId);
+    } catch (error) {
+      logger.error('Error resetting login attempts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove entries that no longer affect logins
+   */
+  async pruneExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const expired = storage
+        .getRecords<LoginAttempts>(this.collection)
+        .filter(entry => entry.expires_at <= now);
+
+      for (const entry of expired) {
+        storage.deleteRecord(this.collection, entry.id);
+      }
+
+      if (expired.length > 0) {
+        logger.info('Pruned expired login attempts', { pruned: expired.length });
+      }
+
+      return expired.length;
+    } catch (error) {
+      logger.error('Error pruning login attempts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
+
+export const loginAttemptRepository = new LoginAttemptRepository();
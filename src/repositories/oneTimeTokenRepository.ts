@@ -0,0 +1,128 @@
+import { createHash, randomBytes } from 'crypto';
+import { OneTimeToken, OneTimeTokenPurpose } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for single-use tokens (email change confirmation, password reset, email verification)
+ * Only token hashes are stored; a user has at most one pending token per purpose
+ */
+export class OneTimeTokenRepository {
+  private readonly collection = 'one_time_tokens';
+
+  /**
+   * Create a token, replacing any pending token of the same purpose
+   * Returns the token to send to the user
+   */
+  async create(
+    userId: string,
+    purpose: OneTimeTokenPurpose,
+    expiresInMs: number,
+    data: Pick<OneTimeToken, 'email'> = {}
+  ): Promise<string> {
+    try {
+      await this.deleteForUser(userId, purpose);
+
+      const token = randomBytes(32).toString('base64url');
+      const now = new Date();
+      const entry: OneTimeToken = {
+        id: this.hash(token),
+        user_id: userId,
+        purpose,
+        created_at: now,
+        expires_at: new Date(now.getTime() + expiresInMs),
+        ...data,
+      };
+
+      storage.putRecord(this.collection, entry);
+      logger.debug('One-time token created', { userId, purpose });
+
+      return token;
+    } catch (error) {
+      logger.error('Error creating one-time token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        purpose,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Redeem a token; it is deleted whether or not it has expired
+   * Returns null for unknown, expired or mismatched tokens
+   */
+  async consume(token: string, purpose: OneTimeTokenPurpose): Promise<OneTimeToken | null> {
+    try {
+      const entry = storage.getRecord<OneTimeToken>(this.collection, this.hash(token));
+      if (!entry || entry.purpose !== purpose) {
+        return null;
+      }
+
+      storage.deleteRecord(this.collection, entry.id);
+      return entry.expires_at > new Date() ? entry : null;
+    } catch (error) {
+      logger.error('Error consuming one-time token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        purpose,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete pending tokens of a user, optionally only for one purpose
+   */
+  async deleteForUser(userId: string, purpose?: OneTimeTokenPurpose): Promise<number> {
+    try {
+      const entries = storage
+        .getRecords<OneTimeToken>(this.collection)
+        .filter(entry => entry.user_id === userId && (!purpose || entry.purpose === purpose));
+
+      for (const entry of entries) {
+        storage.deleteRecord(this.collection, entry.id);
+      }
+
+      return entries.length;
+    } catch (error) {
+      logger.error('Error deleting one-time tokens', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        purpose,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove tokens past their expiry
+   */
+  async pruneExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const expired = storage
+        .getRecords<OneTimeToken>(this.collection)
+        .filter(entry => entry.expires_at <= now);
+
+      for (const entry of expired) {
+        storage.deleteRecord(this.collection, entry.id);
+      }
+
+      if (expired.length > 0) {
+        logger.info('Pruned expired one-time tokens', { pruned: expired.length });
+      }
+
+      return expired.length;
+    } catch (error) {
+      logger.error('Error pruning one-time tokens', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const oneTimeTokenRepository = new OneTimeTokenRepository();
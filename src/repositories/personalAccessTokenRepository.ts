@@ -0,0 +1,170 @@
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { PersonalAccessToken, CreatePersonalAccessTokenInput } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for personal access tokens
+ * Only token hashes are stored; tokens are looked up by the hash of the presented value
+ */
+export class PersonalAccessTokenRepository {
+  private readonly collection = 'personal_access_tokens';
+  private readonly tokenPrefix = 'todo_pat_';
+
+  /**
+   * Create a token for a user
+   * Returns the stored token together with the token value to hand out once
+   */
+  async create(
+    userId: string,
+    input: CreatePersonalAccessTokenInput
+  ): Promise<{ token: string; record: PersonalAccessToken }> {
+    try {
+      const token = `${this.tokenPrefix}${randomBytes(32).toString('base64url')}`;
+      const record: PersonalAccessToken = {
+        id: uuidv4(),
+        user_id: userId,
+        name: input.name,
+        token_hash: this.hash(token),
+        token_prefix: token.slice(0, this.tokenPrefix.length + 4),
+        scopes: input.scopes,
+        created_at: new Date(),
+        ...(input.expires_at && { expires_at: input.expires_at }),
+      };
+
+      storage.putRecord(this.collection, record);
+      logger.debug('Personal access token stored', { userId, tokenId: record.id });
+
+      return { token, record };
+    } catch (error) {
+      logger.error('Error storing personal access token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a bearer token is a personal access token (rather than a JWT)
+   */
+  isPersonalAccessToken(token: string): boolean {
+    return token.startsWith(this.tokenPrefix);
+  }
+
+  /**
+   * Find a token by ID
+   */
+  async findById(id: string): Promise<PersonalAccessToken | null> {
+    try {
+      return storage.getRecord<PersonalAccessToken>(this.collection, id) || null;
+    } catch (error) {
+      logger.error('Error getting personal access token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tokenId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a token by its value
+   */
+  async findByToken(token: string): Promise<PersonalAccessToken | null> {
+    try {
+      const tokenHash = this.hash(token);
+      return storage
+        .getRecords<PersonalAccessToken>(this.collection)
+        .find(entry => entry.token_hash === tokenHash) || null;
+    } catch (error) {
+      logger.error('Error getting personal access token by hash', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all tokens of a user, newest first
+   */
+  async findByUserId(userId: string): Promise<PersonalAccessToken[]> {
+    try {
+      return storage
+        .getRecords<PersonalAccessToken>(this.collection)
+        .filter(token => token.user_id === userId)
+        .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+    } catch (error) {
+      logger.error('Error getting personal access tokens for user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record when a token was last used
+   */
+  async touch(id: string, usedAt: Date = new Date()): Promise<void> {
+    try {
+      const token = storage.getRecord<PersonalAccessToken>(this.collection, id);
+      if (token) {
+        storage.putRecord(this.collection, { ...token, last_used_at: usedAt });
+      }
+    } catch (error) {
+      logger.error('Error updating personal access token usage', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tokenId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a token
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      return storage.deleteRecord(this.collection, id);
+    } catch (error) {
+      logger.error('Error deleting personal access token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tokenId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every token of a user
+   */
+  async deleteForUser(userId: string): Promise<number> {
+    try {
+      const tokens = storage
+        .getRecords<PersonalAccessToken>(this.collection)
+        .filter(token => token.user_id === userId);
+
+      for (const token of tokens) {
+        storage.deleteRecord(this.collection, token.id);
+      }
+
+      return tokens.length;
+    } catch (error) {
+      logger.error('Error deleting personal access tokens for user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Hash a token for storage and lookup
+   */
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const personalAccessTokenRepository = new PersonalAccessTokenRepository();
@@ -0,0 +1,130 @@
+import { RefreshToken } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for hashed refresh tokens
+ * Tokens are grouped in families so a detected reuse can revoke a whole login session
+ */
+export class RefreshTokenRepository {
+  private readonly collection = 'refresh_tokens';
+
+  /**
+   * Store a new refresh token
+   */
+  async create(token: RefreshToken): Promise<RefreshToken> {
+    try {
+      storage.putRecord(this.collection, token);
+      logger.debug('Refresh token stored', { userId: token.user_id, familyId: token.family_id });
+      return token;
+    } catch (error) {
+      logger.error('Error storing refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: token.user_id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a refresh token by its hash
+   */
+  async findById(id: string): Promise<RefreshToken | null> {
+    try {
+      return storage.getRecord<RefreshToken>(this.collection, id) || null;
+    } catch (error) {
+      logger.error('Error getting refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a refresh token as used and record its successor
+   */
+  async markRotated(id: string, replacedBy: string): Promise<void> {
+    try {
+      const token = storage.getRecord<RefreshToken>(this.collection, id);
+      if (token) {
+        storage.putRecord(this.collection, { ...token, replaced_by: replacedBy });
+      }
+    } catch (error) {
+      logger.error('Error rotating refresh token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every token of a family
+   */
+  async revokeFamily(familyId: string): Promise<number> {
+    try {
+      return this.revokeWhere(token => token.family_id === familyId);
+    } catch (error) {
+      logger.error('Error revoking refresh token family', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        familyId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every token issued to a user, optionally sparing one family
+   */
+  async revokeAllForUser(userId: string, exceptFamilyId?: string): Promise<number> {
+    try {
+      return this.revokeWhere(token => token.user_id === userId && token.family_id !== exceptFamilyId);
+    } catch (error) {
+      logger.error('Error revoking refresh tokens for user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove tokens past their expiry
+   */
+  async pruneExpired(now: Date = new Date()): Promise<number> {
+    try {
+      const expired = storage
+        .getRecords<RefreshToken>(this.collection)
+        .filter(token => token.expires_at <= now);
+
+      for (const token of expired) {
+        storage.deleteRecord(this.collection, token.id);
+      }
+
+      if (expired.length > 0) {
+        logger.info('Pruned expired refresh tokens', { pruned: expired.length });
+      }
+
+      return expired.length;
+    } catch (error) {
+      logger.error('Error pruning refresh tokens', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  private revokeWhere(predicate: (token: RefreshToken) => boolean): number {
+    const now = new Date();
+    const tokens = storage
+      .getRecords<RefreshToken>(this.collection)
+      .filter(token => predicate(token) && !token.revoked_at);
+
+    for (const token of tokens) {
+      storage.putRecord(this.collection, { ...token, revoked_at: now });
+    }
+
+    return tokens.length;
+  }
+}
+
+export const refreshTokenRepository = new RefreshTokenRepository();
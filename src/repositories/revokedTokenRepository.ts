@@ -0,0 +1,120 @@
+import { AccessTokenClaims, RevokedToken, UserTokenRevocation } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for revoked access tokens
+ * Tracks single revoked tokens by jti and per-user revocation cut-offs
+ */
+export class RevokedTokenRepository {
+  private readonly tokensCollection = 'revoked_tokens';
+  private readonly usersCollection = 'user_token_revocations';
+
+  /**
+   * Revoke a single token
+   */
+  async revokeToken(jti: string, userId: string, expiresAt: Date): Promise<void> {
+    try {
+      const entry: RevokedToken = {
+        id: jti,
+        user_id: userId,
+        revoked_at: new Date(),
+        expires_at: expiresAt,
+      };
+
+      storage.putRecord(this.tokensCollection, entry);
+      logger.debug('Token revoked', { jti, userId });
+    } catch (error) {
+      logger.error('Error revoking token', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        jti,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every token issued to a user up to now, optionally sparing one session
+   */
+  async revokeAllForUser(userId: string, expiresAt: Date, exceptSessionId?: string): Promise<void> {
+    try {
+      const entry: UserTokenRevocation = {
+        id: userId,
+        revoked_at: new Date(),
+        expires_at: expiresAt,
+        ...(exceptSessionId && { except_session: exceptSessionId }),
+      };
+
+      storage.putRecord(this.usersCollection, entry);
+      logger.debug('All tokens revoked for user', { userId, exceptSessionId });
+    } catch (error) {
+      logger.error('Error revoking user tokens', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a token has been revoked, either by jti or by a user cut-off
+   * Tokens carry their issue time in milliseconds, older tokens with a whole-second
+   * issue time count as issued at the start of that second
+   */
+  async isRevoked(claims: AccessTokenClaims): Promise<boolean> {
+    try {
+      if (claims.jti && storage.getRecord<RevokedToken>(this.tokensCollection, claims.jti)) {
+        return true;
+      }
+
+      const cutoff = storage.getRecord<UserTokenRevocation>(this.usersCollection, claims.id);
+      if (cutoff && claims.iat !== undefined && !(claims.sid && claims.sid === cutoff.except_session)) {
+        return claims.iat < cutoff.revoked_at.getTime() / 1000;
+      }
+
+      return false;
+    } catch (error) {
+      logger.error('Error checking token revocation', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        jti: claims.jti,
+        userId: claims.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove entries whose tokens have expired anyway
+   */
+  async pruneExpired(now: Date = new Date()): Promise<number> {
+    try {
+      let pruned = 0;
+
+      for (const collection of [this.tokensCollection, this.usersCollection]) {
+        const expired = storage
+          .getRecords<RevokedToken | UserTokenRevocation>(collection)
+          .filter(entry => entry.expires_at <= now);
+
+        for (const entry of expired) {
+          if (storage.deleteRecord(collection, entry.id)) {
+            pruned++;
+          }
+        }
+      }
+
+      if (pruned > 0) {
+        logger.info('Pruned expired token revocations', { pruned });
+      }
+
+      return pruned;
+    } catch (error) {
+      logger.error('Error pruning token revocations', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+}
+
+export const revokedTokenRepository = new RevokedTokenRepository();
@@ -0,0 +1,267 @@
+import { Role, CreateRoleInput, UpdateRoleInput } from '../models/entities';
+import { Permission } from '../models/enums';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Custom role as stored (the role name is the record ID)
+ */
+interface StoredRole {
+  id: string;
+  description?: string;
+  permissions: Permission[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Settings of a built-in or custom role (the role name is the record ID)
+ */
+interface StoredRoleSettings {
+  id: string;
+  two_factor_required: boolean;
+  updated_at: Date;
+}
+
+/**
+ * Roles that always exist and cannot be changed
+ * Only their settings are stored
+ */
+const BUILT_IN_ROLES: Omit<Role, 'two_factor_required'>[] = [
+  {
+    name: 'admin',
+    description: 'Full access to every list, task, user and role',
+    permissions: Object.values(Permission),
+    built_in: true,
+  },
+  {
+    name: 'user',
+    description: 'Manage own lists and tasks',
+    permissions: [
+      Permission.LIST_READ,
+      Permission.LIST_CREATE,
+      Permission.LIST_UPDATE,
+      Permission.LIST_DELETE,
+      Permission.TASK_READ,
+      Permission.TASK_CREATE,
+      Permission.TASK_UPDATE,
+      Permission.TASK_DELETE,
+      Permission.WORKSPACE_READ,
+      Permission.WORKSPACE_CREATE,
+      Permission.WORKSPACE_UPDATE,
+      Permission.WORKSPACE_DELETE,
+      Permission.TOKEN_MANAGE,
+    ],
+    built_in: true,
+  },
+];
+
+/**
+ * Repository for roles
+ * Built-in roles are defined in code, custom roles are stored next to them
+ */
+export class RoleRepository {
+  private readonly collection = 'roles';
+  private readonly settingsCollection = 'role_settings';
+
+  /**
+   * Name of the role given to new users
+   */
+  readonly defaultRole = 'user';
+
+  /**
+   * Get all roles, built-in roles first
+   */
+  async findAll(): Promise<Role[]> {
+    try {
+      const customRoles = storage
+        .getRecords<StoredRole>(this.collection)
+        .map(record => this.toRole(record))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return [...BUILT_IN_ROLES.map(role => this.withSettings(role)), ...customRoles];
+    } catch (error) {
+      logger.error('Error getting roles', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a role by name
+   */
+  async findByName(name: string): Promise<Role | null> {
+    try {
+      const builtIn = BUILT_IN_ROLES.find(role => role.name === name);
+      if (builtIn) {
+        return this.withSettings(builtIn);
+      }
+
+      const record = storage.getRecord<StoredRole>(this.collection, name);
+      return record ? this.toRole(record) : null;
+    } catch (error) {
+      logger.error('Error finding role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the permissions granted by a role
+   * Unknown roles grant no permissions
+   */
+  async getPermissions(name: string): Promise<Permission[]> {
+    const role = await this.findByName(name);
+    return role ? role.permissions : [];
+  }
+
+  /**
+   * Check whether users holding a role must enable two-factor authentication
+   */
+  async isTwoFactorRequired(name: string): Promise<boolean> {
+    try {
+      return storage.getRecord<StoredRoleSettings>(this.settingsCollection, name)?.two_factor_required ?? false;
+    } catch (error) {
+      logger.error('Error reading role settings', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Require or stop requiring two-factor authentication for a built-in or custom role
+   * Returns null when there is no role with the given name
+   */
+  async setTwoFactorRequired(name: string, required: boolean): Promise<Role | null> {
+    try {
+      if (!this.isBuiltIn(name) && !storage.getRecord<StoredRole>(this.collection, name)) {
+        return null;
+      }
+
+      storage.putRecord<StoredRoleSettings>(this.settingsCollection, {
+        id: name,
+        two_factor_required: required,
+        updated_at: new Date(),
+      });
+      logger.debug('Role settings updated', { role: name, twoFactorRequired: required });
+
+      return this.findByName(name);
+    } catch (error) {
+      logger.error('Error updating role settings', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a custom role
+   */
+  async create(input: CreateRoleInput): Promise<Role> {
+    try {
+      const now = new Date();
+      const record: StoredRole = {
+        id: input.name,
+        ...(input.description && { description: input.description }),
+        permissions: input.permissions,
+        created_at: now,
+        updated_at: now,
+      };
+
+      storage.putRecord(this.collection, record);
+      logger.debug('Role stored', { role: input.name });
+
+      return this.toRole(record);
+    } catch (error) {
+      logger.error('Error storing role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: input.name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a custom role
+   * Returns null when there is no custom role with the given name
+   */
+  async update(name: string, input: UpdateRoleInput): Promise<Role | null> {
+    try {
+      const existing = storage.getRecord<StoredRole>(this.collection, name);
+      if (!existing) {
+        return null;
+      }
+
+      const record: StoredRole = {
+        ...existing,
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.permissions && { permissions: input.permissions }),
+        updated_at: new Date(),
+      };
+
+      storage.putRecord(this.collection, record);
+      logger.debug('Role updated', { role: name });
+
+      return this.toRole(record);
+    } catch (error) {
+      logger.error('Error updating role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a custom role
+   */
+  async delete(name: string): Promise<boolean> {
+    try {
+      storage.deleteRecord(this.settingsCollection, name);
+      return storage.deleteRecord(this.collection, name);
+    } catch (error) {
+      logger.error('Error deleting role', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a role is defined in code
+   */
+  isBuiltIn(name: string): boolean {
+    return BUILT_IN_ROLES.some(role => role.name === name);
+  }
+
+  /**
+   * Convert a stored role to a role
+   */
+  private toRole(record: StoredRole): Role {
+    return this.withSettings({
+      name: record.id,
+      ...(record.description && { description: record.description }),
+      permissions: record.permissions,
+      built_in: false,
+      created_at: record.created_at,
+      updated_at: record.updated_at,
+    });
+  }
+
+  /**
+   * Add the stored settings of a role
+   */
+  private withSettings(role: Omit<Role, 'two_factor_required'>): Role {
+    const settings = storage.getRecord<StoredRoleSettings>(this.settingsCollection, role.name);
+    return { ...role, two_factor_required: settings?.two_factor_required ?? false };
+  }
+}
+
+export const roleRepository = new RoleRepository();
@@ -5,15 +5,18 @@ import {
   TaskFilterParams, 
   SortParams, 
   TaskStatus, 
-  TaskPriority 
+  TaskPriority,
+  TaskProgress,
+  ChecklistItem
 } from '../models';
-import { memoryStore } from '../storage';
+import { storage } from '../storage';
+import { taskWorkflow } from '../workflow';
 import { generateId } from '../utils/idGenerator';
 import { logger } from '../utils/logger';
 
 /**
  * Repository class for Task entity operations
- * Provides data access abstraction over the memory store
+ * Provides data access abstraction over the storage backend
  */
 export class TaskRepository {
   /**
@@ -26,32 +29,15 @@ export class TaskRepository {
     offset?: number
   ): Promise<{ tasks: Task[]; total: number }> {
     try {
-      let tasks = memoryStore.getAllTasks();
-      const originalTotal = tasks.length;
-
-      // Apply filters
-      if (filters) {
-        tasks = this.applyFilters(tasks, filters);
-      }
-
-      const filteredTotal = tasks.length;
-
-      // Apply sorting
-      if (sort) {
-        tasks = this.sortTasks(tasks, sort);
-      } else {
-        // Default sort by created_at descending
-        tasks = this.sortTasks(tasks, { field: 'created_at', order: 'desc' });
-      }
-
-      // Apply pagination
-      if (limit !== undefined && offset !== undefined) {
-        tasks = tasks.slice(offset, offset + limit);
-      }
+      const { tasks, total } = storage.queryTasks({
+        ...(filters && { filters }),
+        ...(sort && { sort }),
+        ...(limit !== undefined && { limit }),
+        ...(offset !== undefined && { offset }),
+      });
 
       logger.debug('Retrieved tasks', {
-        originalTotal,
-        filteredTotal,
+        total,
         returned: tasks.length,
         filters,
         sort,
@@ -59,7 +45,7 @@ export class TaskRepository {
         offset,
       });
 
-      return { tasks, total: filteredTotal };
+      return { tasks, total };
     } catch (error) {
       logger.error('Error getting all tasks', { 
         error: error instanceof Error ? error.message : 'Unknown error', 
@@ -75,7 +61,7 @@ export class TaskRepository {
    */
   async getTaskById(id: string): Promise<Task | null> {
     try {
-      const task = memoryStore.getTaskById(id);
+      const task = storage.getTaskById(id);
       
       if (!task) {
         logger.debug('Task not found', { taskId: id });
@@ -104,33 +90,17 @@ export class TaskRepository {
     offset?: number
   ): Promise<{ tasks: Task[]; total: number }> {
     try {
-      let tasks = memoryStore.getTasksByListId(listId);
-      const originalTotal = tasks.length;
-
-      // Apply additional filters (excluding list_id which is already applied)
-      if (filters) {
-        tasks = this.applyFilters(tasks, filters);
-      }
-
-      const filteredTotal = tasks.length;
-
-      // Apply sorting
-      if (sort) {
-        tasks = this.sortTasks(tasks, sort);
-      } else {
-        // Default sort by created_at descending
-        tasks = this.sortTasks(tasks, { field: 'created_at', order: 'desc' });
-      }
-
-      // Apply pagination
-      if (limit !== undefined && offset !== undefined) {
-        tasks = tasks.slice(offset, offset + limit);
-      }
+      // Additional filters cannot override the list being queried
+      const { tasks, total } = storage.queryTasks({
+        filters: { ...filters, list_id: listId },
+        ...(sort && { sort }),
+        ...(limit !== undefined && { limit }),
+        ...(offset !== undefined && { offset }),
+      });
 
       logger.debug('Retrieved tasks by list ID', {
         listId,
-        originalTotal,
-        filteredTotal,
+        total,
         returned: tasks.length,
         filters,
         sort,
@@ -138,7 +108,7 @@ export class TaskRepository {
         offset,
       });
 
-      return { tasks, total: filteredTotal };
+      return { tasks, total };
     } catch (error) {
       logger.error('Error getting tasks by list ID', { 
         error: error instanceof Error ? error.message : 'Unknown error', 
@@ -156,7 +126,7 @@ export class TaskRepository {
   async createTask(input: CreateTaskInput): Promise<Task> {
     try {
       // Verify list exists
-      const listExists = memoryStore.getListById(input.list_id);
+      const listExists = storage.getListById(input.list_id);
       if (!listExists) {
         const error = new Error(`List with ID '${input.list_id}' does not exist`);
         logger.warn('Attempted to create task for non-existent list', { 
@@ -175,11 +145,15 @@ export class TaskRepository {
         ...(input.deadline && { deadline: new Date(input.deadline) }),
         priority: input.priority || TaskPriority.MEDIUM,
         status: TaskStatus.PENDING,
+        state: taskWorkflow.initialState,
+        state_history: [{ from: null, to: taskWorkflow.initialState, at: now }],
+        ...(input.parent_task_id && { parent_task_id: input.parent_task_id }),
+        ...(input.auto_complete && { auto_complete: true }),
         created_at: now,
         updated_at: now,
       };
 
-      memoryStore.createTask(task);
+      storage.createTask(task);
 
       logger.info('Task created successfully', {
         taskId: task.id,
@@ -205,7 +179,7 @@ export class TaskRepository {
   async updateTask(id: string, input: UpdateTaskInput): Promise<Task | null> {
     try {
       // Check if task exists
-      const existingTask = memoryStore.getTaskById(id);
+      const existingTask = storage.getTaskById(id);
       if (!existingTask) {
         logger.debug('Task not found for update', { taskId: id });
         return null;
@@ -213,7 +187,7 @@ export class TaskRepository {
 
       // Verify list exists if list_id is being updated
       if (input.list_id && input.list_id !== existingTask.list_id) {
-        const listExists = memoryStore.getListById(input.list_id);
+        const listExists = storage.getListById(input.list_id);
         if (!listExists) {
           const error = new Error(`List with ID '${input.list_id}' does not exist`);
           logger.warn('Attempted to move task to non-existent list', { 
@@ -226,11 +200,18 @@ export class TaskRepository {
       }
 
       // Prepare update data
+      const now = new Date();
       const updateData: Partial<Task> = {
         ...input,
-        updated_at: new Date(),
+        updated_at: now,
       };
 
+      // A status change moves the task to the matching workflow state
+      if (input.status && input.status !== existingTask.status) {
+        const state = input.status === TaskStatus.COMPLETED ? taskWorkflow.completeState : taskWorkflow.reopenState;
+        Object.assign(updateData, this.getStateChange(existingTask, state, now));
+      }
+
       // Trim string fields
       if (updateData.title) {
         updateData.title = updateData.title.trim();
@@ -244,14 +225,14 @@ export class TaskRepository {
         updateData.deadline = new Date(input.deadline);
       }
 
-      const success = memoryStore.updateTask(id, updateData);
+      const success = storage.updateTask(id, updateData);
       
       if (!success) {
-        logger.error('Failed to update task in memory store', { taskId: id, updateData });
+        logger.error('Failed to update task in storage', { taskId: id, updateData });
         return null;
       }
 
-      const updatedTask = memoryStore.getTaskById(id);
+      const updatedTask = storage.getTaskById(id);
       
       logger.info('Task updated successfully', {
         taskId: id,
@@ -273,20 +254,22 @@ export class TaskRepository {
   }
 
   /**
-   * Delete a task
+   * Delete a task and remove it from the blockers of the tasks it blocks
    */
   async deleteTask(id: string): Promise<boolean> {
     try {
       // Check if task exists
-      const existingTask = memoryStore.getTaskById(id);
+      const existingTask = storage.getTaskById(id);
       if (!existingTask) {
         logger.debug('Task not found for deletion', { taskId: id });
         return false;
       }
 
-      const success = memoryStore.deleteTask(id);
+      const success = storage.deleteTask(id);
       
       if (success) {
+        await this.removeDependencyReferences(id);
+
         logger.info('Task deleted successfully', {
           taskId: id,
           title: existingTask.title,
@@ -294,7 +277,7 @@ export class TaskRepository {
           status: existingTask.status,
         });
       } else {
-        logger.error('Failed to delete task from memory store', { taskId: id });
+        logger.error('Failed to delete task from storage', { taskId: id });
       }
 
       return success;
@@ -318,33 +301,16 @@ export class TaskRepository {
     offset?: number
   ): Promise<{ tasks: Task[]; total: number }> {
     try {
-      let tasks = memoryStore.getTasksByStatus(status);
-      const originalTotal = tasks.length;
-
-      // Apply additional filters (excluding status which is already applied)
-      if (filters) {
-        tasks = this.applyFilters(tasks, filters);
-      }
-
-      const filteredTotal = tasks.length;
-
-      // Apply sorting
-      if (sort) {
-        tasks = this.sortTasks(tasks, sort);
-      } else {
-        // Default sort by created_at descending
-        tasks = this.sortTasks(tasks, { field: 'created_at', order: 'desc' });
-      }
-
-      // Apply pagination
-      if (limit !== undefined && offset !== undefined) {
-        tasks = tasks.slice(offset, offset + limit);
-      }
+      const { tasks, total } = storage.queryTasks({
+        filters: { ...filters, status },
+        ...(sort && { sort }),
+        ...(limit !== undefined && { limit }),
+        ...(offset !== undefined && { offset }),
+      });
 
       logger.debug('Retrieved tasks by status', {
         status,
-        originalTotal,
-        filteredTotal,
+        total,
         returned: tasks.length,
         filters,
         sort,
@@ -352,7 +318,7 @@ export class TaskRepository {
         offset,
       });
 
-      return { tasks, total: filteredTotal };
+      return { tasks, total };
     } catch (error) {
       logger.error('Error getting tasks by status', { 
         error: error instanceof Error ? error.message : 'Unknown error', 
@@ -376,33 +342,19 @@ export class TaskRepository {
     offset?: number
   ): Promise<{ tasks: Task[]; total: number }> {
     try {
-      let tasks = memoryStore.getTasksByDeadlineRange(fromDate, toDate);
-      const originalTotal = tasks.length;
-
-      // Apply additional filters
-      if (filters) {
-        tasks = this.applyFilters(tasks, filters);
-      }
-
-      const filteredTotal = tasks.length;
-
-      // Apply sorting (default to deadline ascending for deadline queries)
-      if (sort) {
-        tasks = this.sortTasks(tasks, sort);
-      } else {
-        tasks = this.sortTasks(tasks, { field: 'deadline', order: 'asc' });
-      }
-
-      // Apply pagination
-      if (limit !== undefined && offset !== undefined) {
-        tasks = tasks.slice(offset, offset + limit);
-      }
+      // Default to deadline ascending for deadline queries
+      const { tasks, total } = storage.queryTasks({
+        ...(filters && { filters }),
+        deadlineRange: { from: fromDate, to: toDate },
+        sort: sort || { field: 'deadline', order: 'asc' },
+        ...(limit !== undefined && { limit }),
+        ...(offset !== undefined && { offset }),
+      });
 
       logger.debug('Retrieved tasks by deadline range', {
         fromDate: fromDate.toISOString(),
         toDate: toDate.toISOString(),
-        originalTotal,
-        filteredTotal,
+        total,
         returned: tasks.length,
         filters,
         sort,
@@ -410,7 +362,7 @@ export class TaskRepository {
         offset,
       });
 
-      return { tasks, total: filteredTotal };
+      return { tasks, total };
     } catch (error) {
       logger.error('Error getting tasks by deadline range', { 
         error: error instanceof Error ? error.message : 'Unknown error', 
@@ -428,7 +380,7 @@ export class TaskRepository {
    */
   async completeTask(id: string): Promise<Task | null> {
     try {
-      const existingTask = memoryStore.getTaskById(id);
+      const existingTask = storage.getTaskById(id);
       if (!existingTask) {
         logger.debug('Task not found for completion', { taskId: id });
         return null;
@@ -439,20 +391,22 @@ export class TaskRepository {
         return existingTask;
       }
 
+      const now = new Date();
       const updateData: Partial<Task> = {
         status: TaskStatus.COMPLETED,
-        completed_at: new Date(),
-        updated_at: new Date(),
+        ...this.getStateChange(existingTask, taskWorkflow.completeState, now),
+        completed_at: now,
+        updated_at: now,
       };
 
-      const success = memoryStore.updateTask(id, updateData);
+      const success = storage.updateTask(id, updateData);
       
       if (!success) {
-        logger.error('Failed to complete task in memory store', { taskId: id });
+        logger.error('Failed to complete task in storage', { taskId: id });
         return null;
       }
 
-      const updatedTask = memoryStore.getTaskById(id);
+      const updatedTask = storage.getTaskById(id);
       
       logger.info('Task completed successfully', {
         taskId: id,
@@ -476,7 +430,7 @@ export class TaskRepository {
    */
   async uncompleteTask(id: string): Promise<Task | null> {
     try {
-      const existingTask = memoryStore.getTaskById(id);
+      const existingTask = storage.getTaskById(id);
       if (!existingTask) {
         logger.debug('Task not found for uncompletion', { taskId: id });
         return null;
@@ -487,23 +441,25 @@ export class TaskRepository {
         return existingTask;
       }
 
+      const now = new Date();
       const updateData: Partial<Task> = {
         status: TaskStatus.PENDING,
-        updated_at: new Date(),
+        ...this.getStateChange(existingTask, taskWorkflow.reopenState, now),
+        updated_at: now,
       };
 
       // Remove completed_at by creating new object without it
       const taskWithoutCompletedAt = { ...existingTask, ...updateData };
       delete taskWithoutCompletedAt.completed_at;
 
-      const success = memoryStore.updateTask(id, taskWithoutCompletedAt);
+      const success = storage.updateTask(id, taskWithoutCompletedAt);
       
       if (!success) {
-        logger.error('Failed to uncomplete task in memory store', { taskId: id });
+        logger.error('Failed to uncomplete task in storage', { taskId: id });
         return null;
       }
 
-      const updatedTask = memoryStore.getTaskById(id);
+      const updatedTask = storage.getTaskById(id);
       
       logger.info('Task uncompleted successfully', {
         taskId: id,
@@ -522,125 +478,409 @@ export class TaskRepository {
   }
 
   /**
-   * Check if a task exists
+   * Move a task to a workflow state
+   * The status follows the state; completed_at is set and removed by the storage with the status
    */
-  async taskExists(id: string): Promise<boolean> {
+  async transitionTask(id: string, state: string): Promise<Task | null> {
     try {
-      const task = memoryStore.getTaskById(id);
-      return task !== undefined;
+      const existingTask = storage.getTaskById(id);
+      if (!existingTask) {
+        logger.debug('Task not found for state transition', { taskId: id });
+        return null;
+      }
+
+      const now = new Date();
+      const updateData: Partial<Task> = {
+        status: taskWorkflow.getStatus(state),
+        ...this.getStateChange(existingTask, state, now),
+        updated_at: now,
+      };
+
+      const success = storage.updateTask(id, updateData);
+
+      if (!success) {
+        logger.error('Failed to update task state in storage', { taskId: id, state });
+        return null;
+      }
+
+      logger.info('Task state changed successfully', {
+        taskId: id,
+        from: taskWorkflow.getState(existingTask),
+        to: state,
+        status: updateData.status,
+      });
+
+      return storage.getTaskById(id) || null;
     } catch (error) {
-      logger.error('Error checking if task exists', { 
-        error: error instanceof Error ? error.message : 'Unknown error', 
-        taskId: id 
+      logger.error('Error changing task state', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        state,
       });
       throw error;
     }
   }
 
   /**
-   * Get tasks count
+   * Replace the labels of a task
    */
-  async getTasksCount(filters?: TaskFilterParams): Promise<number> {
+  async setTaskLabels(id: string, labelIds: string[]): Promise<Task | null> {
     try {
-      const { total } = await this.getAllTasks(filters);
-      return total;
+      const success = storage.updateTask(id, { label_ids: labelIds });
+      if (!success) {
+        logger.debug('Task not found for label update', { taskId: id });
+        return null;
+      }
+
+      logger.debug('Task labels updated', { taskId: id, labelIds });
+
+      return storage.getTaskById(id) || null;
     } catch (error) {
-      logger.error('Error getting tasks count', { 
-        error: error instanceof Error ? error.message : 'Unknown error', 
-        filters 
+      logger.error('Error updating task labels', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        labelIds,
       });
       throw error;
     }
   }
 
   /**
-   * Apply filters to tasks array
+   * Replace the checklist of a task
    */
-  private applyFilters(tasks: Task[], filters: Partial<TaskFilterParams>): Task[] {
-    return tasks.filter(task => {
-      // List ID filter
-      if (filters.list_id && task.list_id !== filters.list_id) {
-        return false;
+  async setTaskChecklist(id: string, checklist: ChecklistItem[]): Promise<Task | null> {
+    try {
+      const success = storage.updateTask(id, { checklist });
+      if (!success) {
+        logger.debug('Task not found for checklist update', { taskId: id });
+        return null;
       }
 
-      // Status filter
-      if (filters.status && task.status !== filters.status) {
-        return false;
-      }
+      logger.debug('Task checklist updated', { taskId: id, itemsCount: checklist.length });
 
-      // Priority filter
-      if (filters.priority && task.priority !== filters.priority) {
-        return false;
-      }
+      return storage.getTaskById(id) || null;
+    } catch (error) {
+      logger.error('Error updating task checklist', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+      });
+      throw error;
+    }
+  }
 
-      // Deadline range filter
-      if (filters.deadline_from && task.deadline) {
-        const from = new Date(filters.deadline_from);
-        if (task.deadline < from) {
-          return false;
-        }
+  /**
+   * Get the direct subtasks of a task, oldest first
+   */
+  async getSubtasks(parentId: string): Promise<Task[]> {
+    try {
+      return storage
+        .getTasksByParentId(parentId)
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    } catch (error) {
+      logger.error('Error getting subtasks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        parentId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get every subtask below a task, at any depth
+   */
+  async getDescendants(parentId: string): Promise<Task[]> {
+    const descendants: Task[] = [];
+    const pending = [parentId];
+
+    while (pending.length > 0) {
+      const children = storage.getTasksByParentId(pending.pop()!);
+      descendants.push(...children);
+      pending.push(...children.map(child => child.id));
+    }
+
+    return descendants;
+  }
+
+  /**
+   * Count the done checklist items and completed direct subtasks of a task
+   * Subtasks closed without being completed, such as cancelled ones, are left out
+   */
+  async getProgress(task: Task): Promise<TaskProgress> {
+    const checklist = task.checklist || [];
+    const subtasks = storage
+      .getTasksByParentId(task.id)
+      .filter(subtask => subtask.status === TaskStatus.COMPLETED || taskWorkflow.isOpen(subtask));
+
+    return {
+      done: checklist.filter(item => item.done).length
+        + subtasks.filter(subtask => subtask.status === TaskStatus.COMPLETED).length,
+      total: checklist.length + subtasks.length,
+    };
+  }
+
+  /**
+   * Add the completion roll-up to a task with a checklist or subtasks
+   * Returns a copy, the stored task is left untouched
+   */
+  async withProgress(task: Task): Promise<Task> {
+    const progress = await this.getProgress(task);
+    return progress.total > 0 ? { ...task, progress } : task;
+  }
+
+  /**
+   * Add the completion roll-up to every task with a checklist or subtasks
+   */
+  async withProgressAll(tasks: Task[]): Promise<Task[]> {
+    return Promise.all(tasks.map(task => this.withProgress(task)));
+  }
+
+  /**
+   * Replace the blockers of a task
+   */
+  async setTaskDependencies(id: string, blockerIds: string[]): Promise<Task | null> {
+    try {
+      const success = storage.updateTask(id, { blocked_by: blockerIds });
+      if (!success) {
+        logger.debug('Task not found for dependency update', { taskId: id });
+        return null;
       }
 
-      if (filters.deadline_to && task.deadline) {
-        const to = new Date(filters.deadline_to);
-        if (task.deadline > to) {
-          return false;
-        }
+      logger.debug('Task dependencies updated', { taskId: id, blockerIds });
+
+      return storage.getTaskById(id) || null;
+    } catch (error) {
+      logger.error('Error updating task dependencies', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        blockerIds,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update the recurrence rule of a task and its place in the series
+   * A null rule removes the rule
+   */
+  async setTaskRecurrence(
+    id: string,
+    updates: Pick<Task, 'recurrence' | 'recurrence_series_id' | 'occurrence' | 'next_occurrence_id' | 'deadline' | 'checklist'>
+  ): Promise<Task | null> {
+    try {
+      const success = storage.updateTask(id, updates);
+      if (!success) {
+        logger.debug('Task not found for recurrence update', { taskId: id });
+        return null;
       }
 
-      // Search filter (title and description)
-      if (filters.search) {
-        const searchTerm = filters.search.toLowerCase();
-        const titleMatch = task.title.toLowerCase().includes(searchTerm);
-        const descriptionMatch = task.description?.toLowerCase().includes(searchTerm) || false;
-        
-        if (!titleMatch && !descriptionMatch) {
-          return false;
-        }
+      logger.debug('Task recurrence updated', { taskId: id, occurrence: updates.occurrence });
+
+      return storage.getTaskById(id) || null;
+    } catch (error) {
+      logger.error('Error updating task recurrence', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create the next occurrence of a recurring task
+   * The occurrence takes over the rule, labels and checklist (unchecked) of the previous one
+   */
+  async createOccurrence(previous: Task, deadline: Date, occurrence: number): Promise<Task> {
+    try {
+      const now = new Date();
+      const task: Task = {
+        id: generateId(),
+        list_id: previous.list_id,
+        title: previous.title,
+        ...(previous.description && { description: previous.description }),
+        deadline,
+        priority: previous.priority,
+        status: TaskStatus.PENDING,
+        state: taskWorkflow.initialState,
+        state_history: [{ from: null, to: taskWorkflow.initialState, at: now }],
+        ...(previous.label_ids && { label_ids: [...previous.label_ids] }),
+        ...(previous.parent_task_id && { parent_task_id: previous.parent_task_id }),
+        ...(previous.checklist && {
+          checklist: previous.checklist.map(item => ({ ...item, id: generateId(), done: false })),
+        }),
+        ...(previous.auto_complete && { auto_complete: true }),
+        ...(previous.recurrence && { recurrence: previous.recurrence }),
+        recurrence_series_id: previous.recurrence_series_id || previous.id,
+        occurrence,
+        created_at: now,
+        updated_at: now,
+      };
+
+      storage.createTask(task);
+
+      logger.info('Task occurrence created', {
+        taskId: task.id,
+        previousTaskId: previous.id,
+        seriesId: task.recurrence_series_id,
+        occurrence,
+        deadline: deadline.toISOString(),
+      });
+
+      return task;
+    } catch (error) {
+      logger.error('Error creating task occurrence', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        previousTaskId: previous.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tasks blocked by a task
+   */
+  async getDependents(blockerId: string): Promise<Task[]> {
+    try {
+      return storage.getTasksByBlockerId(blockerId);
+    } catch (error) {
+      logger.error('Error getting dependent tasks', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        blockerId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a task from the blockers of every task it blocks
+   * Returns the number of tasks it was removed from
+   */
+  async removeDependencyReferences(blockerId: string): Promise<number> {
+    const dependents = storage.getTasksByBlockerId(blockerId);
+    for (const dependent of dependents) {
+      storage.updateTask(dependent.id, {
+        blocked_by: (dependent.blocked_by || []).filter(id => id !== blockerId),
+      });
+    }
+
+    return dependents.length;
+  }
+
+  /**
+   * Get the tasks blocking a task, skipping blockers that no longer exist
+   */
+  async getBlockers(task: Task): Promise<Task[]> {
+    return (task.blocked_by || [])
+      .map(blockerId => storage.getTaskById(blockerId))
+      .filter((blocker): blocker is Task => blocker !== undefined);
+  }
+
+  /**
+   * Get the blockers of a task that are still open
+   * Blockers closed without being completed, such as cancelled ones, no longer block
+   */
+  async getPendingBlockers(task: Task): Promise<Task[]> {
+    return (await this.getBlockers(task)).filter(blocker => taskWorkflow.isOpen(blocker));
+  }
+
+  /**
+   * Flag every task that has an open blocker
+   * Returns copies, the stored tasks are left untouched
+   */
+  async withBlockedFlagAll(tasks: Task[]): Promise<Task[]> {
+    return Promise.all(tasks.map(async task => ({
+      ...task,
+      is_blocked: (await this.getPendingBlockers(task)).length > 0,
+    })));
+  }
+
+  /**
+   * Restore a task to a previous snapshot, re-creating it if it was deleted
+   */
+  async restoreTask(task: Task): Promise<void> {
+    try {
+      const existingTask = storage.getTaskById(task.id);
+
+      // Replace rather than merge, fields set after the snapshot was taken must not survive
+      if (existingTask) {
+        storage.deleteTask(task.id);
       }
+      storage.createTask(task);
+
+      logger.info('Task restored successfully', {
+        taskId: task.id,
+        listId: task.list_id,
+        recreated: !existingTask,
+      });
+    } catch (error) {
+      logger.error('Error restoring task', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: task.id,
+      });
+      throw error;
+    }
+  }
 
-      return true;
-    });
+  /**
+   * Check if a task exists
+   */
+  async taskExists(id: string): Promise<boolean> {
+    try {
+      const task = storage.getTaskById(id);
+      return task !== undefined;
+    } catch (error) {
+      logger.error('Error checking if task exists', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        taskId: id 
+      });
+      throw error;
+    }
   }
 
   /**
-   * Sort tasks based on sort parameters
+   * Get the owner ID of a task (derived from its list)
    */
-  private sortTasks(tasks: Task[], sort: SortParams): Task[] {
-    return tasks.sort((a, b) => {
-      let comparison = 0;
-
-      switch (sort.field) {
-        case 'title':
-          comparison = a.title.localeCompare(b.title);
-          break;
-        case 'created_at':
-          comparison = a.created_at.getTime() - b.created_at.getTime();
-          break;
-        case 'updated_at':
-          comparison = a.updated_at.getTime() - b.updated_at.getTime();
-          break;
-        case 'deadline':
-          // Handle tasks without deadlines (put them at the end)
-          if (!a.deadline && !b.deadline) comparison = 0;
-          else if (!a.deadline) comparison = 1;
-          else if (!b.deadline) comparison = -1;
-          else comparison = a.deadline.getTime() - b.deadline.getTime();
-          break;
-        case 'priority':
-          // Priority order: HIGH > MEDIUM > LOW
-          const priorityOrder = { [TaskPriority.HIGH]: 3, [TaskPriority.MEDIUM]: 2, [TaskPriority.LOW]: 1 };
-          comparison = priorityOrder[a.priority] - priorityOrder[b.priority];
-          break;
-        case 'status':
-          comparison = a.status.localeCompare(b.status);
-          break;
-        default:
-          comparison = a.created_at.getTime() - b.created_at.getTime();
+  async getTaskOwnerId(id: string): Promise<string | null> {
+    try {
+      const task = storage.getTaskById(id);
+      if (!task) {
+        return null;
       }
 
-      return sort.order === 'desc' ? -comparison : comparison;
-    });
+      const list = storage.getListById(task.list_id);
+      return list ? list.owner_id : null;
+    } catch (error) {
+      logger.error('Error getting task owner', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get tasks count
+   */
+  async getTasksCount(filters?: TaskFilterParams): Promise<number> {
+    try {
+      const { total } = await this.getAllTasks(filters);
+      return total;
+    } catch (error) {
+      logger.error('Error getting tasks count', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        filters 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the fields recording a move of a task to a workflow state
+   */
+  private getStateChange(task: Task, state: string, at: Date): Pick<Task, 'state' | 'state_history'> {
+    return {
+      state,
+      state_history: [...(task.state_history || []), { from: taskWorkflow.getState(task), to: state, at }],
+    };
   }
 }
 
@@ -0,0 +1,66 @@
+import { TwoFactorSettings } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for two-factor authentication settings
+ * A user has at most one entry, pending until enrollment is confirmed
+ */
+export class TwoFactorRepository {
+  private readonly collection = 'two_factor';
+
+  /**
+   * Find the two-factor settings of a user
+   */
+  async findByUserId(userId: string): Promise<TwoFactorSettings | null> {
+    try {
+      return storage.getRecord<TwoFactorSettings>(this.collection, userId) || null;
+    } catch (error) {
+      logger.error('Error finding two-factor settings', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a user has confirmed two-factor authentication
+   */
+  async isEnabled(userId: string): Promise<boolean> {
+    const settings = await this.findByUserId(userId);
+    return settings !== null && settings.enabled;
+  }
+
+  /**
+   * Store the two-factor settings of a user, replacing existing ones
+   */
+  async save(settings: TwoFactorSettings): Promise<void> {
+    try {
+      storage.putRecord(this.collection, settings);
+    } catch (error) {
+      logger.error('Error storing two-factor settings', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: settings.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the two-factor settings of a user
+   */
+  async delete(userId: string): Promise<boolean> {
+    try {
+      return storage.deleteRecord(this.collection, userId);
+    } catch (error) {
+      logger.error('Error deleting two-factor settings', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+}
+
+export const twoFactorRepository = new TwoFactorRepository();
@@ -1,37 +1,44 @@
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
-import { User, CreateUserInput, UserProfile } from '../models/entities';
+import { User, CreateUserInput, UserProfile, UserFilterParams } from '../models/entities';
+import { storage } from '../storage';
 import { logger } from '../utils/logger';
 
 /**
- * In-memory user storage repository
+ * User repository backed by the configured storage backend
  * Handles user data operations with password hashing
  */
 export class UserRepository {
-  private users: User[] = [];
   private readonly saltRounds = 12;
 
-  constructor() {
-    // Create default admin user for testing
-    this.createDefaultUsers();
-  }
-
   /**
    * Create default users for testing/demo purposes
+   * Only runs against an empty store, so persisted users are never re-seeded
+   * Configured with SEED_DEFAULT_USERS, SEED_ADMIN_EMAIL/PASSWORD and SEED_USER_EMAIL/PASSWORD
    */
-  private async createDefaultUsers(): Promise<void> {
+  async seedDefaultUsers(): Promise<void> {
     try {
+      if (process.env.SEED_DEFAULT_USERS === 'false') {
+        logger.info('Default user seeding disabled');
+        return;
+      }
+
+      if (storage.getAllUsers().length > 0) {
+        logger.debug('Users already exist, skipping default user seeding');
+        return;
+      }
+
       const adminUser: CreateUserInput = {
-        email: 'admin@todoapi.com',
-        password: 'admin123',
+        email: process.env.SEED_ADMIN_EMAIL || 'admin@todoapi.com',
+        password: process.env.SEED_ADMIN_PASSWORD || 'admin123',
         first_name: 'Admin',
         last_name: 'User',
         role: 'admin',
       };
 
       const testUser: CreateUserInput = {
-        email: 'user@todoapi.com',
-        password: 'user123',
+        email: process.env.SEED_USER_EMAIL || 'user@todoapi.com',
+        password: process.env.SEED_USER_PASSWORD || 'user123',
         first_name: 'Test',
         last_name: 'User',
         role: 'user',
@@ -48,9 +55,10 @@ export class UserRepository {
 
   /**
    * Create a new user with hashed password
+   * Pass emailVerified = false for self-registered accounts that still have to confirm their email
    */
-  async create(userData: CreateUserInput): Promise<User> {
-    const existingUser = this.users.find(user => user.email === userData.email);
+  async create(userData: CreateUserInput, emailVerified: boolean = true): Promise<User> {
+    const existingUser = storage.getUserByEmail(userData.email);
     if (existingUser) {
       throw new Error('User with this email already exists');
     }
@@ -66,11 +74,12 @@ export class UserRepository {
       ...(userData.first_name && { first_name: userData.first_name }),
       ...(userData.last_name && { last_name: userData.last_name }),
       is_active: true,
+      email_verified: emailVerified,
       created_at: now,
       updated_at: now,
     };
 
-    this.users.push(user);
+    storage.createUser(user);
     
     logger.info('User created', {
       userId: user.id,
@@ -85,16 +94,24 @@ export class UserRepository {
    * Find user by email
    */
   async findByEmail(email: string): Promise<User | null> {
-    const user = this.users.find(user => user.email === email && user.is_active);
-    return user || null;
+    const user = storage.getUserByEmail(email);
+    return user && user.is_active ? user : null;
+  }
+
+  /**
+   * Check whether any user (including deactivated ones) has the email
+   */
+  async emailExists(email: string): Promise<boolean> {
+    return storage.getUserByEmail(email) !== undefined;
   }
 
   /**
    * Find user by ID
+   * Deactivated users are only returned when explicitly requested
    */
-  async findById(id: string): Promise<User | null> {
-    const user = this.users.find(user => user.id === id && user.is_active);
-    return user || null;
+  async findById(id: string, includeInactive: boolean = false): Promise<User | null> {
+    const user = storage.getUserById(id);
+    return user && (user.is_active || includeInactive) ? user : null;
   }
 
   /**
@@ -104,6 +121,14 @@ export class UserRepository {
     return bcrypt.compare(password, hashedPassword);
   }
 
+  /**
+   * Check whether the user has confirmed their email address
+   * Accounts created before verification was required count as verified
+   */
+  isEmailVerified(user: User): boolean {
+    return user.email_verified !== false;
+  }
+
   /**
    * Convert User to UserProfile (remove sensitive data)
    */
@@ -115,6 +140,7 @@ export class UserRepository {
       ...(user.first_name && { first_name: user.first_name }),
       ...(user.last_name && { last_name: user.last_name }),
       is_active: user.is_active,
+      email_verified: this.isEmailVerified(user),
       created_at: user.created_at,
       updated_at: user.updated_at,
     };
@@ -124,62 +150,90 @@ export class UserRepository {
    * Get all users (admin only) - returns profiles without passwords
    */
   async findAll(): Promise<UserProfile[]> {
-    return this.users
+    return storage.getAllUsers()
       .filter(user => user.is_active)
       .map(user => this.toUserProfile(user));
   }
 
   /**
-   * Update user
+   * Search users with filtering and pagination (admin only), including deactivated users
    */
-  async update(id: string, updates: Partial<CreateUserInput>): Promise<User | null> {
-    const userIndex = this.users.findIndex(user => user.id === id);
-    if (userIndex === -1) {
-      return null;
-    }
+  async search(
+    filters: UserFilterParams = {},
+    limit?: number,
+    offset?: number
+  ): Promise<{ users: UserProfile[]; total: number }> {
+    const searchTerm = filters.search?.toLowerCase();
+
+    const users = storage.getAllUsers()
+      .filter(user => {
+        if (filters.role && user.role !== filters.role) {
+          return false;
+        }
+
+        if (filters.is_active !== undefined && user.is_active !== filters.is_active) {
+          return false;
+        }
+
+        if (searchTerm) {
+          const fields = [user.email, user.first_name, user.last_name];
+          return fields.some(field => field?.toLowerCase().includes(searchTerm));
+        }
+
+        return true;
+      })
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
 
-    const user = this.users[userIndex];
+    const page = limit !== undefined && offset !== undefined
+      ? users.slice(offset, offset + limit)
+      : users;
+
+    return {
+      users: page.map(user => this.toUserProfile(user)),
+      total: users.length,
+    };
+  }
+
+  /**
+   * Update user
+   */
+  async update(
+    id: string,
+    updates: Partial<CreateUserInput> & { is_active?: boolean; email_verified?: boolean }
+  ): Promise<User | null> {
+    const user = storage.getUserById(id);
     if (!user) {
       return null;
     }
 
-    const updatedUser: User = {
-      ...user,
-      ...updates,
-      updated_at: new Date(),
-    };
+    const updateData: Partial<User> = { ...updates };
 
     // Hash password if it's being updated
     if (updates.password) {
-      updatedUser.password = await bcrypt.hash(updates.password, this.saltRounds);
+      updateData.password = await bcrypt.hash(updates.password, this.saltRounds);
     }
 
-    this.users[userIndex] = updatedUser;
+    storage.updateUser(id, updateData);
+    const updatedUser = storage.getUserById(id);
     
     logger.info('User updated', {
       userId: user.id,
       email: user.email,
     });
 
-    return updatedUser;
+    return updatedUser || null;
   }
 
   /**
    * Soft delete user
    */
   async delete(id: string): Promise<boolean> {
-    const userIndex = this.users.findIndex(user => user.id === id);
-    if (userIndex === -1) {
-      return false;
-    }
-
-    const user = this.users[userIndex];
+    const user = storage.getUserById(id);
     if (!user) {
       return false;
     }
 
-    user.is_active = false;
-    user.updated_at = new Date();
+    storage.updateUser(id, { is_active: false });
     
     logger.info('User deleted', {
       userId: id,
@@ -188,11 +242,26 @@ export class UserRepository {
     return true;
   }
 
+  /**
+   * Permanently delete user
+   */
+  async hardDelete(id: string): Promise<boolean> {
+    const deleted = storage.deleteUser(id);
+
+    if (deleted) {
+      logger.info('User permanently deleted', {
+        userId: id,
+      });
+    }
+
+    return deleted;
+  }
+
   /**
    * Get total count of active users
    */
   async count(): Promise<number> {
-    return this.users.filter(user => user.is_active).length;
+    return storage.getAllUsers().filter(user => user.is_active).length;
   }
 }
 
@@ -0,0 +1,183 @@
+import { WorkspaceMember, ListAccessLevel } from '../models/entities';
+import { storage } from '../storage';
+import { logger } from '../utils/logger';
+
+/**
+ * Repository for workspace memberships
+ */
+export class WorkspaceMemberRepository {
+  private readonly collection = 'workspace_members';
+
+  /**
+   * Find the membership of a user in a workspace
+   */
+  async find(workspaceId: string, userId: string): Promise<WorkspaceMember | null> {
+    try {
+      return storage.getRecord<WorkspaceMember>(this.collection, this.getId(workspaceId, userId)) || null;
+    } catch (error) {
+      logger.error('Error finding workspace member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all memberships of a workspace, oldest first
+   */
+  async findByWorkspaceId(workspaceId: string): Promise<WorkspaceMember[]> {
+    try {
+      return storage
+        .getRecords<WorkspaceMember>(this.collection)
+        .filter(member => member.workspace_id === workspaceId)
+        .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+    } catch (error) {
+      logger.error('Error getting workspace members', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all workspace memberships of a user
+   */
+  async findByUserId(userId: string): Promise<WorkspaceMember[]> {
+    try {
+      return storage
+        .getRecords<WorkspaceMember>(this.collection)
+        .filter(member => member.user_id === userId);
+    } catch (error) {
+      logger.error('Error getting workspaces of user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add a user to a workspace
+   */
+  async create(workspaceId: string, userId: string, role: ListAccessLevel, addedBy: string): Promise<WorkspaceMember> {
+    try {
+      const now = new Date();
+      const member: WorkspaceMember = {
+        id: this.getId(workspaceId, userId),
+        workspace_id: workspaceId,
+        user_id: userId,
+        role,
+        added_by: addedBy,
+        created_at: now,
+        updated_at: now,
+      };
+
+      storage.putRecord(this.collection, member);
+      logger.debug('Workspace member stored', { workspaceId, userId, role });
+
+      return member;
+    } catch (error) {
+      logger.error('Error storing workspace member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the role of a member
+   * Returns null when the user is not a member of the workspace
+   */
+  async updateRole(workspaceId: string, userId: string, role: ListAccessLevel): Promise<WorkspaceMember | null> {
+    try {
+      const existing = await this.find(workspaceId, userId);
+      if (!existing) {
+        return null;
+      }
+
+      const member: WorkspaceMember = { ...existing, role, updated_at: new Date() };
+      storage.putRecord(this.collection, member);
+
+      return member;
+    } catch (error) {
+      logger.error('Error updating workspace member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user from a workspace
+   */
+  async delete(workspaceId: string, userId: string): Promise<boolean> {
+    try {
+      return storage.deleteRecord(this.collection, this.getId(workspaceId, userId));
+    } catch (error) {
+      logger.error('Error deleting workspace member', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every member of a workspace
+   */
+  async deleteForWorkspace(workspaceId: string): Promise<number> {
+    try {
+      const members = await this.findByWorkspaceId(workspaceId);
+
+      for (const member of members) {
+        storage.deleteRecord(this.collection, member.id);
+      }
+
+      return members.length;
+    } catch (error) {
+      logger.error('Error deleting workspace members', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every workspace membership of a user
+   */
+  async deleteForUser(userId: string): Promise<number> {
+    try {
+      const members = await this.findByUserId(userId);
+
+      for (const member of members) {
+        storage.deleteRecord(this.collection, member.id);
+      }
+
+      return members.length;
+    } catch (error) {
+      logger.error('Error deleting workspace memberships of user', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record ID of a membership
+   */
+  private getId(workspaceId: string, userId: string): string {
+    return `${workspaceId}:${userId}`;
+  }
+}
+
+export const workspaceMemberRepository = new WorkspaceMemberRepository();
@@ -0,0 +1,175 @@
+import { Workspace, CreateWorkspaceInput, UpdateWorkspaceInput } from '../models/entities';
+import { storage } from '../storage';
+import { generateId } from '../utils/idGenerator';
+import { logger } from '../utils/logger';
+
+/**
+ * Workspace a user has switched to
+ */
+interface ActiveWorkspace {
+  id: string; // User ID
+  workspace_id: string;
+}
+
+/**
+ * Repository for workspaces and the workspace each user has switched to
+ */
+export class WorkspaceRepository {
+  private readonly collection = 'workspaces';
+  private readonly activeCollection = 'active_workspaces';
+
+  /**
+   * Find a workspace by ID
+   */
+  async findById(id: string): Promise<Workspace | null> {
+    try {
+      return storage.getRecord<Workspace>(this.collection, id) || null;
+    } catch (error) {
+      logger.error('Error finding workspace', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get workspaces by ID, oldest first; unknown IDs are skipped
+   */
+  async findByIds(ids: string[]): Promise<Workspace[]> {
+    try {
+      return ids
+        .map(id => storage.getRecord<Workspace>(this.collection, id))
+        .filter((workspace): workspace is Workspace => workspace !== undefined)
+        .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+    } catch (error) {
+      logger.error('Error getting workspaces', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceIds: ids,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a workspace
+   */
+  async create(input: CreateWorkspaceInput, createdBy: string): Promise<Workspace> {
+    try {
+      const now = new Date();
+      const workspace: Workspace = {
+        id: generateId(),
+        name: input.name.trim(),
+        ...(input.description && { description: input.description.trim() }),
+        created_by: createdBy,
+        created_at: now,
+        updated_at: now,
+      };
+
+      storage.putRecord(this.collection, workspace);
+      logger.debug('Workspace stored', { workspaceId: workspace.id, createdBy });
+
+      return workspace;
+    } catch (error) {
+      logger.error('Error storing workspace', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        createdBy,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a workspace
+   * Returns null when the workspace does not exist
+   */
+  async update(id: string, input: UpdateWorkspaceInput): Promise<Workspace | null> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return null;
+      }
+
+      const { description, ...rest } = existing;
+      const newDescription = input.description !== undefined ? input.description.trim() : description;
+      const workspace: Workspace = {
+        ...rest,
+        ...(input.name && { name: input.name.trim() }),
+        ...(newDescription && { description: newDescription }),
+        updated_at: new Date(),
+      };
+
+      storage.putRecord(this.collection, workspace);
+
+      return workspace;
+    } catch (error) {
+      logger.error('Error updating workspace', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a workspace
+   * Users who switched to it go back to their personal lists
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      const selections = storage
+        .getRecords<ActiveWorkspace>(this.activeCollection)
+        .filter(selection => selection.workspace_id === id);
+
+      for (const selection of selections) {
+        storage.deleteRecord(this.activeCollection, selection.id);
+      }
+
+      return storage.deleteRecord(this.collection, id);
+    } catch (error) {
+      logger.error('Error deleting workspace', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the workspace a user has switched to, null for personal lists
+   */
+  async getActiveWorkspaceId(userId: string): Promise<string | null> {
+    try {
+      const selection = storage.getRecord<ActiveWorkspace>(this.activeCollection, userId);
+      return selection ? selection.workspace_id : null;
+    } catch (error) {
+      logger.error('Error getting active workspace', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Switch a user to a workspace, or back to their personal lists with null
+   */
+  async setActiveWorkspaceId(userId: string, workspaceId: string | null): Promise<void> {
+    try {
+      if (workspaceId) {
+        storage.putRecord<ActiveWorkspace>(this.activeCollection, { id: userId, workspace_id: workspaceId });
+      } else {
+        storage.deleteRecord(this.activeCollection, userId);
+      }
+    } catch (error) {
+      logger.error('Error setting active workspace', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        workspaceId,
+      });
+      throw error;
+    }
+  }
+}
+
+export const workspaceRepository = new WorkspaceRepository();
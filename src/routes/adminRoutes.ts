@@ -0,0 +1,430 @@
+import { Router } from 'express';
+import { adminController } from '../controllers';
+import { Permission } from '../models';
+import { 
+  validateUserQuery,
+  validateUserParams,
+  validateUpdateUserStatus,
+  validateUpdateUserRole,
+  validateResetUserPassword,
+  validateDeleteUser,
+  generalRateLimit,
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission
+} from '../middleware';
+
+/**
+ * Express router for Admin endpoints
+ * Every route requires the user.manage permission
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/admin/users:
+ *   get:
+ *     summary: Get all users
+ *     description: Retrieve all users, including deactivated accounts, with optional search, filters and pagination. Requires `user.manage`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/PageParam'
+ *       - $ref: '#/components/parameters/LimitParam'
+ *       - $ref: '#/components/parameters/SearchParam'
+ *       - name: role
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Filter by role name
+ *       - name: is_active
+ *         in: query
+ *         schema:
+ *           type: boolean
+ *         description: Filter by account status
+ *     responses:
+ *       200:
+ *         description: Users retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         users:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/UserProfile'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/users',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateUserQuery,
+  adminController.getUsers
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}:
+ *   get:
+ *     summary: Get a specific user
+ *     description: Retrieve a user by ID, including deactivated accounts. Requires `user.manage`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: User retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         user:
+ *                           $ref: '#/components/schemas/UserProfile'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/users/:id',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateUserParams,
+  adminController.getUserById
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/status:
+ *   patch:
+ *     summary: Deactivate or reactivate a user
+ *     description: |
+ *       Set whether a user account is active. Deactivated users cannot log in and all of their
+ *       tokens are revoked. Admins cannot deactivate their own account.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [is_active]
+ *             properties:
+ *               is_active:
+ *                 type: boolean
+ *                 example: false
+ *     responses:
+ *       200:
+ *         description: User status updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/users/:id/status',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateUpdateUserStatus,
+  adminController.updateUserStatus
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/role:
+ *   patch:
+ *     summary: Change the role of a user
+ *     description: |
+ *       Assign a built-in or custom role to a user. The user's existing tokens are revoked so the new
+ *       role applies on their next login. Admins cannot assign themselves a role without `user.manage`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 example: "support"
+ *     responses:
+ *       200:
+ *         description: User role updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/users/:id/role',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateUpdateUserRole,
+  adminController.updateUserRole
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user account
+ *     description: |
+ *       Clear the failed login count of a user and lift a lockout caused by too many failed
+ *       login attempts. Requires `user.manage`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: User unlocked successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/users/:id/unlock',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateUserParams,
+  adminController.unlockUser
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/verify-email:
+ *   post:
+ *     summary: Verify the email address of a user
+ *     description: |
+ *       Mark a user's email address as verified without a verification token, allowing them to
+ *       make changes. Pending verification tokens of the user are discarded. Requires `user.manage`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: User email verified successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/users/:id/verify-email',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateUserParams,
+  adminController.verifyUserEmail
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/2fa:
+ *   delete:
+ *     summary: Reset two-factor authentication of a user
+ *     description: |
+ *       Turn off two-factor authentication for a user who lost their authenticator app and recovery
+ *       codes, so they can log in with their password and enroll again. Requires `user.manage`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: User two-factor authentication reset successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/users/:id/2fa',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateUserParams,
+  adminController.resetUserTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/reset-password:
+ *   post:
+ *     summary: Reset the password of a user
+ *     description: Set a new password for a user and revoke all of their tokens. Requires `user.manage`.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password]
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 example: "newPassword123"
+ *     responses:
+ *       200:
+ *         description: User password reset successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/users/:id/reset-password',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateResetUserPassword,
+  adminController.resetUserPassword
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}:
+ *   delete:
+ *     summary: Delete a user
+ *     description: |
+ *       Permanently delete a user. Their personal lists are deleted together with their tasks
+ *       (`lists=delete`, the default) or transferred to another user (`lists=transfer`).
+ *       Transferred lists go to `transfer_to`, or to the acting admin when it is omitted.
+ *       Lists the user created in a workspace stay in the workspace.
+ *       Admins cannot delete their own account.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - name: lists
+ *         in: query
+ *         schema:
+ *           type: string
+ *           enum: [delete, transfer]
+ *           default: delete
+ *         description: What happens to the user's lists
+ *       - name: transfer_to
+ *         in: query
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: User receiving the lists when lists=transfer
+ *     responses:
+ *       200:
+ *         description: User deleted successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The target user already has lists with the same names
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/users/:id',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.USER_MANAGE),
+  validateDeleteUser,
+  adminController.deleteUser
+);
+
+export default router;
+export { router as adminRoutes };
@@ -3,10 +3,22 @@ import { authController } from '../controllers/authController';
 import { 
   validateRegister,
   validateLogin,
+  validateRefreshToken,
+  validateLogout,
+  validateVerifyEmail,
+  validateForgotPassword,
+  validateResetPassword,
+  validateUpdateProfile,
+  validateChangePassword,
+  validateRequestEmailChange,
+  validateConfirmEmailChange,
+  validateTwoFactorLogin,
+  validateTwoFactorCode,
+  validateDisableTwoFactor,
   authRateLimit,
+  mailRateLimit,
   generalRateLimit,
-  authenticateToken,
-  optionalAuth
+  authenticateToken
 } from '../middleware';
 
 /**
@@ -20,7 +32,9 @@ const router = Router();
  * /api/v1/auth/register:
  *   post:
  *     summary: Register a new user account
- *     description: Create a new user account with email and password. Returns JWT token for immediate authentication.
+ *     description: |
+ *       Create a new user account with email and password. New accounts get the `user` role; other
+ *       roles are assigned by admins. Returns JWT token for immediate authentication.
  *     tags: [Authentication]
  *     security: []
  *     requestBody:
@@ -37,15 +51,6 @@ const router = Router();
  *                 password: "password123"
  *                 first_name: "John"
  *                 last_name: "Doe"
- *                 role: "user"
- *             admin:
- *               summary: Admin user registration
- *               value:
- *                 email: "admin@example.com"
- *                 password: "admin123"
- *                 first_name: "Admin"
- *                 last_name: "User"
- *                 role: "admin"
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -57,7 +62,9 @@ const router = Router();
  *                 - type: object
  *                   properties:
  *                     data:
- *                       $ref: '#/components/schemas/AuthResponse'
+ *                       oneOf:
+ *                         - $ref: '#/components/schemas/AuthResponse'
+ *                         - $ref: '#/components/schemas/TwoFactorChallenge'
  *             example:
  *               success: true
  *               data:
@@ -71,7 +78,9 @@ const router = Router();
  *                   created_at: "2025-07-09T15:26:11.939Z"
  *                   updated_at: "2025-07-09T15:26:11.939Z"
  *                 token: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- *                 expires_in: 86400
+ *                 expires_in: 900
+ *                 refresh_token: "mJx2c0n7yQ3p..."
+ *                 refresh_expires_in: 2592000
  *               meta:
  *                 timestamp: "2025-07-09T15:26:11.939Z"
  *       400:
@@ -102,7 +111,10 @@ router.post(
  * /api/v1/auth/login:
  *   post:
  *     summary: Authenticate user and return JWT token
- *     description: Login with email and password to receive a JWT token for API access.
+ *     description: |
+ *       Login with email and password to receive a JWT token for API access. Accounts with
+ *       two-factor authentication receive a short-lived challenge token instead; complete the
+ *       login with `POST /api/v1/auth/login/2fa`.
  *     tags: [Authentication]
  *     security: []
  *     requestBody:
@@ -147,7 +159,9 @@ router.post(
  *                   created_at: "2025-07-09T15:26:11.939Z"
  *                   updated_at: "2025-07-09T15:26:11.939Z"
  *                 token: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- *                 expires_in: 86400
+ *                 expires_in: 900
+ *                 refresh_token: "mJx2c0n7yQ3p..."
+ *                 refresh_expires_in: 2592000
  *               meta:
  *                 timestamp: "2025-07-09T15:26:11.939Z"
  *       401:
@@ -173,7 +187,23 @@ router.post(
  *                 code: "UNAUTHORIZED"
  *                 message: "Account is deactivated"
  *       429:
- *         $ref: '#/components/responses/RateLimitError'
+ *         description: |
+ *           Too many attempts from this IP, or too many failed logins for this account. After a
+ *           failed login the account waits a growing delay before the next attempt; reaching the
+ *           failure limit locks it temporarily. `Retry-After` gives the wait in seconds.
+ *         headers:
+ *           Retry-After:
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               error:
+ *                 code: "TOO_MANY_REQUESTS"
+ *                 message: "Account is temporarily locked after too many failed login attempts, try again in 900 seconds"
  */
 router.post(
   '/login',
@@ -182,6 +212,264 @@ router.post(
   authController.login
 );
 
+/**
+ * @swagger
+ * /api/v1/auth/login/2fa:
+ *   post:
+ *     summary: Complete a login with a two-factor authentication code
+ *     description: |
+ *       Exchange the challenge token from `POST /api/v1/auth/login` and a code from the authenticator
+ *       app for a token pair. A recovery code can be used instead of an app code, once. Each challenge
+ *       token can be used once; after a wrong code, log in again. Wrong codes count as failed logins.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challenge_token, code]
+ *             properties:
+ *               challenge_token:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: Six-digit code from the authenticator app, or a recovery code
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Invalid or expired challenge token, or invalid code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many attempts from this IP, or the account is temporarily locked
+ *         headers:
+ *           Retry-After:
+ *             schema:
+ *               type: integer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/login/2fa',
+  authRateLimit,
+  validateTwoFactorLogin,
+  authController.completeTwoFactorLogin
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/verify-email:
+ *   post:
+ *     summary: Verify an email address
+ *     description: |
+ *       Confirm the email address of an account with the token sent after registration. Until
+ *       then the account can read its data but not make changes. Each token can be used once.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email address verified successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/UserProfile'
+ *       400:
+ *         description: Invalid or expired verification token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/verify-email',
+  authRateLimit,
+  validateVerifyEmail,
+  authController.verifyEmail
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/verify-email/resend:
+ *   post:
+ *     summary: Resend the email verification token
+ *     description: Send a new verification token to the current user's email address. Earlier tokens stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Verification token sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                           example: "A new verification token has been sent to your email address"
+ *       400:
+ *         description: Email address is already verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/verify-email/resend',
+  mailRateLimit,
+  authenticateToken,
+  authController.resendEmailVerification
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset
+ *     description: |
+ *       Send a single-use, time-limited reset token to the email address. The response is the same
+ *       whether or not an active account exists for the address.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "user@todoapi.com"
+ *     responses:
+ *       202:
+ *         description: Request accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                           example: "If an account exists for this email, a password reset token has been sent"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/forgot-password',
+  mailRateLimit,
+  validateForgotPassword,
+  authController.forgotPassword
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/reset-password:
+ *   post:
+ *     summary: Reset password with a reset token
+ *     description: Set a new password using a token from a password reset email. Every session of the user is logged out.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, password]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 example: "newPassword456"
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                           example: "Password has been reset, please log in with your new password"
+ *       400:
+ *         description: Invalid password, or invalid or expired reset token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/reset-password',
+  authRateLimit,
+  validateResetPassword,
+  authController.resetPassword
+);
+
 /**
  * @swagger
  * /api/v1/auth/me:
@@ -230,16 +518,32 @@ router.get(
 
 /**
  * @swagger
- * /api/v1/auth/refresh:
- *   post:
- *     summary: Refresh JWT token for authenticated user
- *     description: Generate a new JWT token for the current user. Requires valid authentication.
+ * /api/v1/auth/me:
+ *   patch:
+ *     summary: Update current authenticated user's profile
+ *     description: Update the name of the currently authenticated user. Email and password have dedicated endpoints.
  *     tags: [Authentication]
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             minProperties: 1
+ *             properties:
+ *               first_name:
+ *                 type: string
+ *                 maxLength: 50
+ *                 example: "Jane"
+ *               last_name:
+ *                 type: string
+ *                 maxLength: 50
+ *                 example: "Doe"
  *     responses:
  *       200:
- *         description: Token refreshed successfully
+ *         description: Profile updated successfully
  *         content:
  *           application/json:
  *             schema:
@@ -248,54 +552,53 @@ router.get(
  *                 - type: object
  *                   properties:
  *                     data:
- *                       $ref: '#/components/schemas/AuthResponse'
- *             example:
- *               success: true
- *               data:
- *                 user:
- *                   id: "123e4567-e89b-12d3-a456-426614174000"
- *                   email: "user@todoapi.com"
- *                   role: "user"
- *                   first_name: "Test"
- *                   last_name: "User"
- *                   is_active: true
- *                   created_at: "2025-07-09T15:26:11.939Z"
- *                   updated_at: "2025-07-09T15:26:11.939Z"
- *                 token: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- *                 expires_in: 86400
- *               meta:
- *                 timestamp: "2025-07-09T15:26:11.939Z"
+ *                       $ref: '#/components/schemas/UserProfile'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
- *       403:
- *         description: Account deactivated
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
  */
-router.post(
-  '/refresh',
+router.patch(
+  '/me',
   generalRateLimit,
   authenticateToken,
-  authController.refreshToken
+  validateUpdateProfile,
+  authController.updateProfile
 );
 
 /**
  * @swagger
- * /api/v1/auth/logout:
+ * /api/v1/auth/change-password:
  *   post:
- *     summary: Logout user (client-side token invalidation)
+ *     summary: Change the current user's password
  *     description: |
- *       Logout the current user. Since JWT tokens are stateless, this endpoint primarily serves
- *       as a logging mechanism. Clients should remove the token from their storage.
+ *       Verify the current password and set a new one. Every other login session of the user is
+ *       revoked; the session used for this request stays logged in.
  *     tags: [Authentication]
- *     security: []
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [current_password, new_password]
+ *             properties:
+ *               current_password:
+ *                 type: string
+ *                 example: "user123"
+ *               new_password:
+ *                 type: string
+ *                 minLength: 8
+ *                 example: "newPassword456"
  *     responses:
  *       200:
- *         description: Logout successful
+ *         description: Password changed successfully
  *         content:
  *           application/json:
  *             schema:
@@ -308,19 +611,547 @@ router.post(
  *                       properties:
  *                         message:
  *                           type: string
- *                           example: "Please remove the token from your client storage"
- *             example:
- *               success: true
- *               data:
- *                 message: "Please remove the token from your client storage"
- *               meta:
- *                 timestamp: "2025-07-09T15:26:11.939Z"
- */
-router.post(
-  '/logout',
-  generalRateLimit,
-  optionalAuth,
-  authController.logout
+ *                           example: "Password changed successfully, other sessions have been logged out"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Not authenticated or current password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/change-password',
+  authRateLimit,
+  authenticateToken,
+  validateChangePassword,
+  authController.changePassword
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/change-email:
+ *   post:
+ *     summary: Request an email address change
+ *     description: |
+ *       Verify the current password and send a confirmation token to the new address. The email
+ *       address only changes once the token is confirmed. A new request replaces a pending one.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, password]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "new.address@example.com"
+ *               password:
+ *                 type: string
+ *                 example: "user123"
+ *     responses:
+ *       202:
+ *         description: Email change requested, awaiting confirmation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                         pending_email:
+ *                           type: string
+ *                           format: email
+ *                         expires_at:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Not authenticated or password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Email address already in use
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/change-email',
+  mailRateLimit,
+  authenticateToken,
+  validateRequestEmailChange,
+  authController.requestEmailChange
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/change-email/confirm:
+ *   post:
+ *     summary: Confirm an email address change
+ *     description: Apply a pending email change using the confirmation token. Each token can be used once.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email address changed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/UserProfile'
+ *       400:
+ *         description: Invalid or expired confirmation token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Email address was taken in the meantime
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/change-email/confirm',
+  authRateLimit,
+  validateConfirmEmailChange,
+  authController.confirmEmailChange
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa:
+ *   get:
+ *     summary: Get your two-factor authentication state
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication state retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TwoFactorStatus'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/2fa',
+  generalRateLimit,
+  authenticateToken,
+  authController.getTwoFactorStatus
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor authentication enrollment
+ *     description: |
+ *       Generate a TOTP secret and its `otpauth://` provisioning URI. Add it to an authenticator app
+ *       (most apps scan the URI as a QR code), then confirm with `POST /api/v1/auth/2fa/enable`.
+ *       Calling this again before confirming replaces the secret.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                         secret:
+ *                           type: string
+ *                           example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+ *                         otpauth_uri:
+ *                           type: string
+ *                           example: "otpauth://totp/TODO%20API:user%40todoapi.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=TODO+API&algorithm=SHA1&digits=6&period=30"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/2fa/setup',
+  authRateLimit,
+  authenticateToken,
+  authController.setupTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm two-factor authentication enrollment
+ *     description: |
+ *       Enable two-factor authentication with a code from the authenticator app. The response holds
+ *       ten single-use recovery codes for logging in without the app; they are only shown once.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                         recovery_codes:
+ *                           type: array
+ *                           items:
+ *                             type: string
+ *                           example: ["4f2a9-c81e0", "0b7d3-5e19a"]
+ *       400:
+ *         description: Invalid code, or enrollment was not started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/2fa/enable',
+  authRateLimit,
+  authenticateToken,
+  validateTwoFactorCode,
+  authController.enableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     description: |
+ *       Disable two-factor authentication with the current password and a code from the authenticator
+ *       app or a recovery code. Not possible while your role requires two-factor authentication.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [password, code]
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid code, or two-factor authentication is not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Not authenticated or password is incorrect
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Your role requires two-factor authentication
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/2fa/disable',
+  authRateLimit,
+  authenticateToken,
+  validateDisableTwoFactor,
+  authController.disableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate two-factor recovery codes
+ *     description: Replace the recovery codes after checking a code. The previous recovery codes stop working.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Recovery codes regenerated
+ *       400:
+ *         description: Invalid code, or two-factor authentication is not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authRateLimit,
+  authenticateToken,
+  validateTwoFactorCode,
+  authController.regenerateRecoveryCodes
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new token pair
+ *     description: |
+ *       Issue a new access token and a new refresh token. The presented refresh token is rotated and
+ *       cannot be used again; presenting an already used refresh token revokes every token of its login session.
+ *     tags: [Authentication]
+ *     security: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refresh_token]
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *                 example: "mJx2c0n7yQ3p..."
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         description: Refresh token invalid, expired or revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Account deactivated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post(
+  '/refresh',
+  generalRateLimit,
+  validateRefreshToken,
+  authController.refreshToken
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/logout:
+ *   post:
+ *     summary: Logout user
+ *     description: |
+ *       Revoke the access token used for this request. The token is rejected by every
+ *       authenticated endpoint until it expires. Pass the refresh token to revoke it as well.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logout successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                           example: "Logged out successfully"
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Logged out successfully"
+ *               meta:
+ *                 timestamp: "2025-07-09T15:26:11.939Z"
+ *       400:
+ *         description: Token was issued without an ID and cannot be revoked individually
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/logout',
+  generalRateLimit,
+  authenticateToken,
+  validateLogout,
+  authController.logout
+);
+
+/**
+ * @swagger
+ * /api/v1/auth/logout-all:
+ *   post:
+ *     summary: Logout user from all devices
+ *     description: |
+ *       Revoke every access and refresh token issued to the current user so far, including the
+ *       ones used for this request.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logout successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                           example: "Logged out from all devices successfully"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/logout-all',
+  generalRateLimit,
+  authenticateToken,
+  authController.logoutAll
 );
 
 export default router;
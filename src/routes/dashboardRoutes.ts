@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { dashboardController } from '../controllers';
+import { Permission, TokenScope } from '../models';
+import { 
+  generalRateLimit,
+  authenticateToken,
+  requireScope,
+  requirePermission
+} from '../middleware';
+
+/**
+ * Express router for Dashboard endpoints
+ * Exposes metrics aggregated across the lists the authenticated user works with
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/dashboard:
+ *   get:
+ *     summary: Get dashboard metrics
+ *     description: |
+ *       Retrieve task statistics aggregated across the lists of the active workspace, together with a per-list
+ *       breakdown. Without an active workspace the dashboard covers your personal lists and the lists shared with
+ *       you; switch workspace to see the dashboard of a workspace.
+ *     tags: [Dashboard]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Dashboard retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         dashboard:
+ *                           type: object
+ *                           properties:
+ *                             listsCount:
+ *                               type: number
+ *                               example: 3
+ *                             stats:
+ *                               $ref: '#/components/schemas/ListStatistics'
+ *                             lists:
+ *                               type: array
+ *                               items:
+ *                                 type: object
+ *                                 properties:
+ *                                   list:
+ *                                     $ref: '#/components/schemas/List'
+ *                                   stats:
+ *                                     $ref: '#/components/schemas/ListStatistics'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/',
+  generalRateLimit,
+  requireScope(TokenScope.LISTS_READ, TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.LIST_READ, Permission.TASK_READ),
+  dashboardController.getDashboard
+);
+
+export default router;
+export { router as dashboardRoutes };
@@ -6,14 +6,32 @@
 export { default as listRoutes } from './listRoutes';
 export { default as taskRoutes } from './taskRoutes';
 export { default as authRoutes } from './authRoutes';
+export { default as dashboardRoutes } from './dashboardRoutes';
+export { default as adminRoutes } from './adminRoutes';
+export { default as tokenRoutes } from './tokenRoutes';
+export { default as roleRoutes } from './roleRoutes';
+export { default as workspaceRoutes } from './workspaceRoutes';
+export { default as labelRoutes } from './labelRoutes';
 
 // Export routers with their configured middleware
 import listRoutes from './listRoutes';
 import taskRoutes from './taskRoutes';
 import authRoutes from './authRoutes';
+import dashboardRoutes from './dashboardRoutes';
+import adminRoutes from './adminRoutes';
+import tokenRoutes from './tokenRoutes';
+import roleRoutes from './roleRoutes';
+import workspaceRoutes from './workspaceRoutes';
+import labelRoutes from './labelRoutes';
 
 export default {
   listRoutes,
   taskRoutes,
   authRoutes,
+  dashboardRoutes,
+  adminRoutes,
+  tokenRoutes,
+  roleRoutes,
+  workspaceRoutes,
+  labelRoutes,
 };
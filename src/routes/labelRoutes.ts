@@ -0,0 +1,277 @@
+import { Router } from 'express';
+import { labelController } from '../controllers';
+import { Permission, TokenScope } from '../models';
+import {
+  validateCreateLabel,
+  validateUpdateLabel,
+  validateLabelParams,
+  validateLabelQuery,
+  generalRateLimit,
+  mutationRateLimit,
+  authenticateToken,
+  requireScope,
+  requirePermission
+} from '../middleware';
+
+/**
+ * Express router for label endpoints
+ * Personal labels are managed by their owner, workspace labels by the editors of the workspace
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/labels:
+ *   get:
+ *     summary: Get labels
+ *     description: |
+ *       Retrieve the labels of the active workspace, sorted by name. Use `workspace_id` to get the
+ *       labels of another workspace you are a member of, or `personal` for your personal labels.
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: workspace_id
+ *         schema:
+ *           type: string
+ *         description: Workspace UUID, or `personal`
+ *     responses:
+ *       200:
+ *         description: Labels retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         labels:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Label'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/',
+  generalRateLimit,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
+  validateLabelQuery,
+  labelController.getLabels
+);
+
+/**
+ * @swagger
+ * /api/v1/labels:
+ *   post:
+ *     summary: Create a label
+ *     description: |
+ *       Create a label in the given workspace, or in the active workspace when `workspace_id` is omitted.
+ *       Without an active workspace the label is personal. Workspace labels require the editor role in
+ *       the workspace. Label names are unique within a workspace and within your personal labels.
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, color]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 50
+ *                 example: "Urgent"
+ *               color:
+ *                 type: string
+ *                 example: "#FF8800"
+ *               workspace_id:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: Label created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         label:
+ *                           $ref: '#/components/schemas/Label'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: A label with this name already exists
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateCreateLabel,
+  labelController.createLabel
+);
+
+/**
+ * @swagger
+ * /api/v1/labels/{id}:
+ *   get:
+ *     summary: Get a label
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Label retrieved successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:id',
+  generalRateLimit,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
+  validateLabelParams,
+  labelController.getLabel
+);
+
+/**
+ * @swagger
+ * /api/v1/labels/{id}:
+ *   patch:
+ *     summary: Update a label
+ *     description: Rename a label or change its color. Tasks carrying the label keep it.
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             minProperties: 1
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 50
+ *               color:
+ *                 type: string
+ *                 example: "#3366CC"
+ *     responses:
+ *       200:
+ *         description: Label updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: A label with this name already exists
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/:id',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateUpdateLabel,
+  labelController.updateLabel
+);
+
+/**
+ * @swagger
+ * /api/v1/labels/{id}:
+ *   delete:
+ *     summary: Delete a label
+ *     description: Delete a label and detach it from every task carrying it.
+ *     tags: [Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Label deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         label_id:
+ *                           type: string
+ *                           format: uuid
+ *                         detached_tasks_count:
+ *                           type: integer
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/:id',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateLabelParams,
+  labelController.deleteLabel
+);
+
+export default router;
+export { router as labelRoutes };
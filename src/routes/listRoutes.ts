@@ -1,5 +1,6 @@
 import { Router } from 'express';
-import { listController } from '../controllers';
+import { listController, listMemberController } from '../controllers';
+import { Permission, TokenScope } from '../models';
 import { 
   validateCreateList,
   validateUpdateList,
@@ -10,8 +11,13 @@ import {
   generalRateLimit,
   mutationRateLimit,
   authenticateToken,
-  optionalAuth,
-  requireUser
+  requireScope,
+  requirePermission,
+  requireListAccess,
+  listById,
+  validateAddListMember,
+  validateUpdateListMember,
+  validateListMemberParams
 } from '../middleware';
 
 /**
@@ -27,15 +33,23 @@ const router = Router();
  *     summary: Get all lists with optional filtering, sorting, and pagination
  *     description: |
  *       Retrieve all lists with support for pagination, search, filtering, and sorting.
- *       Authentication is optional - authenticated users see all lists, while unauthenticated users see public lists only.
+ *       Lists are scoped to the active workspace (see `PUT /api/v1/workspaces/active`) unless `workspace_id`
+ *       selects another one. Within a workspace its members see every list; outside of one, users see their
+ *       own lists and lists shared with them, unless their role grants `list.read.any`.
  *     tags: [Lists]
- *     security: []
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - $ref: '#/components/parameters/PageParam'
  *       - $ref: '#/components/parameters/LimitParam'
  *       - $ref: '#/components/parameters/SortFieldParam'
  *       - $ref: '#/components/parameters/SortOrderParam'
  *       - $ref: '#/components/parameters/SearchParam'
+ *       - name: workspace_id
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Workspace ID, or `personal` for lists outside of any workspace. Defaults to the active workspace.
  *       - name: color
  *         in: query
  *         schema:
@@ -83,13 +97,17 @@ const router = Router();
  *                 timestamp: "2025-07-09T15:26:11.939Z"
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
  *       429:
  *         $ref: '#/components/responses/RateLimitError'
  */
 router.get(
   '/',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.LISTS_READ),
+  authenticateToken,
+  requirePermission(Permission.LIST_READ),
   validateListQuery,
   listController.getAllLists
 );
@@ -99,7 +117,9 @@ router.get(
  * /api/v1/lists:
  *   post:
  *     summary: Create a new list
- *     description: Create a new todo list. Requires authentication.
+ *     description: |
+ *       Create a new todo list. Requires authentication. The list is created in the workspace named by
+ *       `workspace_id`, or else in the active workspace, which requires the editor role in it.
  *     tags: [Lists]
  *     security:
  *       - bearerAuth: []
@@ -156,8 +176,9 @@ router.get(
 router.post(
   '/',
   mutationRateLimit,
+  requireScope(TokenScope.LISTS_WRITE),
   authenticateToken,
-  requireUser,
+  requirePermission(Permission.LIST_CREATE),
   validateCreateList,
   listController.createList
 );
@@ -167,9 +188,10 @@ router.post(
  * /api/v1/lists/{id}:
  *   get:
  *     summary: Get a specific list by ID
- *     description: Retrieve detailed information about a specific list by its UUID.
+ *     description: Retrieve detailed information about a specific list by its UUID. Only the owner, members of the list or a user with `list.read.any` can access it.
  *     tags: [Lists]
- *     security: []
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - $ref: '#/components/parameters/UuidParam'
  *     responses:
@@ -198,6 +220,10 @@ router.post(
  *                 timestamp: "2025-07-09T15:26:11.939Z"
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       429:
@@ -206,17 +232,70 @@ router.post(
 router.get(
   '/:id',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.LISTS_READ),
+  authenticateToken,
+  requirePermission(Permission.LIST_READ),
   validateListParams,
+  requireListAccess(listById(), 'viewer', Permission.LIST_READ_ANY),
   listController.getListById
 );
 
+/**
+ * @swagger
+ * /api/v1/lists/{id}/stats:
+ *   get:
+ *     summary: Get list statistics
+ *     description: Retrieve completion, priority and deadline metrics for the tasks of a list. Only the owner, members of the list or a user with `list.read.any` can access it.
+ *     tags: [Lists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: List statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         list:
+ *                           $ref: '#/components/schemas/List'
+ *                         stats:
+ *                           $ref: '#/components/schemas/ListStatistics'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:id/stats',
+  generalRateLimit,
+  requireScope(TokenScope.LISTS_READ, TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.LIST_READ, Permission.TASK_READ),
+  validateListParams,
+  requireListAccess(listById(), 'viewer', Permission.LIST_READ_ANY),
+  listController.getListStatistics
+);
+
 /**
  * @swagger
  * /api/v1/lists/{id}:
  *   put:
  *     summary: Update an existing list
- *     description: Update list information. Requires authentication and user role.
+ *     description: Update list information. Only owners and editors of the list or a user with `list.update.any` can update it.
  *     tags: [Lists]
  *     security:
  *       - bearerAuth: []
@@ -277,9 +356,11 @@ router.get(
 router.put(
   '/:id',
   mutationRateLimit,
+  requireScope(TokenScope.LISTS_WRITE),
   authenticateToken,
-  requireUser,
+  requirePermission(Permission.LIST_UPDATE),
   validateUpdateList,
+  requireListAccess(listById(), 'editor', Permission.LIST_UPDATE_ANY),
   listController.updateList
 );
 
@@ -290,7 +371,7 @@ router.put(
  *     summary: Delete a list and all its tasks
  *     description: |
  *       Permanently delete a list and all associated tasks. This action cannot be undone.
- *       Requires authentication and user role.
+ *       Only owners of the list or a user with `list.delete.any` can delete it.
  *     tags: [Lists]
  *     security:
  *       - bearerAuth: []
@@ -336,9 +417,11 @@ router.put(
 router.delete(
   '/:id',
   mutationRateLimit,
+  requireScope(TokenScope.LISTS_WRITE),
   authenticateToken,
-  requireUser,
+  requirePermission(Permission.LIST_DELETE),
   validateListParams,
+  requireListAccess(listById(), 'owner', Permission.LIST_DELETE_ANY),
   listController.deleteList
 );
 
@@ -349,8 +432,10 @@ router.delete(
  *     summary: Get all tasks for a specific list
  *     description: |
  *       Retrieve all tasks belonging to a specific list with pagination, filtering, and sorting options.
+ *       Only the owner, members of the list or a user with `list.read.any` can access its tasks.
  *     tags: [Lists]
- *     security: []
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - $ref: '#/components/parameters/UuidParam'
  *       - $ref: '#/components/parameters/PageParam'
@@ -418,6 +503,10 @@ router.delete(
  *                 timestamp: "2025-07-09T16:30:00.000Z"
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       429:
@@ -426,10 +515,215 @@ router.delete(
 router.get(
   '/:id/tasks',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.LISTS_READ, TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.LIST_READ, Permission.TASK_READ),
   validateListTasksQuery,
+  requireListAccess(listById(), 'viewer', Permission.LIST_READ_ANY),
   listController.getListTasks
 );
 
+/**
+ * @swagger
+ * /api/v1/lists/{id}/members:
+ *   get:
+ *     summary: Get the members of a list
+ *     description: Retrieve the owner of a list followed by the users it is shared with. Every member of the list can see the others.
+ *     tags: [Lists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: List members retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         members:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ListMember'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:id/members',
+  generalRateLimit,
+  requireScope(TokenScope.LISTS_READ),
+  authenticateToken,
+  requirePermission(Permission.LIST_READ),
+  validateListParams,
+  listMemberController.getMembers
+);
+
+/**
+ * @swagger
+ * /api/v1/lists/{id}/members:
+ *   post:
+ *     summary: Share a list with a user
+ *     description: |
+ *       Invite the user registered under an email address as a viewer, editor or owner of the list.
+ *       The invited user is notified by email and sees the list in `GET /api/v1/lists` right away.
+ *       Only owners of the list or a user with `list.update.any` can share it.
+ *     tags: [Lists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, role]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "user@todoapi.com"
+ *               role:
+ *                 type: string
+ *                 enum: [viewer, editor, owner]
+ *                 example: "editor"
+ *     responses:
+ *       201:
+ *         description: List shared successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         member:
+ *                           $ref: '#/components/schemas/ListMember'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: The list does not exist or no account uses the email address
+ *       409:
+ *         description: The list is already shared with this user
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/:id/members',
+  mutationRateLimit,
+  requireScope(TokenScope.LISTS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.LIST_UPDATE),
+  validateAddListMember,
+  listMemberController.addMember
+);
+
+/**
+ * @swagger
+ * /api/v1/lists/{id}/members/{userId}:
+ *   patch:
+ *     summary: Change the access level of a list member
+ *     description: Only owners of the list or a user with `list.update.any` can change members. The access of the user who created the list cannot be changed.
+ *     tags: [Lists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - $ref: '#/components/parameters/MemberUserIdParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [viewer, editor, owner]
+ *     responses:
+ *       200:
+ *         description: List member updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/:id/members/:userId',
+  mutationRateLimit,
+  requireScope(TokenScope.LISTS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.LIST_UPDATE),
+  validateUpdateListMember,
+  listMemberController.updateMember
+);
+
+/**
+ * @swagger
+ * /api/v1/lists/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from a list
+ *     description: |
+ *       Stop sharing a list with a member. Owners of the list or a user with `list.update.any` can remove
+ *       any member; every member can remove themselves to leave a shared list.
+ *     tags: [Lists]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - $ref: '#/components/parameters/MemberUserIdParam'
+ *     responses:
+ *       200:
+ *         description: List member removed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/:id/members/:userId',
+  mutationRateLimit,
+  requireScope(TokenScope.LISTS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.LIST_READ),
+  validateListMemberParams,
+  listMemberController.removeMember
+);
+
 export default router;
 export { router as listRoutes };
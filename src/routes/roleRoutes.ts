@@ -0,0 +1,308 @@
+import { Router } from 'express';
+import { roleController } from '../controllers';
+import { Permission } from '../models';
+import {
+  validateCreateRole,
+  validateUpdateRole,
+  validateRoleParams,
+  validateRoleTwoFactor,
+  generalRateLimit,
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission
+} from '../middleware';
+
+/**
+ * Express router for role endpoints
+ * Every route requires the role.manage permission
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/roles:
+ *   get:
+ *     summary: Get all roles
+ *     description: Retrieve the built-in roles followed by the custom roles, with the permissions each grants.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         roles:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Role'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLE_MANAGE),
+  roleController.getRoles
+);
+
+/**
+ * @swagger
+ * /api/v1/roles:
+ *   post:
+ *     summary: Create a custom role
+ *     description: Create a role with a set of permissions. Assign it to users with `PATCH /api/v1/admin/users/{id}/role`.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, permissions]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 pattern: '^[a-z][a-z0-9_-]{1,49}$'
+ *                 example: "support"
+ *               description:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: "Reads every list and task"
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/Permission'
+ *                 example: ["list.read.any", "task.read.any"]
+ *     responses:
+ *       201:
+ *         description: Role created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         role:
+ *                           $ref: '#/components/schemas/Role'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: A role with this name already exists
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLE_MANAGE),
+  validateCreateRole,
+  roleController.createRole
+);
+
+/**
+ * @swagger
+ * /api/v1/roles/{name}:
+ *   get:
+ *     summary: Get a specific role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RoleNameParam'
+ *     responses:
+ *       200:
+ *         description: Role retrieved successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:name',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLE_MANAGE),
+  validateRoleParams,
+  roleController.getRole
+);
+
+/**
+ * @swagger
+ * /api/v1/roles/{name}:
+ *   patch:
+ *     summary: Update a custom role
+ *     description: |
+ *       Change the description or permissions of a custom role. Users holding the role get the new
+ *       permissions on their next request. Built-in roles cannot be changed.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RoleNameParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             minProperties: 1
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 maxLength: 255
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/Permission'
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/:name',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLE_MANAGE),
+  validateUpdateRole,
+  roleController.updateRole
+);
+
+/**
+ * @swagger
+ * /api/v1/roles/{name}/two-factor:
+ *   put:
+ *     summary: Require two-factor authentication for a role
+ *     description: |
+ *       Require or stop requiring two-factor authentication for a built-in or custom role. Users
+ *       holding the role who have not enabled it are refused by every endpoint that checks
+ *       permissions until they set it up under `/api/v1/auth/2fa`, and cannot disable it.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RoleNameParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [required]
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Two-factor requirement updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         role:
+ *                           $ref: '#/components/schemas/Role'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.put(
+  '/:name/two-factor',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLE_MANAGE),
+  validateRoleTwoFactor,
+  roleController.setTwoFactorRequirement
+);
+
+/**
+ * @swagger
+ * /api/v1/roles/{name}:
+ *   delete:
+ *     summary: Delete a custom role
+ *     description: Delete a custom role. Roles still assigned to users and built-in roles cannot be deleted.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/RoleNameParam'
+ *     responses:
+ *       200:
+ *         description: Role deleted successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The role is still assigned to users
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/:name',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.ROLE_MANAGE),
+  validateRoleParams,
+  roleController.deleteRole
+);
+
+export default router;
+export { router as roleRoutes };
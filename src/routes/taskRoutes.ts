@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { taskController } from '../controllers';
+import { Permission, TokenScope } from '../models';
 import { 
   validateCreateTask,
   validateUpdateTask,
@@ -10,11 +11,24 @@ import {
   validateOverdueTasksQuery,
   validateTasksByPriorityParams,
   validateDateRange,
+  validateBulkUpdateTasks,
+  validateTaskLabelParams,
+  validateDeleteTask,
+  validateCreateChecklistItem,
+  validateUpdateChecklistItem,
+  validateChecklistItemParams,
+  validateCompleteTask,
+  validateAddDependency,
+  validateDependencyParams,
+  validateSetRecurrence,
+  validateTransitionTask,
   generalRateLimit,
   mutationRateLimit,
   authenticateToken,
-  optionalAuth,
-  requireUser
+  requireScope,
+  requirePermission,
+  requireListAccess,
+  listOfTask
 } from '../middleware';
 
 /**
@@ -32,7 +46,6 @@ const router = Router();
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
- *       - {}
  *     parameters:
  *       - in: query
  *         name: listId
@@ -69,6 +82,12 @@ const router = Router();
  *           format: date
  *         description: Filter tasks due until this date
  *       - in: query
+ *         name: labels
+ *         schema:
+ *           type: string
+ *           example: "any:2f1c6a1e-8d4b-4c3e-9f7a-1b2c3d4e5f60"
+ *         description: Filter tasks by labels, `any:` or `all:` followed by comma-separated label IDs
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -121,7 +140,9 @@ const router = Router();
 router.get(
   '/',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
   validateTaskQuery,
   validateDateRange,
   taskController.getAllTasks
@@ -170,22 +191,135 @@ router.get(
 router.post(
   '/',
   mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
   authenticateToken,
-  requireUser,
+  requirePermission(Permission.TASK_CREATE),
   validateCreateTask,
   taskController.createTask
 );
 
+/**
+ * @swagger
+ * /api/v1/tasks/bulk:
+ *   post:
+ *     summary: Bulk update tasks
+ *     description: |
+ *       Apply one operation to up to 50 tasks. Each task is processed independently and
+ *       failures are reported per task. With `atomic: true` all changes are rolled back
+ *       if any task fails. Deleted tasks are reported in `updated`.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [taskIds]
+ *             properties:
+ *               taskIds:
+ *                 type: array
+ *                 minItems: 1
+ *                 maxItems: 50
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               operation:
+ *                 type: string
+ *                 enum: [status, priority, move, shift_deadline, delete]
+ *                 default: status
+ *               status:
+ *                 type: string
+ *                 enum: [pending, completed]
+ *                 description: Required for the status operation
+ *               priority:
+ *                 type: string
+ *                 enum: [low, medium, high]
+ *                 description: Required for the priority operation
+ *               list_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Target list, required for the move operation
+ *               deadline_shift_days:
+ *                 type: integer
+ *                 minimum: -365
+ *                 maximum: 365
+ *                 description: Days to move deadlines by, required for the shift_deadline operation
+ *               atomic:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Roll back every change if any task fails
+ *     responses:
+ *       200:
+ *         description: Bulk operation completed (possibly with per-task failures)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     updated:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Task'
+ *                     failed:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           error:
+ *                             type: string
+ *                           code:
+ *                             type: string
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: integer
+ *                         successful:
+ *                           type: integer
+ *                         failed:
+ *                           type: integer
+ *                         rolledBack:
+ *                           type: boolean
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       409:
+ *         description: Atomic bulk operation rolled back, per-task errors in error.details
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+  '/bulk',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateBulkUpdateTasks,
+  taskController.bulkUpdateTasks
+);
+
 /**
  * @swagger
  * /api/v1/tasks/due-this-week:
  *   get:
  *     summary: Get tasks due this week
- *     description: Retrieve tasks due within the next 7 days
+ *     description: |
+ *       Retrieve tasks due within the next 7 days. Each task carries `is_blocked`, true while
+ *       one of the tasks blocking it is still pending.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
- *       - {}
  *     parameters:
  *       - in: query
  *         name: sortBy
@@ -225,7 +359,9 @@ router.post(
 router.get(
   '/due-this-week',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
   validateTasksDueThisWeekQuery,
   taskController.getTasksDueThisWeek
 );
@@ -239,7 +375,6 @@ router.get(
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
- *       - {}
  *     parameters:
  *       - in: query
  *         name: dueDateFrom
@@ -293,7 +428,9 @@ router.get(
 router.get(
   '/by-deadline',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
   validateTasksByDeadlineQuery,
   validateDateRange,
   taskController.getTasksByDeadline
@@ -304,11 +441,12 @@ router.get(
  * /api/v1/tasks/overdue:
  *   get:
  *     summary: Get overdue tasks
- *     description: Retrieve tasks that are past their deadline and not completed
+ *     description: |
+ *       Retrieve tasks that are past their deadline and not completed. Each task carries `is_blocked`,
+ *       true while one of the tasks blocking it is still pending.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
- *       - {}
  *     parameters:
  *       - in: query
  *         name: sortBy
@@ -348,7 +486,9 @@ router.get(
 router.get(
   '/overdue',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
   validateOverdueTasksQuery,
   taskController.getOverdueTasks
 );
@@ -362,7 +502,6 @@ router.get(
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
- *       - {}
  *     parameters:
  *       - in: path
  *         name: priority
@@ -412,11 +551,55 @@ router.get(
 router.get(
   '/priority/:priority',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
   validateTasksByPriorityParams,
   taskController.getTasksByPriority
 );
 
+/**
+ * @swagger
+ * /api/v1/tasks/workflow:
+ *   get:
+ *     summary: Get the task workflow
+ *     description: |
+ *       Retrieve the workflow states, which of them are terminal and the transitions allowed from each
+ *       state. The workflow is configured with `TASK_WORKFLOW_FILE`.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Workflow retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         workflow:
+ *                           $ref: '#/components/schemas/TaskWorkflow'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/workflow',
+  generalRateLimit,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
+  taskController.getWorkflow
+);
+
 /**
  * @swagger
  * /api/v1/tasks/{id}:
@@ -426,7 +609,6 @@ router.get(
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
- *       - {}
  *     parameters:
  *       - in: path
  *         name: id
@@ -450,6 +632,10 @@ router.get(
  *                   $ref: '#/components/schemas/Task'
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
  *       500:
@@ -458,8 +644,11 @@ router.get(
 router.get(
   '/:id',
   generalRateLimit,
-  optionalAuth,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
   validateTaskParams,
+  requireListAccess(listOfTask(), 'viewer', Permission.TASK_READ_ANY),
   taskController.getTaskById
 );
 
@@ -516,9 +705,11 @@ router.get(
 router.put(
   '/:id',
   mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
   authenticateToken,
-  requireUser,
+  requirePermission(Permission.TASK_UPDATE),
   validateUpdateTask,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
   taskController.updateTask
 );
 
@@ -527,7 +718,9 @@ router.put(
  * /api/v1/tasks/{id}:
  *   delete:
  *     summary: Delete a task
- *     description: Delete a task by its ID
+ *     description: |
+ *       Delete a task by its ID. Its subtasks are deleted with it, or with `subtasks=reparent`
+ *       moved up to the parent of the deleted task.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
@@ -539,6 +732,13 @@ router.put(
  *           type: string
  *           format: uuid
  *         description: Task UUID
+ *       - in: query
+ *         name: subtasks
+ *         schema:
+ *           type: string
+ *           enum: [delete, reparent]
+ *           default: delete
+ *         description: What happens to the subtasks of the task
  *     responses:
  *       200:
  *         description: Task deleted successfully
@@ -567,9 +767,11 @@ router.put(
 router.delete(
   '/:id',
   mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
   authenticateToken,
-  requireUser,
-  validateTaskParams,
+  requirePermission(Permission.TASK_DELETE),
+  validateDeleteTask,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_DELETE_ANY),
   taskController.deleteTask
 );
 
@@ -578,7 +780,10 @@ router.delete(
  * /api/v1/tasks/{id}/complete:
  *   patch:
  *     summary: Mark task as completed
- *     description: Mark a task as completed by its ID
+ *     description: |
+ *       Mark a task as completed by its ID. Tasks blocked by pending tasks are refused with 409
+ *       unless `force=true` is given. The task moves to the complete state of the workflow from
+ *       any other state, including terminal states such as cancelled.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
@@ -590,6 +795,12 @@ router.delete(
  *           type: string
  *           format: uuid
  *         description: Task UUID
+ *       - in: query
+ *         name: force
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Complete the task even while it has pending blockers
  *     responses:
  *       200:
  *         description: Task marked as completed successfully
@@ -614,15 +825,19 @@ router.delete(
  *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The task is blocked by pending tasks
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 router.patch(
   '/:id/complete',
   mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
   authenticateToken,
-  requireUser,
-  validateTaskParams,
+  requirePermission(Permission.TASK_UPDATE),
+  validateCompleteTask,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
   taskController.completeTask
 );
 
@@ -631,7 +846,9 @@ router.patch(
  * /api/v1/tasks/{id}/uncomplete:
  *   patch:
  *     summary: Mark task as pending
- *     description: Mark a task as pending (uncomplete) by its ID
+ *     description: |
+ *       Mark a task as pending (uncomplete) by its ID. The task moves to the reopen state of the
+ *       workflow from any state.
  *     tags: [Tasks]
  *     security:
  *       - bearerAuth: []
@@ -673,11 +890,697 @@ router.patch(
 router.patch(
   '/:id/uncomplete',
   mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
   authenticateToken,
-  requireUser,
+  requirePermission(Permission.TASK_UPDATE),
   validateTaskParams,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
   taskController.uncompleteTask
 );
 
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/state:
+ *   patch:
+ *     summary: Change the workflow state of a task
+ *     description: |
+ *       Move a task to another workflow state. The move has to be one of the transitions of the
+ *       task's current state, see `GET /api/v1/tasks/workflow`. Only the complete state makes the task
+ *       completed, sets `completed_at` and creates the next occurrence of a recurring task; terminal
+ *       states such as cancelled leave it pending but closed, so it no longer blocks other tasks or counts
+ *       towards the progress of its parent. Moving a task with open blockers to the complete state is
+ *       refused with 409. Moving to the current state changes nothing.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [state]
+ *             properties:
+ *               state:
+ *                 type: string
+ *                 example: "in_progress"
+ *     responses:
+ *       200:
+ *         description: Task state changed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         task:
+ *                           $ref: '#/components/schemas/Task'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The transition is not allowed, or the task is blocked by pending tasks
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/:id/state',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateTransitionTask,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.transitionTask
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/subtasks:
+ *   get:
+ *     summary: Get the subtasks of a task
+ *     description: Retrieve the direct subtasks of a task, oldest first. Subtasks are created with `parent_task_id`.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Subtasks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         subtasks:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Task'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:id/subtasks',
+  generalRateLimit,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
+  validateTaskParams,
+  requireListAccess(listOfTask(), 'viewer', Permission.TASK_READ_ANY),
+  taskController.getSubtasks
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/checklist:
+ *   post:
+ *     summary: Add a checklist item
+ *     description: |
+ *       Add an item to the checklist of a task, at the end unless a position is given.
+ *       A checklist has at most 100 items.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [text]
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Review the draft"
+ *               position:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       201:
+ *         description: Checklist item added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         task:
+ *                           $ref: '#/components/schemas/Task'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/:id/checklist',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateCreateChecklistItem,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.addChecklistItem
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/checklist/{itemId}:
+ *   patch:
+ *     summary: Update a checklist item
+ *     description: Change the text of a checklist item, check or uncheck it, or move it to another position.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Checklist item UUID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             minProperties: 1
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 500
+ *               done:
+ *                 type: boolean
+ *               position:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       200:
+ *         description: Checklist item updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ *   delete:
+ *     summary: Remove a checklist item
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Checklist item UUID
+ *     responses:
+ *       200:
+ *         description: Checklist item removed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/:id/checklist/:itemId',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateUpdateChecklistItem,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.updateChecklistItem
+);
+
+router.delete(
+  '/:id/checklist/:itemId',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateChecklistItemParams,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.removeChecklistItem
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/dependencies:
+ *   post:
+ *     summary: Add a blocker to a task
+ *     description: |
+ *       Mark the task as blocked by another task. The blocker can be in any list you can see.
+ *       A blocked task cannot be completed while the blocker is pending. Dependencies that would
+ *       make a task wait on itself are rejected, and a task has at most 50 blockers.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [blocker_id]
+ *             properties:
+ *               blocker_id:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       200:
+ *         description: Dependency added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         task:
+ *                           $ref: '#/components/schemas/Task'
+ *       400:
+ *         description: Validation failed, or the dependency would create a cycle
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/:id/dependencies',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateAddDependency,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.addDependency
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/dependencies/{blockerId}:
+ *   delete:
+ *     summary: Remove a blocker from a task
+ *     description: Removing a task that does not block the task has no effect.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - in: path
+ *         name: blockerId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: UUID of the blocking task
+ *     responses:
+ *       200:
+ *         description: Dependency removed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/:id/dependencies/:blockerId',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateDependencyParams,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.removeDependency
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/dependency-graph:
+ *   get:
+ *     summary: Get the dependency graph of a task
+ *     description: |
+ *       Retrieve the tasks the task depends on and the tasks depending on it, at any depth.
+ *       Each edge points from a blocker to the task it blocks. Tasks in lists you cannot see
+ *       are left out.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Dependency graph retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         graph:
+ *                           $ref: '#/components/schemas/TaskDependencyGraph'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:id/dependency-graph',
+  generalRateLimit,
+  requireScope(TokenScope.TASKS_READ),
+  authenticateToken,
+  requirePermission(Permission.TASK_READ),
+  validateTaskParams,
+  requireListAccess(listOfTask(), 'viewer', Permission.TASK_READ_ANY),
+  taskController.getDependencyGraph
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/recurrence:
+ *   put:
+ *     summary: Make a task recur
+ *     description: |
+ *       Set the recurrence rule of a pending task with a deadline, or replace the rule of a recurring task.
+ *       Completing the task creates the next occurrence with the deadline shifted by the rule; the rule,
+ *       labels and checklist (unchecked) move on to the new occurrence. Monthly rules without
+ *       `by_month_day` keep the day of the current deadline.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RecurrenceRule'
+ *     responses:
+ *       200:
+ *         description: Recurrence set successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         task:
+ *                           $ref: '#/components/schemas/Task'
+ *       400:
+ *         description: Invalid rule, or the task is completed or has no deadline
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ *   delete:
+ *     summary: End the series of a recurring task
+ *     description: Remove the recurrence rule. The task stays as the last occurrence of its series.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Recurrence ended successfully
+ *       400:
+ *         description: The task is not recurring
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.put(
+  '/:id/recurrence',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateSetRecurrence,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.setRecurrence
+);
+
+router.delete(
+  '/:id/recurrence',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateTaskParams,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.endRecurrence
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/recurrence/skip:
+ *   post:
+ *     summary: Skip an occurrence
+ *     description: |
+ *       Skip the current occurrence of a recurring task: the task moves on to the deadline of the
+ *       next occurrence with its checklist unchecked. The last occurrence of a series cannot be skipped.
+ *     tags: [Tasks]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Occurrence skipped successfully
+ *       400:
+ *         description: The task is not recurring, or this is the last occurrence of the series
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/:id/recurrence/skip',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateTaskParams,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.skipOccurrence
+);
+
+/**
+ * @swagger
+ * /api/v1/tasks/{id}/labels/{labelId}:
+ *   put:
+ *     summary: Attach a label to a task
+ *     description: |
+ *       Attach a label to a task. Tasks of personal lists take the list owner's personal labels,
+ *       tasks of workspace lists the labels of the workspace. Attaching a label the task already
+ *       carries has no effect. A task carries at most 20 labels.
+ *     tags: [Tasks, Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task UUID
+ *       - in: path
+ *         name: labelId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Label UUID
+ *     responses:
+ *       200:
+ *         description: Label attached successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         task:
+ *                           $ref: '#/components/schemas/Task'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ *   delete:
+ *     summary: Detach a label from a task
+ *     description: Detach a label from a task. Detaching a label the task does not carry has no effect.
+ *     tags: [Tasks, Labels]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task UUID
+ *       - in: path
+ *         name: labelId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Label UUID
+ *     responses:
+ *       200:
+ *         description: Label detached successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         task:
+ *                           $ref: '#/components/schemas/Task'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.put(
+  '/:id/labels/:labelId',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateTaskLabelParams,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.addLabel
+);
+
+router.delete(
+  '/:id/labels/:labelId',
+  mutationRateLimit,
+  requireScope(TokenScope.TASKS_WRITE),
+  authenticateToken,
+  requirePermission(Permission.TASK_UPDATE),
+  validateTaskLabelParams,
+  requireListAccess(listOfTask(), 'editor', Permission.TASK_UPDATE_ANY),
+  taskController.removeLabel
+);
+
 export default router;
 export { router as taskRoutes };
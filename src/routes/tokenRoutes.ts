@@ -0,0 +1,168 @@
+import { Router } from 'express';
+import { personalAccessTokenController } from '../controllers';
+import { Permission } from '../models';
+import { 
+  validateCreatePersonalAccessToken,
+  validatePersonalAccessTokenParams,
+  generalRateLimit,
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission
+} from '../middleware';
+
+/**
+ * Express router for personal access token endpoints
+ * Tokens can only be managed from a login session, not with another personal access token
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/tokens:
+ *   get:
+ *     summary: Get your personal access tokens
+ *     description: List the personal access tokens of the current user. Token values are never returned again after creation.
+ *     tags: [Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Personal access tokens retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         tokens:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/PersonalAccessToken'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.TOKEN_MANAGE),
+  personalAccessTokenController.getTokens
+);
+
+/**
+ * @swagger
+ * /api/v1/tokens:
+ *   post:
+ *     summary: Create a personal access token
+ *     description: |
+ *       Create a named token for scripts and integrations. Send it as `Authorization: Bearer <token>`;
+ *       it can only call list, task and dashboard endpoints covered by its scopes. The token value is
+ *       only returned in this response.
+ *     tags: [Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, scopes]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "CI pipeline"
+ *               scopes:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   type: string
+ *                   enum: [lists:read, lists:write, tasks:read, tasks:write]
+ *                 example: ["lists:read", "tasks:read", "tasks:write"]
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Omit for a token that does not expire
+ *     responses:
+ *       201:
+ *         description: Personal access token created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         token:
+ *                           type: string
+ *                           example: "todo_pat_Xk3v9QmP2c..."
+ *                         tokenInfo:
+ *                           $ref: '#/components/schemas/PersonalAccessToken'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       409:
+ *         description: A token with this name already exists
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.TOKEN_MANAGE),
+  validateCreatePersonalAccessToken,
+  personalAccessTokenController.createToken
+);
+
+/**
+ * @swagger
+ * /api/v1/tokens/{id}:
+ *   delete:
+ *     summary: Revoke a personal access token
+ *     description: Delete a personal access token of the current user. Requests using it are rejected immediately.
+ *     tags: [Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Personal access token revoked successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/:id',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.TOKEN_MANAGE),
+  validatePersonalAccessTokenParams,
+  personalAccessTokenController.revokeToken
+);
+
+export default router;
+export { router as tokenRoutes };
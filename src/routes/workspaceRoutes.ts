@@ -0,0 +1,473 @@
+import { Router } from 'express';
+import { workspaceController } from '../controllers';
+import { Permission } from '../models';
+import {
+  validateCreateWorkspace,
+  validateUpdateWorkspace,
+  validateWorkspaceParams,
+  validateSwitchWorkspace,
+  validateAddWorkspaceMember,
+  validateUpdateWorkspaceMember,
+  validateWorkspaceMemberParams,
+  generalRateLimit,
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission,
+  requireVerifiedEmail
+} from '../middleware';
+
+/**
+ * Express router for workspace endpoints
+ * Access to a workspace follows the role of the user in it, owners manage the workspace and its members
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/workspaces:
+ *   get:
+ *     summary: Get your workspaces
+ *     description: Retrieve the workspaces you are a member of, with your role in each and which one is active.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Workspaces retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         workspaces:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Workspace'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_READ),
+  workspaceController.getWorkspaces
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces:
+ *   post:
+ *     summary: Create a workspace
+ *     description: Create a workspace with yourself as its owner. Requires the `workspace.create` permission.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "Marketing team"
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Workspace created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         workspace:
+ *                           $ref: '#/components/schemas/Workspace'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_CREATE),
+  validateCreateWorkspace,
+  workspaceController.createWorkspace
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/active:
+ *   put:
+ *     summary: Switch workspace
+ *     description: |
+ *       Switch to one of your workspaces, or back to your personal lists with `null`. List and task
+ *       queries, new lists and the dashboard are scoped to the active workspace.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [workspace_id]
+ *             properties:
+ *               workspace_id:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Switched workspace successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.put(
+  '/active',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_READ),
+  validateSwitchWorkspace,
+  workspaceController.switchWorkspace
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}:
+ *   get:
+ *     summary: Get a specific workspace
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Workspace retrieved successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:id',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_READ),
+  validateWorkspaceParams,
+  workspaceController.getWorkspace
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}:
+ *   patch:
+ *     summary: Update a workspace
+ *     description: Rename a workspace or change its description. Only owners of the workspace can update it.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             minProperties: 1
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Workspace updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/:id',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_UPDATE),
+  requireVerifiedEmail,
+  validateUpdateWorkspace,
+  workspaceController.updateWorkspace
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}:
+ *   delete:
+ *     summary: Delete a workspace
+ *     description: |
+ *       Permanently delete a workspace together with its lists and their tasks. This action cannot be undone.
+ *       Only owners of the workspace can delete it.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Workspace deleted successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/:id',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_DELETE),
+  requireVerifiedEmail,
+  validateWorkspaceParams,
+  workspaceController.deleteWorkspace
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/members:
+ *   get:
+ *     summary: Get the members of a workspace
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     responses:
+ *       200:
+ *         description: Workspace members retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       type: object
+ *                       properties:
+ *                         members:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/WorkspaceMember'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.get(
+  '/:id/members',
+  generalRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_READ),
+  validateWorkspaceParams,
+  workspaceController.getMembers
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/members:
+ *   post:
+ *     summary: Add a member to a workspace
+ *     description: |
+ *       Add the user registered under an email address as a viewer, editor or owner of the workspace.
+ *       The role applies to every list of the workspace. Only owners of the workspace can add members.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, role]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [viewer, editor, owner]
+ *     responses:
+ *       201:
+ *         description: Workspace member added successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: The workspace does not exist or no account uses the email address
+ *       409:
+ *         description: The user is already a member of the workspace
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.post(
+  '/:id/members',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_UPDATE),
+  requireVerifiedEmail,
+  validateAddWorkspaceMember,
+  workspaceController.addMember
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/members/{userId}:
+ *   patch:
+ *     summary: Change the role of a workspace member
+ *     description: Only owners of the workspace can change roles. Every workspace keeps at least one owner.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - $ref: '#/components/parameters/MemberUserIdParam'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [viewer, editor, owner]
+ *     responses:
+ *       200:
+ *         description: Workspace member updated successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.patch(
+  '/:id/members/:userId',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_UPDATE),
+  requireVerifiedEmail,
+  validateUpdateWorkspaceMember,
+  workspaceController.updateMember
+);
+
+/**
+ * @swagger
+ * /api/v1/workspaces/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from a workspace
+ *     description: |
+ *       Owners of the workspace can remove any member; every member can remove themselves to leave the
+ *       workspace. The last owner cannot leave. Removed members also lose the lists of the workspace that
+ *       were shared with them.
+ *     tags: [Workspaces]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/UuidParam'
+ *       - $ref: '#/components/parameters/MemberUserIdParam'
+ *     responses:
+ *       200:
+ *         description: Workspace member removed successfully
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       429:
+ *         $ref: '#/components/responses/RateLimitError'
+ */
+router.delete(
+  '/:id/members/:userId',
+  mutationRateLimit,
+  authenticateToken,
+  requirePermission(Permission.WORKSPACE_READ),
+  requireVerifiedEmail,
+  validateWorkspaceMemberParams,
+  workspaceController.removeMember
+);
+
+export default router;
+export { router as workspaceRoutes };
@@ -0,0 +1,388 @@
+import {
+  UserProfile,
+  UserFilterParams,
+  DeletedUserListsAction,
+  AuthUser,
+  ApiResponseCode,
+  Permission
+} from '../models';
+import {
+  listRepository,
+  userRepository,
+  oneTimeTokenRepository,
+  loginAttemptRepository,
+  personalAccessTokenRepository,
+  roleRepository,
+  listMemberRepository,
+  workspaceRepository,
+  workspaceMemberRepository,
+  twoFactorRepository,
+  labelRepository
+} from '../repositories';
+import { authService } from './authService';
+import { logger } from '../utils/logger';
+
+/**
+ * Business logic service for admin user management
+ * Every change is logged with the ID of the acting admin
+ */
+export class AdminService {
+  /**
+   * Get all users with filtering and pagination
+   */
+  async getUsers(
+    filters: UserFilterParams = {},
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    users: UserProfile[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  }> {
+    try {
+      const offset = (page - 1) * limit;
+      const { users, total } = await userRepository.search(filters, limit, offset);
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        users,
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      };
+    } catch (error) {
+      logger.error('Error in getUsers service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters,
+        page,
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user by ID, including deactivated users
+   */
+  async getUserById(id: string): Promise<UserProfile> {
+    try {
+      const user = await userRepository.findById(id, true);
+      if (!user) {
+        const error = new Error(`User with ID '${id}' not found`);
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      return userRepository.toUserProfile(user);
+    } catch (error) {
+      logger.error('Error in getUserById service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate or reactivate a user
+   * Deactivation revokes every token of the user
+   */
+  async setUserActive(id: string, isActive: boolean, admin: AuthUser): Promise<UserProfile> {
+    try {
+      await this.getUserById(id);
+
+      if (!isActive) {
+        this.assertNotSelf(id, admin, 'You cannot deactivate your own account');
+      }
+
+      const user = await userRepository.update(id, { is_active: isActive });
+      if (!isActive) {
+        await authService.logoutAll(id);
+      }
+
+      this.logAdminAction(isActive ? 'reactivate_user' : 'deactivate_user', admin, id);
+
+      return userRepository.toUserProfile(user!);
+    } catch (error) {
+      logger.error('Error in setUserActive service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+        isActive,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the role of a user to a built-in or custom role
+   * Existing tokens carry the old role, so they are revoked
+   */
+  async changeUserRole(id: string, role: string, admin: AuthUser): Promise<UserProfile> {
+    try {
+      const existingUser = await this.getUserById(id);
+
+      const newRole = await roleRepository.findByName(role);
+      if (!newRole) {
+        const error = new Error(`Role '${role}' does not exist`);
+        (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+        throw error;
+      }
+
+      if (!newRole.permissions.includes(Permission.USER_MANAGE)) {
+        this.assertNotSelf(id, admin, 'You cannot remove user management from your own account');
+      }
+
+      const user = await userRepository.update(id, { role });
+      if (existingUser.role !== role) {
+        await authService.logoutAll(id);
+      }
+
+      this.logAdminAction('change_user_role', admin, id, {
+        previousRole: existingUser.role,
+        role,
+      });
+
+      return userRepository.toUserProfile(user!);
+    } catch (error) {
+      logger.error('Error in changeUserRole service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+        role,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Clear failed logins and any lockout of a user
+   */
+  async unlockUser(id: string, admin: AuthUser): Promise<UserProfile> {
+    try {
+      const user = await this.getUserById(id);
+
+      const cleared = await loginAttemptRepository.reset(id);
+
+      this.logAdminAction('unlock_user', admin, id, { cleared });
+
+      return user;
+    } catch (error) {
+      logger.error('Error in unlockUser service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the email address of a user as verified without a verification token
+   */
+  async verifyUserEmail(id: string, admin: AuthUser): Promise<UserProfile> {
+    try {
+      await this.getUserById(id);
+
+      const user = await userRepository.update(id, { email_verified: true });
+      await oneTimeTokenRepository.deleteForUser(id, 'email_verification');
+
+      this.logAdminAction('verify_user_email', admin, id);
+
+      return userRepository.toUserProfile(user!);
+    } catch (error) {
+      logger.error('Error in verifyUserEmail service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password for a user and revoke every token of the user
+   */
+  async resetUserPassword(id: string, password: string, admin: AuthUser): Promise<UserProfile> {
+    try {
+      await this.getUserById(id);
+      authService.assertValidPassword(password);
+
+      const user = await userRepository.update(id, { password });
+      await authService.logoutAll(id);
+
+      this.logAdminAction('reset_user_password', admin, id);
+
+      return userRepository.toUserProfile(user!);
+    } catch (error) {
+      logger.error('Error in resetUserPassword service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Turn off two-factor authentication for a user who lost their authenticator app and recovery codes
+   * Pending two-factor logins of the user are discarded
+   */
+  async resetUserTwoFactor(id: string, admin: AuthUser): Promise<UserProfile> {
+    try {
+      const user = await this.getUserById(id);
+
+      const removed = await twoFactorRepository.delete(id);
+      await oneTimeTokenRepository.deleteForUser(id, 'two_factor_login');
+
+      this.logAdminAction('reset_user_two_factor', admin, id, { removed });
+
+      return user;
+    } catch (error) {
+      logger.error('Error in resetUserTwoFactor service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a user
+   * The user's personal lists are either deleted with their tasks or transferred to another user.
+   * Lists the user created in workspaces belong to the team and stay in their workspace.
+   * Personal labels are deleted, transferred tasks lose them.
+   */
+  async deleteUser(
+    id: string,
+    options: {
+      lists?: DeletedUserListsAction;
+      transferToUserId?: string;
+    },
+    admin: AuthUser
+  ): Promise<{ deletedUserId: string; lists: { action: DeletedUserListsAction; count: number; transferredTo?: string } }> {
+    try {
+      await this.getUserById(id);
+      this.assertNotSelf(id, admin, 'You cannot delete your own account');
+
+      const { lists: listsAction = 'delete' } = options;
+      const { lists } = await listRepository.getAllLists({ owner_id: id, workspace_id: null });
+
+      let transferredTo: string | undefined;
+      if (listsAction === 'transfer') {
+        transferredTo = options.transferToUserId || admin.id;
+        await this.assertTransferTarget(id, transferredTo, lists.map(list => list.name));
+
+        for (const list of lists) {
+          await listRepository.transferList(list.id, transferredTo);
+          // The new owner no longer needs a membership
+          await listMemberRepository.delete(list.id, transferredTo);
+        }
+      } else {
+        for (const list of lists) {
+          await listRepository.deleteList(list.id, true);
+        }
+      }
+
+      await authService.logoutAll(id);
+      await personalAccessTokenRepository.deleteForUser(id);
+      await listMemberRepository.deleteForUser(id);
+      await workspaceMemberRepository.deleteForUser(id);
+      await workspaceRepository.setActiveWorkspaceId(id, null);
+      await twoFactorRepository.delete(id);
+      await labelRepository.deleteForOwner(id);
+      await userRepository.hardDelete(id);
+
+      this.logAdminAction('delete_user', admin, id, {
+        listsAction,
+        listsCount: lists.length,
+        ...(transferredTo && { transferredTo }),
+      });
+
+      return {
+        deletedUserId: id,
+        lists: {
+          action: listsAction,
+          count: lists.length,
+          ...(transferredTo && { transferredTo }),
+        },
+      };
+    } catch (error) {
+      logger.error('Error in deleteUser service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: id,
+        options,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ensure lists can be transferred to the target user without name clashes
+   * List names are unique per workspace, so only personal lists can clash
+   */
+  private async assertTransferTarget(fromUserId: string, toUserId: string, listNames: string[]): Promise<void> {
+    if (toUserId === fromUserId) {
+      const error = new Error('Lists cannot be transferred to the user being deleted');
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+
+    const targetUser = await userRepository.findById(toUserId);
+    if (!targetUser) {
+      const error = new Error(`Target user with ID '${toUserId}' not found`);
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    const { lists: targetLists } = await listRepository.getAllLists({ owner_id: toUserId, workspace_id: null });
+    const targetNames = new Set(targetLists.map(list => list.name.toLowerCase()));
+    const clashes = listNames.filter(name => targetNames.has(name.toLowerCase()));
+
+    if (clashes.length > 0) {
+      const error = new Error(`Target user already has lists named: ${clashes.join(', ')}`);
+      (error as any).code = ApiResponseCode.CONFLICT;
+      throw error;
+    }
+  }
+
+  /**
+   * Prevent admins from locking themselves out
+   */
+  private assertNotSelf(id: string, admin: AuthUser, message: string): void {
+    if (id === admin.id) {
+      const error = new Error(message);
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  /**
+   * Record an admin action in the log
+   */
+  private logAdminAction(
+    action: string,
+    admin: AuthUser,
+    targetUserId: string,
+    details: Record<string, unknown> = {}
+  ): void {
+    logger.info('Admin action', {
+      action,
+      adminId: admin.id,
+      targetUserId,
+      ...details,
+    });
+  }
+}
+
+// Create and export singleton instance
+export const adminService = new AdminService();
@@ -1,6 +1,29 @@
 import jwt from 'jsonwebtoken';
-import { CreateUserInput, LoginInput, AuthResponse, UserProfile } from '../models/entities';
+import { createHash, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreateUserInput,
+  LoginInput,
+  AuthResponse,
+  TwoFactorChallenge,
+  User,
+  UserProfile,
+  AccessTokenClaims,
+  LoginAttempts,
+  UpdateProfileInput,
+  ChangePasswordInput
+} from '../models/entities';
+import { ApiResponseCode } from '../models';
 import { userRepository } from '../repositories/userRepository';
+import { revokedTokenRepository } from '../repositories/revokedTokenRepository';
+import { refreshTokenRepository } from '../repositories/refreshTokenRepository';
+import { oneTimeTokenRepository } from '../repositories/oneTimeTokenRepository';
+import { loginAttemptRepository } from '../repositories/loginAttemptRepository';
+import { roleRepository } from '../repositories/roleRepository';
+import { twoFactorRepository } from '../repositories/twoFactorRepository';
+import { twoFactorService } from './twoFactorService';
+import { mailTransport } from '../mail';
+import { jwtKeySet } from '../keys';
 import { logger } from '../utils/logger';
 
 /**
@@ -8,16 +31,29 @@ import { logger } from '../utils/logger';
  * Handles user registration, login, and JWT token generation
  */
 export class AuthService {
-  private readonly jwtSecret: string;
   private readonly jwtExpiresIn: string;
+  private readonly refreshTokenExpiresIn: string;
+  private readonly emailChangeTokenExpiresIn: string;
+  private readonly passwordResetTokenExpiresIn: string;
+  private readonly emailVerificationTokenExpiresIn: string;
+  private readonly twoFactorChallengeExpiresIn: string;
+  private readonly maxFailedLogins: number;
+  private readonly loginLockoutDuration: string;
+  private readonly loginDelayBaseMs: number;
+  private readonly revocationPruneIntervalMs: number;
+  private pruneTimer: NodeJS.Timeout | null = null;
 
   constructor() {
-    this.jwtSecret = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
-    this.jwtExpiresIn = process.env.JWT_EXPIRES_IN || '24h';
-
-    if (!process.env.JWT_SECRET) {
-      logger.warn('JWT_SECRET not set in environment variables, using default (not recommended for production)');
-    }
+    this.jwtExpiresIn = process.env.JWT_EXPIRES_IN || '15m';
+    this.refreshTokenExpiresIn = process.env.REFRESH_TOKEN_EXPIRES_IN || '30d';
+    this.emailChangeTokenExpiresIn = process.env.EMAIL_CHANGE_TOKEN_EXPIRES_IN || '24h';
+    this.passwordResetTokenExpiresIn = process.env.PASSWORD_RESET_TOKEN_EXPIRES_IN || '1h';
+    this.emailVerificationTokenExpiresIn = process.env.EMAIL_VERIFICATION_TOKEN_EXPIRES_IN || '24h';
+    this.twoFactorChallengeExpiresIn = process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m';
+    this.maxFailedLogins = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10);
+    this.loginLockoutDuration = process.env.LOGIN_LOCKOUT_DURATION || '15m';
+    this.loginDelayBaseMs = parseInt(process.env.LOGIN_DELAY_BASE_MS || '1000', 10);
+    this.revocationPruneIntervalMs = parseInt(process.env.TOKEN_REVOCATION_PRUNE_INTERVAL_MS || '3600000', 10);
   }
 
   /**
@@ -30,25 +66,29 @@ export class AuthService {
         throw new Error('Invalid email format');
       }
 
-      // Validate password strength
-      if (!this.isValidPassword(userData.password)) {
-        throw new Error('Password must be at least 8 characters long and contain at least one number and one letter');
-      }
+      this.assertValidPassword(userData.password);
 
-      const user = await userRepository.create(userData);
+      // New accounts get the default role and can make changes once their email address is verified
+      const user = await userRepository.create({ ...userData, role: roleRepository.defaultRole }, false);
       const userProfile = userRepository.toUserProfile(user);
-      const token = this.generateToken(userProfile);
+      const { response: authResponse } = await this.issueTokens(userProfile);
+
+      try {
+        await this.sendEmailVerification(user);
+      } catch (error) {
+        // The account exists at this point; the user can ask for a new verification email
+        logger.error('Failed to send verification email', {
+          userId: user.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
 
       logger.info('User registered successfully', {
         userId: user.id,
         email: user.email,
       });
 
-      return {
-        user: userProfile,
-        token,
-        expires_in: this.getTokenExpirationTime(),
-      };
+      return authResponse;
     } catch (error) {
       logger.error('User registration failed', {
         email: userData.email,
@@ -60,25 +100,62 @@ export class AuthService {
 
   /**
    * Login user
+   * Accounts with two-factor authentication get a challenge to complete with a code instead of tokens
    */
-  async login(loginData: LoginInput): Promise<AuthResponse> {
+  async login(loginData: LoginInput): Promise<AuthResponse | TwoFactorChallenge> {
     try {
       const user = await userRepository.findByEmail(loginData.email);
       if (!user) {
         throw new Error('Invalid email or password');
       }
 
+      await this.assertLoginAllowed(user.id);
+
+      // Counted as failed up front so concurrent guesses cannot all pass the check above
+      const attempts = await this.recordFailedLogin(user.id);
+
       const isPasswordValid = await userRepository.verifyPassword(loginData.password, user.password);
       if (!isPasswordValid) {
+        if (attempts.locked_until) {
+          logger.warn('Account locked after failed login attempts', {
+            userId: user.id,
+            email: user.email,
+            failedAttempts: attempts.failed_count,
+            lockedUntil: attempts.locked_until,
+          });
+        }
         throw new Error('Invalid email or password');
       }
 
+      // With two-factor authentication the login only counts as successful once the code is
+      // verified, so knowing the password does not reset the count while guessing codes
+      const twoFactorEnabled = await twoFactorRepository.isEnabled(user.id);
+      if (!twoFactorEnabled) {
+        await loginAttemptRepository.reset(user.id);
+      }
+
       if (!user.is_active) {
         throw new Error('Account is deactivated');
       }
 
+      if (twoFactorEnabled) {
+        const expiresIn = this.parseExpiresIn(this.twoFactorChallengeExpiresIn);
+        const challengeToken = await oneTimeTokenRepository.create(user.id, 'two_factor_login', expiresIn * 1000);
+
+        logger.info('Two-factor challenge issued', {
+          userId: user.id,
+          email: user.email,
+        });
+
+        return {
+          two_factor_required: true,
+          challenge_token: challengeToken,
+          expires_in: expiresIn,
+        };
+      }
+
       const userProfile = userRepository.toUserProfile(user);
-      const token = this.generateToken(userProfile);
+      const { response: authResponse } = await this.issueTokens(userProfile);
 
       logger.info('User logged in successfully', {
         userId: user.id,
@@ -86,9 +163,8 @@ export class AuthService {
       });
 
       return {
-        user: userProfile,
-        token,
-        expires_in: this.getTokenExpirationTime(),
+        ...authResponse,
+        ...(await roleRepository.isTwoFactorRequired(user.role) && { two_factor_setup_required: true }),
       };
     } catch (error) {
       logger.error('User login failed', {
@@ -99,6 +175,53 @@ export class AuthService {
     }
   }
 
+  /**
+   * Complete a login with the challenge token and a code from the authenticator app or a recovery code
+   * The challenge can be used once; a wrong code counts as a failed login
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+    try {
+      const entry = await oneTimeTokenRepository.consume(challengeToken, 'two_factor_login');
+      const user = entry ? await userRepository.findById(entry.user_id) : null;
+      if (!entry || !user) {
+        throw new Error('Invalid or expired two-factor challenge, please log in again');
+      }
+
+      // Every challenge took a password check, which already waited out the login delay
+      await this.assertLoginAllowed(user.id, true);
+
+      if (!(await twoFactorService.verifyCode(user.id, code))) {
+        const attempts = await this.recordFailedLogin(user.id);
+        if (attempts.locked_until) {
+          logger.warn('Account locked after failed login attempts', {
+            userId: user.id,
+            email: user.email,
+            failedAttempts: attempts.failed_count,
+            lockedUntil: attempts.locked_until,
+          });
+        }
+        throw new Error('Invalid two-factor authentication code, please log in again');
+      }
+
+      await loginAttemptRepository.reset(user.id);
+
+      const userProfile = userRepository.toUserProfile(user);
+      const { response: authResponse } = await this.issueTokens(userProfile);
+
+      logger.info('User logged in successfully with two-factor authentication', {
+        userId: user.id,
+        email: user.email,
+      });
+
+      return authResponse;
+    } catch (error) {
+      logger.error('Two-factor login failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get user profile by ID
    */
@@ -120,17 +243,550 @@ export class AuthService {
   }
 
   /**
-   * Generate JWT token
+   * Update profile fields of the current user
+   */
+  async updateProfile(userId: string, input: UpdateProfileInput): Promise<UserProfile> {
+    try {
+      const user = await userRepository.update(userId, input);
+      if (!user) {
+        const error = new Error('User not found');
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      logger.info('Profile updated', {
+        userId,
+        fields: Object.keys(input),
+      });
+
+      return userRepository.toUserProfile(user);
+    } catch (error) {
+      logger.error('Profile update failed', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the password of the current user
+   * Every other session is revoked, the current one stays logged in
+   */
+  async changePassword(userId: string, input: ChangePasswordInput, sessionId?: string): Promise<void> {
+    try {
+      const user = await this.getUserWithPassword(userId, input.current_password);
+
+      this.assertValidPassword(input.new_password);
+
+      if (await userRepository.verifyPassword(input.new_password, user.password)) {
+        const error = new Error('New password must be different from the current password');
+        (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+        throw error;
+      }
+
+      await userRepository.update(userId, { password: input.new_password });
+      await oneTimeTokenRepository.deleteForUser(userId, 'password_reset');
+      await this.logoutAll(userId, sessionId);
+
+      logger.info('Password changed', { userId });
+    } catch (error) {
+      logger.error('Password change failed', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start an email change; the new address is applied once the token is confirmed
+   * Returns the pending address and when the confirmation token expires
+   */
+  async requestEmailChange(userId: string, email: string, password: string): Promise<{
+    pending_email: string;
+    expires_at: Date;
+  }> {
+    try {
+      const user = await this.getUserWithPassword(userId, password);
+
+      if (!this.isValidEmail(email)) {
+        const error = new Error('Invalid email format');
+        (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+        throw error;
+      }
+
+      if (email === user.email) {
+        const error = new Error('New email must be different from the current email');
+        (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+        throw error;
+      }
+
+      await this.assertEmailAvailable(email);
+
+      const expiresInMs = this.parseExpiresIn(this.emailChangeTokenExpiresIn) * 1000;
+      const token = await oneTimeTokenRepository.create(userId, 'email_change', expiresInMs, { email });
+      const expiresAt = new Date(Date.now() + expiresInMs);
+
+      await mailTransport.send({
+        to: email,
+        subject: 'Confirm your new email address',
+        text: [
+          'A change of your TODO API account email address to this address was requested.',
+          '',
+          `Confirmation token: ${token}`,
+          '',
+          `Submit it to POST /api/v1/auth/change-email/confirm before ${expiresAt.toISOString()}.`,
+          'If you did not request this change, you can ignore this message.',
+        ].join('\n'),
+      });
+
+      logger.info('Email change confirmation requested', {
+        userId,
+        pendingEmail: email,
+      });
+
+      return {
+        pending_email: email,
+        expires_at: expiresAt,
+      };
+    } catch (error) {
+      logger.error('Email change request failed', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a pending email change from its confirmation token
+   */
+  async confirmEmailChange(token: string): Promise<UserProfile> {
+    try {
+      const entry = await oneTimeTokenRepository.consume(token, 'email_change');
+      if (!entry || !entry.email) {
+        const error = new Error('Invalid or expired confirmation token');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      // The address may have been taken since the change was requested
+      await this.assertEmailAvailable(entry.email);
+
+      // The confirmation token proves ownership of the new address
+      const user = await userRepository.update(entry.user_id, { email: entry.email, email_verified: true });
+      if (!user || !user.is_active) {
+        const error = new Error('User not found');
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      logger.info('Email changed', {
+        userId: user.id,
+        email: user.email,
+      });
+
+      return userRepository.toUserProfile(user);
+    } catch (error) {
+      logger.error('Email change confirmation failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a password reset token to the user with the given email
+   * Unknown or deactivated accounts are ignored silently so callers cannot probe for registered emails
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    try {
+      const user = await userRepository.findByEmail(email);
+      if (!user) {
+        logger.info('Password reset requested for unknown email');
+        return;
+      }
+
+      const expiresInMs = this.parseExpiresIn(this.passwordResetTokenExpiresIn) * 1000;
+      const token = await oneTimeTokenRepository.create(user.id, 'password_reset', expiresInMs);
+      const expiresAt = new Date(Date.now() + expiresInMs);
+
+      await mailTransport.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          'A password reset was requested for your TODO API account.',
+          '',
+          `Reset token: ${token}`,
+          '',
+          `Submit it with your new password to POST /api/v1/auth/reset-password before ${expiresAt.toISOString()}.`,
+          'If you did not request a reset, you can ignore this message; your password stays unchanged.',
+        ].join('\n'),
+      });
+
+      logger.info('Password reset requested', { userId: user.id });
+    } catch (error) {
+      // Failures are not reported to the caller, which would reveal that the email is registered
+      logger.error('Password reset request failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Set a new password from a password reset token
+   * Every session of the user is revoked
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    try {
+      // Check the password first so a rejected password does not use up the token
+      this.assertValidPassword(password);
+
+      const entry = await oneTimeTokenRepository.consume(token, 'password_reset');
+      const user = entry ? await userRepository.findById(entry.user_id) : null;
+      if (!entry || !user) {
+        const error = new Error('Invalid or expired reset token');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      await userRepository.update(user.id, { password });
+      await loginAttemptRepository.reset(user.id);
+      await this.logoutAll(user.id);
+
+      logger.info('Password reset', { userId: user.id });
+    } catch (error) {
+      logger.error('Password reset failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a new email verification token to the current user
+   */
+  async resendEmailVerification(userId: string): Promise<void> {
+    try {
+      const user = await userRepository.findById(userId);
+      if (!user) {
+        const error = new Error('User not found');
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      if (userRepository.isEmailVerified(user)) {
+        const error = new Error('Email address is already verified');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      await this.sendEmailVerification(user);
+    } catch (error) {
+      logger.error('Email verification resend failed', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the email address of a user as verified from a verification token
+   */
+  async verifyEmail(token: string): Promise<UserProfile> {
+    try {
+      const entry = await oneTimeTokenRepository.consume(token, 'email_verification');
+      const user = entry ? await userRepository.findById(entry.user_id) : null;
+      if (!entry || !user || user.email !== entry.email) {
+        const error = new Error('Invalid or expired verification token');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const verifiedUser = await userRepository.update(user.id, { email_verified: true });
+
+      logger.info('Email verified', {
+        userId: user.id,
+        email: user.email,
+      });
+
+      return userRepository.toUserProfile(verifiedUser!);
+    } catch (error) {
+      logger.error('Email verification failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Send an email verification token to the current address of a user
+   * The token is bound to that address, so it stops working if the email changes
+   */
+  private async sendEmailVerification(user: User): Promise<void> {
+    const expiresInMs = this.parseExpiresIn(this.emailVerificationTokenExpiresIn) * 1000;
+    const token = await oneTimeTokenRepository.create(user.id, 'email_verification', expiresInMs, {
+      email: user.email,
+    });
+    const expiresAt = new Date(Date.now() + expiresInMs);
+
+    await mailTransport.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        'Welcome to the TODO API! Please verify your email address to start creating lists and tasks.',
+        '',
+        `Verification token: ${token}`,
+        '',
+        `Submit it to POST /api/v1/auth/verify-email before ${expiresAt.toISOString()}.`,
+      ].join('\n'),
+    });
+
+    logger.info('Email verification sent', { userId: user.id });
+  }
+
+  /**
+   * Reject logins while the account is locked or waiting out the delay after a failed login
+   * The delay doubles with every failure; reaching the failure limit locks the account
+   */
+  private async assertLoginAllowed(userId: string, lockoutOnly: boolean = false): Promise<void> {
+    const attempts = await loginAttemptRepository.findByUserId(userId);
+    if (!attempts) {
+      return;
+    }
+
+    if (lockoutOnly && !attempts.locked_until) {
+      return;
+    }
+
+    const retryAt = attempts.locked_until
+      ? attempts.locked_until.getTime()
+      : attempts.last_failed_at.getTime() + this.loginDelayBaseMs * 2 ** (attempts.failed_count - 1);
+    const now = Date.now();
+    if (retryAt <= now) {
+      return;
+    }
+
+    const retryAfter = Math.ceil((retryAt - now) / 1000);
+    if (attempts.locked_until) {
+      logger.warn('Login attempt on locked account', {
+        userId,
+        lockedUntil: attempts.locked_until,
+      });
+    }
+
+    const error = new Error(attempts.locked_until
+      ? `Account is temporarily locked after too many failed login attempts, try again in ${retryAfter} seconds`
+      : `Too many failed login attempts, try again in ${retryAfter} seconds`);
+    (error as any).code = ApiResponseCode.TOO_MANY_REQUESTS;
+    (error as any).retryAfter = retryAfter;
+    throw error;
+  }
+
+  /**
+   * Count a failed login and lock the account once the failure limit is reached
+   */
+  private async recordFailedLogin(userId: string): Promise<LoginAttempts> {
+    const now = new Date();
+    const previous = await loginAttemptRepository.findByUserId(userId, now);
+    const failedCount = (previous?.failed_count ?? 0) + 1;
+    const expiresAt = new Date(now.getTime() + this.parseExpiresIn(this.loginLockoutDuration) * 1000);
+
+    const attempts: LoginAttempts = {
+      id: userId,
+      failed_count: failedCount,
+      last_failed_at: now,
+      ...(failedCount >= this.maxFailedLogins && { locked_until: expiresAt }),
+      expires_at: expiresAt,
+    };
+
+    await loginAttemptRepository.save(attempts);
+    return attempts;
+  }
+
+  /**
+   * Load an active user and verify their current password
+   */
+  private async getUserWithPassword(userId: string, password: string): Promise<User> {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      const error = new Error('User not found');
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    if (!(await userRepository.verifyPassword(password, user.password))) {
+      const error = new Error('Current password is incorrect');
+      (error as any).code = ApiResponseCode.UNAUTHORIZED;
+      throw error;
+    }
+
+    return user;
+  }
+
+  /**
+   * Ensure no account (active or not) uses an email address
    */
-  private generateToken(user: UserProfile): string {
+  private async assertEmailAvailable(email: string): Promise<void> {
+    if (await userRepository.emailExists(email)) {
+      const error = new Error('User with this email already exists');
+      (error as any).code = ApiResponseCode.CONFLICT;
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke the token used for the current request
+   * A refresh token passed along is revoked together with its family
+   */
+  async logout(claims: AccessTokenClaims, refreshToken?: string): Promise<void> {
+    try {
+      if (!claims.jti) {
+        throw new Error('Token cannot be revoked, please log out from all devices instead');
+      }
+
+      const expiresAt = claims.exp !== undefined
+        ? new Date(claims.exp * 1000)
+        : new Date(Date.now() + this.getTokenExpirationTime() * 1000);
+
+      await revokedTokenRepository.revokeToken(claims.jti, claims.id, expiresAt);
+
+      if (refreshToken) {
+        const storedToken = await refreshTokenRepository.findById(this.hashRefreshToken(refreshToken));
+        if (storedToken && storedToken.user_id === claims.id) {
+          await refreshTokenRepository.revokeFamily(storedToken.family_id);
+        }
+      }
+
+      logger.info('Token revoked on logout', {
+        userId: claims.id,
+        jti: claims.jti,
+      });
+    } catch (error) {
+      logger.error('Logout failed', {
+        userId: claims.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every token issued to a user so far
+   * Tokens of the excepted session (refresh token family) stay valid
+   */
+  async logoutAll(userId: string, exceptSessionId?: string): Promise<void> {
+    try {
+      // Every token issued so far expires within one token lifetime
+      const expiresAt = new Date(Date.now() + this.getTokenExpirationTime() * 1000);
+      await revokedTokenRepository.revokeAllForUser(userId, expiresAt, exceptSessionId);
+      await refreshTokenRepository.revokeAllForUser(userId, exceptSessionId);
+
+      logger.info('All tokens revoked for user', { userId, exceptSessionId });
+    } catch (error) {
+      logger.error('Logout from all devices failed', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a verified token has been revoked
+   */
+  async isTokenRevoked(claims: AccessTokenClaims): Promise<boolean> {
+    return revokedTokenRepository.isRevoked(claims);
+  }
+
+  /**
+   * Prune expired revocation entries now and periodically afterwards
+   */
+  startRevocationPruning(): void {
+    if (this.pruneTimer) {
+      return;
+    }
+
+    // Failures are logged by the repositories
+    const prune = (): void => {
+      revokedTokenRepository.pruneExpired().catch(() => undefined);
+      refreshTokenRepository.pruneExpired().catch(() => undefined);
+      oneTimeTokenRepository.pruneExpired().catch(() => undefined);
+      loginAttemptRepository.pruneExpired().catch(() => undefined);
+    };
+
+    prune();
+    this.pruneTimer = setInterval(prune, this.revocationPruneIntervalMs);
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * Stop periodic pruning (used on shutdown)
+   */
+  stopRevocationPruning(): void {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  /**
+   * Issue an access token and a refresh token for a user
+   * Rotated refresh tokens stay in the family of the token they replace
+   */
+  private async issueTokens(user: UserProfile, familyId: string = uuidv4()): Promise<{
+    response: AuthResponse;
+    refreshTokenId: string;
+  }> {
+    const refreshToken = randomBytes(48).toString('base64url');
+    const refreshTokenId = this.hashRefreshToken(refreshToken);
+    const now = new Date();
+
+    await refreshTokenRepository.create({
+      id: refreshTokenId,
+      user_id: user.id,
+      family_id: familyId,
+      created_at: now,
+      expires_at: new Date(now.getTime() + this.getRefreshTokenExpirationTime() * 1000),
+    });
+
+    return {
+      response: {
+        user,
+        token: this.generateToken(user, familyId),
+        expires_in: this.getTokenExpirationTime(),
+        refresh_token: refreshToken,
+        refresh_expires_in: this.getRefreshTokenExpirationTime(),
+      },
+      refreshTokenId,
+    };
+  }
+
+  /**
+   * Hash a refresh token for storage and lookup
+   */
+  private hashRefreshToken(refreshToken: string): string {
+    return createHash('sha256').update(refreshToken).digest('hex');
+  }
+
+  /**
+   * Generate JWT token, signed with the active key of the key set
+   */
+  private generateToken(user: UserProfile, sessionId: string): string {
     const payload = {
       id: user.id,
       email: user.email,
       role: user.role,
+      sid: sessionId,
+      // Millisecond precision, so tokens issued right after a revocation cut-off stay valid
+      iat: Date.now() / 1000,
     };
 
-    return jwt.sign(payload, this.jwtSecret, {
+    return jwtKeySet.sign(payload, {
       expiresIn: this.jwtExpiresIn,
+      jwtid: uuidv4(),
       issuer: 'todo-api',
       audience: 'todo-app',
     } as jwt.SignOptions);
@@ -141,7 +797,7 @@ export class AuthService {
    */
   verifyToken(token: string): any {
     try {
-      return jwt.verify(token, this.jwtSecret);
+      return jwtKeySet.verify(token);
     } catch (error) {
       throw new Error('Invalid or expired token');
     }
@@ -151,8 +807,20 @@ export class AuthService {
    * Get token expiration time in seconds
    */
   private getTokenExpirationTime(): number {
-    // Convert JWT expiration format to seconds
-    const expiresIn = this.jwtExpiresIn;
+    return this.parseExpiresIn(this.jwtExpiresIn);
+  }
+
+  /**
+   * Get refresh token expiration time in seconds
+   */
+  private getRefreshTokenExpirationTime(): number {
+    return this.parseExpiresIn(this.refreshTokenExpiresIn);
+  }
+
+  /**
+   * Convert an expiration setting (e.g. 15m, 24h, 30d) to seconds
+   */
+  private parseExpiresIn(expiresIn: string): number {
     if (expiresIn.endsWith('h')) {
       return parseInt(expiresIn.slice(0, -1)) * 3600;
     } else if (expiresIn.endsWith('d')) {
@@ -172,6 +840,17 @@ export class AuthService {
     return emailRegex.test(email);
   }
 
+  /**
+   * Ensure a new password meets the strength rules
+   */
+  assertValidPassword(password: string): void {
+    if (!this.isValidPassword(password)) {
+      const error = new Error('Password must be at least 8 characters long and contain at least one number and one letter');
+      (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+      throw error;
+    }
+  }
+
   /**
    * Validate password strength
    */
@@ -182,11 +861,34 @@ export class AuthService {
   }
 
   /**
-   * Refresh token (generate new token for authenticated user)
+   * Exchange a refresh token for a new token pair
+   * The refresh token is rotated; presenting an already used token revokes its whole family
    */
-  async refreshToken(userId: string): Promise<AuthResponse> {
+  async refreshToken(refreshToken: string): Promise<AuthResponse> {
     try {
-      const user = await userRepository.findById(userId);
+      const storedToken = await refreshTokenRepository.findById(this.hashRefreshToken(refreshToken));
+      if (!storedToken) {
+        throw new Error('Invalid refresh token');
+      }
+
+      if (storedToken.replaced_by || storedToken.revoked_at) {
+        // A used token coming back means it leaked, so end the whole session
+        const revokedCount = await refreshTokenRepository.revokeFamily(storedToken.family_id);
+
+        logger.warn('Refresh token reuse detected, token family revoked', {
+          userId: storedToken.user_id,
+          familyId: storedToken.family_id,
+          revokedCount,
+        });
+
+        throw new Error('Refresh token has been revoked');
+      }
+
+      if (storedToken.expires_at <= new Date()) {
+        throw new Error('Refresh token has expired');
+      }
+
+      const user = await userRepository.findById(storedToken.user_id);
       if (!user) {
         throw new Error('User not found');
       }
@@ -196,21 +898,17 @@ export class AuthService {
       }
 
       const userProfile = userRepository.toUserProfile(user);
-      const token = this.generateToken(userProfile);
+      const { response, refreshTokenId } = await this.issueTokens(userProfile, storedToken.family_id);
+      await refreshTokenRepository.markRotated(storedToken.id, refreshTokenId);
 
       logger.info('Token refreshed successfully', {
         userId: user.id,
         email: user.email,
       });
 
-      return {
-        user: userProfile,
-        token,
-        expires_in: this.getTokenExpirationTime(),
-      };
+      return response;
     } catch (error) {
       logger.error('Token refresh failed', {
-        userId,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       throw error;
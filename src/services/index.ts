@@ -6,14 +6,35 @@
 import { ListService, listService } from './listService';
 import { TaskService, taskService } from './taskService';
 import { AuthService, authService } from './authService';
+import { AdminService, adminService } from './adminService';
+import { PersonalAccessTokenService, personalAccessTokenService } from './personalAccessTokenService';
+import { RoleService, roleService } from './roleService';
+import { ListMemberService, listMemberService } from './listMemberService';
+import { WorkspaceService, workspaceService } from './workspaceService';
+import { TwoFactorService, twoFactorService } from './twoFactorService';
+import { LabelService, labelService } from './labelService';
 
 export { ListService, listService } from './listService';
 export { TaskService, taskService } from './taskService';
 export { AuthService, authService } from './authService';
+export { AdminService, adminService } from './adminService';
+export { PersonalAccessTokenService, personalAccessTokenService } from './personalAccessTokenService';
+export { RoleService, roleService } from './roleService';
+export { ListMemberService, listMemberService } from './listMemberService';
+export { WorkspaceService, workspaceService } from './workspaceService';
+export { TwoFactorService, twoFactorService } from './twoFactorService';
+export { LabelService, labelService } from './labelService';
 
 // Re-export default instances for convenience
 export default {
   listService,
   taskService,
   authService,
+  adminService,
+  personalAccessTokenService,
+  roleService,
+  listMemberService,
+  workspaceService,
+  twoFactorService,
+  labelService,
 };
@@ -0,0 +1,267 @@
+import {
+  Label,
+  List,
+  Task,
+  CreateLabelInput,
+  UpdateLabelInput,
+  ListAccessLevel,
+  AuthUser,
+  ApiResponseCode,
+  Permission
+} from '../models';
+import { labelRepository, listRepository, taskRepository } from '../repositories';
+import { workspaceService } from './workspaceService';
+import { logger } from '../utils/logger';
+import { hasPermission } from '../utils/ownership';
+
+/**
+ * Business logic service for task labels
+ * Personal labels belong to their owner, workspace labels are shared by the workspace members
+ */
+export class LabelService {
+  /**
+   * Get the labels of the active workspace, or of an explicitly requested one
+   * Without a workspace these are the user's personal labels
+   */
+  async getLabels(user: AuthUser, workspaceId?: string | null): Promise<Label[]> {
+    try {
+      const scope = await workspaceService.resolveScope(user, workspaceId, Permission.TASK_READ_ANY);
+      return labelRepository.findByScope(user.id, scope);
+    } catch (error) {
+      logger.error('Error in getLabels service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a label the user can see
+   */
+  async getLabel(id: string, user: AuthUser): Promise<Label> {
+    try {
+      const label = await this.getById(id);
+      await this.assertLabelAccess(label, user, 'viewer', Permission.TASK_READ_ANY);
+
+      return label;
+    } catch (error) {
+      logger.error('Error in getLabel service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        labelId: id,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a label in the requested workspace, the active workspace or the user's personal labels
+   * Workspace labels can be created by editors of the workspace
+   */
+  async createLabel(input: CreateLabelInput, user: AuthUser): Promise<Label> {
+    try {
+      const workspaceId = await workspaceService.resolveScope(user, input.workspace_id, Permission.TASK_UPDATE_ANY);
+      if (workspaceId && !hasPermission(user, Permission.TASK_UPDATE_ANY)) {
+        await workspaceService.assertWorkspaceRole(workspaceId, user, 'editor');
+      }
+
+      await this.assertNameUnique(input.name, user.id, workspaceId);
+
+      const label = await labelRepository.create({
+        name: input.name,
+        color: input.color,
+        ...(workspaceId && { workspace_id: workspaceId }),
+      }, user.id);
+
+      logger.info('Label created', { labelId: label.id, workspaceId, userId: user.id });
+
+      return label;
+    } catch (error) {
+      logger.error('Error in createLabel service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        input,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a label or change its color
+   */
+  async updateLabel(id: string, input: UpdateLabelInput, user: AuthUser): Promise<Label> {
+    try {
+      const existing = await this.getById(id);
+      await this.assertLabelAccess(existing, user, 'editor', Permission.TASK_UPDATE_ANY);
+
+      if (input.name) {
+        await this.assertNameUnique(input.name, existing.owner_id, existing.workspace_id ?? null, id);
+      }
+
+      const label = await labelRepository.update(id, input);
+      if (!label) {
+        const error = new Error(`Failed to update label with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      logger.info('Label updated', { labelId: id, updates: input, userId: user.id });
+
+      return label;
+    } catch (error) {
+      logger.error('Error in updateLabel service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        labelId: id,
+        input,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a label, removing it from every task carrying it
+   */
+  async deleteLabel(id: string, user: AuthUser): Promise<{ detachedTasksCount: number }> {
+    try {
+      const label = await this.getById(id);
+      await this.assertLabelAccess(label, user, 'editor', Permission.TASK_UPDATE_ANY);
+
+      const detachedTasksCount = await labelRepository.delete(id);
+
+      logger.info('Label deleted', { labelId: id, detachedTasksCount, userId: user.id });
+
+      return { detachedTasksCount };
+    } catch (error) {
+      logger.error('Error in deleteLabel service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        labelId: id,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a label that can be attached to tasks of a list
+   * Tasks of personal lists take the list owner's personal labels, tasks of workspace lists
+   * the labels of the workspace
+   */
+  async getLabelForList(id: string, listId: string): Promise<Label> {
+    const label = await this.getById(id);
+    const list = await listRepository.getListById(listId);
+
+    if (!list || !this.isInListScope(label, list)) {
+      const error = new Error(list?.workspace_id
+        ? 'Only labels of the workspace can be attached to tasks of this list'
+        : "Only the list owner's personal labels can be attached to tasks of this list");
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+
+    return label;
+  }
+
+  /**
+   * Detach the labels that do not belong to the scope of the task's list
+   * Called after a task moved to another list
+   */
+  async pruneTaskLabels(task: Task): Promise<Task> {
+    if (!task.label_ids || task.label_ids.length === 0) {
+      return task;
+    }
+
+    const list = await listRepository.getListById(task.list_id);
+    const keptLabelIds: string[] = [];
+    for (const labelId of task.label_ids) {
+      const label = await labelRepository.findById(labelId);
+      if (label && list && this.isInListScope(label, list)) {
+        keptLabelIds.push(labelId);
+      }
+    }
+
+    if (keptLabelIds.length === task.label_ids.length) {
+      return task;
+    }
+
+    logger.info('Labels detached from moved task', {
+      taskId: task.id,
+      listId: task.list_id,
+      detachedCount: task.label_ids.length - keptLabelIds.length,
+    });
+
+    return (await taskRepository.setTaskLabels(task.id, keptLabelIds)) || task;
+  }
+
+  /**
+   * Ensure the user has the required access to a label
+   * Personal labels are only accessible to their owner, workspace labels follow the workspace role
+   */
+  private async assertLabelAccess(
+    label: Label,
+    user: AuthUser,
+    required: ListAccessLevel,
+    anyPermission: Permission
+  ): Promise<void> {
+    if (hasPermission(user, anyPermission)) {
+      return;
+    }
+
+    if (label.workspace_id) {
+      await workspaceService.assertWorkspaceRole(label.workspace_id, user, required);
+      return;
+    }
+
+    if (label.owner_id !== user.id) {
+      logger.warn('Label access denied', { labelId: label.id, userId: user.id });
+
+      const error = new Error('You can only access your own labels and labels of your workspaces');
+      (error as any).code = ApiResponseCode.FORBIDDEN;
+      throw error;
+    }
+  }
+
+  /**
+   * Label names are unique within a workspace, or within the owner's personal labels
+   */
+  private async assertNameUnique(
+    name: string,
+    ownerId: string,
+    workspaceId: string | null,
+    excludeId?: string
+  ): Promise<void> {
+    if (!(await labelRepository.isNameUnique(name, ownerId, workspaceId, excludeId))) {
+      const error = new Error(`A label named '${name.trim()}' already exists`);
+      (error as any).code = ApiResponseCode.CONFLICT;
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a label belongs to the scope of a list
+   */
+  private isInListScope(label: Label, list: List): boolean {
+    return list.workspace_id
+      ? label.workspace_id === list.workspace_id
+      : !label.workspace_id && label.owner_id === list.owner_id;
+  }
+
+  /**
+   * Get a label or fail with NOT_FOUND
+   */
+  private async getById(id: string): Promise<Label> {
+    const label = await labelRepository.findById(id);
+    if (!label) {
+      const error = new Error(`Label with ID '${id}' not found`);
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    return label;
+  }
+}
+
+// Create and export singleton instance
+export const labelService = new LabelService();
@@ -0,0 +1,232 @@
+import {
+  User,
+  List,
+  ListMember,
+  ListMemberInfo,
+  ListAccessLevel,
+  AddListMemberInput,
+  AuthUser,
+  ApiResponseCode,
+  Permission
+} from '../models';
+import { listRepository, listMemberRepository, workspaceMemberRepository, userRepository } from '../repositories';
+import { listService } from './listService';
+import { mailTransport } from '../mail';
+import { logger } from '../utils/logger';
+
+/**
+ * Business logic service for list sharing
+ * Owners invite other users by email as viewers, editors or co-owners
+ */
+export class ListMemberService {
+  /**
+   * Get the owner and members of a list
+   */
+  async getMembers(listId: string, user: AuthUser): Promise<ListMemberInfo[]> {
+    try {
+      const list = await this.getList(listId);
+      await listService.assertListAccess(listId, user, 'viewer', Permission.LIST_READ_ANY);
+
+      const memberInfos: ListMemberInfo[] = [];
+
+      const owner = await userRepository.findById(list.owner_id, true);
+      if (owner) {
+        memberInfos.push(this.toMemberInfo(owner, list));
+      }
+
+      // Members whose account no longer exists are left out
+      for (const member of await listMemberRepository.findByListId(listId)) {
+        const memberUser = await userRepository.findById(member.user_id, true);
+        if (memberUser) {
+          memberInfos.push(this.toMemberInfo(memberUser, list, member));
+        }
+      }
+
+      return memberInfos;
+    } catch (error) {
+      logger.error('Error in getMembers service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Share a list with the user registered under an email address
+   * The invited user is notified by email
+   */
+  async addMember(listId: string, input: AddListMemberInput, user: AuthUser): Promise<ListMemberInfo> {
+    try {
+      const list = await this.getList(listId);
+      await listService.assertListAccess(listId, user, 'owner', Permission.LIST_UPDATE_ANY);
+
+      const invitee = await userRepository.findByEmail(input.email);
+      if (!invitee) {
+        const error = new Error(`No account is registered with the email address '${input.email}'`);
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      this.assertNotListOwner(list, invitee.id);
+
+      // Lists of a workspace stay within the workspace
+      if (list.workspace_id && !(await workspaceMemberRepository.find(list.workspace_id, invitee.id))) {
+        const error = new Error('Lists of a workspace can only be shared with members of the workspace');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      if (await listMemberRepository.find(listId, invitee.id)) {
+        const error = new Error('The list is already shared with this user');
+        (error as any).code = ApiResponseCode.CONFLICT;
+        throw error;
+      }
+
+      const member = await listMemberRepository.create(listId, invitee.id, input.role, user.id);
+
+      try {
+        await mailTransport.send({
+          to: invitee.email,
+          subject: `A list was shared with you: ${list.name}`,
+          text: [
+            `${user.email} shared the list "${list.name}" with you as ${input.role}.`,
+            '',
+            `It now appears in GET /api/v1/lists; its ID is ${list.id}.`,
+          ].join('\n'),
+        });
+      } catch (error) {
+        // The list is shared at this point, the notification is a courtesy
+        logger.error('Failed to send list invitation email', {
+          listId,
+          userId: invitee.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      logger.info('List shared', {
+        listId,
+        memberId: invitee.id,
+        role: input.role,
+        userId: user.id,
+      });
+
+      return this.toMemberInfo(invitee, list, member);
+    } catch (error) {
+      logger.error('Error in addMember service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the access level of a member
+   */
+  async updateMember(listId: string, memberId: string, role: ListAccessLevel, user: AuthUser): Promise<ListMemberInfo> {
+    try {
+      const list = await this.getList(listId);
+      await listService.assertListAccess(listId, user, 'owner', Permission.LIST_UPDATE_ANY);
+      this.assertNotListOwner(list, memberId);
+
+      const member = await listMemberRepository.updateRole(listId, memberId, role);
+      if (!member) {
+        const error = new Error('The list is not shared with this user');
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      logger.info('List member updated', { listId, memberId, role, userId: user.id });
+
+      const memberUser = await userRepository.findById(memberId, true);
+      return this.toMemberInfo(memberUser!, list, member);
+    } catch (error) {
+      logger.error('Error in updateMember service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        memberId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Stop sharing a list with a member
+   * Members can always remove themselves, other members are removed by owners
+   */
+  async removeMember(listId: string, memberId: string, user: AuthUser): Promise<void> {
+    try {
+      const list = await this.getList(listId);
+      if (memberId !== user.id) {
+        await listService.assertListAccess(listId, user, 'owner', Permission.LIST_UPDATE_ANY);
+      }
+      this.assertNotListOwner(list, memberId);
+
+      const removed = await listMemberRepository.delete(listId, memberId);
+      if (!removed) {
+        const error = new Error('The list is not shared with this user');
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      logger.info('List member removed', { listId, memberId, userId: user.id });
+    } catch (error) {
+      logger.error('Error in removeMember service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        listId,
+        memberId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a list or fail with NOT_FOUND
+   */
+  private async getList(listId: string): Promise<List> {
+    const list = await listRepository.getListById(listId);
+    if (!list) {
+      const error = new Error(`List with ID '${listId}' not found`);
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    return list;
+  }
+
+  /**
+   * The user who created a list always keeps owner access
+   */
+  private assertNotListOwner(list: List, userId: string): void {
+    if (list.owner_id === userId) {
+      const error = new Error('The access of the list owner cannot be changed');
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a list member to a member as returned by the API
+   * Without a membership the user is the list owner
+   */
+  private toMemberInfo(memberUser: User, list: List, member?: ListMember): ListMemberInfo {
+    return {
+      user_id: memberUser.id,
+      email: memberUser.email,
+      ...(memberUser.first_name && { first_name: memberUser.first_name }),
+      ...(memberUser.last_name && { last_name: memberUser.last_name }),
+      role: member ? member.role : 'owner',
+      is_list_owner: !member,
+      ...(member && { added_by: member.added_by }),
+      created_at: member ? member.created_at : list.created_at,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const listMemberService = new ListMemberService();
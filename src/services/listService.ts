@@ -1,10 +1,16 @@
 import { 
   List, 
+  Task,
+  ListStatistics,
+  Dashboard,
   CreateListInput, 
   UpdateListInput, 
   ListFilterParams, 
   SortParams,
-  ApiResponseCode
+  AuthUser,
+  ApiResponseCode,
+  Permission,
+  ListAccessLevel
 } from '../models';
 import { 
   createListSchema,
@@ -12,9 +18,13 @@ import {
   paginationSchema,
   listFilterSchema
 } from '../models/validation';
-import { listRepository, taskRepository } from '../repositories';
+import { listRepository, taskRepository, listMemberRepository } from '../repositories';
+import { workspaceService } from './workspaceService';
+import { labelService } from './labelService';
 import { logger } from '../utils/logger';
 import { isValidUuid } from '../utils/idGenerator';
+import { canAccessList, getOwnerScope } from '../utils/ownership';
+import { taskWorkflow } from '../workflow';
 
 /**
  * Business logic service for List operations
@@ -28,7 +38,8 @@ export class ListService {
     filters?: ListFilterParams,
     sort?: SortParams,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    user?: AuthUser
   ): Promise<{
     lists: List[];
     total: number;
@@ -60,8 +71,10 @@ export class ListService {
       // Calculate offset for pagination
       const offset = (page - 1) * limit;
 
+      const scopedFilters = await this.scopeFilters(filters, user);
+
       // Get lists from repository
-      const { lists, total } = await listRepository.getAllLists(filters, sort, limit, offset);
+      const { lists, total } = await listRepository.getAllLists(scopedFilters, sort, limit, offset);
 
       // Calculate pagination metadata
       const totalPages = Math.ceil(total / limit);
@@ -76,7 +89,7 @@ export class ListService {
         totalPages,
         hasNext,
         hasPrev,
-        filters,
+        filters: scopedFilters,
         sort,
       });
 
@@ -96,6 +109,7 @@ export class ListService {
         sort,
         page,
         limit,
+        userId: user?.id,
       });
       throw error;
     }
@@ -104,7 +118,7 @@ export class ListService {
   /**
    * Get list by ID with enhanced error handling
    */
-  async getListById(id: string): Promise<List> {
+  async getListById(id: string, user?: AuthUser): Promise<List> {
     try {
       // Validate UUID format
       if (!isValidUuid(id)) {
@@ -121,6 +135,8 @@ export class ListService {
         throw error;
       }
 
+      await this.assertListAccess(list.id, user, 'viewer', Permission.LIST_READ_ANY);
+
       logger.debug('Retrieved list by ID successfully', {
         listId: id,
         name: list.name,
@@ -132,15 +148,16 @@ export class ListService {
       logger.error('Error in getListById service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         listId: id,
+        userId: user?.id,
       });
       throw error;
     }
   }
 
   /**
-   * Create a new list with comprehensive validation
+   * Create a new list owned by the user with comprehensive validation
    */
-  async createList(input: CreateListInput): Promise<List> {
+  async createList(input: CreateListInput, user: AuthUser): Promise<List> {
     try {
       // Validate input data
       const { error, value } = createListSchema.validate(input);
@@ -151,14 +168,25 @@ export class ListService {
         throw validationError;
       }
 
+      // Lists are created in the requested workspace, or else in the one the user switched to
+      const workspaceId = value.workspace_id ?? await workspaceService.getActiveWorkspaceId(user);
+      if (workspaceId) {
+        await workspaceService.assertWorkspaceRole(workspaceId, user, 'editor');
+      }
+
       // Additional business logic validation
-      await this.validateListBusinessRules(value);
+      await this.validateListBusinessRules(value, user.id, workspaceId);
 
       // Create list through repository
-      const list = await listRepository.createList(value);
+      const list = await listRepository.createList({
+        ...value,
+        ...(workspaceId && { workspace_id: workspaceId }),
+      }, user.id);
 
       logger.info('List created successfully via service', {
         listId: list.id,
+        ownerId: list.owner_id,
+        workspaceId: list.workspace_id,
         name: list.name,
         description: list.description,
         color: list.color,
@@ -169,6 +197,7 @@ export class ListService {
       logger.error('Error in createList service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         input,
+        userId: user.id,
       });
       throw error;
     }
@@ -177,7 +206,7 @@ export class ListService {
   /**
    * Update an existing list with validation
    */
-  async updateList(id: string, input: UpdateListInput): Promise<List> {
+  async updateList(id: string, input: UpdateListInput, user?: AuthUser): Promise<List> {
     try {
       // Validate UUID format
       if (!isValidUuid(id)) {
@@ -203,9 +232,11 @@ export class ListService {
         throw error;
       }
 
+      await this.assertListAccess(existingList.id, user, 'editor', Permission.LIST_UPDATE_ANY);
+
       // Additional business logic validation for updates
       if (value.name) {
-        await this.validateListBusinessRules(value, id);
+        await this.validateListBusinessRules(value, existingList.owner_id, existingList.workspace_id ?? null, id);
       }
 
       // Update list through repository
@@ -229,6 +260,7 @@ export class ListService {
         error: error instanceof Error ? error.message : 'Unknown error',
         listId: id,
         input,
+        userId: user?.id,
       });
       throw error;
     }
@@ -242,7 +274,8 @@ export class ListService {
     options: {
       deleteAssociatedTasks?: boolean;
       moveTasksToListId?: string;
-    } = {}
+    } = {},
+    user?: AuthUser
   ): Promise<void> {
     try {
       // Validate UUID format
@@ -260,6 +293,8 @@ export class ListService {
         throw error;
       }
 
+      await this.assertListAccess(existingList.id, user, 'owner', Permission.LIST_DELETE_ANY);
+
       const { deleteAssociatedTasks = true, moveTasksToListId } = options;
 
       // If moving tasks to another list, validate target list
@@ -277,10 +312,20 @@ export class ListService {
           throw error;
         }
 
+        await this.assertListAccess(targetList.id, user, 'editor', Permission.LIST_UPDATE_ANY);
+
         // Move all tasks to target list before deletion
         await this.moveAllTasksToList(id, moveTasksToListId);
       }
 
+      // Deleted tasks no longer block tasks of other lists
+      if (deleteAssociatedTasks) {
+        const { tasks } = await taskRepository.getTasksByListId(id);
+        for (const task of tasks) {
+          await taskRepository.removeDependencyReferences(task.id);
+        }
+      }
+
       // Delete the list
       const success = await listRepository.deleteList(id, deleteAssociatedTasks);
       
@@ -290,6 +335,8 @@ export class ListService {
         throw error;
       }
 
+      await listMemberRepository.deleteForList(id);
+
       logger.info('List deleted successfully via service', {
         listId: id,
         name: existingList.name,
@@ -302,6 +349,7 @@ export class ListService {
         error: error instanceof Error ? error.message : 'Unknown error',
         listId: id,
         options,
+        userId: user?.id,
       });
       throw error;
     }
@@ -315,7 +363,8 @@ export class ListService {
     taskFilters?: Omit<any, 'list_id'>,
     taskSort?: SortParams,
     taskPage: number = 1,
-    taskLimit: number = 50
+    taskLimit: number = 50,
+    user?: AuthUser
   ): Promise<{
     list: List;
     tasks: any[];
@@ -330,7 +379,7 @@ export class ListService {
   }> {
     try {
       // Get the list
-      const list = await this.getListById(id);
+      const list = await this.getListById(id, user);
 
       // Calculate task pagination offset
       const taskOffset = (taskPage - 1) * taskLimit;
@@ -360,7 +409,7 @@ export class ListService {
 
       return {
         list,
-        tasks,
+        tasks: await taskRepository.withProgressAll(tasks),
         tasksPagination: {
           total: tasksTotal,
           page: taskPage,
@@ -386,66 +435,18 @@ export class ListService {
   /**
    * Get statistics for a list
    */
-  async getListStatistics(id: string): Promise<{
+  async getListStatistics(id: string, user?: AuthUser): Promise<{
     list: List;
-    stats: {
-      totalTasks: number;
-      completedTasks: number;
-      pendingTasks: number;
-      completionPercentage: number;
-      tasksByPriority: {
-        high: number;
-        medium: number;
-        low: number;
-      };
-      overdueTasksCount: number;
-      upcomingTasksCount: number; // Due within 7 days
-    };
+    stats: ListStatistics;
   }> {
     try {
       // Get the list
-      const list = await this.getListById(id);
+      const list = await this.getListById(id, user);
 
       // Get all tasks for this list
       const { tasks } = await taskRepository.getTasksByListId(id);
 
-      // Calculate statistics
-      const totalTasks = tasks.length;
-      const completedTasks = tasks.filter(task => task.status === 'completed').length;
-      const pendingTasks = totalTasks - completedTasks;
-      const completionPercentage = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
-
-      const tasksByPriority = {
-        high: tasks.filter(task => task.priority === 'high').length,
-        medium: tasks.filter(task => task.priority === 'medium').length,
-        low: tasks.filter(task => task.priority === 'low').length,
-      };
-
-      const now = new Date();
-      const nextWeek = new Date(now.getTime() + (7 * 24 * 60 * 60 * 1000));
-
-      const overdueTasksCount = tasks.filter(task => 
-        task.deadline && 
-        task.status === 'pending' && 
-        new Date(task.deadline) < now
-      ).length;
-
-      const upcomingTasksCount = tasks.filter(task => 
-        task.deadline && 
-        task.status === 'pending' && 
-        new Date(task.deadline) >= now && 
-        new Date(task.deadline) <= nextWeek
-      ).length;
-
-      const stats = {
-        totalTasks,
-        completedTasks,
-        pendingTasks,
-        completionPercentage,
-        tasksByPriority,
-        overdueTasksCount,
-        upcomingTasksCount,
-      };
+      const stats = this.calculateStatistics(tasks);
 
       logger.debug('Generated list statistics', {
         listId: id,
@@ -462,13 +463,108 @@ export class ListService {
     }
   }
 
+  /**
+   * Get dashboard metrics aggregated across the lists of the active workspace,
+   * or across the user's personal lists and the personal lists shared with them
+   */
+  async getDashboard(user: AuthUser): Promise<Dashboard> {
+    try {
+      const workspaceId = await workspaceService.getActiveWorkspaceId(user);
+      const filters = workspaceId
+        ? { workspace_id: workspaceId }
+        : { owner_id: user.id, workspace_id: null, shared_list_ids: await listMemberRepository.getSharedListIds(user.id) };
+
+      const { lists } = await listRepository.getAllLists(filters, { field: 'created_at', order: 'asc' });
+      const { tasks } = await taskRepository.getAllTasks(filters);
+
+      // Group tasks by list so every list gets its own breakdown
+      const tasksByList = new Map<string, Task[]>();
+      for (const task of tasks) {
+        const listTasks = tasksByList.get(task.list_id) || [];
+        listTasks.push(task);
+        tasksByList.set(task.list_id, listTasks);
+      }
+
+      const dashboard: Dashboard = {
+        listsCount: lists.length,
+        stats: this.calculateStatistics(tasks),
+        lists: lists.map(list => ({
+          list,
+          stats: this.calculateStatistics(tasksByList.get(list.id) || []),
+        })),
+      };
+
+      logger.debug('Generated dashboard', {
+        userId: user.id,
+        listsCount: dashboard.listsCount,
+        stats: dashboard.stats,
+      });
+
+      return dashboard;
+    } catch (error) {
+      logger.error('Error in getDashboard service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate completion, priority and deadline metrics for a set of tasks
+   */
+  private calculateStatistics(tasks: Task[]): ListStatistics {
+    const totalTasks = tasks.length;
+    const completedTasks = tasks.filter(task => task.status === 'completed').length;
+    const pendingTasks = totalTasks - completedTasks;
+    const completionPercentage = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+
+    const tasksByPriority = {
+      high: tasks.filter(task => task.priority === 'high').length,
+      medium: tasks.filter(task => task.priority === 'medium').length,
+      low: tasks.filter(task => task.priority === 'low').length,
+    };
+
+    const now = new Date();
+    const nextWeek = new Date(now.getTime() + (7 * 24 * 60 * 60 * 1000));
+
+    // Tasks in a terminal state such as cancelled are pending but no longer due
+    const openTasks = tasks.filter(task => taskWorkflow.isOpen(task));
+
+    const overdueTasksCount = openTasks.filter(task => 
+      task.deadline && 
+      new Date(task.deadline) < now
+    ).length;
+
+    const upcomingTasksCount = openTasks.filter(task => 
+      task.deadline && 
+      new Date(task.deadline) >= now && 
+      new Date(task.deadline) <= nextWeek
+    ).length;
+
+    return {
+      totalTasks,
+      completedTasks,
+      pendingTasks,
+      completionPercentage,
+      tasksByPriority,
+      overdueTasksCount,
+      upcomingTasksCount,
+    };
+  }
+
   /**
    * Validate business rules for list operations
    */
-  private async validateListBusinessRules(input: CreateListInput | UpdateListInput, excludeId?: string): Promise<void> {
-    // Check name uniqueness
+  private async validateListBusinessRules(
+    input: CreateListInput | UpdateListInput,
+    ownerId: string,
+    workspaceId: string | null,
+    excludeId?: string
+  ): Promise<void> {
+    // Check name uniqueness within the workspace or the owner's personal lists
     if (input.name) {
-      const isUnique = await listRepository.isListNameUnique(input.name, excludeId);
+      const isUnique = await listRepository.isListNameUnique(input.name, ownerId, workspaceId, excludeId);
       if (!isUnique) {
         const error = new Error(`A list with the name '${input.name}' already exists`);
         (error as any).code = ApiResponseCode.CONFLICT;
@@ -480,6 +576,55 @@ export class ListService {
     // For example: maximum number of lists per user, forbidden names, etc.
   }
 
+  /**
+   * Scope list filters to the requested or active workspace
+   * Within a workspace its members see every list; outside of one, users without list.read.any
+   * only see their own personal lists and lists shared with them
+   */
+  private async scopeFilters(filters: ListFilterParams | undefined, user?: AuthUser): Promise<ListFilterParams | undefined> {
+    if (!user) {
+      return filters;
+    }
+
+    const workspaceId = await workspaceService.resolveScope(user, filters?.workspace_id, Permission.LIST_READ_ANY);
+    if (workspaceId) {
+      return { ...filters, workspace_id: workspaceId };
+    }
+
+    const ownerId = getOwnerScope(user, Permission.LIST_READ_ANY);
+    return ownerId
+      ? { ...filters, workspace_id: null, owner_id: ownerId, shared_list_ids: await listMemberRepository.getSharedListIds(ownerId) }
+      : { ...filters, workspace_id: null };
+  }
+
+  /**
+   * Ensure the user has the required access level on the list, through ownership or membership,
+   * or holds the permission for lists of other users
+   */
+  async assertListAccess(
+    listId: string,
+    user: AuthUser | undefined,
+    required: ListAccessLevel,
+    anyPermission: Permission
+  ): Promise<void> {
+    const accessLevel = user ? await listMemberRepository.getAccessLevel(listId, user.id) : null;
+
+    if (!canAccessList(accessLevel, user, required, anyPermission)) {
+      logger.warn('List access denied due to insufficient access level', {
+        listId,
+        userId: user?.id,
+        accessLevel,
+        required,
+      });
+
+      const error = new Error(accessLevel
+        ? `This action requires ${required} access to the list`
+        : 'You can only access lists you own or that are shared with you');
+      (error as any).code = ApiResponseCode.FORBIDDEN;
+      throw error;
+    }
+  }
+
   /**
    * Move all tasks from one list to another
    */
@@ -488,7 +633,10 @@ export class ListService {
       const { tasks } = await taskRepository.getTasksByListId(fromListId);
       
       for (const task of tasks) {
-        await taskRepository.updateTask(task.id, { list_id: toListId });
+        const movedTask = await taskRepository.updateTask(task.id, { list_id: toListId });
+        if (movedTask) {
+          await labelService.pruneTaskLabels(movedTask);
+        }
       }
 
       logger.info('Moved all tasks between lists', {
@@ -0,0 +1,116 @@
+import {
+  PersonalAccessToken,
+  PersonalAccessTokenInfo,
+  CreatePersonalAccessTokenInput,
+  ApiResponseCode
+} from '../models';
+import { personalAccessTokenRepository } from '../repositories';
+import { logger } from '../utils/logger';
+
+/**
+ * Business logic service for personal access tokens
+ * Tokens let scripts and integrations call the API with a limited set of scopes
+ */
+export class PersonalAccessTokenService {
+  private readonly maxTokensPerUser = 50;
+
+  /**
+   * Get all tokens of a user
+   */
+  async getTokens(userId: string): Promise<PersonalAccessTokenInfo[]> {
+    try {
+      const tokens = await personalAccessTokenRepository.findByUserId(userId);
+      return tokens.map(token => this.toTokenInfo(token));
+    } catch (error) {
+      logger.error('Error in getTokens service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a token for a user
+   * The token value is only returned here; afterwards only its prefix is known
+   */
+  async createToken(
+    userId: string,
+    input: CreatePersonalAccessTokenInput
+  ): Promise<{ token: string; info: PersonalAccessTokenInfo }> {
+    try {
+      const existingTokens = await personalAccessTokenRepository.findByUserId(userId);
+
+      if (existingTokens.some(token => token.name === input.name)) {
+        const error = new Error(`A token named "${input.name}" already exists`);
+        (error as any).code = ApiResponseCode.CONFLICT;
+        throw error;
+      }
+
+      if (existingTokens.length >= this.maxTokensPerUser) {
+        const error = new Error(`You cannot have more than ${this.maxTokensPerUser} personal access tokens`);
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const { token, record } = await personalAccessTokenRepository.create(userId, {
+        ...input,
+        scopes: [...new Set(input.scopes)],
+      });
+
+      logger.info('Personal access token created', {
+        userId,
+        tokenId: record.id,
+        scopes: record.scopes,
+        expiresAt: record.expires_at,
+      });
+
+      return { token, info: this.toTokenInfo(record) };
+    } catch (error) {
+      logger.error('Error in createToken service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a token of a user
+   */
+  async revokeToken(id: string, userId: string): Promise<void> {
+    try {
+      const token = await personalAccessTokenRepository.findById(id);
+      if (!token || token.user_id !== userId) {
+        const error = new Error('Personal access token not found');
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      await personalAccessTokenRepository.delete(id);
+
+      logger.info('Personal access token revoked', {
+        userId,
+        tokenId: id,
+      });
+    } catch (error) {
+      logger.error('Error in revokeToken service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        tokenId: id,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the hash before a token leaves the service
+   */
+  private toTokenInfo(token: PersonalAccessToken): PersonalAccessTokenInfo {
+    const { token_hash: _tokenHash, ...info } = token;
+    return info;
+  }
+}
+
+// Create and export singleton instance
+export const personalAccessTokenService = new PersonalAccessTokenService();
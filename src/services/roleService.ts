@@ -0,0 +1,192 @@
+import {
+  Role,
+  CreateRoleInput,
+  UpdateRoleInput,
+  AuthUser,
+  ApiResponseCode,
+  Permission
+} from '../models';
+import { roleRepository, userRepository } from '../repositories';
+import { logger } from '../utils/logger';
+
+/**
+ * Business logic service for roles
+ * Built-in roles are fixed; custom roles can be created, changed and deleted
+ */
+export class RoleService {
+  /**
+   * Get all roles
+   */
+  async getRoles(): Promise<Role[]> {
+    try {
+      return await roleRepository.findAll();
+    } catch (error) {
+      logger.error('Error in getRoles service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a role by name
+   */
+  async getRole(name: string): Promise<Role> {
+    try {
+      const role = await roleRepository.findByName(name);
+      if (!role) {
+        const error = new Error(`Role '${name}' not found`);
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      return role;
+    } catch (error) {
+      logger.error('Error in getRole service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a custom role
+   */
+  async createRole(input: CreateRoleInput, admin: AuthUser): Promise<Role> {
+    try {
+      if (await roleRepository.findByName(input.name)) {
+        const error = new Error(`Role '${input.name}' already exists`);
+        (error as any).code = ApiResponseCode.CONFLICT;
+        throw error;
+      }
+
+      const role = await roleRepository.create(input);
+
+      this.logRoleAction('create_role', admin, role.name, { permissions: role.permissions });
+
+      return role;
+    } catch (error) {
+      logger.error('Error in createRole service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: input.name,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update the description or permissions of a custom role
+   * Users holding the role get the new permissions on their next request
+   */
+  async updateRole(name: string, input: UpdateRoleInput, admin: AuthUser): Promise<Role> {
+    try {
+      await this.assertCustomRole(name, 'Built-in roles cannot be changed');
+
+      if (input.permissions && admin.role === name && !input.permissions.includes(Permission.ROLE_MANAGE)) {
+        const error = new Error('You cannot remove role management from your own role');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const role = await roleRepository.update(name, input);
+
+      this.logRoleAction('update_role', admin, name, {
+        ...(input.permissions && { permissions: input.permissions }),
+      });
+
+      return role!;
+    } catch (error) {
+      logger.error('Error in updateRole service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Require or stop requiring two-factor authentication for a built-in or custom role
+   * Users holding the role are turned away by permission checks until they enable it
+   */
+  async setTwoFactorRequired(name: string, required: boolean, admin: AuthUser): Promise<Role> {
+    try {
+      await this.getRole(name);
+
+      const role = await roleRepository.setTwoFactorRequired(name, required);
+
+      this.logRoleAction('set_role_two_factor', admin, name, { twoFactorRequired: required });
+
+      return role!;
+    } catch (error) {
+      logger.error('Error in setTwoFactorRequired service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a custom role that no user holds
+   */
+  async deleteRole(name: string, admin: AuthUser): Promise<void> {
+    try {
+      await this.assertCustomRole(name, 'Built-in roles cannot be deleted');
+
+      const { total } = await userRepository.search({ role: name }, 0, 0);
+      if (total > 0) {
+        const error = new Error(`Role '${name}' is still assigned to ${total} user(s)`);
+        (error as any).code = ApiResponseCode.CONFLICT;
+        throw error;
+      }
+
+      await roleRepository.delete(name);
+
+      this.logRoleAction('delete_role', admin, name);
+    } catch (error) {
+      logger.error('Error in deleteRole service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        role: name,
+        adminId: admin.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Ensure the role exists and is not built in
+   */
+  private async assertCustomRole(name: string, builtInMessage: string): Promise<void> {
+    const role = await this.getRole(name);
+
+    if (role.built_in) {
+      const error = new Error(builtInMessage);
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  /**
+   * Record a role change in the log
+   */
+  private logRoleAction(
+    action: string,
+    admin: AuthUser,
+    role: string,
+    details: Record<string, unknown> = {}
+  ): void {
+    logger.info('Admin action', {
+      action,
+      adminId: admin.id,
+      role,
+      ...details,
+    });
+  }
+}
+
+// Create and export singleton instance
+export const roleService = new RoleService();
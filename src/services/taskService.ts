@@ -6,24 +6,51 @@ import {
   SortParams,
   TaskStatus,
   TaskPriority,
-  ApiResponseCode
+  AuthUser,
+  ApiResponseCode,
+  Permission,
+  ListAccessLevel,
+  BulkTaskOperationInput,
+  BulkTaskOperationResult,
+  ChecklistItem,
+  CreateChecklistItemInput,
+  UpdateChecklistItemInput,
+  SubtaskDeletionMode,
+  TaskDependencyGraph,
+  TaskDependencyNode,
+  TaskDependencyEdge,
+  RecurrenceRule,
+  RecurrenceRuleInput,
+  RecurrenceFrequency
 } from '../models';
 import { 
   createTaskSchema,
   updateTaskSchema,
   completeTaskSchema,
   paginationSchema,
-  taskFilterSchema
+  taskFilterSchema,
+  createChecklistItemSchema,
+  updateChecklistItemSchema
 } from '../models/validation';
-import { taskRepository, listRepository } from '../repositories';
+import { taskRepository, listRepository, listMemberRepository } from '../repositories';
+import { listService } from './listService';
+import { workspaceService } from './workspaceService';
+import { labelService } from './labelService';
 import { logger } from '../utils/logger';
-import { isValidUuid } from '../utils/idGenerator';
+import { generateId, isValidUuid } from '../utils/idGenerator';
+import { getNextOccurrence, sortWeekdays } from '../utils/recurrence';
+import { taskWorkflow, WorkflowDefinition } from '../workflow';
+import { canAccessList, getOwnerScope, hasPermission } from '../utils/ownership';
 
 /**
  * Business logic service for Task operations
  * Orchestrates repository calls and implements business rules
  */
 export class TaskService {
+  private readonly maxLabelsPerTask = 20;
+  private readonly maxChecklistItems = 100;
+  private readonly maxBlockersPerTask = 50;
+
   /**
    * Get all tasks with filtering, sorting, and pagination
    */
@@ -31,7 +58,8 @@ export class TaskService {
     filters?: TaskFilterParams,
     sort?: SortParams,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    user?: AuthUser
   ): Promise<{
     tasks: Task[];
     total: number;
@@ -63,8 +91,11 @@ export class TaskService {
       // Calculate offset for pagination
       const offset = (page - 1) * limit;
 
+      // Users without task.read.any only see tasks in their own lists and lists shared with them
+      const scopedFilters = await this.scopeFilters(filters, user);
+
       // Get tasks from repository
-      const { tasks, total } = await taskRepository.getAllTasks(filters, sort, limit, offset);
+      const { tasks, total } = await taskRepository.getAllTasks(scopedFilters, sort, limit, offset);
 
       // Calculate pagination metadata
       const totalPages = Math.ceil(total / limit);
@@ -79,12 +110,12 @@ export class TaskService {
         totalPages,
         hasNext,
         hasPrev,
-        filters,
+        filters: scopedFilters,
         sort,
       });
 
       return {
-        tasks,
+        tasks: await taskRepository.withProgressAll(tasks),
         total,
         page,
         limit,
@@ -99,6 +130,7 @@ export class TaskService {
         sort,
         page,
         limit,
+        userId: user?.id,
       });
       throw error;
     }
@@ -107,7 +139,7 @@ export class TaskService {
   /**
    * Get task by ID with enhanced error handling
    */
-  async getTaskById(id: string): Promise<Task> {
+  async getTaskById(id: string, user?: AuthUser): Promise<Task> {
     try {
       // Validate UUID format
       if (!isValidUuid(id)) {
@@ -124,6 +156,8 @@ export class TaskService {
         throw error;
       }
 
+      await this.assertTaskAccess(task, user, 'viewer', Permission.TASK_READ_ANY);
+
       logger.debug('Retrieved task by ID successfully', {
         taskId: id,
         title: task.title,
@@ -132,11 +166,12 @@ export class TaskService {
         priority: task.priority,
       });
 
-      return task;
+      return taskRepository.withProgress(task);
     } catch (error) {
       logger.error('Error in getTaskById service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         taskId: id,
+        userId: user?.id,
       });
       throw error;
     }
@@ -145,7 +180,7 @@ export class TaskService {
   /**
    * Create a new task with comprehensive validation
    */
-  async createTask(input: CreateTaskInput): Promise<Task> {
+  async createTask(input: CreateTaskInput, user?: AuthUser): Promise<Task> {
     try {
       // Validate input data
       const { error, value } = createTaskSchema.validate(input);
@@ -157,24 +192,29 @@ export class TaskService {
       }
 
       // Additional business logic validation
-      await this.validateTaskBusinessRules(value);
+      await this.validateTaskBusinessRules(value, user);
 
       // Create task through repository
       const task = await taskRepository.createTask(value);
 
+      // A new pending subtask reopens an auto-completed parent
+      await this.syncAutoComplete(task.parent_task_id);
+
       logger.info('Task created successfully via service', {
         taskId: task.id,
         title: task.title,
         listId: task.list_id,
+        parentTaskId: task.parent_task_id,
         priority: task.priority,
         deadline: task.deadline?.toISOString(),
       });
 
-      return task;
+      return taskRepository.withProgress(task);
     } catch (error) {
       logger.error('Error in createTask service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         input,
+        userId: user?.id,
       });
       throw error;
     }
@@ -183,7 +223,7 @@ export class TaskService {
   /**
    * Update an existing task with validation
    */
-  async updateTask(id: string, input: UpdateTaskInput): Promise<Task> {
+  async updateTask(id: string, input: UpdateTaskInput, user?: AuthUser): Promise<Task> {
     try {
       // Validate UUID format
       if (!isValidUuid(id)) {
@@ -209,11 +249,24 @@ export class TaskService {
         throw error;
       }
 
+      await this.assertTaskAccess(existingTask, user, 'editor', Permission.TASK_UPDATE_ANY);
+
       // Additional business logic validation for updates
-      await this.validateTaskUpdateBusinessRules(existingTask, value);
+      await this.validateTaskUpdateBusinessRules(existingTask, value, user);
+
+      if (value.status === TaskStatus.COMPLETED && existingTask.status === TaskStatus.PENDING) {
+        await this.assertNotBlocked(existingTask);
+      }
+
+      const listChanged = Boolean(value.list_id && value.list_id !== existingTask.list_id);
+
+      // A subtask moved to another list on its own leaves its parent behind
+      if (listChanged && value.parent_task_id === undefined && existingTask.parent_task_id) {
+        value.parent_task_id = null;
+      }
 
       // Update task through repository
-      const updatedTask = await taskRepository.updateTask(id, value);
+      let updatedTask = await taskRepository.updateTask(id, value);
       
       if (!updatedTask) {
         const error = new Error(`Failed to update task with ID '${id}'`);
@@ -221,20 +274,43 @@ export class TaskService {
         throw error;
       }
 
+      // Labels of the previous list's scope do not apply to the new list
+      if (listChanged) {
+        updatedTask = await labelService.pruneTaskLabels(updatedTask);
+        await this.moveSubtasks(id, updatedTask.list_id);
+      }
+
+      const parentChanged = (updatedTask.parent_task_id ?? null) !== (existingTask.parent_task_id ?? null);
+      const statusChanged = updatedTask.status !== existingTask.status;
+      if (statusChanged && updatedTask.status === TaskStatus.COMPLETED) {
+        await this.spawnNextOccurrence(updatedTask);
+      }
+      if (parentChanged || statusChanged) {
+        await this.syncAutoComplete(existingTask.parent_task_id);
+        if (parentChanged) {
+          await this.syncAutoComplete(updatedTask.parent_task_id);
+        }
+      }
+      if (value.auto_complete) {
+        await this.syncAutoComplete(id);
+      }
+
       logger.info('Task updated successfully via service', {
         taskId: id,
         updates: value,
         newTitle: updatedTask.title,
         newStatus: updatedTask.status,
-        listChanged: value.list_id && value.list_id !== existingTask.list_id,
+        listChanged,
+        parentChanged,
       });
 
-      return updatedTask;
+      return taskRepository.withProgress((await taskRepository.getTaskById(id)) || updatedTask);
     } catch (error) {
       logger.error('Error in updateTask service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         taskId: id,
         input,
+        userId: user?.id,
       });
       throw error;
     }
@@ -242,8 +318,13 @@ export class TaskService {
 
   /**
    * Delete a task
+   * Its subtasks are deleted with it, or with `reparent` moved up to the task's own parent
    */
-  async deleteTask(id: string): Promise<void> {
+  async deleteTask(
+    id: string,
+    user?: AuthUser,
+    subtasks: SubtaskDeletionMode = 'delete'
+  ): Promise<{ deletedSubtasksCount: number; reparentedSubtasksCount: number }> {
     try {
       // Validate UUID format
       if (!isValidUuid(id)) {
@@ -260,6 +341,23 @@ export class TaskService {
         throw error;
       }
 
+      await this.assertTaskAccess(existingTask, user, 'editor', Permission.TASK_DELETE_ANY);
+
+      let deletedSubtasksCount = 0;
+      let reparentedSubtasksCount = 0;
+      if (subtasks === 'reparent') {
+        for (const subtask of await taskRepository.getSubtasks(id)) {
+          await taskRepository.updateTask(subtask.id, { parent_task_id: existingTask.parent_task_id ?? null });
+          reparentedSubtasksCount++;
+        }
+      } else {
+        for (const subtask of await taskRepository.getDescendants(id)) {
+          if (await taskRepository.deleteTask(subtask.id)) {
+            deletedSubtasksCount++;
+          }
+        }
+      }
+
       // Delete the task
       const success = await taskRepository.deleteTask(id);
       
@@ -269,16 +367,24 @@ export class TaskService {
         throw error;
       }
 
+      // The parent may now have all of its remaining subtasks done
+      await this.syncAutoComplete(existingTask.parent_task_id);
+
       logger.info('Task deleted successfully via service', {
         taskId: id,
         title: existingTask.title,
         listId: existingTask.list_id,
         status: existingTask.status,
+        deletedSubtasksCount,
+        reparentedSubtasksCount,
       });
+
+      return { deletedSubtasksCount, reparentedSubtasksCount };
     } catch (error) {
       logger.error('Error in deleteTask service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         taskId: id,
+        userId: user?.id,
       });
       throw error;
     }
@@ -286,8 +392,9 @@ export class TaskService {
 
   /**
    * Complete a task with business logic
+   * Tasks with pending blockers are only completed when forced
    */
-  async completeTask(id: string): Promise<Task> {
+  async completeTask(id: string, user?: AuthUser, force: boolean = false): Promise<Task> {
     try {
       // Validate UUID format
       if (!isValidUuid(id)) {
@@ -304,10 +411,25 @@ export class TaskService {
         throw error;
       }
 
+      await this.assertTaskAccess(existingTask, user, 'editor', Permission.TASK_UPDATE_ANY);
+
       // Check if task is already completed
       if (existingTask.status === TaskStatus.COMPLETED) {
         logger.debug('Task already completed', { taskId: id });
-        return existingTask;
+        return taskRepository.withProgress(existingTask);
+      }
+
+      if (force) {
+        const pendingBlockers = await taskRepository.getPendingBlockers(existingTask);
+        if (pendingBlockers.length > 0) {
+          logger.warn('Completing task with pending blockers', {
+            taskId: id,
+            blockerIds: pendingBlockers.map(blocker => blocker.id),
+            userId: user?.id,
+          });
+        }
+      } else {
+        await this.assertNotBlocked(existingTask);
       }
 
       // Complete task through repository
@@ -319,6 +441,9 @@ export class TaskService {
         throw error;
       }
 
+      await this.spawnNextOccurrence(completedTask);
+      await this.syncAutoComplete(existingTask.parent_task_id);
+
       logger.info('Task completed successfully via service', {
         taskId: id,
         title: existingTask.title,
@@ -326,11 +451,12 @@ export class TaskService {
         completedAt: completedTask.completed_at?.toISOString(),
       });
 
-      return completedTask;
+      return taskRepository.withProgress((await taskRepository.getTaskById(id)) || completedTask);
     } catch (error) {
       logger.error('Error in completeTask service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         taskId: id,
+        userId: user?.id,
       });
       throw error;
     }
@@ -339,7 +465,7 @@ export class TaskService {
   /**
    * Uncomplete a task (mark as pending)
    */
-  async uncompleteTask(id: string): Promise<Task> {
+  async uncompleteTask(id: string, user?: AuthUser): Promise<Task> {
     try {
       // Validate UUID format
       if (!isValidUuid(id)) {
@@ -356,10 +482,12 @@ export class TaskService {
         throw error;
       }
 
+      await this.assertTaskAccess(existingTask, user, 'editor', Permission.TASK_UPDATE_ANY);
+
       // Check if task is already pending
       if (existingTask.status === TaskStatus.PENDING) {
         logger.debug('Task already pending', { taskId: id });
-        return existingTask;
+        return taskRepository.withProgress(existingTask);
       }
 
       // Uncomplete task through repository
@@ -371,344 +499,1357 @@ export class TaskService {
         throw error;
       }
 
+      await this.syncAutoComplete(existingTask.parent_task_id);
+
       logger.info('Task uncompleted successfully via service', {
         taskId: id,
         title: existingTask.title,
         listId: existingTask.list_id,
       });
 
-      return uncompletedTask;
+      return taskRepository.withProgress(uncompletedTask);
     } catch (error) {
       logger.error('Error in uncompleteTask service', {
         error: error instanceof Error ? error.message : 'Unknown error',
         taskId: id,
+        userId: user?.id,
       });
       throw error;
     }
   }
 
   /**
-   * Get tasks due this week
+   * Attach a label to a task
+   * The label has to belong to the scope of the task's list; attaching it again changes nothing
    */
-  async getTasksDueThisWeek(
-    filters?: Omit<TaskFilterParams, 'deadline_from' | 'deadline_to'>,
-    sort?: SortParams,
-    page: number = 1,
-    limit: number = 50
-  ): Promise<{
-    tasks: Task[];
-    total: number;
-    weekStart: Date;
-    weekEnd: Date;
-    page: number;
-    limit: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  }> {
+  async addLabel(id: string, labelId: string, user?: AuthUser): Promise<Task> {
     try {
-      // Calculate this week's date range
-      const now = new Date();
-      const weekStart = new Date(now);
-      weekStart.setHours(0, 0, 0, 0);
-      
-      const weekEnd = new Date(now);
-      weekEnd.setDate(weekEnd.getDate() + (7 - weekEnd.getDay()));
-      weekEnd.setHours(23, 59, 59, 999);
+      const task = await this.getTaskForChange(id, user);
+      await labelService.getLabelForList(labelId, task.list_id);
 
-      // Calculate offset for pagination
-      const offset = (page - 1) * limit;
+      const labelIds = task.label_ids || [];
+      if (labelIds.includes(labelId)) {
+        return taskRepository.withProgress(task);
+      }
 
-      // Get tasks in deadline range
-      const { tasks, total } = await taskRepository.getTasksByDeadlineRange(
-        weekStart,
-        weekEnd,
-        filters,
-        sort || { field: 'deadline', order: 'asc' },
-        limit,
-        offset
-      );
+      if (labelIds.length >= this.maxLabelsPerTask) {
+        const error = new Error(`A task cannot carry more than ${this.maxLabelsPerTask} labels`);
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
 
-      // Calculate pagination metadata
-      const totalPages = Math.ceil(total / limit);
-      const hasNext = page < totalPages;
-      const hasPrev = page > 1;
+      const updatedTask = await taskRepository.setTaskLabels(id, [...labelIds, labelId]);
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
 
-      logger.info('Retrieved tasks due this week', {
-        weekStart: weekStart.toISOString(),
-        weekEnd: weekEnd.toISOString(),
-        total,
-        returned: tasks.length,
-        page,
-        limit,
-        totalPages,
-        filters,
-        sort,
-      });
+      logger.info('Label attached to task', { taskId: id, labelId, userId: user?.id });
 
-      return {
-        tasks,
-        total,
-        weekStart,
-        weekEnd,
-        page,
-        limit,
-        totalPages,
-        hasNext,
-        hasPrev,
-      };
+      return taskRepository.withProgress(updatedTask);
     } catch (error) {
-      logger.error('Error in getTasksDueThisWeek service', {
+      logger.error('Error in addLabel service', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        filters,
-        sort,
-        page,
-        limit,
+        taskId: id,
+        labelId,
+        userId: user?.id,
       });
       throw error;
     }
   }
 
   /**
-   * Get tasks ordered by deadline
+   * Detach a label from a task
+   * Detaching a label the task does not carry changes nothing
    */
-  async getTasksByDeadline(
-    filters?: TaskFilterParams,
-    page: number = 1,
-    limit: number = 50,
-    includeNullDeadlines: boolean = false
-  ): Promise<{
-    tasks: Task[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  }> {
+  async removeLabel(id: string, labelId: string, user?: AuthUser): Promise<Task> {
     try {
-      // Get tasks with deadline sorting
-      const sort: SortParams = { field: 'deadline', order: 'asc' };
-      
-      let taskFilters = filters;
-      if (!includeNullDeadlines) {
-        // Add filter to exclude tasks without deadlines
-        taskFilters = {
-          ...filters,
-          deadline_from: new Date('1900-01-01'), // Very old date to include all tasks with deadlines
-        };
+      const task = await this.getTaskForChange(id, user);
+
+      const labelIds = task.label_ids || [];
+      if (!labelIds.includes(labelId)) {
+        return taskRepository.withProgress(task);
       }
 
-      const result = await this.getAllTasks(taskFilters, sort, page, limit);
+      const updatedTask = await taskRepository.setTaskLabels(id, labelIds.filter(existing => existing !== labelId));
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
 
-      logger.info('Retrieved tasks ordered by deadline', {
-        total: result.total,
-        returned: result.tasks.length,
-        page,
-        limit,
-        includeNullDeadlines,
-        filters,
-      });
+      logger.info('Label detached from task', { taskId: id, labelId, userId: user?.id });
 
-      return result;
+      return taskRepository.withProgress(updatedTask);
     } catch (error) {
-      logger.error('Error in getTasksByDeadline service', {
+      logger.error('Error in removeLabel service', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        filters,
-        page,
-        limit,
-        includeNullDeadlines,
+        taskId: id,
+        labelId,
+        userId: user?.id,
       });
       throw error;
     }
   }
 
   /**
-   * Get overdue tasks
+   * Get the direct subtasks of a task, oldest first
    */
-  async getOverdueTasks(
-    filters?: Omit<TaskFilterParams, 'deadline_to' | 'status'>,
-    sort?: SortParams,
-    page: number = 1,
-    limit: number = 50
-  ): Promise<{
-    tasks: Task[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  }> {
+  async getSubtasks(id: string, user?: AuthUser): Promise<Task[]> {
     try {
-      const now = new Date();
-      
-      // Create filter for overdue tasks
-      const overdueFilters: TaskFilterParams = {
-        ...filters,
-        deadline_to: now,
-        status: TaskStatus.PENDING, // Only pending tasks can be overdue
-      };
+      const task = await this.getTaskById(id, user);
+      const subtasks = await taskRepository.getSubtasks(task.id);
 
-      const result = await this.getAllTasks(
-        overdueFilters,
-        sort || { field: 'deadline', order: 'asc' },
-        page,
-        limit
-      );
-
-      logger.info('Retrieved overdue tasks', {
-        cutoffDate: now.toISOString(),
-        total: result.total,
-        returned: result.tasks.length,
-        page,
-        limit,
-        filters,
-      });
+      logger.debug('Retrieved subtasks', { taskId: id, count: subtasks.length });
 
-      return result;
+      return taskRepository.withProgressAll(subtasks);
     } catch (error) {
-      logger.error('Error in getOverdueTasks service', {
+      logger.error('Error in getSubtasks service', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        filters,
-        sort,
-        page,
-        limit,
+        taskId: id,
+        userId: user?.id,
       });
       throw error;
     }
   }
 
   /**
-   * Get tasks by priority with smart sorting
+   * Add an item to the checklist of a task, at the end unless a position is given
    */
-  async getTasksByPriority(
-    priority: TaskPriority,
-    filters?: Omit<TaskFilterParams, 'priority'>,
-    sort?: SortParams,
-    page: number = 1,
-    limit: number = 50
-  ): Promise<{
-    tasks: Task[];
-    total: number;
-    priority: TaskPriority;
-    page: number;
-    limit: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  }> {
+  async addChecklistItem(id: string, input: CreateChecklistItemInput, user?: AuthUser): Promise<Task> {
     try {
-      // Create filter for priority
-      const priorityFilters: TaskFilterParams = {
-        ...filters,
-        priority,
-      };
+      const { error, value } = createChecklistItemSchema.validate(input);
+      if (error) {
+        const validationError = new Error(`Validation failed: ${error.details[0]?.message}`);
+        (validationError as any).code = ApiResponseCode.VALIDATION_ERROR;
+        (validationError as any).details = error.details;
+        throw validationError;
+      }
 
-      const result = await this.getAllTasks(
-        priorityFilters,
-        sort || { field: 'deadline', order: 'asc' }, // Default sort by deadline for priority tasks
-        page,
-        limit
-      );
+      const task = await this.getTaskForChange(id, user);
+      const checklist = [...(task.checklist || [])];
 
-      logger.info('Retrieved tasks by priority', {
-        priority,
-        total: result.total,
-        returned: result.tasks.length,
-        page,
-        limit,
-        filters,
-      });
+      if (checklist.length >= this.maxChecklistItems) {
+        const error = new Error(`A checklist cannot have more than ${this.maxChecklistItems} items`);
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
 
-      return {
-        ...result,
-        priority,
+      const item: ChecklistItem = {
+        id: generateId(),
+        text: value.text,
+        done: false,
+        position: checklist.length,
       };
+      checklist.splice(Math.min(value.position ?? checklist.length, checklist.length), 0, item);
+
+      const updatedTask = await this.saveChecklist(task, checklist);
+
+      logger.info('Checklist item added', { taskId: id, itemId: item.id, userId: user?.id });
+
+      return updatedTask;
     } catch (error) {
-      logger.error('Error in getTasksByPriority service', {
+      logger.error('Error in addChecklistItem service', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        priority,
-        filters,
-        sort,
-        page,
-        limit,
+        taskId: id,
+        input,
+        userId: user?.id,
       });
       throw error;
     }
   }
 
   /**
-   * Bulk update tasks status
+   * Change the text of a checklist item, check or uncheck it, or move it to another position
    */
-  async bulkUpdateTasksStatus(
-    taskIds: string[],
-    status: TaskStatus
+  async updateChecklistItem(
+    id: string,
+    itemId: string,
+    input: UpdateChecklistItemInput,
+    user?: AuthUser
+  ): Promise<Task> {
+    try {
+      const { error, value } = updateChecklistItemSchema.validate(input);
+      if (error) {
+        const validationError = new Error(`Validation failed: ${error.details[0]?.message}`);
+        (validationError as any).code = ApiResponseCode.VALIDATION_ERROR;
+        (validationError as any).details = error.details;
+        throw validationError;
+      }
+
+      const task = await this.getTaskForChange(id, user);
+      const checklist = [...(task.checklist || [])];
+      const index = this.getChecklistItemIndex(task, itemId);
+
+      const item: ChecklistItem = {
+        ...checklist[index]!,
+        ...(value.text !== undefined && { text: value.text }),
+        ...(value.done !== undefined && { done: value.done }),
+      };
+      checklist.splice(index, 1);
+      checklist.splice(Math.min(value.position ?? index, checklist.length), 0, item);
+
+      const updatedTask = await this.saveChecklist(task, checklist);
+
+      logger.info('Checklist item updated', { taskId: id, itemId, updates: value, userId: user?.id });
+
+      return updatedTask;
+    } catch (error) {
+      logger.error('Error in updateChecklistItem service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        itemId,
+        input,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an item from the checklist of a task
+   */
+  async removeChecklistItem(id: string, itemId: string, user?: AuthUser): Promise<Task> {
+    try {
+      const task = await this.getTaskForChange(id, user);
+      const index = this.getChecklistItemIndex(task, itemId);
+
+      const checklist = (task.checklist || []).filter((_, itemIndex) => itemIndex !== index);
+      const updatedTask = await this.saveChecklist(task, checklist);
+
+      logger.info('Checklist item removed', { taskId: id, itemId, userId: user?.id });
+
+      return updatedTask;
+    } catch (error) {
+      logger.error('Error in removeChecklistItem service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        itemId,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a task as blocked by another task
+   * The blocker can be in any list the user can see; dependencies that would close a cycle are rejected
+   */
+  async addDependency(id: string, blockerId: string, user?: AuthUser): Promise<Task> {
+    try {
+      const task = await this.getTaskForChange(id, user);
+
+      if (blockerId === id) {
+        const error = new Error('A task cannot block itself');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const blocker = await taskRepository.getTaskById(blockerId);
+      if (!blocker) {
+        const error = new Error(`Blocking task with ID '${blockerId}' not found`);
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      await this.assertTaskAccess(blocker, user, 'viewer', Permission.TASK_READ_ANY);
+
+      const blockerIds = task.blocked_by || [];
+      if (blockerIds.includes(blockerId)) {
+        return taskRepository.withProgress(task);
+      }
+
+      if (blockerIds.length >= this.maxBlockersPerTask) {
+        const error = new Error(`A task cannot be blocked by more than ${this.maxBlockersPerTask} tasks`);
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      // The task would end up waiting on itself when the blocker already depends on it
+      const cycle = await this.findDependencyPath(blockerId, id);
+      if (cycle) {
+        const error = new Error('This dependency would create a cycle');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        (error as any).details = { cycle: [id, ...cycle] };
+        throw error;
+      }
+
+      const updatedTask = await taskRepository.setTaskDependencies(id, [...blockerIds, blockerId]);
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      logger.info('Task dependency added', { taskId: id, blockerId, userId: user?.id });
+
+      return taskRepository.withProgress(updatedTask);
+    } catch (error) {
+      logger.error('Error in addDependency service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        blockerId,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a blocker from a task
+   * Removing a task that does not block it changes nothing
+   */
+  async removeDependency(id: string, blockerId: string, user?: AuthUser): Promise<Task> {
+    try {
+      const task = await this.getTaskForChange(id, user);
+
+      const blockerIds = task.blocked_by || [];
+      if (!blockerIds.includes(blockerId)) {
+        return taskRepository.withProgress(task);
+      }
+
+      const updatedTask = await taskRepository.setTaskDependencies(
+        id,
+        blockerIds.filter(existing => existing !== blockerId)
+      );
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      logger.info('Task dependency removed', { taskId: id, blockerId, userId: user?.id });
+
+      return taskRepository.withProgress(updatedTask);
+    } catch (error) {
+      logger.error('Error in removeDependency service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        blockerId,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the tasks a task depends on and the tasks depending on it, at any depth
+   * Tasks in lists the user cannot see are left out, and so are the tasks only reachable through them
+   */
+  async getDependencyGraph(id: string, user?: AuthUser): Promise<TaskDependencyGraph> {
+    try {
+      const task = await this.getTaskById(id, user);
+
+      const visible = new Map<string, Task>([[task.id, task]]);
+      const edges = new Map<string, TaskDependencyEdge>();
+
+      // Walk up through the blockers and down through the dependents separately, so tasks
+      // that merely share a blocker with the task are not part of its graph
+      for (const direction of ['blockers', 'dependents'] as const) {
+        const pending = [task];
+        const visited = new Set([task.id]);
+
+        while (pending.length > 0) {
+          const current = pending.pop()!;
+          const neighbours = direction === 'blockers'
+            ? await taskRepository.getBlockers(current)
+            : await taskRepository.getDependents(current.id);
+
+          for (const neighbour of neighbours) {
+            if (!visible.has(neighbour.id) && !(await this.canViewTask(neighbour, user))) {
+              continue;
+            }
+
+            visible.set(neighbour.id, neighbour);
+            const edge: TaskDependencyEdge = direction === 'blockers'
+              ? { blocker_id: neighbour.id, task_id: current.id }
+              : { blocker_id: current.id, task_id: neighbour.id };
+            edges.set(`${edge.blocker_id}:${edge.task_id}`, edge);
+
+            if (!visited.has(neighbour.id)) {
+              visited.add(neighbour.id);
+              pending.push(neighbour);
+            }
+          }
+        }
+      }
+
+      const nodes: TaskDependencyNode[] = [];
+      for (const node of visible.values()) {
+        nodes.push({
+          id: node.id,
+          title: node.title,
+          status: node.status,
+          list_id: node.list_id,
+          is_blocked: (await taskRepository.getPendingBlockers(node)).length > 0,
+        });
+      }
+
+      logger.debug('Retrieved dependency graph', { taskId: id, nodes: nodes.length, edges: edges.size });
+
+      return { task_id: id, nodes, edges: [...edges.values()] };
+    } catch (error) {
+      logger.error('Error in getDependencyGraph service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Make a pending task with a deadline recur, or replace the rule of a recurring task
+   * The task becomes the first occurrence of a new series unless it already belongs to one
+   */
+  async setRecurrence(id: string, input: RecurrenceRuleInput, user?: AuthUser): Promise<Task> {
+    try {
+      const task = await this.getTaskForChange(id, user);
+
+      if (task.status !== TaskStatus.PENDING) {
+        const error = new Error('Only pending tasks can recur');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      if (!task.deadline) {
+        const error = new Error('A recurring task needs a deadline');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const deadline = new Date(task.deadline);
+      const occurrence = task.occurrence ?? 1;
+      const rule: RecurrenceRule = {
+        frequency: input.frequency,
+        interval: input.interval ?? 1,
+        ...(input.by_weekday && input.by_weekday.length > 0 && { by_weekday: sortWeekdays(input.by_weekday) }),
+        ...(input.frequency === RecurrenceFrequency.MONTHLY && {
+          by_month_day: input.by_month_day ?? deadline.getUTCDate(),
+        }),
+        ...(input.until && { until: new Date(input.until) }),
+        ...(input.count !== undefined && { count: input.count }),
+      };
+
+      if (rule.until && rule.until < deadline) {
+        const error = new Error('A series cannot end before the deadline of its current occurrence');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      if (rule.count !== undefined && rule.count < occurrence) {
+        const error = new Error(`This task is occurrence ${occurrence} of its series, the count cannot be lower`);
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const updatedTask = await taskRepository.setTaskRecurrence(id, {
+        recurrence: rule,
+        recurrence_series_id: task.recurrence_series_id || task.id,
+        occurrence,
+      });
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      logger.info('Task recurrence set', { taskId: id, rule, userId: user?.id });
+
+      return taskRepository.withProgress(updatedTask);
+    } catch (error) {
+      logger.error('Error in setRecurrence service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        input,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Skip the current occurrence of a recurring task
+   * The task moves on to the deadline of the next occurrence with its checklist unchecked
+   */
+  async skipOccurrence(id: string, user?: AuthUser): Promise<Task> {
+    try {
+      const task = await this.getRecurringTask(id, user);
+
+      const next = task.deadline
+        ? getNextOccurrence(task.recurrence!, new Date(task.deadline), task.occurrence ?? 1)
+        : null;
+      if (!next) {
+        const error = new Error('This is the last occurrence of the series, end the series instead');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const updatedTask = await taskRepository.setTaskRecurrence(id, {
+        deadline: next.deadline,
+        occurrence: next.occurrence,
+        ...(task.checklist && { checklist: task.checklist.map(item => ({ ...item, done: false })) }),
+      });
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      logger.info('Task occurrence skipped', {
+        taskId: id,
+        occurrence: next.occurrence,
+        deadline: next.deadline.toISOString(),
+        userId: user?.id,
+      });
+
+      return taskRepository.withProgress(updatedTask);
+    } catch (error) {
+      logger.error('Error in skipOccurrence service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * End the series of a recurring task
+   * The task stays as the last occurrence, completing it no longer creates another one
+   */
+  async endRecurrence(id: string, user?: AuthUser): Promise<Task> {
+    try {
+      await this.getRecurringTask(id, user);
+
+      const updatedTask = await taskRepository.setTaskRecurrence(id, { recurrence: null });
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      logger.info('Task recurrence ended', { taskId: id, userId: user?.id });
+
+      return taskRepository.withProgress(updatedTask);
+    } catch (error) {
+      logger.error('Error in endRecurrence service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the workflow of task states
+   */
+  getWorkflow(): WorkflowDefinition {
+    return taskWorkflow.definition;
+  }
+
+  /**
+   * Move a task to another workflow state
+   * The move has to be a transition of the task's current state. Moving to the complete state is
+   * refused while the task has pending blockers; other states, such as cancelled, are not.
+   */
+  async transitionTask(id: string, state: string, user?: AuthUser): Promise<Task> {
+    try {
+      const task = await this.getTaskForChange(id, user);
+
+      if (!taskWorkflow.hasState(state)) {
+        const error = new Error(`Unknown workflow state '${state}'`);
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        (error as any).details = { states: taskWorkflow.getStateNames() };
+        throw error;
+      }
+
+      const currentState = taskWorkflow.getState(task);
+      if (state === currentState) {
+        return taskRepository.withProgress(task);
+      }
+
+      if (!taskWorkflow.canTransition(currentState, state)) {
+        const error = new Error(`A task cannot move from '${currentState}' to '${state}'`);
+        (error as any).code = ApiResponseCode.CONFLICT;
+        (error as any).details = {
+          state: currentState,
+          transitions: taskWorkflow.getTransitions(currentState),
+        };
+        throw error;
+      }
+
+      if (state === taskWorkflow.completeState) {
+        await this.assertNotBlocked(task);
+      }
+
+      const updatedTask = await taskRepository.transitionTask(id, state);
+      if (!updatedTask) {
+        const error = new Error(`Failed to update task with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      if (updatedTask.status !== task.status && updatedTask.status === TaskStatus.COMPLETED) {
+        await this.spawnNextOccurrence(updatedTask);
+      }
+
+      // Closing a subtask without completing it also changes the progress of its parent
+      if (taskWorkflow.isOpen(updatedTask) !== taskWorkflow.isOpen(task) || updatedTask.status !== task.status) {
+        await this.syncAutoComplete(task.parent_task_id);
+      }
+
+      logger.info('Task state changed via service', {
+        taskId: id,
+        from: currentState,
+        to: state,
+        status: updatedTask.status,
+        userId: user?.id,
+      });
+
+      return taskRepository.withProgress((await taskRepository.getTaskById(id)) || updatedTask);
+    } catch (error) {
+      logger.error('Error in transitionTask service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        taskId: id,
+        state,
+        userId: user?.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get tasks due this week
+   */
+  async getTasksDueThisWeek(
+    filters?: Omit<TaskFilterParams, 'deadline_from' | 'deadline_to'>,
+    sort?: SortParams,
+    page: number = 1,
+    limit: number = 50,
+    user?: AuthUser
+  ): Promise<{
+    tasks: Task[];
+    total: number;
+    weekStart: Date;
+    weekEnd: Date;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  }> {
+    try {
+      // Calculate this week's date range
+      const now = new Date();
+      const weekStart = new Date(now);
+      weekStart.setHours(0, 0, 0, 0);
+      
+      const weekEnd = new Date(now);
+      weekEnd.setDate(weekEnd.getDate() + (7 - weekEnd.getDay()));
+      weekEnd.setHours(23, 59, 59, 999);
+
+      // Calculate offset for pagination
+      const offset = (page - 1) * limit;
+
+      // Get tasks in deadline range
+      const { tasks, total } = await taskRepository.getTasksByDeadlineRange(
+        weekStart,
+        weekEnd,
+        await this.scopeFilters(filters, user),
+        sort || { field: 'deadline', order: 'asc' },
+        limit,
+        offset
+      );
+
+      // Calculate pagination metadata
+      const totalPages = Math.ceil(total / limit);
+      const hasNext = page < totalPages;
+      const hasPrev = page > 1;
+
+      logger.info('Retrieved tasks due this week', {
+        weekStart: weekStart.toISOString(),
+        weekEnd: weekEnd.toISOString(),
+        total,
+        returned: tasks.length,
+        page,
+        limit,
+        totalPages,
+        filters,
+        sort,
+      });
+
+      return {
+        tasks: await taskRepository.withBlockedFlagAll(await taskRepository.withProgressAll(tasks)),
+        total,
+        weekStart,
+        weekEnd,
+        page,
+        limit,
+        totalPages,
+        hasNext,
+        hasPrev,
+      };
+    } catch (error) {
+      logger.error('Error in getTasksDueThisWeek service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters,
+        sort,
+        page,
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get tasks ordered by deadline
+   */
+  async getTasksByDeadline(
+    filters?: TaskFilterParams,
+    page: number = 1,
+    limit: number = 50,
+    includeNullDeadlines: boolean = false,
+    user?: AuthUser
+  ): Promise<{
+    tasks: Task[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  }> {
+    try {
+      // Get tasks with deadline sorting
+      const sort: SortParams = { field: 'deadline', order: 'asc' };
+      
+      let taskFilters = filters;
+      if (!includeNullDeadlines) {
+        // Add filter to exclude tasks without deadlines
+        taskFilters = {
+          ...filters,
+          deadline_from: new Date('1900-01-01'), // Very old date to include all tasks with deadlines
+        };
+      }
+
+      const result = await this.getAllTasks(taskFilters, sort, page, limit, user);
+
+      logger.info('Retrieved tasks ordered by deadline', {
+        total: result.total,
+        returned: result.tasks.length,
+        page,
+        limit,
+        includeNullDeadlines,
+        filters,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Error in getTasksByDeadline service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters,
+        page,
+        limit,
+        includeNullDeadlines,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get overdue tasks
+   */
+  async getOverdueTasks(
+    filters?: Omit<TaskFilterParams, 'deadline_to' | 'status'>,
+    sort?: SortParams,
+    page: number = 1,
+    limit: number = 50,
+    user?: AuthUser
+  ): Promise<{
+    tasks: Task[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  }> {
+    try {
+      const now = new Date();
+      const terminalStates = taskWorkflow.getTerminalStates();
+      
+      // Create filter for overdue tasks
+      const overdueFilters: TaskFilterParams = {
+        ...filters,
+        deadline_to: now,
+        status: TaskStatus.PENDING, // Only pending tasks can be overdue
+        ...(terminalStates.length > 0 && { exclude_states: terminalStates }), // Cancelled tasks are pending but closed
+      };
+
+      const result = await this.getAllTasks(
+        overdueFilters,
+        sort || { field: 'deadline', order: 'asc' },
+        page,
+        limit,
+        user
+      );
+
+      logger.info('Retrieved overdue tasks', {
+        cutoffDate: now.toISOString(),
+        total: result.total,
+        returned: result.tasks.length,
+        page,
+        limit,
+        filters,
+      });
+
+      return {
+        ...result,
+        tasks: await taskRepository.withBlockedFlagAll(result.tasks),
+      };
+    } catch (error) {
+      logger.error('Error in getOverdueTasks service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        filters,
+        sort,
+        page,
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get tasks by priority with smart sorting
+   */
+  async getTasksByPriority(
+    priority: TaskPriority,
+    filters?: Omit<TaskFilterParams, 'priority'>,
+    sort?: SortParams,
+    page: number = 1,
+    limit: number = 50,
+    user?: AuthUser
   ): Promise<{
-    updated: Task[];
-    failed: { id: string; error: string }[];
-    summary: {
-      total: number;
-      successful: number;
-      failed: number;
-    };
+    tasks: Task[];
+    total: number;
+    priority: TaskPriority;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
   }> {
     try {
-      const updated: Task[] = [];
-      const failed: { id: string; error: string }[] = [];
+      // Create filter for priority
+      const priorityFilters: TaskFilterParams = {
+        ...filters,
+        priority,
+      };
+
+      const result = await this.getAllTasks(
+        priorityFilters,
+        sort || { field: 'deadline', order: 'asc' }, // Default sort by deadline for priority tasks
+        page,
+        limit,
+        user
+      );
+
+      logger.info('Retrieved tasks by priority', {
+        priority,
+        total: result.total,
+        returned: result.tasks.length,
+        page,
+        limit,
+        filters,
+      });
+
+      return {
+        ...result,
+        priority,
+      };
+    } catch (error) {
+      logger.error('Error in getTasksByPriority service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        priority,
+        filters,
+        sort,
+        page,
+        limit,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Bulk update tasks status
+   */
+  async bulkUpdateTasksStatus(
+    taskIds: string[],
+    status: TaskStatus,
+    user?: AuthUser
+  ): Promise<BulkTaskOperationResult> {
+    return this.bulkUpdateTasks({ taskIds, operation: 'status', status }, user);
+  }
+
+  /**
+   * Apply one operation to many tasks
+   * Each task is processed independently; in atomic mode every change is
+   * rolled back when any task fails
+   */
+  async bulkUpdateTasks(input: BulkTaskOperationInput, user?: AuthUser): Promise<BulkTaskOperationResult> {
+    try {
+      // The route only requires task.update, deleting needs its own permission
+      if (input.operation === 'delete' && user && !hasPermission(user, Permission.TASK_DELETE)) {
+        const error = new Error('Insufficient permissions to delete tasks');
+        (error as any).code = ApiResponseCode.FORBIDDEN;
+        throw error;
+      }
+
+      let updated: Task[] = [];
+      const failed: BulkTaskOperationResult['failed'] = [];
+      const snapshots: Task[] = [];
 
-      for (const taskId of taskIds) {
+      for (const taskId of input.taskIds) {
         try {
-          if (status === TaskStatus.COMPLETED) {
-            const task = await this.completeTask(taskId);
-            updated.push(task);
-          } else {
-            const task = await this.updateTask(taskId, { status });
-            updated.push(task);
+          // Keep the original state so atomic operations can be undone, including the subtasks
+          // deleted or moved with the task and the parents auto-completed by it. The snapshot is
+          // taken before the first write, so a task whose operation fails half-way is restored too
+          if (input.atomic) {
+            snapshots.push(...(await this.getAffectedTasks(taskId)));
           }
+
+          updated.push(await this.applyBulkOperation(taskId, input, user));
         } catch (error) {
           failed.push({
             id: taskId,
             error: error instanceof Error ? error.message : 'Unknown error',
+            ...((error as any)?.code && { code: (error as any).code }),
           });
         }
       }
 
+      const rolledBack = Boolean(input.atomic) && failed.length > 0;
+      if (rolledBack) {
+        // Completing a recurring task creates its next occurrence in the same list, which a rollback
+        // has to remove, also when the operation failed before linking it to the task
+        const occurrenceIds = new Set<string>();
+        for (const snapshot of snapshots.filter(original => original.recurrence)) {
+          const seriesId = snapshot.recurrence_series_id || snapshot.id;
+          const { tasks } = await taskRepository.getAllTasks({ list_id: snapshot.list_id });
+          tasks
+            .filter(task => task.recurrence_series_id === seriesId)
+            .filter(task => (task.occurrence ?? 1) > (snapshot.occurrence ?? 1))
+            .forEach(task => occurrenceIds.add(task.id));
+        }
+        for (const occurrenceId of occurrenceIds) {
+          await taskRepository.deleteTask(occurrenceId);
+        }
+
+        // Restore in reverse order so list task counts end up where they started and
+        // tasks captured by several operations end up in their earliest state
+        for (const snapshot of snapshots.reverse()) {
+          await taskRepository.restoreTask(snapshot);
+        }
+        updated = [];
+      }
+
       const summary = {
-        total: taskIds.length,
+        total: input.taskIds.length,
         successful: updated.length,
         failed: failed.length,
+        rolledBack,
       };
 
-      logger.info('Bulk updated tasks status', {
-        status,
+      logger.info('Bulk task operation completed', {
+        operation: input.operation,
+        atomic: Boolean(input.atomic),
         summary,
         failedIds: failed.map(f => f.id),
+        userId: user?.id,
       });
 
       return { updated, failed, summary };
     } catch (error) {
-      logger.error('Error in bulkUpdateTasksStatus service', {
+      logger.error('Error in bulkUpdateTasks service', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        taskIds,
-        status,
+        taskIds: input.taskIds,
+        operation: input.operation,
+        userId: user?.id,
       });
       throw error;
     }
   }
 
+  /**
+   * Apply a bulk operation to a single task
+   */
+  private async applyBulkOperation(
+    taskId: string,
+    input: BulkTaskOperationInput,
+    user?: AuthUser
+  ): Promise<Task> {
+    switch (input.operation) {
+      case 'status':
+        return input.status === TaskStatus.COMPLETED
+          ? this.completeTask(taskId, user)
+          : this.updateTask(taskId, { status: TaskStatus.PENDING }, user);
+
+      case 'priority':
+        return this.updateTask(taskId, { ...(input.priority && { priority: input.priority }) }, user);
+
+      case 'move':
+        return this.updateTask(taskId, { ...(input.list_id && { list_id: input.list_id }) }, user);
+
+      case 'shift_deadline': {
+        const task = await this.getTaskById(taskId, user);
+        if (!task.deadline) {
+          const error = new Error('Task has no deadline to shift');
+          (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+          throw error;
+        }
+
+        const deadline = new Date(task.deadline);
+        deadline.setDate(deadline.getDate() + (input.deadline_shift_days || 0));
+        return this.updateTask(taskId, { deadline }, user);
+      }
+
+      case 'delete': {
+        const task = await this.getTaskById(taskId, user);
+        await this.deleteTask(taskId, user);
+        return task;
+      }
+
+      default: {
+        const error = new Error(`Unsupported bulk operation: ${input.operation}`);
+        (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Scope task filters to the lists of the active workspace, or else to the user's own personal
+   * lists and lists shared with them (users with task.read.any see all personal lists)
+   */
+  private async scopeFilters<T extends Partial<TaskFilterParams>>(
+    filters: T | undefined,
+    user?: AuthUser
+  ): Promise<T | undefined> {
+    if (!user) {
+      return filters;
+    }
+
+    const workspaceId = await workspaceService.getActiveWorkspaceId(user);
+    if (workspaceId) {
+      return { ...filters, workspace_id: workspaceId } as T;
+    }
+
+    const ownerId = getOwnerScope(user, Permission.TASK_READ_ANY);
+    if (!ownerId) {
+      return { ...filters, workspace_id: null } as T;
+    }
+
+    return {
+      ...filters,
+      workspace_id: null,
+      owner_id: ownerId,
+      shared_list_ids: await listMemberRepository.getSharedListIds(ownerId),
+    } as T;
+  }
+
+  /**
+   * Get a task whose labels, checklist, dependencies, recurrence or state the user is allowed to change
+   */
+  private async getTaskForChange(id: string, user?: AuthUser): Promise<Task> {
+    if (!isValidUuid(id)) {
+      const error = new Error(`Invalid task ID format: ${id}`);
+      (error as any).code = ApiResponseCode.VALIDATION_ERROR;
+      throw error;
+    }
+
+    const task = await taskRepository.getTaskById(id);
+    if (!task) {
+      const error = new Error(`Task with ID '${id}' not found`);
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    await this.assertTaskAccess(task, user, 'editor', Permission.TASK_UPDATE_ANY);
+
+    return task;
+  }
+
+  /**
+   * Get a recurring task the user is allowed to change, or fail with BAD_REQUEST
+   */
+  private async getRecurringTask(id: string, user?: AuthUser): Promise<Task> {
+    const task = await this.getTaskForChange(id, user);
+    if (!task.recurrence) {
+      const error = new Error('Task is not recurring');
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+
+    return task;
+  }
+
+  /**
+   * Hand the recurrence rule of a completed task over to its next occurrence
+   * When the series has ended the rule is simply removed
+   */
+  private async spawnNextOccurrence(task: Task): Promise<void> {
+    if (!task.recurrence) {
+      return;
+    }
+
+    const next = task.deadline
+      ? getNextOccurrence(task.recurrence, new Date(task.deadline), task.occurrence ?? 1)
+      : null;
+    const nextTask = next ? await taskRepository.createOccurrence(task, next.deadline, next.occurrence) : null;
+
+    await taskRepository.setTaskRecurrence(task.id, {
+      recurrence: null,
+      ...(nextTask && { next_occurrence_id: nextTask.id }),
+    });
+
+    logger.info(nextTask ? 'Next task occurrence created' : 'Recurring task series ended', {
+      taskId: task.id,
+      nextTaskId: nextTask?.id,
+      seriesId: task.recurrence_series_id,
+      occurrence: next?.occurrence,
+    });
+  }
+
+  /**
+   * Find a checklist item of a task or fail with NOT_FOUND
+   */
+  private getChecklistItemIndex(task: Task, itemId: string): number {
+    const index = (task.checklist || []).findIndex(item => item.id === itemId);
+    if (index === -1) {
+      const error = new Error(`Checklist item with ID '${itemId}' not found`);
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    return index;
+  }
+
+  /**
+   * Store a reordered checklist with contiguous positions and apply auto-completion
+   */
+  private async saveChecklist(task: Task, checklist: ChecklistItem[]): Promise<Task> {
+    const updatedTask = await taskRepository.setTaskChecklist(
+      task.id,
+      checklist.map((item, position) => ({ ...item, position }))
+    );
+    if (!updatedTask) {
+      const error = new Error(`Failed to update task with ID '${task.id}'`);
+      (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+      throw error;
+    }
+
+    await this.syncAutoComplete(task.id);
+
+    return taskRepository.withProgress((await taskRepository.getTaskById(task.id)) || updatedTask);
+  }
+
+  /**
+   * Move the subtasks of a task to the list the task moved to
+   */
+  private async moveSubtasks(id: string, listId: string): Promise<void> {
+    for (const subtask of await taskRepository.getDescendants(id)) {
+      const movedTask = await taskRepository.updateTask(subtask.id, { list_id: listId });
+      if (movedTask) {
+        await labelService.pruneTaskLabels(movedTask);
+      }
+    }
+  }
+
+  /**
+   * Complete a task with auto-completion once all of its checklist items and subtasks are done,
+   * and reopen it when one of them is reopened; the change rolls up to the task's own parent
+   */
+  private async syncAutoComplete(id?: string | null): Promise<void> {
+    if (!id) {
+      return;
+    }
+
+    const task = await taskRepository.getTaskById(id);
+    if (!task || !task.auto_complete) {
+      return;
+    }
+
+    const { done, total } = await taskRepository.getProgress(task);
+    if (total === 0) {
+      return;
+    }
+
+    const allDone = done === total;
+    let updatedTask: Task | null = null;
+    if (allDone && taskWorkflow.isOpen(task)) {
+      // A blocked task waits for its blockers even when all of its own work is done
+      if ((await taskRepository.getPendingBlockers(task)).length > 0) {
+        return;
+      }
+
+      updatedTask = await taskRepository.completeTask(id);
+    } else if (!allDone && task.status === TaskStatus.COMPLETED) {
+      updatedTask = await taskRepository.uncompleteTask(id);
+    }
+
+    if (updatedTask) {
+      logger.info('Task auto-completion applied', { taskId: id, status: updatedTask.status, done, total });
+      if (updatedTask.status === TaskStatus.COMPLETED) {
+        await this.spawnNextOccurrence(updatedTask);
+      }
+      await this.syncAutoComplete(task.parent_task_id);
+    }
+  }
+
+  /**
+   * Get the tasks a change to a task can affect: the task, its subtasks, its parents
+   * and the tasks blocked by the task or its subtasks
+   */
+  private async getAffectedTasks(id: string): Promise<Task[]> {
+    const task = await taskRepository.getTaskById(id);
+    if (!task) {
+      return [];
+    }
+
+    const parents: Task[] = [];
+    let parent = task.parent_task_id ? await taskRepository.getTaskById(task.parent_task_id) : null;
+    while (parent) {
+      parents.push(parent);
+      parent = parent.parent_task_id ? await taskRepository.getTaskById(parent.parent_task_id) : null;
+    }
+
+    const descendants = await taskRepository.getDescendants(id);
+    const dependents: Task[] = [];
+    for (const blocker of [task, ...descendants]) {
+      dependents.push(...(await taskRepository.getDependents(blocker.id)));
+    }
+
+    return [...parents, task, ...descendants, ...dependents];
+  }
+
+  /**
+   * Fail with CONFLICT when a task still has pending blockers
+   */
+  private async assertNotBlocked(task: Task): Promise<void> {
+    const pendingBlockers = await taskRepository.getPendingBlockers(task);
+    if (pendingBlockers.length === 0) {
+      return;
+    }
+
+    const error = new Error(
+      `Task is blocked by ${pendingBlockers.length} pending task${pendingBlockers.length === 1 ? '' : 's'}`
+    );
+    (error as any).code = ApiResponseCode.CONFLICT;
+    (error as any).details = {
+      blockers: pendingBlockers.map(blocker => ({ id: blocker.id, title: blocker.title })),
+    };
+    throw error;
+  }
+
+  /**
+   * Follow the blockers of a task depth-first looking for another task
+   * Returns the path from the task to the target, or null when the task does not depend on it
+   */
+  private async findDependencyPath(fromId: string, targetId: string): Promise<string[] | null> {
+    const visited = new Set<string>();
+
+    const visit = async (taskId: string): Promise<string[] | null> => {
+      if (taskId === targetId) {
+        return [taskId];
+      }
+      if (visited.has(taskId)) {
+        return null;
+      }
+      visited.add(taskId);
+
+      const task = await taskRepository.getTaskById(taskId);
+      for (const blockerId of task?.blocked_by || []) {
+        const path = await visit(blockerId);
+        if (path) {
+          return [taskId, ...path];
+        }
+      }
+
+      return null;
+    };
+
+    return visit(fromId);
+  }
+
+  /**
+   * Check whether the user can see a task, without failing
+   */
+  private async canViewTask(task: Task, user?: AuthUser): Promise<boolean> {
+    const accessLevel = user ? await listMemberRepository.getAccessLevel(task.list_id, user.id) : null;
+    return canAccessList(accessLevel, user, 'viewer', Permission.TASK_READ_ANY);
+  }
+
+  /**
+   * Validate the parent of a subtask: it has to exist, be in the subtask's list and
+   * must not be the subtask itself or one of its own subtasks
+   */
+  private async validateParentTask(parentId: string, listId: string, taskId?: string): Promise<void> {
+    const parent = await taskRepository.getTaskById(parentId);
+    if (!parent) {
+      const error = new Error(`Parent task with ID '${parentId}' not found`);
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    if (parent.list_id !== listId) {
+      const error = new Error('A subtask has to be in the same list as its parent task');
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+
+    // Walk up from the new parent, reaching the task itself would create a cycle
+    let ancestor: Task | null = parent;
+    while (taskId && ancestor) {
+      if (ancestor.id === taskId) {
+        const error = new Error('A task cannot be a subtask of itself or of one of its subtasks');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+      ancestor = ancestor.parent_task_id ? await taskRepository.getTaskById(ancestor.parent_task_id) : null;
+    }
+  }
+
+  /**
+   * Ensure the user has the required access level on the task's list
+   * or holds the permission for tasks of other users
+   */
+  private async assertTaskAccess(
+    task: Task,
+    user: AuthUser | undefined,
+    required: ListAccessLevel,
+    anyPermission: Permission
+  ): Promise<void> {
+    await listService.assertListAccess(task.list_id, user, required, anyPermission);
+  }
+
   /**
    * Validate business rules for task creation
    */
-  private async validateTaskBusinessRules(input: CreateTaskInput): Promise<void> {
+  private async validateTaskBusinessRules(input: CreateTaskInput, user?: AuthUser): Promise<void> {
     // Validate list exists
-    const listExists = await listRepository.listExists(input.list_id);
-    if (!listExists) {
+    const listOwnerId = await listRepository.getListOwnerId(input.list_id);
+    if (!listOwnerId) {
       const error = new Error(`List with ID '${input.list_id}' does not exist`);
       (error as any).code = ApiResponseCode.NOT_FOUND;
       throw error;
     }
 
+    // Validate the user can edit the target list (adding tasks to other users' lists changes those lists)
+    await listService.assertListAccess(input.list_id, user, 'editor', Permission.LIST_UPDATE_ANY);
+
     // Validate deadline is in the future (if provided)
     if (input.deadline) {
       const deadline = new Date(input.deadline);
@@ -720,6 +1861,10 @@ export class TaskService {
       }
     }
 
+    if (input.parent_task_id) {
+      await this.validateParentTask(input.parent_task_id, input.list_id);
+    }
+
     // Additional business rules can be added here
     // For example: maximum tasks per list, task title uniqueness within list, etc.
   }
@@ -727,15 +1872,26 @@ export class TaskService {
   /**
    * Validate business rules for task updates
    */
-  private async validateTaskUpdateBusinessRules(existingTask: Task, input: UpdateTaskInput): Promise<void> {
+  private async validateTaskUpdateBusinessRules(
+    existingTask: Task,
+    input: UpdateTaskInput,
+    user?: AuthUser
+  ): Promise<void> {
     // Validate list exists if list_id is being updated
     if (input.list_id && input.list_id !== existingTask.list_id) {
-      const listExists = await listRepository.listExists(input.list_id);
-      if (!listExists) {
+      const listOwnerId = await listRepository.getListOwnerId(input.list_id);
+      if (!listOwnerId) {
         const error = new Error(`Target list with ID '${input.list_id}' does not exist`);
         (error as any).code = ApiResponseCode.NOT_FOUND;
         throw error;
       }
+
+      // Tasks can only be moved into lists the user can edit
+      await listService.assertListAccess(input.list_id, user, 'editor', Permission.LIST_UPDATE_ANY);
+    }
+
+    if (input.parent_task_id) {
+      await this.validateParentTask(input.parent_task_id, input.list_id || existingTask.list_id, existingTask.id);
     }
 
     // Validate deadline rules
@@ -0,0 +1,318 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  User,
+  AuthUser,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  ApiResponseCode
+} from '../models';
+import { twoFactorRepository, roleRepository, userRepository } from '../repositories';
+import { mailTransport } from '../mail';
+import { logger } from '../utils/logger';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri } from '../utils/totp';
+
+/**
+ * Business logic service for TOTP two-factor authentication
+ * Users enroll an authenticator app and receive single-use recovery codes for when they lose it
+ */
+export class TwoFactorService {
+  private readonly issuer: string;
+  private readonly recoveryCodeCount = 10;
+
+  constructor() {
+    this.issuer = process.env.TWO_FACTOR_ISSUER || 'TODO API';
+  }
+
+  /**
+   * Get the two-factor authentication state of a user
+   */
+  async getStatus(user: AuthUser): Promise<TwoFactorStatus> {
+    try {
+      const settings = await twoFactorRepository.findByUserId(user.id);
+      const enabled = settings !== null && settings.enabled;
+
+      return {
+        enabled,
+        required: await roleRepository.isTwoFactorRequired(user.role),
+        ...(enabled && settings.enabled_at && { enabled_at: settings.enabled_at }),
+        recovery_codes_remaining: enabled ? settings.recovery_code_hashes.length : 0,
+      };
+    } catch (error) {
+      logger.error('Error in getStatus service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start enrollment with a new secret for the authenticator app
+   * A pending enrollment is replaced; it takes effect once confirmed with a code
+   */
+  async setup(userId: string): Promise<TwoFactorSetup> {
+    try {
+      const user = await this.getUser(userId);
+
+      if (await twoFactorRepository.isEnabled(userId)) {
+        const error = new Error('Two-factor authentication is already enabled');
+        (error as any).code = ApiResponseCode.CONFLICT;
+        throw error;
+      }
+
+      const secret = generateTotpSecret();
+      await twoFactorRepository.save({
+        id: userId,
+        secret,
+        enabled: false,
+        recovery_code_hashes: [],
+        created_at: new Date(),
+      });
+
+      logger.info('Two-factor enrollment started', { userId });
+
+      return {
+        secret,
+        otpauth_uri: buildOtpAuthUri(secret, user.email, this.issuer),
+      };
+    } catch (error) {
+      logger.error('Error in setup service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * Returns the recovery codes, which are not shown again
+   */
+  async enable(userId: string, code: string): Promise<string[]> {
+    try {
+      const user = await this.getUser(userId);
+      const settings = await twoFactorRepository.findByUserId(userId);
+
+      if (!settings) {
+        const error = new Error('Start two-factor enrollment with POST /api/v1/auth/2fa/setup first');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      if (settings.enabled) {
+        const error = new Error('Two-factor authentication is already enabled');
+        (error as any).code = ApiResponseCode.CONFLICT;
+        throw error;
+      }
+
+      const step = verifyTotp(settings.secret, code);
+      if (step === null) {
+        const error = new Error('Invalid two-factor authentication code');
+        (error as any).code = ApiResponseCode.BAD_REQUEST;
+        throw error;
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      await twoFactorRepository.save({
+        ...settings,
+        enabled: true,
+        recovery_code_hashes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+        last_used_step: step,
+        enabled_at: new Date(),
+      });
+
+      await this.notify(user, 'Two-factor authentication enabled', [
+        'Two-factor authentication was enabled for your TODO API account.',
+        'From now on, logging in requires a code from your authenticator app or a recovery code.',
+      ]);
+
+      logger.info('Two-factor authentication enabled', { userId });
+
+      return recoveryCodes;
+    } catch (error) {
+      logger.error('Error in enable service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Turn off two-factor authentication after checking the password and a code
+   * Not possible while the user's role requires two-factor authentication
+   */
+  async disable(user: AuthUser, password: string, code: string): Promise<void> {
+    try {
+      const storedUser = await this.getUser(user.id);
+
+      if (!(await userRepository.verifyPassword(password, storedUser.password))) {
+        const error = new Error('Current password is incorrect');
+        (error as any).code = ApiResponseCode.UNAUTHORIZED;
+        throw error;
+      }
+
+      if (await roleRepository.isTwoFactorRequired(user.role)) {
+        const error = new Error(`Two-factor authentication is required for the '${user.role}' role`);
+        (error as any).code = ApiResponseCode.FORBIDDEN;
+        throw error;
+      }
+
+      await this.assertValidCode(user.id, code);
+      await twoFactorRepository.delete(user.id);
+
+      await this.notify(storedUser, 'Two-factor authentication disabled', [
+        'Two-factor authentication was disabled for your TODO API account.',
+        'If you did not do this, reset your password right away.',
+      ]);
+
+      logger.info('Two-factor authentication disabled', { userId: user.id });
+    } catch (error) {
+      logger.error('Error in disable service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the recovery codes after checking a code
+   * Returns the new recovery codes; the previous ones stop working
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    try {
+      await this.assertValidCode(userId, code);
+
+      const settings = await twoFactorRepository.findByUserId(userId);
+      const recoveryCodes = this.generateRecoveryCodes();
+      await twoFactorRepository.save({
+        ...settings!,
+        recovery_code_hashes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+      });
+
+      logger.info('Two-factor recovery codes regenerated', { userId });
+
+      return recoveryCodes;
+    } catch (error) {
+      logger.error('Error in regenerateRecoveryCodes service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Check a code from the authenticator app or a recovery code
+   * Accepted codes cannot be used again: app codes up to their time step, recovery codes for good
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    try {
+      const settings = await twoFactorRepository.findByUserId(userId);
+      if (!settings || !settings.enabled) {
+        return false;
+      }
+
+      const step = verifyTotp(settings.secret, code);
+      if (step !== null) {
+        if (settings.last_used_step !== undefined && step <= settings.last_used_step) {
+          logger.warn('Two-factor code replay rejected', { userId });
+          return false;
+        }
+
+        await twoFactorRepository.save({ ...settings, last_used_step: step });
+        return true;
+      }
+
+      const codeHash = this.hashRecoveryCode(code);
+      if (!settings.recovery_code_hashes.includes(codeHash)) {
+        return false;
+      }
+
+      await twoFactorRepository.save({
+        ...settings,
+        recovery_code_hashes: settings.recovery_code_hashes.filter(hash => hash !== codeHash),
+      });
+
+      logger.info('Two-factor recovery code used', {
+        userId,
+        remaining: settings.recovery_code_hashes.length - 1,
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Error in verifyCode service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fail unless two-factor authentication is enabled and the code is valid
+   */
+  private async assertValidCode(userId: string, code: string): Promise<void> {
+    if (!(await twoFactorRepository.isEnabled(userId))) {
+      const error = new Error('Two-factor authentication is not enabled');
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+
+    if (!(await this.verifyCode(userId, code))) {
+      const error = new Error('Invalid two-factor authentication code');
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user or fail with NOT_FOUND
+   */
+  private async getUser(userId: string): Promise<User> {
+    const user = await userRepository.findById(userId, true);
+    if (!user) {
+      const error = new Error('User not found');
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    return user;
+  }
+
+  /**
+   * Generate a set of recovery codes like `4f2a9-c81e0`
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.recoveryCodeCount }, () => {
+      const code = randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code for storage and lookup, ignoring case, spaces and dashes
+   */
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+  }
+
+  /**
+   * Tell a user about a change to their two-factor authentication
+   * The change is made at this point, so a failed email is only logged
+   */
+  private async notify(user: User, subject: string, lines: string[]): Promise<void> {
+    try {
+      await mailTransport.send({ to: user.email, subject, text: lines.join('\n') });
+    } catch (error) {
+      logger.error('Failed to send two-factor notification email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+// Create and export singleton instance
+export const twoFactorService = new TwoFactorService();
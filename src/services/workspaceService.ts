@@ -0,0 +1,474 @@
+import {
+  User,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceSummary,
+  WorkspaceMemberInfo,
+  CreateWorkspaceInput,
+  UpdateWorkspaceInput,
+  AddWorkspaceMemberInput,
+  ListAccessLevel,
+  AuthUser,
+  ApiResponseCode,
+  Permission
+} from '../models';
+import {
+  workspaceRepository,
+  workspaceMemberRepository,
+  listRepository,
+  listMemberRepository,
+  labelRepository,
+  userRepository
+} from '../repositories';
+import { mailTransport } from '../mail';
+import { logger } from '../utils/logger';
+import { hasListAccess, hasPermission } from '../utils/ownership';
+
+/**
+ * Business logic service for workspaces
+ * Workspaces own lists and scope the list and task queries of the users who switched to them
+ */
+export class WorkspaceService {
+  /**
+   * Get the workspaces the user is a member of
+   */
+  async getWorkspaces(user: AuthUser): Promise<WorkspaceSummary[]> {
+    try {
+      const memberships = await workspaceMemberRepository.findByUserId(user.id);
+      const membersByWorkspace = new Map(memberships.map(member => [member.workspace_id, member]));
+      const workspaces = await workspaceRepository.findByIds(memberships.map(member => member.workspace_id));
+      const activeWorkspaceId = await this.getActiveWorkspaceId(user);
+
+      return workspaces.map(workspace =>
+        this.toSummary(workspace, membersByWorkspace.get(workspace.id)!, activeWorkspaceId)
+      );
+    } catch (error) {
+      logger.error('Error in getWorkspaces service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a workspace the user is a member of
+   */
+  async getWorkspace(id: string, user: AuthUser): Promise<WorkspaceSummary> {
+    try {
+      const workspace = await this.getById(id);
+      const member = await this.assertWorkspaceRole(id, user, 'viewer');
+
+      return this.toSummary(workspace, member, await this.getActiveWorkspaceId(user));
+    } catch (error) {
+      logger.error('Error in getWorkspace service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a workspace with the user as its owner
+   */
+  async createWorkspace(input: CreateWorkspaceInput, user: AuthUser): Promise<WorkspaceSummary> {
+    try {
+      const workspace = await workspaceRepository.create(input, user.id);
+      const member = await workspaceMemberRepository.create(workspace.id, user.id, 'owner', user.id);
+
+      logger.info('Workspace created', { workspaceId: workspace.id, userId: user.id });
+
+      return this.toSummary(workspace, member, await this.getActiveWorkspaceId(user));
+    } catch (error) {
+      logger.error('Error in createWorkspace service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        input,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a workspace or change its description
+   */
+  async updateWorkspace(id: string, input: UpdateWorkspaceInput, user: AuthUser): Promise<WorkspaceSummary> {
+    try {
+      await this.getById(id);
+      const member = await this.assertWorkspaceRole(id, user, 'owner');
+
+      const workspace = await workspaceRepository.update(id, input);
+      if (!workspace) {
+        const error = new Error(`Failed to update workspace with ID '${id}'`);
+        (error as any).code = ApiResponseCode.INTERNAL_ERROR;
+        throw error;
+      }
+
+      logger.info('Workspace updated', { workspaceId: id, updates: input, userId: user.id });
+
+      return this.toSummary(workspace, member, await this.getActiveWorkspaceId(user));
+    } catch (error) {
+      logger.error('Error in updateWorkspace service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+        input,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a workspace together with its lists, their tasks and the workspace labels
+   */
+  async deleteWorkspace(id: string, user: AuthUser): Promise<{ deletedListsCount: number }> {
+    try {
+      await this.getById(id);
+      await this.assertWorkspaceRole(id, user, 'owner');
+
+      const { lists } = await listRepository.getAllLists({ workspace_id: id });
+      for (const list of lists) {
+        await listRepository.deleteList(list.id, true);
+        await listMemberRepository.deleteForList(list.id);
+      }
+
+      await labelRepository.deleteForWorkspace(id);
+      await workspaceMemberRepository.deleteForWorkspace(id);
+      await workspaceRepository.delete(id);
+
+      logger.info('Workspace deleted', { workspaceId: id, deletedListsCount: lists.length, userId: user.id });
+
+      return { deletedListsCount: lists.length };
+    } catch (error) {
+      logger.error('Error in deleteWorkspace service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the members of a workspace
+   */
+  async getMembers(id: string, user: AuthUser): Promise<WorkspaceMemberInfo[]> {
+    try {
+      await this.getById(id);
+      await this.assertWorkspaceRole(id, user, 'viewer');
+
+      const memberInfos: WorkspaceMemberInfo[] = [];
+
+      // Members whose account no longer exists are left out
+      for (const member of await workspaceMemberRepository.findByWorkspaceId(id)) {
+        const memberUser = await userRepository.findById(member.user_id, true);
+        if (memberUser) {
+          memberInfos.push(this.toMemberInfo(memberUser, member));
+        }
+      }
+
+      return memberInfos;
+    } catch (error) {
+      logger.error('Error in getWorkspaceMembers service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Add the user registered under an email address to a workspace
+   * The new member is notified by email
+   */
+  async addMember(id: string, input: AddWorkspaceMemberInput, user: AuthUser): Promise<WorkspaceMemberInfo> {
+    try {
+      const workspace = await this.getById(id);
+      await this.assertWorkspaceRole(id, user, 'owner');
+
+      const invitee = await userRepository.findByEmail(input.email);
+      if (!invitee) {
+        const error = new Error(`No account is registered with the email address '${input.email}'`);
+        (error as any).code = ApiResponseCode.NOT_FOUND;
+        throw error;
+      }
+
+      if (await workspaceMemberRepository.find(id, invitee.id)) {
+        const error = new Error('The user is already a member of this workspace');
+        (error as any).code = ApiResponseCode.CONFLICT;
+        throw error;
+      }
+
+      const member = await workspaceMemberRepository.create(id, invitee.id, input.role, user.id);
+
+      try {
+        await mailTransport.send({
+          to: invitee.email,
+          subject: `You were added to the workspace ${workspace.name}`,
+          text: [
+            `${user.email} added you to the workspace "${workspace.name}" as ${input.role}.`,
+            '',
+            `Switch to it with PUT /api/v1/workspaces/active to see its lists; its ID is ${workspace.id}.`,
+          ].join('\n'),
+        });
+      } catch (error) {
+        // The user is a member at this point, the notification is a courtesy
+        logger.error('Failed to send workspace invitation email', {
+          workspaceId: id,
+          userId: invitee.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      logger.info('Workspace member added', {
+        workspaceId: id,
+        memberId: invitee.id,
+        role: input.role,
+        userId: user.id,
+      });
+
+      return this.toMemberInfo(invitee, member);
+    } catch (error) {
+      logger.error('Error in addWorkspaceMember service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the role of a workspace member
+   */
+  async updateMember(id: string, memberId: string, role: ListAccessLevel, user: AuthUser): Promise<WorkspaceMemberInfo> {
+    try {
+      await this.getById(id);
+      await this.assertWorkspaceRole(id, user, 'owner');
+
+      const existing = await this.getMember(id, memberId);
+      if (existing.role === 'owner' && role !== 'owner') {
+        await this.assertNotLastOwner(id);
+      }
+
+      const member = (await workspaceMemberRepository.updateRole(id, memberId, role))!;
+
+      logger.info('Workspace member updated', { workspaceId: id, memberId, role, userId: user.id });
+
+      const memberUser = await userRepository.findById(memberId, true);
+      return this.toMemberInfo(memberUser!, member);
+    } catch (error) {
+      logger.error('Error in updateWorkspaceMember service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+        memberId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a member from a workspace
+   * Members can always remove themselves, other members are removed by owners.
+   * The member also loses the lists of the workspace that were shared with them.
+   */
+  async removeMember(id: string, memberId: string, user: AuthUser): Promise<void> {
+    try {
+      await this.getById(id);
+      if (memberId !== user.id) {
+        await this.assertWorkspaceRole(id, user, 'owner');
+      }
+
+      const existing = await this.getMember(id, memberId);
+      if (existing.role === 'owner') {
+        await this.assertNotLastOwner(id);
+      }
+
+      await workspaceMemberRepository.delete(id, memberId);
+
+      const { lists } = await listRepository.getAllLists({ workspace_id: id });
+      for (const list of lists) {
+        await listMemberRepository.delete(list.id, memberId);
+      }
+
+      if (await workspaceRepository.getActiveWorkspaceId(memberId) === id) {
+        await workspaceRepository.setActiveWorkspaceId(memberId, null);
+      }
+
+      logger.info('Workspace member removed', { workspaceId: id, memberId, userId: user.id });
+    } catch (error) {
+      logger.error('Error in removeWorkspaceMember service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId: id,
+        memberId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Switch the user to a workspace, or back to their personal lists with null
+   * List and task queries of the user are scoped to the workspace from then on
+   */
+  async switchWorkspace(workspaceId: string | null, user: AuthUser): Promise<WorkspaceSummary | null> {
+    try {
+      let summary: WorkspaceSummary | null = null;
+
+      if (workspaceId) {
+        const workspace = await this.getById(workspaceId);
+        const member = await this.assertWorkspaceRole(workspaceId, user, 'viewer');
+        summary = this.toSummary(workspace, member, workspaceId);
+      }
+
+      await workspaceRepository.setActiveWorkspaceId(user.id, workspaceId);
+
+      logger.info('Active workspace switched', { workspaceId, userId: user.id });
+
+      return summary;
+    } catch (error) {
+      logger.error('Error in switchWorkspace service', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        workspaceId,
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the workspace list and task queries of the user are scoped to
+   * An explicitly requested workspace wins over the active one; null stands for personal lists.
+   * Only members, or users holding the permission for resources of others, can query a workspace.
+   */
+  async resolveScope(
+    user: AuthUser,
+    requested: string | null | undefined,
+    anyPermission: Permission
+  ): Promise<string | null> {
+    if (requested === undefined) {
+      return this.getActiveWorkspaceId(user);
+    }
+
+    if (requested !== null) {
+      await this.getById(requested);
+      if (!hasPermission(user, anyPermission)) {
+        await this.assertWorkspaceRole(requested, user, 'viewer');
+      }
+    }
+
+    return requested;
+  }
+
+  /**
+   * Ensure the user has the required role in a workspace
+   */
+  async assertWorkspaceRole(id: string, user: AuthUser, required: ListAccessLevel): Promise<WorkspaceMember> {
+    const member = await workspaceMemberRepository.find(id, user.id);
+
+    if (!member || !hasListAccess(member.role, required)) {
+      logger.warn('Workspace access denied due to insufficient role', {
+        workspaceId: id,
+        userId: user.id,
+        role: member?.role,
+        required,
+      });
+
+      const error = new Error(member
+        ? `This action requires ${required} access to the workspace`
+        : 'You are not a member of this workspace');
+      (error as any).code = ApiResponseCode.FORBIDDEN;
+      throw error;
+    }
+
+    return member;
+  }
+
+  /**
+   * Get the workspace the user switched to, null for personal lists
+   * A workspace the user has since left counts as personal lists
+   */
+  async getActiveWorkspaceId(user: AuthUser): Promise<string | null> {
+    const workspaceId = await workspaceRepository.getActiveWorkspaceId(user.id);
+    if (workspaceId && !(await workspaceMemberRepository.find(workspaceId, user.id))) {
+      return null;
+    }
+
+    return workspaceId;
+  }
+
+  /**
+   * Get a workspace or fail with NOT_FOUND
+   */
+  private async getById(id: string): Promise<Workspace> {
+    const workspace = await workspaceRepository.findById(id);
+    if (!workspace) {
+      const error = new Error(`Workspace with ID '${id}' not found`);
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    return workspace;
+  }
+
+  /**
+   * Get a workspace membership or fail with NOT_FOUND
+   */
+  private async getMember(id: string, userId: string): Promise<WorkspaceMember> {
+    const member = await workspaceMemberRepository.find(id, userId);
+    if (!member) {
+      const error = new Error('The user is not a member of this workspace');
+      (error as any).code = ApiResponseCode.NOT_FOUND;
+      throw error;
+    }
+
+    return member;
+  }
+
+  /**
+   * Every workspace keeps at least one owner
+   */
+  private async assertNotLastOwner(id: string): Promise<void> {
+    const owners = (await workspaceMemberRepository.findByWorkspaceId(id))
+      .filter(member => member.role === 'owner');
+
+    if (owners.length <= 1) {
+      const error = new Error('A workspace must keep at least one owner');
+      (error as any).code = ApiResponseCode.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a workspace to the summary returned to one of its members
+   */
+  private toSummary(workspace: Workspace, member: WorkspaceMember, activeWorkspaceId: string | null): WorkspaceSummary {
+    return {
+      ...workspace,
+      role: member.role,
+      is_active: workspace.id === activeWorkspaceId,
+    };
+  }
+
+  /**
+   * Convert a workspace member to a member as returned by the API
+   */
+  private toMemberInfo(memberUser: User, member: WorkspaceMember): WorkspaceMemberInfo {
+    return {
+      user_id: memberUser.id,
+      email: memberUser.email,
+      ...(memberUser.first_name && { first_name: memberUser.first_name }),
+      ...(memberUser.last_name && { last_name: memberUser.last_name }),
+      role: member.role,
+      added_by: member.added_by,
+      created_at: member.created_at,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const workspaceService = new WorkspaceService();
@@ -1,11 +1,14 @@
-import { writeFile, readFile, existsSync, mkdirSync } from 'fs';
+import { writeFile, readFile, rename, unlink, existsSync, mkdirSync } from 'fs';
 import { dirname } from 'path';
 import { promisify } from 'util';
-import { List, Task } from '../models';
+import { List, Task, User } from '../models';
 import { logger } from '../utils/logger';
+import { StoredRecord } from './storageBackend';
 
 const writeFileAsync = promisify(writeFile);
 const readFileAsync = promisify(readFile);
+const renameAsync = promisify(rename);
+const unlinkAsync = promisify(unlink);
 
 /**
  * Interface for file storage data structure
@@ -13,16 +16,43 @@ const readFileAsync = promisify(readFile);
 interface FileStorageData {
   lists: Record<string, List>;
   tasks: Record<string, Task>;
+  users?: Record<string, User>; // Absent in files written before users were persisted
+  records?: Record<string, Record<string, StoredRecord>>; // Auxiliary records by collection
   metadata: {
     version: string;
     exportedAt: string;
+    journalSeq?: number; // Last journal entry included in this snapshot
     itemCount: {
       lists: number;
       tasks: number;
+      users: number;
     };
   };
 }
 
+/**
+ * JSON replacer function to handle Date objects
+ * Dates are read from the holder object because JSON.stringify
+ * has already converted the value with Date.prototype.toJSON
+ */
+export function dateReplacer(this: any, key: string, value: any): any {
+  const original = this[key];
+  if (original instanceof Date) {
+    return { __date: original.toISOString() };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver function to restore Date objects
+ */
+export function dateReviver(key: string, value: any): any {
+  if (value && typeof value === 'object' && value.__date) {
+    return new Date(value.__date);
+  }
+  return value;
+}
+
 /**
  * File storage utility for optional data persistence
  */
@@ -36,35 +66,56 @@ export class FileStore {
 
   /**
    * Save data to JSON file
+   * Writes to a temporary file first and renames it over the target,
+   * so a crash mid-write never leaves a truncated data file behind
    */
-  async saveToFile(lists: Map<string, List>, tasks: Map<string, Task>): Promise<void> {
+  async saveToFile(
+    lists: Map<string, List>,
+    tasks: Map<string, Task>,
+    users: Map<string, User>,
+    records: Map<string, Map<string, StoredRecord>>,
+    journalSeq?: number
+  ): Promise<void> {
+    const tempFilePath = `${this.filePath}.tmp`;
+
     try {
       const data: FileStorageData = {
         lists: Object.fromEntries(lists),
         tasks: Object.fromEntries(tasks),
+        users: Object.fromEntries(users),
+        records: Object.fromEntries(
+          Array.from(records.entries()).map(([collection, items]) => [collection, Object.fromEntries(items)])
+        ),
         metadata: {
           version: '1.0.0',
           exportedAt: new Date().toISOString(),
+          ...(journalSeq !== undefined && { journalSeq }),
           itemCount: {
             lists: lists.size,
             tasks: tasks.size,
+            users: users.size,
           },
         },
       };
 
-      const jsonData = JSON.stringify(data, this.dateReplacer, 2);
-      await writeFileAsync(this.filePath, jsonData, 'utf8');
+      const jsonData = JSON.stringify(data, dateReplacer, 2);
+      await writeFileAsync(tempFilePath, jsonData, 'utf8');
+      await renameAsync(tempFilePath, this.filePath);
 
       logger.info('Data saved to file', {
         filePath: this.filePath,
         listsCount: lists.size,
         tasksCount: tasks.size,
+        usersCount: users.size,
       });
     } catch (error) {
       logger.error('Failed to save data to file', {
         filePath: this.filePath,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
+
+      // Remove the partial temp file, the previous data file stays intact
+      await unlinkAsync(tempFilePath).catch(() => undefined);
       throw error;
     }
   }
@@ -72,7 +123,13 @@ export class FileStore {
   /**
    * Load data from JSON file
    */
-  async loadFromFile(): Promise<{ lists: Map<string, List>; tasks: Map<string, Task> }> {
+  async loadFromFile(): Promise<{
+    lists: Map<string, List>;
+    tasks: Map<string, Task>;
+    users: Map<string, User>;
+    records: Map<string, Map<string, StoredRecord>>;
+    journalSeq: number;
+  }> {
     try {
       if (!existsSync(this.filePath)) {
         logger.info('No existing data file found, starting with empty storage', {
@@ -81,24 +138,33 @@ export class FileStore {
         return {
           lists: new Map(),
           tasks: new Map(),
+          users: new Map(),
+          records: new Map(),
+          journalSeq: 0,
         };
       }
 
       const jsonData = await readFileAsync(this.filePath, 'utf8');
-      const data: FileStorageData = JSON.parse(jsonData, this.dateReviver);
+      const data: FileStorageData = JSON.parse(jsonData, dateReviver);
 
       const lists = new Map(Object.entries(data.lists));
       const tasks = new Map(Object.entries(data.tasks));
+      const users = new Map(Object.entries(data.users || {}));
+      const records = new Map(
+        Object.entries(data.records || {}).map(([collection, items]) => [collection, new Map(Object.entries(items))])
+      );
 
       logger.info('Data loaded from file', {
         filePath: this.filePath,
         listsCount: lists.size,
         tasksCount: tasks.size,
+        usersCount: users.size,
         version: data.metadata?.version,
         exportedAt: data.metadata?.exportedAt,
+        journalSeq: data.metadata?.journalSeq,
       });
 
-      return { lists, tasks };
+      return { lists, tasks, users, records, journalSeq: data.metadata?.journalSeq ?? 0 };
     } catch (error) {
       logger.error('Failed to load data from file', {
         filePath: this.filePath,
@@ -114,6 +180,8 @@ export class FileStore {
   async exportToFile(
     lists: Map<string, List>,
     tasks: Map<string, Task>,
+    users: Map<string, User>,
+    records: Map<string, Map<string, StoredRecord>>,
     exportPath: string
   ): Promise<void> {
     const tempFilePath = this.filePath;
@@ -121,11 +189,12 @@ export class FileStore {
     this.ensureDirectoryExists();
     
     try {
-      await this.saveToFile(lists, tasks);
+      await this.saveToFile(lists, tasks, users, records);
       logger.info('Data exported successfully', {
         exportPath,
         listsCount: lists.size,
         tasksCount: tasks.size,
+        usersCount: users.size,
       });
     } finally {
       this.filePath = tempFilePath;
@@ -204,6 +273,12 @@ export class FileStore {
       if (data.tasks && typeof data.tasks !== 'object') {
         errors.push('Tasks property must be an object');
       }
+      if (data.users && typeof data.users !== 'object') {
+        errors.push('Users property must be an object');
+      }
+      if (data.records && typeof data.records !== 'object') {
+        errors.push('Records property must be an object');
+      }
 
       // Validate list structure
       if (data.lists) {
@@ -233,6 +308,20 @@ export class FileStore {
         }
       }
 
+      // Validate user structure (optional for older files)
+      if (data.users) {
+        for (const [id, user] of Object.entries(data.users)) {
+          if (typeof user !== 'object' || !user) {
+            errors.push(`Invalid user structure for ID: ${id}`);
+            continue;
+          }
+          const userObj = user as any;
+          if (!userObj.id || !userObj.email || !userObj.password) {
+            errors.push(`User ${id} missing required fields (id, email, password)`);
+          }
+        }
+      }
+
       return {
         valid: errors.length === 0,
         errors,
@@ -253,26 +342,6 @@ export class FileStore {
       logger.debug('Created directory for file storage', { directory: dir });
     }
   }
-
-  /**
-   * JSON replacer function to handle Date objects
-   */
-  private dateReplacer(key: string, value: any): any {
-    if (value instanceof Date) {
-      return { __date: value.toISOString() };
-    }
-    return value;
-  }
-
-  /**
-   * JSON reviver function to restore Date objects
-   */
-  private dateReviver(key: string, value: any): any {
-    if (value && typeof value === 'object' && value.__date) {
-      return new Date(value.__date);
-    }
-    return value;
-  }
 }
 
 /**
@@ -1,9 +1,13 @@
 // Re-export storage modules
 export { MemoryStore } from './memoryStore';
+export { SqliteStore } from './sqliteStore';
 export { FileStore, createFileStore } from './fileStore';
+export { Journal, createJournal } from './journal';
+export { createStorageBackend } from './storageFactory';
+export * from './storageBackend';
 
-// Export the default memory store instance
-export { default as memoryStore } from './memoryStore';
+// Export the configured storage backend instance
+export { default as storage } from './storageFactory';
 
-// Export default as the main memory store
-export { default } from './memoryStore';
+// Export default as the main storage backend
+export { default } from './storageFactory';
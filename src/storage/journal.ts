@@ -0,0 +1,190 @@
+import { appendFileSync, readFileSync, writeFileSync, renameSync, truncateSync, existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { List, Task, User } from '../models';
+import { logger } from '../utils/logger';
+import { dateReplacer, dateReviver } from './fileStore';
+import { StoredRecord } from './storageBackend';
+
+/**
+ * Mutation recorded in the journal
+ * Each operation carries the arguments of the matching MemoryStore method
+ */
+export type JournalOperation =
+  | { op: 'createList'; list: List }
+  | { op: 'updateList'; id: string; updates: Partial<List> }
+  | { op: 'deleteList'; id: string; deleteAssociatedTasks: boolean }
+  | { op: 'createTask'; task: Task }
+  | { op: 'updateTask'; id: string; updates: Partial<Task> }
+  | { op: 'deleteTask'; id: string }
+  | { op: 'createUser'; user: User }
+  | { op: 'updateUser'; id: string; updates: Partial<User> }
+  | { op: 'deleteUser'; id: string }
+  | { op: 'putRecord'; collection: string; record: StoredRecord }
+  | { op: 'deleteRecord'; collection: string; id: string }
+  | { op: 'clear' };
+
+/**
+ * Journal entry as stored on disk (one JSON document per line)
+ */
+export type JournalEntry = JournalOperation & {
+  seq: number;
+  timestamp: Date;
+};
+
+/**
+ * Append-only journal (write-ahead log) for memory store mutations
+ * Entries are appended synchronously so a mutation is on disk before it is applied
+ */
+export class Journal {
+  private filePath: string;
+  private lastSeq: number = 0;
+  private entryCount: number = 0;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.ensureDirectoryExists();
+  }
+
+  /**
+   * Append an operation to the journal
+   */
+  append(operation: JournalOperation): JournalEntry {
+    const entry: JournalEntry = {
+      ...operation,
+      seq: this.lastSeq + 1,
+      timestamp: new Date(),
+    };
+
+    appendFileSync(this.filePath, `${JSON.stringify(entry, dateReplacer)}\n`, 'utf8');
+    this.lastSeq = entry.seq;
+    this.entryCount++;
+
+    return entry;
+  }
+
+  /**
+   * Read all journal entries recorded after the given sequence number
+   * A torn last line (crash mid-append) is discarded and truncated away
+   */
+  readEntries(afterSeq: number = 0): JournalEntry[] {
+    if (!existsSync(this.filePath)) {
+      this.lastSeq = afterSeq;
+      this.entryCount = 0;
+      return [];
+    }
+
+    const content = readFileSync(this.filePath, 'utf8');
+    const lines = content.split('\n');
+    const entries: JournalEntry[] = [];
+    let validLength = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      const isLastLine = lines.slice(i + 1).every(rest => rest.trim() === '');
+
+      if (line.trim() !== '') {
+        try {
+          entries.push(JSON.parse(line, dateReviver));
+        } catch (error) {
+          if (!isLastLine) {
+            logger.error('Journal is corrupted', {
+              filePath: this.filePath,
+              line: i + 1,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+            throw new Error(`Journal ${this.filePath} is corrupted at line ${i + 1}`);
+          }
+
+          logger.warn('Discarding torn journal entry', {
+            filePath: this.filePath,
+            line: i + 1,
+          });
+          truncateSync(this.filePath, validLength);
+          break;
+        }
+      }
+
+      // Account for the line and its newline separator
+      validLength += Buffer.byteLength(line, 'utf8') + (i < lines.length - 1 ? 1 : 0);
+    }
+
+    this.lastSeq = entries.reduce((max, entry) => Math.max(max, entry.seq), afterSeq);
+    this.entryCount = entries.length;
+
+    return entries.filter(entry => entry.seq > afterSeq);
+  }
+
+  /**
+   * Drop entries already covered by a snapshot
+   * Entries appended after the snapshot was taken are kept
+   */
+  compact(throughSeq: number): void {
+    const tempFilePath = `${this.filePath}.tmp`;
+    const remaining = existsSync(this.filePath)
+      ? readFileSync(this.filePath, 'utf8')
+        .split('\n')
+        .filter(line => line.trim() !== '' && JSON.parse(line).seq > throughSeq)
+      : [];
+
+    writeFileSync(tempFilePath, remaining.map(line => `${line}\n`).join(''), 'utf8');
+    renameSync(tempFilePath, this.filePath);
+    this.entryCount = remaining.length;
+
+    logger.info('Journal compacted', {
+      filePath: this.filePath,
+      throughSeq,
+      remainingEntries: remaining.length,
+    });
+  }
+
+  /**
+   * Sequence number of the most recent entry
+   */
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Number of entries currently in the journal file
+   */
+  getEntryCount(): number {
+    return this.entryCount;
+  }
+
+  /**
+   * Get current journal file path
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Ensure the directory exists for the journal path
+   */
+  private ensureDirectoryExists(): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+      logger.debug('Created directory for journal', { directory: dir });
+    }
+  }
+}
+
+/**
+ * Create journal instance from environment configuration
+ * Defaults to a .journal.jsonl file next to the snapshot file
+ */
+export const createJournal = (snapshotFilePath?: string, journalFilePath?: string): Journal | null => {
+  const snapshotPath = snapshotFilePath || process.env.PERSISTENCE_FILE_PATH;
+  const path = journalFilePath || process.env.JOURNAL_FILE_PATH
+    || (snapshotPath ? `${snapshotPath.replace(/\.json$/, '')}.journal.jsonl` : undefined);
+
+  if (!path) {
+    logger.info('No journal path configured');
+    return null;
+  }
+
+  return new Journal(path);
+};
+
+export default Journal;
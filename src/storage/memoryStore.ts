@@ -1,51 +1,76 @@
-import { List, Task, TaskStatus, TaskPriority } from '../models';
+import { List, Task, User, TaskStatus, TaskPriority, TaskFilterParams, SortParams } from '../models';
 import { logger } from '../utils/logger';
+import { FileStore, createFileStore } from './fileStore';
+import { Journal, JournalEntry, JournalOperation, createJournal } from './journal';
+import { StorageBackend, StorageStats, StoredRecord, TaskQuery, ListQuery } from './storageBackend';
 
 /**
  * Interface for indexed storage to optimize queries
  */
 interface StorageIndexes {
+  usersByEmail: Map<string, string>; // Email is unique, maps to user ID
+  listsByOwnerId: Map<string, Set<string>>;
   tasksByListId: Map<string, Set<string>>;
   tasksByStatus: Map<TaskStatus, Set<string>>;
   tasksByPriority: Map<TaskPriority, Set<string>>;
+  tasksByLabelId: Map<string, Set<string>>;
+  tasksByParentId: Map<string, Set<string>>;
+  tasksByBlockerId: Map<string, Set<string>>;
   tasksByDeadlineDate: Map<string, Set<string>>; // Format: YYYY-MM-DD
 }
 
-/**
- * Interface for memory store statistics
- */
-interface MemoryStoreStats {
-  listsCount: number;
-  tasksCount: number;
-  memoryUsage: number; // Estimated in bytes
-  lastAccessed: Date;
-  operationsCount: number;
-}
-
 /**
  * In-memory storage class with performance optimizations
  */
-export class MemoryStore {
+export class MemoryStore implements StorageBackend {
   private lists: Map<string, List>;
   private tasks: Map<string, Task>;
+  private users: Map<string, User>;
+  private records: Map<string, Map<string, StoredRecord>>; // Keyed by collection, then record ID
   private indexes: StorageIndexes;
   private maxSize: number;
-  private stats: MemoryStoreStats;
+  private stats: StorageStats;
   private enableFileBackup: boolean;
   private backupFilePath: string | undefined;
+  private fileStore: FileStore | null;
+  private journal: Journal | null;
+  private compactionThreshold: number;
+  private compactionIntervalMs: number;
+  private compactionTimer: NodeJS.Timeout | null = null;
+  private pendingCompaction: Promise<void> = Promise.resolve();
+  private isCompacting: boolean = false;
+  private replayClock: Date | null = null; // Timestamp of the journal entry being replayed
 
-  constructor(maxSize: number = 10000, enableFileBackup: boolean = false, backupFilePath?: string) {
+  constructor(
+    maxSize: number = 10000,
+    enableFileBackup: boolean = false,
+    backupFilePath?: string,
+    journalFilePath?: string,
+    compactionThreshold: number = 1000,
+    compactionIntervalMs: number = 300000
+  ) {
     this.lists = new Map();
     this.tasks = new Map();
+    this.users = new Map();
+    this.records = new Map();
     this.maxSize = maxSize;
     this.enableFileBackup = enableFileBackup;
     this.backupFilePath = backupFilePath;
+    this.fileStore = enableFileBackup ? createFileStore(backupFilePath) : null;
+    this.journal = this.fileStore ? createJournal(this.fileStore.getFilePath(), journalFilePath) : null;
+    this.compactionThreshold = compactionThreshold;
+    this.compactionIntervalMs = compactionIntervalMs;
     
     // Initialize indexes for performance optimization
     this.indexes = {
+      usersByEmail: new Map(),
+      listsByOwnerId: new Map(),
       tasksByListId: new Map(),
       tasksByStatus: new Map(),
       tasksByPriority: new Map(),
+      tasksByLabelId: new Map(),
+      tasksByParentId: new Map(),
+      tasksByBlockerId: new Map(),
       tasksByDeadlineDate: new Map(),
     };
 
@@ -53,6 +78,7 @@ export class MemoryStore {
     this.stats = {
       listsCount: 0,
       tasksCount: 0,
+      usersCount: 0,
       memoryUsage: 0,
       lastAccessed: new Date(),
       operationsCount: 0,
@@ -62,9 +88,197 @@ export class MemoryStore {
       maxSize: this.maxSize,
       enableFileBackup: this.enableFileBackup,
       backupFilePath: this.backupFilePath,
+      journalFilePath: this.journal?.getFilePath(),
+      compactionThreshold: this.compactionThreshold,
     });
   }
 
+  // ===============================
+  // PERSISTENCE
+  // ===============================
+
+  /**
+   * Load the latest snapshot and replay the journal on top of it
+   * (if file persistence is enabled)
+   */
+  async initialize(): Promise<void> {
+    if (!this.fileStore || !this.journal) {
+      return;
+    }
+
+    const { lists, tasks, users, records, journalSeq } = await this.fileStore.loadFromFile();
+    this.loadData(lists, tasks, users, records);
+
+    const entries = this.journal.readEntries(journalSeq);
+    this.replay(entries);
+
+    logger.info('MemoryStore loaded persisted data', {
+      filePath: this.fileStore.getFilePath(),
+      journalFilePath: this.journal.getFilePath(),
+      replayedEntries: entries.length,
+      listsCount: this.lists.size,
+      tasksCount: this.tasks.size,
+      usersCount: this.users.size,
+    });
+
+    if (this.journal.getEntryCount() > 0) {
+      await this.compact();
+    }
+
+    this.compactionTimer = setInterval(() => {
+      void this.compact();
+    }, this.compactionIntervalMs);
+    this.compactionTimer.unref();
+  }
+
+  /**
+   * Compact the journal into a final snapshot (used on shutdown)
+   */
+  async flush(): Promise<void> {
+    if (this.compactionTimer) {
+      clearInterval(this.compactionTimer);
+      this.compactionTimer = null;
+    }
+
+    await this.pendingCompaction;
+    await this.compact();
+  }
+
+  /**
+   * Replace the store contents and rebuild all indexes
+   */
+  private loadData(
+    lists: Map<string, List>,
+    tasks: Map<string, Task>,
+    users: Map<string, User>,
+    records: Map<string, Map<string, StoredRecord>>
+  ): void {
+    this.lists = new Map(lists);
+    this.tasks = new Map(tasks);
+    this.users = new Map(users);
+    this.records = new Map(records);
+    Object.values(this.indexes).forEach(index => index.clear());
+
+    for (const list of this.lists.values()) {
+      this.updateListIndexes(list);
+    }
+    for (const task of this.tasks.values()) {
+      this.updateTaskIndexes(task);
+    }
+    for (const user of this.users.values()) {
+      this.indexes.usersByEmail.set(user.email, user.id);
+    }
+
+    this.stats.listsCount = this.lists.size;
+    this.stats.tasksCount = this.tasks.size;
+    this.stats.usersCount = this.users.size;
+  }
+
+  /**
+   * Re-apply journal entries through the regular mutation methods
+   * Timestamps come from the entries so replayed state matches the original
+   */
+  private replay(entries: JournalEntry[]): void {
+    try {
+      for (const entry of entries) {
+        this.replayClock = entry.timestamp;
+
+        switch (entry.op) {
+          case 'createList':
+            this.createList(entry.list);
+            break;
+          case 'updateList':
+            this.updateList(entry.id, entry.updates);
+            break;
+          case 'deleteList':
+            this.deleteList(entry.id, entry.deleteAssociatedTasks);
+            break;
+          case 'createTask':
+            this.createTask(entry.task);
+            break;
+          case 'updateTask':
+            this.updateTask(entry.id, entry.updates);
+            break;
+          case 'deleteTask':
+            this.deleteTask(entry.id);
+            break;
+          case 'createUser':
+            this.createUser(entry.user);
+            break;
+          case 'updateUser':
+            this.updateUser(entry.id, entry.updates);
+            break;
+          case 'deleteUser':
+            this.deleteUser(entry.id);
+            break;
+          case 'putRecord':
+            this.putRecord(entry.collection, entry.record);
+            break;
+          case 'deleteRecord':
+            this.deleteRecord(entry.collection, entry.id);
+            break;
+          case 'clear':
+            this.clear();
+            break;
+        }
+      }
+    } finally {
+      this.replayClock = null;
+    }
+  }
+
+  /**
+   * Append a mutation to the journal before it is applied
+   */
+  private record(operation: JournalOperation): void {
+    if (!this.journal || this.replayClock) {
+      return;
+    }
+
+    this.journal.append(operation);
+
+    if (this.journal.getEntryCount() >= this.compactionThreshold) {
+      void this.compact();
+    }
+  }
+
+  /**
+   * Write a new snapshot and drop the journal entries it covers
+   */
+  private compact(): Promise<void> {
+    const fileStore = this.fileStore;
+    const journal = this.journal;
+    if (!fileStore || !journal || this.isCompacting) {
+      return this.pendingCompaction;
+    }
+
+    this.isCompacting = true;
+    this.pendingCompaction = this.pendingCompaction
+      .then(async () => {
+        if (journal.getEntryCount() === 0) {
+          return;
+        }
+
+        // The snapshot is serialized synchronously, so it matches this sequence number
+        const throughSeq = journal.getLastSeq();
+        await fileStore.saveToFile(this.lists, this.tasks, this.users, this.records, throughSeq);
+        journal.compact(throughSeq);
+      })
+      .catch(error => {
+        // The journal is left untouched, so no changes are lost
+        logger.error('Failed to compact memory store journal', {
+          filePath: fileStore.getFilePath(),
+          journalFilePath: journal.getFilePath(),
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      })
+      .finally(() => {
+        this.isCompacting = false;
+      });
+
+    return this.pendingCompaction;
+  }
+
   // ===============================
   // LIST OPERATIONS
   // ===============================
@@ -85,18 +299,79 @@ export class MemoryStore {
     return this.lists.get(id);
   }
 
+  /**
+   * Get lists by owner ID
+   */
+  getListsByOwnerId(ownerId: string): List[] {
+    this.updateStats();
+    const listIds = this.indexes.listsByOwnerId.get(ownerId);
+    if (!listIds) {
+      return [];
+    }
+
+    return Array.from(listIds)
+      .map(id => this.lists.get(id))
+      .filter((list): list is List => list !== undefined);
+  }
+
+  /**
+   * Query lists with filtering, sorting and pagination
+   */
+  queryLists(query: ListQuery): { lists: List[]; total: number } {
+    const { filters, sort, limit, offset } = query;
+    let lists = filters?.owner_id
+      ? this.getListsByOwnerId(filters.owner_id)
+      : this.getAllLists();
+
+    // Lists shared with the owner are included alongside the owned lists
+    if (filters?.owner_id && filters.shared_list_ids) {
+      const sharedLists = filters.shared_list_ids
+        .map(id => this.lists.get(id))
+        .filter((list): list is List => list !== undefined && list.owner_id !== filters.owner_id);
+      lists = [...lists, ...sharedLists];
+    }
+
+    // Workspace filter, null selects personal lists
+    if (filters?.workspace_id !== undefined) {
+      lists = lists.filter(list => (list.workspace_id ?? null) === filters.workspace_id);
+    }
+
+    // Apply search filter
+    if (filters?.search) {
+      const searchTerm = filters.search.toLowerCase();
+      lists = lists.filter(
+        list =>
+          list.name.toLowerCase().includes(searchTerm) ||
+          (list.description && list.description.toLowerCase().includes(searchTerm))
+      );
+    }
+
+    const total = lists.length;
+
+    // Default sort by created_at descending
+    lists = this.sortLists(lists, sort || { field: 'created_at', order: 'desc' });
+
+    // Apply pagination
+    if (limit !== undefined && offset !== undefined) {
+      lists = lists.slice(offset, offset + limit);
+    }
+
+    return { lists, total };
+  }
+
   /**
    * Create a new list
    */
   createList(list: List): void {
     this.checkCapacity();
     this.updateStats();
+    this.record({ op: 'createList', list });
     
     this.lists.set(list.id, list);
+    this.updateListIndexes(list);
     this.stats.listsCount++;
     
-    logger.debug('List created', { listId: list.id, name: list.name });
-    this.backupToFile();
+    logger.debug('List created', { listId: list.id, name: list.name, ownerId: list.owner_id });
   }
 
   /**
@@ -110,16 +385,19 @@ export class MemoryStore {
       return false;
     }
 
+    this.record({ op: 'updateList', id, updates });
+
     const updatedList: List = {
       ...existingList,
       ...updates,
       id, // Ensure ID cannot be changed
-      updated_at: new Date(),
+      updated_at: this.now(),
     };
 
+    this.removeListFromIndexes(existingList);
     this.lists.set(id, updatedList);
+    this.updateListIndexes(updatedList);
     logger.debug('List updated', { listId: id, updates });
-    this.backupToFile();
     return true;
   }
 
@@ -134,21 +412,26 @@ export class MemoryStore {
       return false;
     }
 
+    this.record({ op: 'deleteList', id, deleteAssociatedTasks });
+
     if (deleteAssociatedTasks) {
-      // Delete all tasks in this list
+      // Delete all tasks in this list (covered by the deleteList journal entry)
       const taskIds = this.indexes.tasksByListId.get(id);
       if (taskIds) {
         for (const taskId of taskIds) {
-          this.deleteTask(taskId);
+          const task = this.tasks.get(taskId);
+          if (task) {
+            this.removeTask(task);
+          }
         }
       }
     }
 
+    this.removeListFromIndexes(list);
     this.lists.delete(id);
     this.stats.listsCount--;
     
     logger.debug('List deleted', { listId: id, deleteAssociatedTasks });
-    this.backupToFile();
     return true;
   }
 
@@ -217,6 +500,51 @@ export class MemoryStore {
       .filter((task): task is Task => task !== undefined);
   }
 
+  /**
+   * Get the direct subtasks of a task
+   */
+  getTasksByParentId(parentId: string): Task[] {
+    this.updateStats();
+    const taskIds = this.indexes.tasksByParentId.get(parentId);
+    if (!taskIds) {
+      return [];
+    }
+
+    return Array.from(taskIds)
+      .map(id => this.tasks.get(id))
+      .filter((task): task is Task => task !== undefined);
+  }
+
+  /**
+   * Get the tasks blocked by a task
+   */
+  getTasksByBlockerId(blockerId: string): Task[] {
+    this.updateStats();
+    const taskIds = this.indexes.tasksByBlockerId.get(blockerId);
+    if (!taskIds) {
+      return [];
+    }
+
+    return Array.from(taskIds)
+      .map(id => this.tasks.get(id))
+      .filter((task): task is Task => task !== undefined);
+  }
+
+  /**
+   * Get tasks carrying a label
+   */
+  getTasksByLabelId(labelId: string): Task[] {
+    this.updateStats();
+    const taskIds = this.indexes.tasksByLabelId.get(labelId);
+    if (!taskIds) {
+      return [];
+    }
+
+    return Array.from(taskIds)
+      .map(id => this.tasks.get(id))
+      .filter((task): task is Task => task !== undefined);
+  }
+
   /**
    * Get tasks by deadline date range
    */
@@ -245,12 +573,52 @@ export class MemoryStore {
     return tasks;
   }
 
+  /**
+   * Query tasks with filtering, sorting and pagination
+   * Candidates come from the most selective index available
+   */
+  queryTasks(query: TaskQuery): { tasks: Task[]; total: number } {
+    const { filters, deadlineRange, sort, limit, offset } = query;
+    let tasks: Task[];
+
+    if (deadlineRange) {
+      tasks = this.getTasksByDeadlineRange(deadlineRange.from, deadlineRange.to);
+    } else if (filters?.list_id) {
+      tasks = this.getTasksByListId(filters.list_id);
+    } else if (filters?.labels) {
+      // Tasks carrying any of the labels, `all` matches are narrowed down by the filters
+      tasks = [...new Set(filters.labels.label_ids.flatMap(labelId => this.getTasksByLabelId(labelId)))];
+    } else if (filters?.status) {
+      tasks = this.getTasksByStatus(filters.status);
+    } else {
+      tasks = this.getAllTasks();
+    }
+
+    // Apply filters
+    if (filters) {
+      tasks = this.applyTaskFilters(tasks, filters);
+    }
+
+    const total = tasks.length;
+
+    // Default sort by created_at descending
+    tasks = this.sortTasks(tasks, sort || { field: 'created_at', order: 'desc' });
+
+    // Apply pagination
+    if (limit !== undefined && offset !== undefined) {
+      tasks = tasks.slice(offset, offset + limit);
+    }
+
+    return { tasks, total };
+  }
+
   /**
    * Create a new task
    */
   createTask(task: Task): void {
     this.checkCapacity();
     this.updateStats();
+    this.record({ op: 'createTask', task });
     
     this.tasks.set(task.id, task);
     this.updateTaskIndexes(task);
@@ -260,7 +628,6 @@ export class MemoryStore {
     this.updateListTaskCount(task.list_id);
     
     logger.debug('Task created', { taskId: task.id, listId: task.list_id, title: task.title });
-    this.backupToFile();
   }
 
   /**
@@ -274,6 +641,8 @@ export class MemoryStore {
       return false;
     }
 
+    this.record({ op: 'updateTask', id, updates });
+
     // Remove from old indexes
     this.removeTaskFromIndexes(existingTask);
 
@@ -281,12 +650,12 @@ export class MemoryStore {
       ...existingTask,
       ...updates,
       id, // Ensure ID cannot be changed
-      updated_at: new Date(),
+      updated_at: this.now(),
     };
 
     // If task is being marked as completed, set completed_at
     if (updates.status === TaskStatus.COMPLETED && existingTask.status !== TaskStatus.COMPLETED) {
-      updatedTask.completed_at = new Date();
+      updatedTask.completed_at = this.now();
     }
 
     // If task is being marked as pending, remove completed_at
@@ -294,6 +663,16 @@ export class MemoryStore {
       delete updatedTask.completed_at;
     }
 
+    // If task is being detached from its parent, remove parent_task_id
+    if (updates.parent_task_id === null) {
+      delete updatedTask.parent_task_id;
+    }
+
+    // If the task no longer carries its series' recurrence rule, remove it
+    if (updates.recurrence === null) {
+      delete updatedTask.recurrence;
+    }
+
     this.tasks.set(id, updatedTask);
     this.updateTaskIndexes(updatedTask);
 
@@ -304,7 +683,6 @@ export class MemoryStore {
     }
     
     logger.debug('Task updated', { taskId: id, updates });
-    this.backupToFile();
     return true;
   }
 
@@ -319,22 +697,351 @@ export class MemoryStore {
       return false;
     }
 
+    this.record({ op: 'deleteTask', id });
+    this.removeTask(task);
+    return true;
+  }
+
+  private removeTask(task: Task): void {
     this.removeTaskFromIndexes(task);
-    this.tasks.delete(id);
+    this.tasks.delete(task.id);
     this.stats.tasksCount--;
     
     // Update list task count
     this.updateListTaskCount(task.list_id);
     
-    logger.debug('Task deleted', { taskId: id, listId: task.list_id });
-    this.backupToFile();
+    logger.debug('Task deleted', { taskId: task.id, listId: task.list_id });
+  }
+
+  // ===============================
+  // USER OPERATIONS
+  // ===============================
+
+  /**
+   * Get all users
+   */
+  getAllUsers(): User[] {
+    this.updateStats();
+    return Array.from(this.users.values());
+  }
+
+  /**
+   * Get user by ID
+   */
+  getUserById(id: string): User | undefined {
+    this.updateStats();
+    return this.users.get(id);
+  }
+
+  /**
+   * Get user by email
+   */
+  getUserByEmail(email: string): User | undefined {
+    this.updateStats();
+    const userId = this.indexes.usersByEmail.get(email);
+    return userId ? this.users.get(userId) : undefined;
+  }
+
+  /**
+   * Create a new user
+   */
+  createUser(user: User): void {
+    this.updateStats();
+    this.record({ op: 'createUser', user });
+
+    this.users.set(user.id, user);
+    this.indexes.usersByEmail.set(user.email, user.id);
+    this.stats.usersCount++;
+
+    logger.debug('User created', { userId: user.id, email: user.email });
+  }
+
+  /**
+   * Update an existing user
+   */
+  updateUser(id: string, updates: Partial<User>): boolean {
+    this.updateStats();
+
+    const existingUser = this.users.get(id);
+    if (!existingUser) {
+      return false;
+    }
+
+    this.record({ op: 'updateUser', id, updates });
+
+    const updatedUser: User = {
+      ...existingUser,
+      ...updates,
+      id, // Ensure ID cannot be changed
+      updated_at: this.now(),
+    };
+
+    this.indexes.usersByEmail.delete(existingUser.email);
+    this.users.set(id, updatedUser);
+    this.indexes.usersByEmail.set(updatedUser.email, id);
+
+    logger.debug('User updated', { userId: id });
+    return true;
+  }
+
+  /**
+   * Delete a user
+   */
+  deleteUser(id: string): boolean {
+    this.updateStats();
+
+    const user = this.users.get(id);
+    if (!user) {
+      return false;
+    }
+
+    this.record({ op: 'deleteUser', id });
+
+    this.indexes.usersByEmail.delete(user.email);
+    this.users.delete(id);
+    this.stats.usersCount--;
+
+    logger.debug('User deleted', { userId: id });
+    return true;
+  }
+
+  // ===============================
+  // RECORD OPERATIONS
+  // ===============================
+
+  /**
+   * Get all records of a collection
+   */
+  getRecords<T extends StoredRecord>(collection: string): T[] {
+    this.updateStats();
+    return Array.from(this.records.get(collection)?.values() || []) as T[];
+  }
+
+  /**
+   * Get a record by collection and ID
+   */
+  getRecord<T extends StoredRecord>(collection: string, id: string): T | undefined {
+    this.updateStats();
+    return this.records.get(collection)?.get(id) as T | undefined;
+  }
+
+  /**
+   * Create or replace a record
+   */
+  putRecord<T extends StoredRecord>(collection: string, record: T): void {
+    this.updateStats();
+    this.record({ op: 'putRecord', collection, record });
+
+    if (!this.records.has(collection)) {
+      this.records.set(collection, new Map());
+    }
+    this.records.get(collection)!.set(record.id, record);
+
+    logger.debug('Record stored', { collection, recordId: record.id });
+  }
+
+  /**
+   * Delete a record
+   */
+  deleteRecord(collection: string, id: string): boolean {
+    this.updateStats();
+
+    const items = this.records.get(collection);
+    if (!items || !items.has(id)) {
+      return false;
+    }
+
+    this.record({ op: 'deleteRecord', collection, id });
+
+    items.delete(id);
+    if (items.size === 0) {
+      this.records.delete(collection);
+    }
+
+    logger.debug('Record deleted', { collection, recordId: id });
     return true;
   }
 
+  // ===============================
+  // QUERY HELPERS
+  // ===============================
+
+  /**
+   * Apply filters to tasks array
+   */
+  private applyTaskFilters(tasks: Task[], filters: Partial<TaskFilterParams>): Task[] {
+    // Resolve the owner's lists once, tasks inherit ownership from their list
+    const ownedListIds = filters.owner_id
+      ? new Set([
+        ...(this.indexes.listsByOwnerId.get(filters.owner_id) || []),
+        ...(filters.shared_list_ids || []),
+      ])
+      : undefined;
+
+    return tasks.filter(task => {
+      // List ID filter
+      if (filters.list_id && task.list_id !== filters.list_id) {
+        return false;
+      }
+
+      // Owner filter
+      if (ownedListIds && !ownedListIds.has(task.list_id)) {
+        return false;
+      }
+
+      // Workspace filter, tasks belong to the workspace of their list
+      if (filters.workspace_id !== undefined
+        && (this.lists.get(task.list_id)?.workspace_id ?? null) !== filters.workspace_id) {
+        return false;
+      }
+
+      // Status filter
+      if (filters.status && task.status !== filters.status) {
+        return false;
+      }
+
+      // Workflow state exclusion
+      if (filters.exclude_states && task.state && filters.exclude_states.includes(task.state)) {
+        return false;
+      }
+
+      // Priority filter
+      if (filters.priority && task.priority !== filters.priority) {
+        return false;
+      }
+
+      // Label filter
+      if (filters.labels) {
+        const taskLabelIds = task.label_ids || [];
+        const matches = filters.labels.match === 'all'
+          ? filters.labels.label_ids.every(labelId => taskLabelIds.includes(labelId))
+          : filters.labels.label_ids.some(labelId => taskLabelIds.includes(labelId));
+
+        if (!matches) {
+          return false;
+        }
+      }
+
+      // Deadline range filter
+      if (filters.deadline_from && task.deadline) {
+        const from = new Date(filters.deadline_from);
+        if (task.deadline < from) {
+          return false;
+        }
+      }
+
+      if (filters.deadline_to && task.deadline) {
+        const to = new Date(filters.deadline_to);
+        if (task.deadline > to) {
+          return false;
+        }
+      }
+
+      // Search filter (title and description)
+      if (filters.search) {
+        const searchTerm = filters.search.toLowerCase();
+        const titleMatch = task.title.toLowerCase().includes(searchTerm);
+        const descriptionMatch = task.description?.toLowerCase().includes(searchTerm) || false;
+        
+        if (!titleMatch && !descriptionMatch) {
+          return false;
+        }
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Sort tasks based on sort parameters
+   */
+  private sortTasks(tasks: Task[], sort: SortParams): Task[] {
+    return tasks.sort((a, b) => {
+      let comparison = 0;
+
+      switch (sort.field) {
+        case 'title':
+          comparison = a.title.localeCompare(b.title);
+          break;
+        case 'created_at':
+          comparison = a.created_at.getTime() - b.created_at.getTime();
+          break;
+        case 'updated_at':
+          comparison = a.updated_at.getTime() - b.updated_at.getTime();
+          break;
+        case 'deadline':
+          // Handle tasks without deadlines (put them at the end)
+          if (!a.deadline && !b.deadline) comparison = 0;
+          else if (!a.deadline) comparison = 1;
+          else if (!b.deadline) comparison = -1;
+          else comparison = a.deadline.getTime() - b.deadline.getTime();
+          break;
+        case 'priority':
+          // Priority order: HIGH > MEDIUM > LOW
+          const priorityOrder = { [TaskPriority.HIGH]: 3, [TaskPriority.MEDIUM]: 2, [TaskPriority.LOW]: 1 };
+          comparison = priorityOrder[a.priority] - priorityOrder[b.priority];
+          break;
+        case 'status':
+          comparison = a.status.localeCompare(b.status);
+          break;
+        default:
+          comparison = a.created_at.getTime() - b.created_at.getTime();
+      }
+
+      return sort.order === 'desc' ? -comparison : comparison;
+    });
+  }
+
+  /**
+   * Sort lists based on sort parameters
+   */
+  private sortLists(lists: List[], sort: SortParams): List[] {
+    return lists.sort((a, b) => {
+      let comparison = 0;
+
+      switch (sort.field) {
+        case 'name':
+          comparison = a.name.localeCompare(b.name);
+          break;
+        case 'created_at':
+          comparison = a.created_at.getTime() - b.created_at.getTime();
+          break;
+        case 'updated_at':
+          comparison = a.updated_at.getTime() - b.updated_at.getTime();
+          break;
+        case 'tasks_count':
+          comparison = a.tasks_count - b.tasks_count;
+          break;
+        default:
+          comparison = a.created_at.getTime() - b.created_at.getTime();
+      }
+
+      return sort.order === 'desc' ? -comparison : comparison;
+    });
+  }
+
   // ===============================
   // INDEX MANAGEMENT
   // ===============================
 
+  private updateListIndexes(list: List): void {
+    // Index by owner ID
+    if (!this.indexes.listsByOwnerId.has(list.owner_id)) {
+      this.indexes.listsByOwnerId.set(list.owner_id, new Set());
+    }
+    this.indexes.listsByOwnerId.get(list.owner_id)!.add(list.id);
+  }
+
+  private removeListFromIndexes(list: List): void {
+    const ownerLists = this.indexes.listsByOwnerId.get(list.owner_id);
+    if (ownerLists) {
+      ownerLists.delete(list.id);
+      if (ownerLists.size === 0) {
+        this.indexes.listsByOwnerId.delete(list.owner_id);
+      }
+    }
+  }
+
   private updateTaskIndexes(task: Task): void {
     // Index by list ID
     if (!this.indexes.tasksByListId.has(task.list_id)) {
@@ -354,6 +1061,30 @@ export class MemoryStore {
     }
     this.indexes.tasksByPriority.get(task.priority)!.add(task.id);
 
+    // Index by label
+    for (const labelId of task.label_ids || []) {
+      if (!this.indexes.tasksByLabelId.has(labelId)) {
+        this.indexes.tasksByLabelId.set(labelId, new Set());
+      }
+      this.indexes.tasksByLabelId.get(labelId)!.add(task.id);
+    }
+
+    // Index by parent task
+    if (task.parent_task_id) {
+      if (!this.indexes.tasksByParentId.has(task.parent_task_id)) {
+        this.indexes.tasksByParentId.set(task.parent_task_id, new Set());
+      }
+      this.indexes.tasksByParentId.get(task.parent_task_id)!.add(task.id);
+    }
+
+    // Index by blocker
+    for (const blockerId of task.blocked_by || []) {
+      if (!this.indexes.tasksByBlockerId.has(blockerId)) {
+        this.indexes.tasksByBlockerId.set(blockerId, new Set());
+      }
+      this.indexes.tasksByBlockerId.get(blockerId)!.add(task.id);
+    }
+
     // Index by deadline date
     if (task.deadline) {
       const dateKey = this.formatDateKey(task.deadline);
@@ -392,6 +1123,39 @@ export class MemoryStore {
       }
     }
 
+    // Remove from label index
+    for (const labelId of task.label_ids || []) {
+      const labelTasks = this.indexes.tasksByLabelId.get(labelId);
+      if (labelTasks) {
+        labelTasks.delete(task.id);
+        if (labelTasks.size === 0) {
+          this.indexes.tasksByLabelId.delete(labelId);
+        }
+      }
+    }
+
+    // Remove from parent task index
+    if (task.parent_task_id) {
+      const parentTasks = this.indexes.tasksByParentId.get(task.parent_task_id);
+      if (parentTasks) {
+        parentTasks.delete(task.id);
+        if (parentTasks.size === 0) {
+          this.indexes.tasksByParentId.delete(task.parent_task_id);
+        }
+      }
+    }
+
+    // Remove from blocker index
+    for (const blockerId of task.blocked_by || []) {
+      const blockedTasks = this.indexes.tasksByBlockerId.get(blockerId);
+      if (blockedTasks) {
+        blockedTasks.delete(task.id);
+        if (blockedTasks.size === 0) {
+          this.indexes.tasksByBlockerId.delete(blockerId);
+        }
+      }
+    }
+
     // Remove from deadline index
     if (task.deadline) {
       const dateKey = this.formatDateKey(task.deadline);
@@ -410,7 +1174,7 @@ export class MemoryStore {
     if (list) {
       const taskIds = this.indexes.tasksByListId.get(listId);
       list.tasks_count = taskIds ? taskIds.size : 0;
-      list.updated_at = new Date();
+      list.updated_at = this.now();
     }
   }
 
@@ -418,6 +1182,13 @@ export class MemoryStore {
   // UTILITY METHODS
   // ===============================
 
+  /**
+   * Current time, or the original mutation time while replaying the journal
+   */
+  private now(): Date {
+    return this.replayClock ? new Date(this.replayClock) : new Date();
+  }
+
   private formatDateKey(date: Date): string {
     return date.toISOString().split('T')?.[0] || ''; // YYYY-MM-DD format
   }
@@ -456,29 +1227,32 @@ export class MemoryStore {
       usage += JSON.stringify(task).length * 2; // Approximate character size
     }
     
+    // Estimate users memory
+    for (const user of this.users.values()) {
+      usage += JSON.stringify(user).length * 2; // Approximate character size
+    }
+    
+    // Estimate records memory
+    for (const items of this.records.values()) {
+      for (const record of items.values()) {
+        usage += JSON.stringify(record).length * 2; // Approximate character size
+      }
+    }
+    
     // Add index overhead (rough estimation)
+    usage += this.indexes.usersByEmail.size * 50;
+    usage += this.indexes.listsByOwnerId.size * 50;
     usage += this.indexes.tasksByListId.size * 50;
     usage += this.indexes.tasksByStatus.size * 50;
     usage += this.indexes.tasksByPriority.size * 50;
+    usage += this.indexes.tasksByLabelId.size * 50;
+    usage += this.indexes.tasksByParentId.size * 50;
+    usage += this.indexes.tasksByBlockerId.size * 50;
     usage += this.indexes.tasksByDeadlineDate.size * 50;
     
     return usage;
   }
 
-  private backupToFile(): void {
-    if (!this.enableFileBackup || !this.backupFilePath) {
-      return;
-    }
-
-    // This would be implemented with actual file I/O
-    // For now, just log the intent
-    logger.debug('Backing up data to file', {
-      filePath: this.backupFilePath,
-      listsCount: this.lists.size,
-      tasksCount: this.tasks.size,
-    });
-  }
-
   // ===============================
   // MONITORING AND ADMIN
   // ===============================
@@ -486,7 +1260,7 @@ export class MemoryStore {
   /**
    * Get memory store statistics
    */
-  getStats(): MemoryStoreStats {
+  getStats(): StorageStats {
     this.updateStats();
     return { ...this.stats };
   }
@@ -495,15 +1269,24 @@ export class MemoryStore {
    * Clear all data (use with caution)
    */
   clear(): void {
+    this.record({ op: 'clear' });
     this.lists.clear();
     this.tasks.clear();
+    this.users.clear();
+    this.records.clear();
+    this.indexes.usersByEmail.clear();
+    this.indexes.listsByOwnerId.clear();
     this.indexes.tasksByListId.clear();
     this.indexes.tasksByStatus.clear();
     this.indexes.tasksByPriority.clear();
+    this.indexes.tasksByLabelId.clear();
+    this.indexes.tasksByParentId.clear();
+    this.indexes.tasksByBlockerId.clear();
     this.indexes.tasksByDeadlineDate.clear();
     
     this.stats.listsCount = 0;
     this.stats.tasksCount = 0;
+    this.stats.usersCount = 0;
     this.stats.operationsCount = 0;
     
     logger.warn('Memory store cleared');
@@ -514,6 +1297,10 @@ export class MemoryStore {
    */
   getIndexInfo(): Record<string, any> {
     return {
+      usersByEmail: this.indexes.usersByEmail.size,
+      listsByOwnerId: Object.fromEntries(
+        Array.from(this.indexes.listsByOwnerId.entries()).map(([key, value]) => [key, value.size])
+      ),
       tasksByListId: Object.fromEntries(
         Array.from(this.indexes.tasksByListId.entries()).map(([key, value]) => [key, value.size])
       ),
@@ -523,6 +1310,15 @@ export class MemoryStore {
       tasksByPriority: Object.fromEntries(
         Array.from(this.indexes.tasksByPriority.entries()).map(([key, value]) => [key, value.size])
       ),
+      tasksByLabelId: Object.fromEntries(
+        Array.from(this.indexes.tasksByLabelId.entries()).map(([key, value]) => [key, value.size])
+      ),
+      tasksByParentId: Object.fromEntries(
+        Array.from(this.indexes.tasksByParentId.entries()).map(([key, value]) => [key, value.size])
+      ),
+      tasksByBlockerId: Object.fromEntries(
+        Array.from(this.indexes.tasksByBlockerId.entries()).map(([key, value]) => [key, value.size])
+      ),
       tasksByDeadlineDate: Object.fromEntries(
         Array.from(this.indexes.tasksByDeadlineDate.entries()).map(([key, value]) => [key, value.size])
       ),
@@ -530,11 +1326,4 @@ export class MemoryStore {
   }
 }
 
-// Create and export singleton instance
-const memoryStore = new MemoryStore(
-  Number(process.env.MEMORY_STORE_MAX_SIZE) || 10000,
-  process.env.ENABLE_FILE_PERSISTENCE === 'true',
-  process.env.PERSISTENCE_FILE_PATH
-);
-
-export default memoryStore;
+export default MemoryStore;
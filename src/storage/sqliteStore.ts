@@ -0,0 +1,818 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { List, Task, User, TaskStatus, TaskPriority, TaskFilterParams, SortParams } from '../models';
+import { logger } from '../utils/logger';
+import { dateReplacer, dateReviver } from './fileStore';
+import { StorageBackend, StorageStats, StoredRecord, TaskQuery, ListQuery } from './storageBackend';
+
+/**
+ * Row shape shared by the lists, tasks and users tables
+ * Indexed columns are kept for querying, the full entity lives in `data`
+ */
+interface EntityRow {
+  data: string;
+}
+
+/**
+ * Embedded SQLite storage adapter
+ * Filtering, sorting and pagination are executed in SQL
+ */
+export class SqliteStore implements StorageBackend {
+  private db: Database.Database;
+  private filePath: string;
+  private lastAccessed: Date = new Date();
+  private operationsCount: number = 0;
+
+  constructor(filePath: string = './data/todo.db') {
+    this.filePath = filePath;
+    this.ensureDirectoryExists();
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.createSchema();
+
+    logger.info('SqliteStore initialized', { filePath: this.filePath });
+  }
+
+  // ===============================
+  // LIFECYCLE
+  // ===============================
+
+  /**
+   * SQLite is durable on every write, nothing needs to be loaded
+   */
+  async initialize(): Promise<void> {
+    const stats = this.getStats();
+
+    logger.info('SqliteStore opened database', {
+      filePath: this.filePath,
+      listsCount: stats.listsCount,
+      tasksCount: stats.tasksCount,
+      usersCount: stats.usersCount,
+    });
+  }
+
+  /**
+   * Checkpoint the write-ahead log into the main database file
+   */
+  async flush(): Promise<void> {
+    this.db.pragma('wal_checkpoint(TRUNCATE)');
+  }
+
+  // ===============================
+  // LIST OPERATIONS
+  // ===============================
+
+  /**
+   * Get all lists
+   */
+  getAllLists(): List[] {
+    this.updateStats();
+    const rows = this.db.prepare('SELECT data FROM lists').all() as EntityRow[];
+    return rows.map(row => this.deserialize<List>(row));
+  }
+
+  /**
+   * Get list by ID
+   */
+  getListById(id: string): List | undefined {
+    this.updateStats();
+    const row = this.db.prepare('SELECT data FROM lists WHERE id = ?').get(id) as EntityRow | undefined;
+    return row ? this.deserialize<List>(row) : undefined;
+  }
+
+  /**
+   * Get lists by owner ID
+   */
+  getListsByOwnerId(ownerId: string): List[] {
+    this.updateStats();
+    const rows = this.db.prepare('SELECT data FROM lists WHERE owner_id = ?').all(ownerId) as EntityRow[];
+    return rows.map(row => this.deserialize<List>(row));
+  }
+
+  /**
+   * Query lists with filtering, sorting and pagination
+   */
+  queryLists(query: ListQuery): { lists: List[]; total: number } {
+    this.updateStats();
+    const { filters, sort, limit, offset } = query;
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters?.owner_id) {
+      // Lists shared with the owner are included alongside the owned lists
+      const sharedIds = filters.shared_list_ids || [];
+      where.push(sharedIds.length > 0
+        ? `(owner_id = ? OR id IN (${sharedIds.map(() => '?').join(', ')}))`
+        : 'owner_id = ?');
+      params.push(filters.owner_id, ...sharedIds);
+    }
+
+    if (filters?.workspace_id !== undefined) {
+      // Workspace filter, null selects personal lists
+      where.push(filters.workspace_id === null
+        ? "json_extract(data, '$.workspace_id') IS NULL"
+        : "json_extract(data, '$.workspace_id') = ?");
+      params.push(...(filters.workspace_id === null ? [] : [filters.workspace_id]));
+    }
+
+    if (filters?.search) {
+      const pattern = this.toLikePattern(filters.search);
+      where.push("(name LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')");
+      params.push(pattern, pattern);
+    }
+
+    const whereClause = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    const { count } = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM lists ${whereClause}`)
+      .get(...params) as { count: number };
+
+    // Default sort by created_at descending
+    const orderBy = this.getListOrderBy(sort || { field: 'created_at', order: 'desc' });
+    const pagination = limit !== undefined && offset !== undefined ? 'LIMIT ? OFFSET ?' : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM lists ${whereClause} ORDER BY ${orderBy} ${pagination}`)
+      .all(...params, ...(pagination ? [limit, offset] : [])) as EntityRow[];
+
+    return { lists: rows.map(row => this.deserialize<List>(row)), total: count };
+  }
+
+  /**
+   * Create a new list
+   */
+  createList(list: List): void {
+    this.updateStats();
+    this.writeList(list);
+    logger.debug('List created', { listId: list.id, name: list.name, ownerId: list.owner_id });
+  }
+
+  /**
+   * Update an existing list
+   */
+  updateList(id: string, updates: Partial<List>): boolean {
+    this.updateStats();
+
+    const existingList = this.getListById(id);
+    if (!existingList) {
+      return false;
+    }
+
+    this.writeList({
+      ...existingList,
+      ...updates,
+      id, // Ensure ID cannot be changed
+      updated_at: new Date(),
+    });
+
+    logger.debug('List updated', { listId: id, updates });
+    return true;
+  }
+
+  /**
+   * Delete a list and optionally handle its tasks
+   */
+  deleteList(id: string, deleteAssociatedTasks: boolean = true): boolean {
+    this.updateStats();
+
+    const deleteListTransaction = this.db.transaction(() => {
+      if (deleteAssociatedTasks) {
+        this.db.prepare('DELETE FROM tasks WHERE list_id = ?').run(id);
+      }
+      return this.db.prepare('DELETE FROM lists WHERE id = ?').run(id).changes > 0;
+    });
+
+    const deleted = deleteListTransaction();
+    if (deleted) {
+      logger.debug('List deleted', { listId: id, deleteAssociatedTasks });
+    }
+    return deleted;
+  }
+
+  // ===============================
+  // TASK OPERATIONS
+  // ===============================
+
+  /**
+   * Get all tasks
+   */
+  getAllTasks(): Task[] {
+    this.updateStats();
+    const rows = this.db.prepare('SELECT data FROM tasks').all() as EntityRow[];
+    return rows.map(row => this.deserialize<Task>(row));
+  }
+
+  /**
+   * Get task by ID
+   */
+  getTaskById(id: string): Task | undefined {
+    this.updateStats();
+    const row = this.db.prepare('SELECT data FROM tasks WHERE id = ?').get(id) as EntityRow | undefined;
+    return row ? this.deserialize<Task>(row) : undefined;
+  }
+
+  /**
+   * Get tasks by list ID
+   */
+  getTasksByListId(listId: string): Task[] {
+    return this.queryTasks({ filters: { list_id: listId } }).tasks;
+  }
+
+  /**
+   * Get tasks by status
+   */
+  getTasksByStatus(status: TaskStatus): Task[] {
+    return this.queryTasks({ filters: { status } }).tasks;
+  }
+
+  /**
+   * Get tasks by priority
+   */
+  getTasksByPriority(priority: TaskPriority): Task[] {
+    return this.queryTasks({ filters: { priority } }).tasks;
+  }
+
+  /**
+   * Get the direct subtasks of a task
+   */
+  getTasksByParentId(parentId: string): Task[] {
+    this.updateStats();
+    const rows = this.db
+      .prepare("SELECT data FROM tasks WHERE json_extract(data, '$.parent_task_id') = ?")
+      .all(parentId) as EntityRow[];
+    return rows.map(row => this.deserialize<Task>(row));
+  }
+
+  /**
+   * Get the tasks blocked by a task
+   */
+  getTasksByBlockerId(blockerId: string): Task[] {
+    this.updateStats();
+    const rows = this.db
+      .prepare("SELECT data FROM tasks WHERE EXISTS (SELECT 1 FROM json_each(data, '$.blocked_by') WHERE value = ?)")
+      .all(blockerId) as EntityRow[];
+    return rows.map(row => this.deserialize<Task>(row));
+  }
+
+  /**
+   * Get tasks carrying a label
+   */
+  getTasksByLabelId(labelId: string): Task[] {
+    return this.queryTasks({ filters: { labels: { match: 'any', label_ids: [labelId] } } }).tasks;
+  }
+
+  /**
+   * Get tasks by deadline date range
+   */
+  getTasksByDeadlineRange(fromDate: Date, toDate: Date): Task[] {
+    return this.queryTasks({ deadlineRange: { from: fromDate, to: toDate } }).tasks;
+  }
+
+  /**
+   * Query tasks with filtering, sorting and pagination
+   */
+  queryTasks(query: TaskQuery): { tasks: Task[]; total: number } {
+    this.updateStats();
+    const { filters, deadlineRange, sort, limit, offset } = query;
+    const { whereClause, params } = this.buildTaskWhereClause(filters || {}, deadlineRange);
+
+    const { count } = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM tasks ${whereClause}`)
+      .get(...params) as { count: number };
+
+    // Default sort by created_at descending
+    const orderBy = this.getTaskOrderBy(sort || { field: 'created_at', order: 'desc' });
+    const pagination = limit !== undefined && offset !== undefined ? 'LIMIT ? OFFSET ?' : '';
+    const rows = this.db
+      .prepare(`SELECT data FROM tasks ${whereClause} ORDER BY ${orderBy} ${pagination}`)
+      .all(...params, ...(pagination ? [limit, offset] : [])) as EntityRow[];
+
+    return { tasks: rows.map(row => this.deserialize<Task>(row)), total: count };
+  }
+
+  /**
+   * Create a new task
+   */
+  createTask(task: Task): void {
+    this.updateStats();
+
+    this.db.transaction(() => {
+      this.writeTask(task);
+      this.updateListTaskCount(task.list_id);
+    })();
+
+    logger.debug('Task created', { taskId: task.id, listId: task.list_id, title: task.title });
+  }
+
+  /**
+   * Update an existing task
+   */
+  updateTask(id: string, updates: Partial<Task>): boolean {
+    this.updateStats();
+
+    const existingTask = this.getTaskById(id);
+    if (!existingTask) {
+      return false;
+    }
+
+    const updatedTask: Task = {
+      ...existingTask,
+      ...updates,
+      id, // Ensure ID cannot be changed
+      updated_at: new Date(),
+    };
+
+    // If task is being marked as completed, set completed_at
+    if (updates.status === TaskStatus.COMPLETED && existingTask.status !== TaskStatus.COMPLETED) {
+      updatedTask.completed_at = new Date();
+    }
+
+    // If task is being marked as pending, remove completed_at
+    if (updates.status === TaskStatus.PENDING) {
+      delete updatedTask.completed_at;
+    }
+
+    // If task is being detached from its parent, remove parent_task_id
+    if (updates.parent_task_id === null) {
+      delete updatedTask.parent_task_id;
+    }
+
+    // If the task no longer carries its series' recurrence rule, remove it
+    if (updates.recurrence === null) {
+      delete updatedTask.recurrence;
+    }
+
+    this.db.transaction(() => {
+      this.writeTask(updatedTask);
+
+      // Update list task counts if list changed
+      if (updates.list_id && updates.list_id !== existingTask.list_id) {
+        this.updateListTaskCount(existingTask.list_id);
+        this.updateListTaskCount(updates.list_id);
+      }
+    })();
+
+    logger.debug('Task updated', { taskId: id, updates });
+    return true;
+  }
+
+  /**
+   * Delete a task
+   */
+  deleteTask(id: string): boolean {
+    this.updateStats();
+
+    const task = this.getTaskById(id);
+    if (!task) {
+      return false;
+    }
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM tasks WHERE id = ?').run(id);
+      this.updateListTaskCount(task.list_id);
+    })();
+
+    logger.debug('Task deleted', { taskId: id, listId: task.list_id });
+    return true;
+  }
+
+  // ===============================
+  // USER OPERATIONS
+  // ===============================
+
+  /**
+   * Get all users
+   */
+  getAllUsers(): User[] {
+    this.updateStats();
+    const rows = this.db.prepare('SELECT data FROM users').all() as EntityRow[];
+    return rows.map(row => this.deserialize<User>(row));
+  }
+
+  /**
+   * Get user by ID
+   */
+  getUserById(id: string): User | undefined {
+    this.updateStats();
+    const row = this.db.prepare('SELECT data FROM users WHERE id = ?').get(id) as EntityRow | undefined;
+    return row ? this.deserialize<User>(row) : undefined;
+  }
+
+  /**
+   * Get user by email
+   */
+  getUserByEmail(email: string): User | undefined {
+    this.updateStats();
+    const row = this.db.prepare('SELECT data FROM users WHERE email = ?').get(email) as EntityRow | undefined;
+    return row ? this.deserialize<User>(row) : undefined;
+  }
+
+  /**
+   * Create a new user
+   */
+  createUser(user: User): void {
+    this.updateStats();
+    this.writeUser(user);
+    logger.debug('User created', { userId: user.id, email: user.email });
+  }
+
+  /**
+   * Update an existing user
+   */
+  updateUser(id: string, updates: Partial<User>): boolean {
+    this.updateStats();
+
+    const existingUser = this.getUserById(id);
+    if (!existingUser) {
+      return false;
+    }
+
+    this.writeUser({
+      ...existingUser,
+      ...updates,
+      id, // Ensure ID cannot be changed
+      updated_at: new Date(),
+    });
+
+    logger.debug('User updated', { userId: id });
+    return true;
+  }
+
+  /**
+   * Delete a user
+   */
+  deleteUser(id: string): boolean {
+    this.updateStats();
+
+    const deleted = this.db.prepare('DELETE FROM users WHERE id = ?').run(id).changes > 0;
+    if (deleted) {
+      logger.debug('User deleted', { userId: id });
+    }
+    return deleted;
+  }
+
+  // ===============================
+  // RECORD OPERATIONS
+  // ===============================
+
+  /**
+   * Get all records of a collection
+   */
+  getRecords<T extends StoredRecord>(collection: string): T[] {
+    this.updateStats();
+    const rows = this.db.prepare('SELECT data FROM records WHERE collection = ?').all(collection) as EntityRow[];
+    return rows.map(row => this.deserialize<T>(row));
+  }
+
+  /**
+   * Get a record by collection and ID
+   */
+  getRecord<T extends StoredRecord>(collection: string, id: string): T | undefined {
+    this.updateStats();
+    const row = this.db
+      .prepare('SELECT data FROM records WHERE collection = ? AND id = ?')
+      .get(collection, id) as EntityRow | undefined;
+    return row ? this.deserialize<T>(row) : undefined;
+  }
+
+  /**
+   * Create or replace a record
+   */
+  putRecord<T extends StoredRecord>(collection: string, record: T): void {
+    this.updateStats();
+    this.db
+      .prepare('INSERT OR REPLACE INTO records (collection, id, data) VALUES (?, ?, ?)')
+      .run(collection, record.id, this.serialize(record));
+    logger.debug('Record stored', { collection, recordId: record.id });
+  }
+
+  /**
+   * Delete a record
+   */
+  deleteRecord(collection: string, id: string): boolean {
+    this.updateStats();
+
+    const deleted = this.db
+      .prepare('DELETE FROM records WHERE collection = ? AND id = ?')
+      .run(collection, id).changes > 0;
+    if (deleted) {
+      logger.debug('Record deleted', { collection, recordId: id });
+    }
+    return deleted;
+  }
+
+  // ===============================
+  // SQL HELPERS
+  // ===============================
+
+  private createSchema(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS lists (
+        id TEXT PRIMARY KEY,
+        owner_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        tasks_count INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_lists_owner_id ON lists (owner_id);
+
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        list_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        status TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        deadline TEXT,
+        deadline_date TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_tasks_list_id ON tasks (list_id);
+      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks (status);
+      CREATE INDEX IF NOT EXISTS idx_tasks_priority ON tasks (priority);
+      CREATE INDEX IF NOT EXISTS idx_tasks_deadline_date ON tasks (deadline_date);
+      CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks (json_extract(data, '$.parent_task_id'));
+
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        is_active INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      );
+    `);
+  }
+
+  private writeList(list: List): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO lists (id, owner_id, name, description, tasks_count, created_at, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      list.id,
+      list.owner_id,
+      list.name,
+      list.description ?? null,
+      list.tasks_count,
+      list.created_at.toISOString(),
+      list.updated_at.toISOString(),
+      this.serialize(list)
+    );
+  }
+
+  private writeTask(task: Task): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO tasks
+        (id, list_id, title, description, status, priority, deadline, deadline_date, created_at, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      task.id,
+      task.list_id,
+      task.title,
+      task.description ?? null,
+      task.status,
+      task.priority,
+      task.deadline ? task.deadline.toISOString() : null,
+      task.deadline ? this.formatDateKey(task.deadline) : null,
+      task.created_at.toISOString(),
+      task.updated_at.toISOString(),
+      this.serialize(task)
+    );
+  }
+
+  private writeUser(user: User): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO users (id, email, role, is_active, created_at, updated_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      user.id,
+      user.email,
+      user.role,
+      user.is_active ? 1 : 0,
+      user.created_at.toISOString(),
+      user.updated_at.toISOString(),
+      this.serialize(user)
+    );
+  }
+
+  private updateListTaskCount(listId: string): void {
+    const list = this.getListById(listId);
+    if (list) {
+      const { count } = this.db
+        .prepare('SELECT COUNT(*) AS count FROM tasks WHERE list_id = ?')
+        .get(listId) as { count: number };
+      this.writeList({ ...list, tasks_count: count, updated_at: new Date() });
+    }
+  }
+
+  /**
+   * Translate task filters into a SQL WHERE clause
+   * Mirrors the in-memory filters: deadline bounds only apply to tasks that have a deadline
+   */
+  private buildTaskWhereClause(
+    filters: Partial<TaskFilterParams>,
+    deadlineRange?: { from: Date; to: Date }
+  ): { whereClause: string; params: unknown[] } {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (deadlineRange) {
+      where.push('deadline_date >= ? AND deadline_date <= ?');
+      params.push(this.formatDateKey(deadlineRange.from), this.formatDateKey(deadlineRange.to));
+    }
+
+    if (filters.list_id) {
+      where.push('list_id = ?');
+      params.push(filters.list_id);
+    }
+
+    if (filters.owner_id) {
+      // Tasks inherit ownership from their list, shared lists are included alongside the owned lists
+      const sharedIds = filters.shared_list_ids || [];
+      where.push(sharedIds.length > 0
+        ? `(list_id IN (SELECT id FROM lists WHERE owner_id = ?) OR list_id IN (${sharedIds.map(() => '?').join(', ')}))`
+        : 'list_id IN (SELECT id FROM lists WHERE owner_id = ?)');
+      params.push(filters.owner_id, ...sharedIds);
+    }
+
+    if (filters.workspace_id !== undefined) {
+      // Tasks belong to the workspace of their list
+      where.push(filters.workspace_id === null
+        ? "list_id IN (SELECT id FROM lists WHERE json_extract(data, '$.workspace_id') IS NULL)"
+        : "list_id IN (SELECT id FROM lists WHERE json_extract(data, '$.workspace_id') = ?)");
+      params.push(...(filters.workspace_id === null ? [] : [filters.workspace_id]));
+    }
+
+    if (filters.status) {
+      where.push('status = ?');
+      params.push(filters.status);
+    }
+
+    if (filters.exclude_states && filters.exclude_states.length > 0) {
+      // Tasks stored before workflow states have no state and are never excluded
+      const placeholders = filters.exclude_states.map(() => '?').join(', ');
+      where.push(`COALESCE(json_extract(data, '$.state'), '') NOT IN (${placeholders})`);
+      params.push(...filters.exclude_states);
+    }
+
+    if (filters.priority) {
+      where.push('priority = ?');
+      params.push(filters.priority);
+    }
+
+    if (filters.labels) {
+      // Labels are kept in the task data, `all` requires every distinct label to be present
+      const labelIds = [...new Set(filters.labels.label_ids)];
+      const placeholders = labelIds.map(() => '?').join(', ');
+      where.push(filters.labels.match === 'all'
+        ? `(SELECT COUNT(DISTINCT value) FROM json_each(data, '$.label_ids') WHERE value IN (${placeholders})) = ?`
+        : `EXISTS (SELECT 1 FROM json_each(data, '$.label_ids') WHERE value IN (${placeholders}))`);
+      params.push(...labelIds, ...(filters.labels.match === 'all' ? [labelIds.length] : []));
+    }
+
+    if (filters.deadline_from) {
+      where.push('(deadline IS NULL OR deadline >= ?)');
+      params.push(new Date(filters.deadline_from).toISOString());
+    }
+
+    if (filters.deadline_to) {
+      where.push('(deadline IS NULL OR deadline <= ?)');
+      params.push(new Date(filters.deadline_to).toISOString());
+    }
+
+    if (filters.search) {
+      const pattern = this.toLikePattern(filters.search);
+      where.push("(title LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')");
+      params.push(pattern, pattern);
+    }
+
+    return {
+      whereClause: where.length > 0 ? `WHERE ${where.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private getTaskOrderBy(sort: SortParams): string {
+    const direction = sort.order === 'desc' ? 'DESC' : 'ASC';
+
+    switch (sort.field) {
+      case 'title':
+        return `title COLLATE NOCASE ${direction}`;
+      case 'updated_at':
+        return `updated_at ${direction}`;
+      case 'deadline':
+        // Tasks without deadlines go to the end (or the start when descending)
+        return `deadline IS NULL ${direction}, deadline ${direction}`;
+      case 'priority':
+        // Priority order: HIGH > MEDIUM > LOW
+        return `CASE priority WHEN '${TaskPriority.HIGH}' THEN 3 WHEN '${TaskPriority.MEDIUM}' THEN 2 ELSE 1 END ${direction}`;
+      case 'status':
+        return `status ${direction}`;
+      case 'created_at':
+      default:
+        return `created_at ${direction}`;
+    }
+  }
+
+  private getListOrderBy(sort: SortParams): string {
+    const direction = sort.order === 'desc' ? 'DESC' : 'ASC';
+
+    switch (sort.field) {
+      case 'name':
+        return `name COLLATE NOCASE ${direction}`;
+      case 'updated_at':
+        return `updated_at ${direction}`;
+      case 'tasks_count':
+        return `tasks_count ${direction}`;
+      case 'created_at':
+      default:
+        return `created_at ${direction}`;
+    }
+  }
+
+  // ===============================
+  // UTILITY METHODS
+  // ===============================
+
+  private serialize(entity: List | Task | User | StoredRecord): string {
+    return JSON.stringify(entity, dateReplacer);
+  }
+
+  private deserialize<T>(row: EntityRow): T {
+    return JSON.parse(row.data, dateReviver) as T;
+  }
+
+  private toLikePattern(search: string): string {
+    return `%${search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+  }
+
+  private formatDateKey(date: Date): string {
+    return date.toISOString().split('T')?.[0] || ''; // YYYY-MM-DD format
+  }
+
+  private updateStats(): void {
+    this.lastAccessed = new Date();
+    this.operationsCount++;
+  }
+
+  private ensureDirectoryExists(): void {
+    if (this.filePath === ':memory:') {
+      return;
+    }
+
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+      logger.debug('Created directory for SQLite database', { directory: dir });
+    }
+  }
+
+  // ===============================
+  // MONITORING AND ADMIN
+  // ===============================
+
+  /**
+   * Get storage statistics
+   */
+  getStats(): StorageStats {
+    this.updateStats();
+    const { listsCount } = this.db.prepare('SELECT COUNT(*) AS listsCount FROM lists').get() as { listsCount: number };
+    const { tasksCount } = this.db.prepare('SELECT COUNT(*) AS tasksCount FROM tasks').get() as { tasksCount: number };
+    const { usersCount } = this.db.prepare('SELECT COUNT(*) AS usersCount FROM users').get() as { usersCount: number };
+    const pageCount = this.db.pragma('page_count', { simple: true }) as number;
+    const pageSize = this.db.pragma('page_size', { simple: true }) as number;
+
+    return {
+      listsCount,
+      tasksCount,
+      usersCount,
+      memoryUsage: pageCount * pageSize,
+      lastAccessed: this.lastAccessed,
+      operationsCount: this.operationsCount,
+    };
+  }
+
+  /**
+   * Clear all data (use with caution)
+   */
+  clear(): void {
+    this.db.exec('DELETE FROM tasks; DELETE FROM lists; DELETE FROM users; DELETE FROM records;');
+    this.operationsCount = 0;
+    logger.warn('SQLite store cleared');
+  }
+}
+
+export default SqliteStore;
@@ -0,0 +1,100 @@
+import { List, Task, User, TaskStatus, TaskPriority, TaskFilterParams, ListFilterParams, SortParams } from '../models';
+
+/**
+ * Interface for storage statistics
+ */
+export interface StorageStats {
+  listsCount: number;
+  tasksCount: number;
+  usersCount: number;
+  memoryUsage: number; // Estimated in bytes
+  lastAccessed: Date;
+  operationsCount: number;
+}
+
+/**
+ * Auxiliary record kept in a named collection (revoked tokens, ...)
+ * Records are stored as-is and looked up by ID
+ */
+export interface StoredRecord {
+  id: string;
+}
+
+/**
+ * Query options for tasks
+ * Filtering, sorting and pagination are resolved by the backend
+ */
+export interface TaskQuery {
+  filters?: Partial<TaskFilterParams>;
+  deadlineRange?: { from: Date; to: Date }; // Only tasks with a deadline within the range
+  sort?: SortParams;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Query options for lists
+ */
+export interface ListQuery {
+  filters?: ListFilterParams;
+  sort?: SortParams;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Storage backend contract implemented by every storage adapter
+ * Operations are synchronous, persistence hooks are async
+ */
+export interface StorageBackend {
+  // Lifecycle
+  initialize(): Promise<void>;
+  flush(): Promise<void>;
+
+  // Lists
+  getAllLists(): List[];
+  getListById(id: string): List | undefined;
+  getListsByOwnerId(ownerId: string): List[];
+  queryLists(query: ListQuery): { lists: List[]; total: number };
+  createList(list: List): void;
+  updateList(id: string, updates: Partial<List>): boolean;
+  deleteList(id: string, deleteAssociatedTasks?: boolean): boolean;
+
+  // Tasks
+  getAllTasks(): Task[];
+  getTaskById(id: string): Task | undefined;
+  getTasksByListId(listId: string): Task[];
+  getTasksByStatus(status: TaskStatus): Task[];
+  getTasksByPriority(priority: TaskPriority): Task[];
+  getTasksByDeadlineRange(fromDate: Date, toDate: Date): Task[];
+  getTasksByLabelId(labelId: string): Task[];
+  getTasksByParentId(parentId: string): Task[];
+  getTasksByBlockerId(blockerId: string): Task[];
+  queryTasks(query: TaskQuery): { tasks: Task[]; total: number };
+  createTask(task: Task): void;
+  updateTask(id: string, updates: Partial<Task>): boolean;
+  deleteTask(id: string): boolean;
+
+  // Users
+  getAllUsers(): User[];
+  getUserById(id: string): User | undefined;
+  getUserByEmail(email: string): User | undefined;
+  createUser(user: User): void;
+  updateUser(id: string, updates: Partial<User>): boolean;
+  deleteUser(id: string): boolean;
+
+  // Auxiliary records
+  getRecords<T extends StoredRecord>(collection: string): T[];
+  getRecord<T extends StoredRecord>(collection: string, id: string): T | undefined;
+  putRecord<T extends StoredRecord>(collection: string, record: T): void;
+  deleteRecord(collection: string, id: string): boolean;
+
+  // Monitoring and admin
+  getStats(): StorageStats;
+  clear(): void;
+}
+
+/**
+ * Supported storage backend types
+ */
+export type StorageBackendType = 'memory' | 'sqlite';
@@ -0,0 +1,33 @@
+import { logger } from '../utils/logger';
+import { MemoryStore } from './memoryStore';
+import { SqliteStore } from './sqliteStore';
+import { StorageBackend, StorageBackendType } from './storageBackend';
+
+/**
+ * Create the storage backend selected by environment configuration
+ */
+export const createStorageBackend = (
+  type: string = process.env.STORAGE_BACKEND || 'memory'
+): StorageBackend => {
+  switch (type as StorageBackendType) {
+    case 'sqlite':
+      return new SqliteStore(process.env.SQLITE_DB_PATH || './data/todo.db');
+    case 'memory':
+      return new MemoryStore(
+        Number(process.env.MEMORY_STORE_MAX_SIZE) || 10000,
+        process.env.ENABLE_FILE_PERSISTENCE === 'true',
+        process.env.PERSISTENCE_FILE_PATH,
+        process.env.JOURNAL_FILE_PATH,
+        Number(process.env.JOURNAL_COMPACTION_THRESHOLD) || 1000,
+        Number(process.env.JOURNAL_COMPACTION_INTERVAL_MS) || 300000
+      );
+    default:
+      logger.error('Unsupported storage backend', { type });
+      throw new Error(`Unsupported storage backend: ${type}`);
+  }
+};
+
+// Create and export singleton instance
+const storage = createStorageBackend();
+
+export default storage;
@@ -0,0 +1,22 @@
+import { LabelFilter } from '../models/entities';
+
+/**
+ * Parses the `labels` query parameter of task queries
+ * @param {string} value - `any:` or `all:` followed by comma-separated label IDs
+ * @returns {LabelFilter} The label filter
+ */
+export const parseLabelFilter = (value: string): LabelFilter => {
+  const separatorIndex = value.indexOf(':');
+  const match = value.slice(0, separatorIndex) === 'all' ? 'all' : 'any';
+  const labelIds = value
+    .slice(separatorIndex + 1)
+    .split(',')
+    .map(labelId => labelId.trim())
+    .filter(labelId => labelId.length > 0);
+
+  return { match, label_ids: [...new Set(labelIds)] };
+};
+
+export default {
+  parseLabelFilter,
+};
@@ -0,0 +1,70 @@
+import { AuthUser, ListAccessLevel } from '../models/entities';
+import { Permission } from '../models/enums';
+
+/**
+ * Checks if the user has a permission
+ * A `.any` permission implies the matching permission on own resources
+ * @param {AuthUser} user - The authenticated user
+ * @param {Permission} permission - The required permission
+ * @returns {boolean} True if the user's role grants the permission
+ */
+export const hasPermission = (user: AuthUser | undefined, permission: Permission): boolean => {
+  if (!user) {
+    return false;
+  }
+
+  return user.permissions.includes(permission)
+    || user.permissions.includes(`${permission}.any` as Permission);
+};
+
+// Each list access level includes the levels before it
+const LIST_ACCESS_LEVELS: ListAccessLevel[] = ['viewer', 'editor', 'owner'];
+
+/**
+ * Checks if a list access level includes the required level
+ * @param {ListAccessLevel | null} accessLevel - The user's access level on the list, null without access
+ * @param {ListAccessLevel} required - The required access level
+ * @returns {boolean} True if the access level is sufficient
+ */
+export const hasListAccess = (accessLevel: ListAccessLevel | null, required: ListAccessLevel): boolean => {
+  return accessLevel !== null && LIST_ACCESS_LEVELS.indexOf(accessLevel) >= LIST_ACCESS_LEVELS.indexOf(required);
+};
+
+/**
+ * Checks if the user can access a list with the given access level
+ * Calls without a user context are internal and therefore not scoped
+ * @param {ListAccessLevel | null} accessLevel - The user's access level on the list, null without access
+ * @param {AuthUser} user - The authenticated user
+ * @param {ListAccessLevel} required - The required access level
+ * @param {Permission} anyPermission - The permission that grants access to lists of other users
+ * @returns {boolean} True if access is allowed
+ */
+export const canAccessList = (
+  accessLevel: ListAccessLevel | null,
+  user: AuthUser | undefined,
+  required: ListAccessLevel,
+  anyPermission: Permission
+): boolean => {
+  if (!user || hasPermission(user, anyPermission)) {
+    return true;
+  }
+
+  return hasListAccess(accessLevel, required);
+};
+
+/**
+ * Gets the owner ID that queries should be scoped to
+ * @param {AuthUser} user - The authenticated user
+ * @param {Permission} anyPermission - The permission that grants access to resources of other users
+ * @returns {string | undefined} The owner ID, or undefined for unscoped access
+ */
+export const getOwnerScope = (user: AuthUser | undefined, anyPermission: Permission): string | undefined => {
+  return user && !hasPermission(user, anyPermission) ? user.id : undefined;
+};
+
+export default {
+  hasPermission,
+  hasListAccess,
+  canAccessList,
+  getOwnerScope,
+};
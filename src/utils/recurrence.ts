@@ -0,0 +1,105 @@
+import { RecurrenceFrequency, Weekday } from '../models/enums';
+import { RecurrenceRule } from '../models/entities';
+
+// Weekdays in the order of a week, which starts on Monday as in RRULE
+const WEEKDAY_ORDER = Object.values(Weekday);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets the position of a date's weekday within its week, Monday being 0
+ * @param {Date} date - The date, read in UTC
+ * @returns {number} The weekday index from 0 to 6
+ */
+const getWeekdayIndex = (date: Date): number => (date.getUTCDay() + 6) % 7;
+
+/**
+ * Adds whole days to a date, keeping its time of day
+ * @param {Date} date - The date to shift
+ * @param {number} days - The number of days to add
+ * @returns {Date} The shifted date
+ */
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Sorts weekdays from Monday and removes duplicates
+ * @param {Weekday[]} weekdays - The weekdays of a rule
+ * @returns {Weekday[]} The sorted weekdays
+ */
+export const sortWeekdays = (weekdays: Weekday[]): Weekday[] => {
+  return WEEKDAY_ORDER.filter(weekday => weekdays.includes(weekday));
+};
+
+/**
+ * Computes the date of the occurrence following a given one
+ * Weekly rules with weekdays move to the next listed day of the same week, or to the first listed day
+ * `interval` weeks later; monthly rules keep their day of the month, clamped to shorter months
+ * @param {RecurrenceRule} rule - The recurrence rule
+ * @param {Date} from - The deadline of the current occurrence
+ * @returns {Date} The deadline of the next occurrence, ignoring `until` and `count`
+ */
+export const getNextRecurrenceDate = (rule: RecurrenceRule, from: Date): Date => {
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDays(from, rule.interval);
+
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = sortWeekdays(rule.by_weekday || []).map(weekday => WEEKDAY_ORDER.indexOf(weekday));
+      if (weekdays.length === 0) {
+        return addDays(from, 7 * rule.interval);
+      }
+
+      const current = getWeekdayIndex(from);
+      const laterThisWeek = weekdays.find(weekday => weekday > current);
+      if (laterThisWeek !== undefined) {
+        return addDays(from, laterThisWeek - current);
+      }
+
+      return addDays(from, 7 * rule.interval - current + weekdays[0]!);
+    }
+
+    case RecurrenceFrequency.MONTHLY: {
+      const day = rule.by_month_day ?? from.getUTCDate();
+      const next = new Date(from);
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + rule.interval);
+
+      const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+      next.setUTCDate(Math.min(day, daysInMonth));
+      return next;
+    }
+
+    default:
+      throw new Error(`Unsupported recurrence frequency: ${rule.frequency}`);
+  }
+};
+
+/**
+ * Computes the next occurrence of a series
+ * @param {RecurrenceRule} rule - The recurrence rule
+ * @param {Date} deadline - The deadline of the current occurrence
+ * @param {number} occurrence - The 1-based position of the current occurrence
+ * @returns {{ deadline: Date; occurrence: number } | null} The next occurrence, or null when the series ends
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  deadline: Date,
+  occurrence: number
+): { deadline: Date; occurrence: number } | null => {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return null;
+  }
+
+  const nextDeadline = getNextRecurrenceDate(rule, deadline);
+  if (rule.until && nextDeadline > new Date(rule.until)) {
+    return null;
+  }
+
+  return { deadline: nextDeadline, occurrence: occurrence + 1 };
+};
+
+export default {
+  sortWeekdays,
+  getNextRecurrenceDate,
+  getNextOccurrence,
+};
@@ -0,0 +1,151 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// RFC 4648 base32 alphabet, used by authenticator apps for secrets
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// RFC 6238 defaults, supported by every common authenticator app
+const TIME_STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+
+/**
+ * Encodes bytes as base32 without padding
+ * @param {Buffer} buffer - The bytes to encode
+ * @returns {string} The base32 string
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decodes a base32 string, ignoring case, spaces and padding
+ * @param {string} input - The base32 string
+ * @returns {Buffer} The decoded bytes
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generates a new random TOTP secret
+ * @returns {string} A 160-bit secret, base32 encoded
+ */
+export const generateTotpSecret = (): string => {
+  return base32Encode(randomBytes(20));
+};
+
+/**
+ * Gets the time step a moment falls into
+ * @param {number} timeMs - The moment in milliseconds since the epoch
+ * @returns {number} The time step counter
+ */
+export const getTimeStep = (timeMs: number = Date.now()): number => {
+  return Math.floor(timeMs / 1000 / TIME_STEP_SECONDS);
+};
+
+/**
+ * Generates the TOTP code for a time step (RFC 6238 with HMAC-SHA1)
+ * @param {string} secret - The base32 encoded secret
+ * @param {number} step - The time step counter
+ * @returns {string} The zero-padded code
+ */
+export const generateTotp = (secret: string, step: number = getTimeStep()): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, '0');
+};
+
+/**
+ * Verifies a TOTP code, allowing one time step of clock drift either way
+ * @param {string} secret - The base32 encoded secret
+ * @param {string} code - The code entered by the user
+ * @param {number} timeMs - The moment to verify against
+ * @returns {number | null} The matching time step, or null if the code is invalid
+ */
+export const verifyTotp = (secret: string, code: string, timeMs: number = Date.now()): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== CODE_DIGITS) {
+    return null;
+  }
+
+  const currentStep = getTimeStep(timeMs);
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    if (timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Builds the otpauth:// URI that authenticator apps import, usually as a QR code
+ * @param {string} secret - The base32 encoded secret
+ * @param {string} accountName - The account shown in the app (the user's email)
+ * @param {string} issuer - The service name shown in the app
+ * @returns {string} The provisioning URI
+ */
+export const buildOtpAuthUri = (secret: string, accountName: string, issuer: string): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(CODE_DIGITS),
+    period: String(TIME_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+export default {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  getTimeStep,
+  generateTotp,
+  verifyTotp,
+  buildOtpAuthUri,
+};
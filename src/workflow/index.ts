@@ -0,0 +1,9 @@
+// Re-export workflow modules
+export { createTaskWorkflow, DEFAULT_WORKFLOW } from './workflowFactory';
+export * from './taskWorkflow';
+
+// Export the configured task workflow instance
+export { default as taskWorkflow } from './workflowFactory';
+
+// Export default as the main task workflow
+export { default } from './workflowFactory';
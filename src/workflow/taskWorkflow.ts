@@ -0,0 +1,163 @@
+import { Task, TaskStatus } from '../models';
+
+/**
+ * Workflow state a task can be in
+ */
+export interface WorkflowStateDefinition {
+  name: string;
+  terminal?: boolean; // Closes the task without completing it, such as cancelled
+  transitions: string[]; // States a task in this state can move to
+}
+
+/**
+ * Workflow followed by every task
+ */
+export interface WorkflowDefinition {
+  initial_state: string; // State of new tasks
+  complete_state: string; // The only completed state, reached by completing a task
+  reopen_state: string; // Reached by uncompleting a task
+  states: WorkflowStateDefinition[];
+}
+
+// State names are used in URLs and filters
+const STATE_NAME_PATTERN = /^[a-z][a-z0-9_]{0,29}$/;
+
+/**
+ * Workflow of task states
+ * Tasks in the complete state are completed and every other state is pending, so clients that only
+ * know pending and completed keep working and `completed_at` keeps meaning the task was done.
+ * Completing and uncompleting a task move it to the complete and reopen states from any state;
+ * other moves have to follow the transitions of the current state.
+ */
+export class TaskWorkflow {
+  private readonly states: Map<string, WorkflowStateDefinition>;
+
+  constructor(readonly definition: WorkflowDefinition) {
+    this.states = new Map();
+
+    for (const state of definition.states) {
+      if (!STATE_NAME_PATTERN.test(state.name)) {
+        throw new Error(`Invalid workflow state name '${state.name}', use lowercase letters, digits and underscores`);
+      }
+      if (this.states.has(state.name)) {
+        throw new Error(`Workflow state '${state.name}' is defined twice`);
+      }
+      this.states.set(state.name, state);
+    }
+
+    for (const state of definition.states) {
+      const unknown = state.transitions.find(target => !this.states.has(target) || target === state.name);
+      if (unknown) {
+        throw new Error(`Workflow state '${state.name}' has an invalid transition to '${unknown}'`);
+      }
+    }
+
+    this.assertOpenState(definition.initial_state, 'initial');
+    this.assertOpenState(definition.reopen_state, 'reopen');
+    if (!this.states.has(definition.complete_state)) {
+      throw new Error(`The complete workflow state '${definition.complete_state}' is not defined`);
+    }
+    if (this.states.get(definition.complete_state)?.terminal) {
+      throw new Error(`The complete workflow state '${definition.complete_state}' cannot be terminal`);
+    }
+  }
+
+  /**
+   * State of new tasks
+   */
+  get initialState(): string {
+    return this.definition.initial_state;
+  }
+
+  /**
+   * State of completed tasks
+   */
+  get completeState(): string {
+    return this.definition.complete_state;
+  }
+
+  /**
+   * State of uncompleted tasks
+   */
+  get reopenState(): string {
+    return this.definition.reopen_state;
+  }
+
+  /**
+   * Check whether a state is part of the workflow
+   */
+  hasState(name: string): boolean {
+    return this.states.has(name);
+  }
+
+  /**
+   * Get the names of all states
+   */
+  getStateNames(): string[] {
+    return [...this.states.keys()];
+  }
+
+  /**
+   * Get the names of the terminal states
+   */
+  getTerminalStates(): string[] {
+    return [...this.states.values()].filter(state => state.terminal).map(state => state.name);
+  }
+
+  /**
+   * Get the task status of a state
+   */
+  getStatus(name: string): TaskStatus {
+    if (!this.states.has(name)) {
+      throw new Error(`Unknown workflow state '${name}'`);
+    }
+    return name === this.completeState ? TaskStatus.COMPLETED : TaskStatus.PENDING;
+  }
+
+  /**
+   * Check whether a task still has work left: pending and not in a terminal state
+   * Closed tasks, such as cancelled ones, no longer block, count towards progress or fall due
+   */
+  isOpen(task: Task): boolean {
+    return task.status === TaskStatus.PENDING && !this.states.get(this.getState(task))?.terminal;
+  }
+
+  /**
+   * Get the states a task can move to from a state
+   */
+  getTransitions(name: string): string[] {
+    return this.states.get(name)?.transitions || [];
+  }
+
+  /**
+   * Check whether a task can move from one state to another
+   */
+  canTransition(from: string, to: string): boolean {
+    return this.getTransitions(from).includes(to);
+  }
+
+  /**
+   * Get the state of a task
+   * Tasks stored before workflow states, or in a state no longer configured, are in the
+   * initial or complete state according to their status
+   */
+  getState(task: Task): string {
+    if (task.state && this.hasState(task.state) && this.getStatus(task.state) === task.status) {
+      return task.state;
+    }
+    return task.status === TaskStatus.COMPLETED ? this.completeState : this.initialState;
+  }
+
+  /**
+   * Make sure a state tasks start or restart in exists and leaves the task open
+   */
+  private assertOpenState(name: string, role: string): void {
+    const state = this.states.get(name);
+    if (!state) {
+      throw new Error(`The ${role} workflow state '${name}' is not defined`);
+    }
+    if (name === this.definition.complete_state || state.terminal) {
+      throw new Error(`The ${role} workflow state '${name}' cannot be the complete state or a terminal state`);
+    }
+  }
+}
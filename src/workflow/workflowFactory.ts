@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs';
+import { logger } from '../utils/logger';
+import { TaskWorkflow, WorkflowDefinition } from './taskWorkflow';
+
+/**
+ * Workflow used without TASK_WORKFLOW_FILE
+ * Cancelled tasks stay pending for clients that only know pending and completed, but are closed
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  initial_state: 'todo',
+  complete_state: 'done',
+  reopen_state: 'todo',
+  states: [
+    { name: 'todo', transitions: ['in_progress', 'blocked', 'done', 'cancelled'] },
+    { name: 'in_progress', transitions: ['todo', 'blocked', 'done', 'cancelled'] },
+    { name: 'blocked', transitions: ['todo', 'in_progress', 'cancelled'] },
+    { name: 'done', transitions: ['todo', 'in_progress'] },
+    { name: 'cancelled', terminal: true, transitions: ['todo'] },
+  ],
+};
+
+/**
+ * Create the task workflow selected by environment configuration
+ * With TASK_WORKFLOW_FILE the workflow is read from that JSON file, otherwise the default
+ * workflow is used. An invalid workflow stops the server at startup.
+ */
+export const createTaskWorkflow = (
+  filePath: string | undefined = process.env.TASK_WORKFLOW_FILE
+): TaskWorkflow => {
+  if (!filePath) {
+    return new TaskWorkflow(DEFAULT_WORKFLOW);
+  }
+
+  const definition = JSON.parse(readFileSync(filePath, 'utf8')) as WorkflowDefinition;
+  if (!Array.isArray(definition.states) || definition.states.some(state => !Array.isArray(state.transitions))) {
+    logger.error('Invalid task workflow file', { filePath });
+    throw new Error(`Task workflow file ${filePath} needs a list of states with their transitions`);
+  }
+
+  const workflow = new TaskWorkflow(definition);
+
+  logger.info('Task workflow loaded', {
+    filePath,
+    states: workflow.getStateNames(),
+  });
+
+  return workflow;
+};
+
+// Create and export singleton instance
+const taskWorkflow = createTaskWorkflow();
+
+export default taskWorkflow;
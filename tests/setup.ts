@@ -1,2 +1,5 @@
 // Jest setup file
 import 'jest';
+
+// Keep test output readable, the logger reads its level on first import
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
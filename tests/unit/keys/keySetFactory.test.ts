@@ -0,0 +1,50 @@
+import jwt from 'jsonwebtoken';
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createJwtKeySet } from '../../../src/keys';
+
+describe('createJwtKeySet', () => {
+  const secret = 'legacy-secret-legacy-secret-legacy-secret';
+  const originalSecret = process.env.JWT_SECRET;
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'jwt-keys-'));
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    writeFileSync(join(directory, '2026-10.pem'), privateKey.export({ type: 'pkcs8', format: 'pem' }));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    if (originalSecret === undefined) {
+      delete process.env.JWT_SECRET;
+    } else {
+      process.env.JWT_SECRET = originalSecret;
+    }
+  });
+
+  it('signs with the directory key and keeps verifying tokens of the shared secret', () => {
+    process.env.JWT_SECRET = secret;
+    const keySet = createJwtKeySet(directory);
+
+    const withKid = jwt.sign({ id: 'user' }, secret, { algorithm: 'HS256', keyid: 'default' });
+    const withoutKid = jwt.sign({ id: 'user' }, secret, { algorithm: 'HS256' });
+
+    expect(keySet.activeKid).toBe('2026-10');
+    expect(keySet.verify(withKid).id).toBe('user');
+    expect(keySet.verify(withoutKid).id).toBe('user');
+    expect(jwt.decode(keySet.sign({ id: 'user' }), { complete: true })?.header.alg).toBe('ES256');
+    expect(keySet.getJwks().keys.map(key => key.kid)).toEqual(['2026-10']);
+  });
+
+  it('rejects tokens of the shared secret once it is removed', () => {
+    delete process.env.JWT_SECRET;
+    const keySet = createJwtKeySet(directory);
+
+    const legacyToken = jwt.sign({ id: 'user' }, secret, { algorithm: 'HS256', keyid: 'default' });
+
+    expect(() => keySet.verify(legacyToken)).toThrow('unknown signing key');
+  });
+});
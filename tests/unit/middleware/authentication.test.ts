@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { authenticateToken, requireScope } from '../../../src/middleware/authentication';
+import { personalAccessTokenRepository, userRepository } from '../../../src/repositories';
+import { jwtKeySet } from '../../../src/keys';
+import { TokenScope } from '../../../src/models';
+
+type Outcome = { next: true } | { status: number; body: any };
+
+/**
+ * Run a route's scope declaration and authenticateToken against a bearer token
+ * Resolves once the middleware either calls next or sends a response
+ */
+const authenticate = (token: string, scopes?: TokenScope[]): Promise<{ outcome: Outcome; req: Request }> => {
+  const req = { headers: { authorization: `Bearer ${token}` }, originalUrl: '/test' } as unknown as Request;
+
+  return new Promise(resolve => {
+    let statusCode = 200;
+    const res = {
+      status(code: number) {
+        statusCode = code;
+        return this;
+      },
+      json(body: any) {
+        resolve({ outcome: { status: statusCode, body }, req });
+        return this;
+      },
+    } as unknown as Response;
+
+    const run = () => authenticateToken(req, res, () => resolve({ outcome: { next: true }, req }));
+    if (scopes) {
+      requireScope(...scopes)(req, res, run);
+    } else {
+      run();
+    }
+  });
+};
+
+describe('authenticateToken with personal access tokens', () => {
+  let userId: string;
+
+  const createToken = async (scopes: TokenScope[], expiresAt?: Date): Promise<string> => {
+    const { token } = await personalAccessTokenRepository.create(userId, {
+      name: 'CLI',
+      scopes,
+      ...(expiresAt && { expires_at: expiresAt }),
+    });
+    return token;
+  };
+
+  beforeEach(async () => {
+    const email = `pat-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+    const user = await userRepository.create({ email, password: 'Tokens123!', role: 'user' });
+    userId = user.id;
+  });
+
+  it('rejects tokens on routes that declare no scopes', async () => {
+    const token = await createToken(Object.values(TokenScope));
+
+    const { outcome } = await authenticate(token);
+
+    expect(outcome).toMatchObject({
+      status: 403,
+      body: { error: { message: 'Personal access tokens cannot be used for this endpoint' } },
+    });
+  });
+
+  it('rejects tokens missing a required scope', async () => {
+    const token = await createToken([TokenScope.TASKS_READ]);
+
+    const { outcome } = await authenticate(token, [TokenScope.TASKS_READ, TokenScope.TASKS_WRITE]);
+
+    expect(outcome).toMatchObject({
+      status: 403,
+      body: { error: { message: 'Token is missing required scope: tasks:write' } },
+    });
+  });
+
+  it('authenticates tokens holding every required scope', async () => {
+    const token = await createToken([TokenScope.LISTS_READ, TokenScope.TASKS_READ]);
+
+    const { outcome, req } = await authenticate(token, [TokenScope.TASKS_READ]);
+
+    expect(outcome).toEqual({ next: true });
+    expect(req.user).toMatchObject({ id: userId, role: 'user' });
+    expect(req.tokenScopes).toEqual([TokenScope.LISTS_READ, TokenScope.TASKS_READ]);
+  });
+
+  it('rejects expired and unknown tokens', async () => {
+    const expired = await createToken([TokenScope.TASKS_READ], new Date(Date.now() - 1000));
+    const unknown = `${expired.slice(0, -4)}xxxx`;
+
+    for (const token of [expired, unknown]) {
+      const { outcome } = await authenticate(token, [TokenScope.TASKS_READ]);
+      expect(outcome).toMatchObject({ status: 401, body: { error: { message: 'Invalid or expired access token' } } });
+    }
+  });
+
+  it('rejects tokens of deactivated users', async () => {
+    const token = await createToken([TokenScope.TASKS_READ]);
+    await userRepository.delete(userId);
+
+    const { outcome } = await authenticate(token, [TokenScope.TASKS_READ]);
+
+    expect(outcome).toMatchObject({ status: 401 });
+  });
+
+  it('does not limit JWT sessions by scopes', async () => {
+    const token = jwtKeySet.sign({ id: userId, email: 'jwt@example.com', role: 'user', iat: Date.now() / 1000 });
+
+    const { outcome, req } = await authenticate(token);
+
+    expect(outcome).toEqual({ next: true });
+    expect(req.user).toMatchObject({ id: userId });
+    expect(req.tokenScopes).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { requirePermission } from '../../../src/middleware/authorization';
+import { roleRepository, twoFactorRepository, userRepository } from '../../../src/repositories';
+import { AuthUser, Permission } from '../../../src/models';
+
+type Outcome = { next: true } | { status: number; body: any };
+
+/**
+ * Run requirePermission for a user and request method
+ * Resolves once the middleware chain either calls next or sends a response
+ */
+const authorize = (user: AuthUser | undefined, method: string, ...permissions: Permission[]): Promise<Outcome> => {
+  const req = { method, originalUrl: '/test', ...(user && { user }) } as unknown as Request;
+
+  return new Promise(resolve => {
+    let statusCode = 200;
+    const res = {
+      status(code: number) {
+        statusCode = code;
+        return this;
+      },
+      json(body: any) {
+        resolve({ status: statusCode, body });
+        return this;
+      },
+    } as unknown as Response;
+
+    requirePermission(...permissions)(req, res, () => resolve({ next: true }));
+  });
+};
+
+const createUser = async (role: string, emailVerified: boolean = true): Promise<AuthUser> => {
+  const email = `rbac-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const user = await userRepository.create({ email, password: 'Rbac12345!', role }, emailVerified);
+  return { id: user.id, email, role, permissions: await roleRepository.getPermissions(role) };
+};
+
+describe('requirePermission', () => {
+  it('requires an authenticated user', async () => {
+    await expect(authorize(undefined, 'GET', Permission.LIST_READ)).resolves.toMatchObject({ status: 401 });
+  });
+
+  it('rejects users whose role lacks a required permission', async () => {
+    const user = await createUser('user');
+
+    await expect(authorize(user, 'GET', Permission.LIST_READ, Permission.USER_MANAGE)).resolves.toMatchObject({
+      status: 403,
+      body: { error: { message: 'Insufficient permissions to access this resource' } },
+    });
+  });
+
+  it('lets users through once every check passes', async () => {
+    const user = await createUser('user');
+
+    await expect(authorize(user, 'POST', Permission.LIST_CREATE)).resolves.toEqual({ next: true });
+  });
+
+  describe('for roles that require two-factor authentication', () => {
+    const role = 'rbac-auditor';
+
+    beforeAll(async () => {
+      await roleRepository.create({ name: role, permissions: [Permission.LIST_READ, Permission.LIST_READ_ANY] });
+      await roleRepository.setTwoFactorRequired(role, true);
+    });
+
+    it('rejects users who have not enabled it', async () => {
+      const user = await createUser(role);
+
+      await expect(authorize(user, 'GET', Permission.LIST_READ)).resolves.toMatchObject({
+        status: 403,
+        body: { error: { message: expect.stringContaining('requires two-factor authentication') } },
+      });
+    });
+
+    it('lets users through who have enabled it', async () => {
+      const user = await createUser(role);
+      await twoFactorRepository.save({
+        id: user.id,
+        secret: 'JBSWY3DPEHPK3PXP',
+        enabled: true,
+        recovery_code_hashes: [],
+        created_at: new Date(),
+        enabled_at: new Date(),
+      });
+
+      await expect(authorize(user, 'GET', Permission.LIST_READ)).resolves.toEqual({ next: true });
+    });
+
+    it('checks the permission before two-factor authentication', async () => {
+      const user = await createUser(role);
+
+      await expect(authorize(user, 'GET', Permission.USER_MANAGE)).resolves.toMatchObject({
+        status: 403,
+        body: { error: { message: 'Insufficient permissions to access this resource' } },
+      });
+    });
+  });
+
+  describe('for users with an unverified email address', () => {
+    it('lets read-only requests through', async () => {
+      const user = await createUser('user', false);
+
+      for (const method of ['GET', 'HEAD', 'OPTIONS']) {
+        await expect(authorize(user, method, Permission.LIST_READ)).resolves.toEqual({ next: true });
+      }
+    });
+
+    it('rejects changes', async () => {
+      const user = await createUser('user', false);
+
+      await expect(authorize(user, 'POST', Permission.LIST_CREATE)).resolves.toMatchObject({
+        status: 403,
+        body: { error: { message: 'Please verify your email address before making changes' } },
+      });
+    });
+
+    it('applies a verification to existing sessions', async () => {
+      const user = await createUser('user', false);
+      await userRepository.update(user.id, { email_verified: true });
+
+      await expect(authorize(user, 'POST', Permission.LIST_CREATE)).resolves.toEqual({ next: true });
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { revokedTokenRepository } from '../../../src/repositories';
+import { AccessTokenClaims } from '../../../src/models';
+
+describe('RevokedTokenRepository user cut-off', () => {
+  const expiresAt = () => new Date(Date.now() + 60 * 60 * 1000);
+
+  const claims = (userId: string, issuedAt: number, sid?: string): AccessTokenClaims => ({
+    id: userId,
+    email: `${userId}@example.com`,
+    role: 'user',
+    iat: issuedAt / 1000,
+    ...(sid && { sid }),
+  });
+
+  it('revokes tokens issued before the cut-off', async () => {
+    const issuedAt = Date.now();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await revokedTokenRepository.revokeAllForUser('cutoff-before', expiresAt());
+
+    expect(await revokedTokenRepository.isRevoked(claims('cutoff-before', issuedAt))).toBe(true);
+  });
+
+  describe('within the second of the cut-off', () => {
+    const cutoff = new Date('2026-01-01T00:00:00.500Z').getTime();
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: cutoff });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('keeps tokens issued after the cut-off', async () => {
+      await revokedTokenRepository.revokeAllForUser('cutoff-after', expiresAt());
+
+      expect(await revokedTokenRepository.isRevoked(claims('cutoff-after', cutoff + 1))).toBe(false);
+    });
+
+    it('revokes older whole-second tokens', async () => {
+      await revokedTokenRepository.revokeAllForUser('cutoff-legacy', expiresAt());
+
+      expect(await revokedTokenRepository.isRevoked(claims('cutoff-legacy', cutoff - 500))).toBe(true);
+    });
+  });
+
+  it('spares the excepted session', async () => {
+    const issuedAt = Date.now();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await revokedTokenRepository.revokeAllForUser('cutoff-session', expiresAt(), 'kept-session');
+
+    expect(await revokedTokenRepository.isRevoked(claims('cutoff-session', issuedAt, 'kept-session'))).toBe(false);
+    expect(await revokedTokenRepository.isRevoked(claims('cutoff-session', issuedAt, 'other-session'))).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { adminService, authService } from '../../../src/services';
+import { ApiResponseCode, AuthResponse, AuthUser, Permission } from '../../../src/models';
+
+const admin: AuthUser = {
+  id: 'deactivation-admin',
+  email: 'deactivation-admin@example.com',
+  role: 'admin',
+  permissions: Object.values(Permission),
+};
+
+describe('AdminService account deactivation', () => {
+  const password = 'Deactivate123!';
+  let email: string;
+  let session: AuthResponse;
+
+  beforeEach(async () => {
+    email = `deactivate-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+    session = await authService.register({ email, password });
+    // Revocation cut-offs have millisecond precision
+    await new Promise(resolve => setTimeout(resolve, 5));
+  });
+
+  it('revokes every token of a deactivated user', async () => {
+    await adminService.setUserActive(session.user.id, false, admin);
+
+    await expect(authService.isTokenRevoked(authService.verifyToken(session.token))).resolves.toBe(true);
+    await expect(authService.refreshToken(session.refresh_token)).rejects.toThrow('Refresh token has been revoked');
+    await expect(authService.login({ email, password })).rejects.toThrow('Invalid email or password');
+  });
+
+  it('lets reactivated users log in again', async () => {
+    await adminService.setUserActive(session.user.id, false, admin);
+    await adminService.setUserActive(session.user.id, true, admin);
+
+    await expect(authService.login({ email, password })).resolves.toHaveProperty('token');
+  });
+
+  it('does not let admins deactivate themselves', async () => {
+    const self: AuthUser = { ...admin, id: session.user.id, email };
+
+    await expect(adminService.setUserActive(session.user.id, false, self)).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { authService } from '../../../src/services';
+import { ApiResponseCode } from '../../../src/models';
+import { mailTransport } from '../../../src/mail';
+
+describe('AuthService login lockout', () => {
+  const password = 'Lockout123!';
+  let email: string;
+
+  // Only the clock is faked, bcrypt and the storage keep their real timers
+  const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+  const login = (loginPassword: string = password) => authService.login({ email, password: loginPassword });
+  const fail = () => expect(login('Wrong123!')).rejects.toThrow('Invalid email or password');
+
+  beforeEach(async () => {
+    jest.spyOn(mailTransport, 'send').mockResolvedValue();
+    jest.useFakeTimers({
+      now: new Date('2026-03-01T12:00:00.000Z'),
+      doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'],
+    });
+
+    email = `lockout-${Math.random().toString(36).slice(2)}@example.com`;
+    await authService.register({ email, password });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('delays the next login after a failure, doubling the delay with every failure', async () => {
+    for (const delaySeconds of [1, 2, 4]) {
+      await fail();
+
+      // The delay also applies to the correct password
+      await expect(login()).rejects.toMatchObject({
+        code: ApiResponseCode.TOO_MANY_REQUESTS,
+        retryAfter: delaySeconds,
+        message: `Too many failed login attempts, try again in ${delaySeconds} seconds`,
+      });
+
+      advance(delaySeconds * 1000 - 1);
+      await expect(login()).rejects.toMatchObject({ code: ApiResponseCode.TOO_MANY_REQUESTS, retryAfter: 1 });
+      advance(1);
+    }
+
+    await expect(login()).resolves.toHaveProperty('token');
+  });
+
+  it('locks the account once the failure limit is reached', async () => {
+    for (const delaySeconds of [1, 2, 4, 8]) {
+      await fail();
+      advance(delaySeconds * 1000);
+    }
+    await fail();
+
+    await expect(login()).rejects.toMatchObject({
+      code: ApiResponseCode.TOO_MANY_REQUESTS,
+      retryAfter: 15 * 60,
+      message: 'Account is temporarily locked after too many failed login attempts, try again in 900 seconds',
+    });
+
+    // The lockout outlasts the delay the failure count would give
+    advance(16 * 1000);
+    await expect(login()).rejects.toMatchObject({ retryAfter: 15 * 60 - 16 });
+
+    advance(15 * 60 * 1000 - 16 * 1000);
+    await expect(login()).resolves.toHaveProperty('token');
+  });
+
+  it('starts counting over after a successful login', async () => {
+    await fail();
+    advance(1000);
+    await fail();
+    advance(2000);
+    await expect(login()).resolves.toHaveProperty('token');
+
+    await fail();
+    await expect(login()).rejects.toMatchObject({ retryAfter: 1 });
+  });
+
+  it('forgets failed logins once the lockout duration has passed', async () => {
+    await fail();
+    advance(15 * 60 * 1000);
+    await fail();
+
+    await expect(login()).rejects.toMatchObject({ retryAfter: 1 });
+  });
+});
@@ -0,0 +1,120 @@
+import { authService } from '../../../src/services';
+import { ApiResponseCode, AuthResponse } from '../../../src/models';
+import { mailTransport } from '../../../src/mail';
+
+// Revocation cut-offs have millisecond precision
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('AuthService password change', () => {
+  const password = 'Current123!';
+  const newPassword = 'Changed456!';
+  let email: string;
+  let current: AuthResponse;
+  let other: AuthResponse;
+
+  beforeEach(async () => {
+    email = `password-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+    current = await authService.register({ email, password });
+    other = (await authService.login({ email, password })) as AuthResponse;
+    await tick();
+  });
+
+  it('keeps only the current session logged in', async () => {
+    const claims = authService.verifyToken(current.token);
+    await authService.changePassword(current.user.id, { current_password: password, new_password: newPassword }, claims.sid);
+
+    await expect(authService.isTokenRevoked(claims)).resolves.toBe(false);
+    await expect(authService.refreshToken(current.refresh_token)).resolves.toHaveProperty('token');
+
+    await expect(authService.isTokenRevoked(authService.verifyToken(other.token))).resolves.toBe(true);
+    await expect(authService.refreshToken(other.refresh_token)).rejects.toThrow('Refresh token has been revoked');
+  });
+
+  it('replaces the password used to log in', async () => {
+    await authService.changePassword(current.user.id, { current_password: password, new_password: newPassword });
+
+    await expect(authService.login({ email, password: newPassword })).resolves.toHaveProperty('token');
+    await expect(authService.login({ email, password })).rejects.toThrow('Invalid email or password');
+  });
+
+  it('requires the current password and a new one', async () => {
+    await expect(
+      authService.changePassword(current.user.id, { current_password: 'Wrong123!', new_password: newPassword })
+    ).rejects.toMatchObject({ code: ApiResponseCode.UNAUTHORIZED });
+    await expect(
+      authService.changePassword(current.user.id, { current_password: password, new_password: password })
+    ).rejects.toMatchObject({ code: ApiResponseCode.VALIDATION_ERROR });
+
+    await expect(authService.isTokenRevoked(authService.verifyToken(other.token))).resolves.toBe(false);
+  });
+});
+
+describe('AuthService password reset', () => {
+  const password = 'Forgotten123!';
+  const newPassword = 'Recovered456!';
+  let email: string;
+  let session: AuthResponse;
+  let send: jest.SpyInstance;
+
+  // Read the reset token from the last mail sent
+  const requestResetToken = async (): Promise<string> => {
+    await authService.requestPasswordReset(email);
+    const text: string = send.mock.calls[send.mock.calls.length - 1][0].text;
+    return text.match(/Reset token: (\S+)/)![1]!;
+  };
+
+  beforeEach(async () => {
+    send = jest.spyOn(mailTransport, 'send').mockResolvedValue();
+    email = `reset-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+    session = await authService.register({ email, password });
+    await tick();
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('sets the new password and revokes every session', async () => {
+    const token = await requestResetToken();
+
+    await authService.resetPassword(token, newPassword);
+
+    await expect(authService.isTokenRevoked(authService.verifyToken(session.token))).resolves.toBe(true);
+    await expect(authService.refreshToken(session.refresh_token)).rejects.toThrow('Refresh token has been revoked');
+    await expect(authService.login({ email, password: newPassword })).resolves.toHaveProperty('token');
+  });
+
+  it('accepts a reset token only once', async () => {
+    const token = await requestResetToken();
+    await authService.resetPassword(token, newPassword);
+
+    await expect(authService.resetPassword(token, 'Another789!')).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+      message: 'Invalid or expired reset token',
+    });
+    await expect(authService.login({ email, password: newPassword })).resolves.toHaveProperty('token');
+  });
+
+  it('does not use up the token on a rejected password', async () => {
+    const token = await requestResetToken();
+
+    await expect(authService.resetPassword(token, 'short')).rejects.toThrow();
+    await expect(authService.resetPassword(token, newPassword)).resolves.toBeUndefined();
+  });
+
+  it('discards pending reset tokens when the password is changed', async () => {
+    const token = await requestResetToken();
+    await authService.changePassword(session.user.id, { current_password: password, new_password: newPassword });
+
+    await expect(authService.resetPassword(token, 'Another789!')).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+    });
+  });
+
+  it('sends nothing for unknown email addresses', async () => {
+    send.mockClear();
+    await authService.requestPasswordReset(`unknown-${email}`);
+
+    expect(send).not.toHaveBeenCalled();
+  });
+});
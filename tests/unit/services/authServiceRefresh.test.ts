@@ -0,0 +1,42 @@
+import { authService } from '../../../src/services';
+import { AuthResponse } from '../../../src/models';
+
+describe('AuthService refresh token rotation', () => {
+  const password = 'Refresh123!';
+  let email: string;
+  let session: AuthResponse;
+
+  beforeEach(async () => {
+    email = `refresh-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+    session = await authService.register({ email, password, first_name: 'Refresh' });
+  });
+
+  it('rotates the refresh token on every use', async () => {
+    const refreshed = await authService.refreshToken(session.refresh_token);
+
+    expect(refreshed.refresh_token).not.toBe(session.refresh_token);
+    expect(refreshed.user.id).toBe(session.user.id);
+
+    const again = await authService.refreshToken(refreshed.refresh_token);
+    expect(again.refresh_token).not.toBe(refreshed.refresh_token);
+  });
+
+  it('rejects a used refresh token and revokes its whole family', async () => {
+    const refreshed = await authService.refreshToken(session.refresh_token);
+
+    await expect(authService.refreshToken(session.refresh_token)).rejects.toThrow('Refresh token has been revoked');
+    await expect(authService.refreshToken(refreshed.refresh_token)).rejects.toThrow('Refresh token has been revoked');
+  });
+
+  it('leaves other sessions of the user alone on reuse', async () => {
+    const otherSession = (await authService.login({ email, password })) as AuthResponse;
+    await authService.refreshToken(session.refresh_token);
+
+    await expect(authService.refreshToken(session.refresh_token)).rejects.toThrow('Refresh token has been revoked');
+    await expect(authService.refreshToken(otherSession.refresh_token)).resolves.toHaveProperty('token');
+  });
+
+  it('rejects unknown refresh tokens', async () => {
+    await expect(authService.refreshToken('not-a-refresh-token')).rejects.toThrow('Invalid refresh token');
+  });
+});
@@ -0,0 +1,99 @@
+import { authService, twoFactorService } from '../../../src/services';
+import { AuthResponse, TwoFactorChallenge } from '../../../src/models';
+import { mailTransport } from '../../../src/mail';
+import { generateTotp, getTimeStep } from '../../../src/utils/totp';
+
+describe('AuthService two-factor login', () => {
+  const password = 'TwoFactor123!';
+  let email: string;
+  let secret: string;
+  let recoveryCodes: string[];
+
+  // Only the clock is faked, bcrypt and the storage keep their real timers
+  const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+  // Accepted codes cannot be used again, so every code comes from a new time step
+  const nextCode = () => {
+    advance(30 * 1000);
+    return generateTotp(secret, getTimeStep());
+  };
+  const startLogin = async () => (await authService.login({ email, password })) as TwoFactorChallenge;
+
+  beforeEach(async () => {
+    jest.spyOn(mailTransport, 'send').mockResolvedValue();
+    jest.useFakeTimers({
+      now: new Date('2026-03-01T12:00:00.000Z'),
+      doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'],
+    });
+
+    email = `two-factor-${Math.random().toString(36).slice(2)}@example.com`;
+    const session = await authService.register({ email, password });
+    secret = (await twoFactorService.setup(session.user.id)).secret;
+    recoveryCodes = await twoFactorService.enable(session.user.id, generateTotp(secret, getTimeStep()));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('issues tokens only once the code is verified', async () => {
+    const challenge = await startLogin();
+
+    expect(challenge).toEqual({ two_factor_required: true, challenge_token: expect.any(String), expires_in: 300 });
+    expect(challenge).not.toHaveProperty('token');
+
+    const session: AuthResponse = await authService.completeTwoFactorLogin(challenge.challenge_token, nextCode());
+    expect(session).toHaveProperty('token');
+    expect(session).toHaveProperty('refresh_token');
+  });
+
+  it('accepts a challenge only once', async () => {
+    const challenge = await startLogin();
+    await authService.completeTwoFactorLogin(challenge.challenge_token, nextCode());
+
+    await expect(authService.completeTwoFactorLogin(challenge.challenge_token, nextCode())).rejects.toThrow(
+      'Invalid or expired two-factor challenge, please log in again'
+    );
+  });
+
+  it('uses up the challenge on a wrong code', async () => {
+    const challenge = await startLogin();
+    const wrongCode = generateTotp(secret, getTimeStep() - 10);
+
+    await expect(authService.completeTwoFactorLogin(challenge.challenge_token, wrongCode)).rejects.toThrow(
+      'Invalid two-factor authentication code, please log in again'
+    );
+    await expect(authService.completeTwoFactorLogin(challenge.challenge_token, nextCode())).rejects.toThrow(
+      'Invalid or expired two-factor challenge, please log in again'
+    );
+  });
+
+  it('rejects expired challenges', async () => {
+    const challenge = await startLogin();
+    advance(5 * 60 * 1000);
+
+    await expect(authService.completeTwoFactorLogin(challenge.challenge_token, nextCode())).rejects.toThrow(
+      'Invalid or expired two-factor challenge, please log in again'
+    );
+  });
+
+  it('rejects a code that was already used', async () => {
+    const code = nextCode();
+    await authService.completeTwoFactorLogin((await startLogin()).challenge_token, code);
+
+    await expect(authService.completeTwoFactorLogin((await startLogin()).challenge_token, code)).rejects.toThrow(
+      'Invalid two-factor authentication code, please log in again'
+    );
+  });
+
+  it('accepts each recovery code once', async () => {
+    const recoveryCode = recoveryCodes[0]!;
+    await expect(
+      authService.completeTwoFactorLogin((await startLogin()).challenge_token, recoveryCode)
+    ).resolves.toHaveProperty('token');
+
+    await expect(authService.completeTwoFactorLogin((await startLogin()).challenge_token, recoveryCode)).rejects.toThrow(
+      'Invalid two-factor authentication code, please log in again'
+    );
+  });
+});
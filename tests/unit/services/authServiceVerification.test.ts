@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { authService } from '../../../src/services';
+import { requireVerifiedEmail } from '../../../src/middleware/authorization';
+import { userRepository } from '../../../src/repositories';
+import { ApiResponseCode, AuthResponse } from '../../../src/models';
+import { mailTransport } from '../../../src/mail';
+
+/**
+ * Check whether the verified email gate lets a change of the user through
+ */
+const canMakeChanges = (session: AuthResponse): Promise<boolean> => {
+  const req = {
+    method: 'POST',
+    originalUrl: '/test',
+    user: { id: session.user.id, email: session.user.email, role: session.user.role, permissions: [] },
+  } as unknown as Request;
+
+  return new Promise(resolve => {
+    const res = {
+      status() {
+        return this;
+      },
+      json() {
+        resolve(false);
+        return this;
+      },
+    } as unknown as Response;
+
+    void requireVerifiedEmail(req, res, () => resolve(true));
+  });
+};
+
+describe('AuthService email verification', () => {
+  let email: string;
+  let session: AuthResponse;
+  let send: jest.SpyInstance;
+
+  // Read the verification token from the last mail sent
+  const lastVerificationToken = (): string => {
+    const text: string = send.mock.calls[send.mock.calls.length - 1][0].text;
+    return text.match(/Verification token: (\S+)/)![1]!;
+  };
+
+  beforeEach(async () => {
+    send = jest.spyOn(mailTransport, 'send').mockResolvedValue();
+    email = `verify-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+    session = await authService.register({ email, password: 'Verify123!' });
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('holds back changes until the email address is verified', async () => {
+    expect(session.user.email_verified).toBe(false);
+    await expect(canMakeChanges(session)).resolves.toBe(false);
+
+    const profile = await authService.verifyEmail(lastVerificationToken());
+
+    expect(profile.email_verified).toBe(true);
+    // Tokens issued before the verification pick it up
+    await expect(canMakeChanges(session)).resolves.toBe(true);
+  });
+
+  it('accepts a verification token only once', async () => {
+    const token = lastVerificationToken();
+    await authService.verifyEmail(token);
+
+    await expect(authService.verifyEmail(token)).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+      message: 'Invalid or expired verification token',
+    });
+  });
+
+  it('rejects tokens sent to an address the user no longer has', async () => {
+    const token = lastVerificationToken();
+    await userRepository.update(session.user.id, { email: `changed-${email}` });
+
+    await expect(authService.verifyEmail(token)).rejects.toMatchObject({ code: ApiResponseCode.BAD_REQUEST });
+  });
+
+  it('resends the verification only to unverified users', async () => {
+    await authService.resendEmailVerification(session.user.id);
+    await authService.verifyEmail(lastVerificationToken());
+
+    await expect(authService.resendEmailVerification(session.user.id)).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { listService, taskService } from '../../../src/services';
+import { listMemberRepository } from '../../../src/repositories';
+import { AuthUser, Permission } from '../../../src/models';
+
+const permissions = [Permission.LIST_READ, Permission.LIST_CREATE, Permission.TASK_READ, Permission.TASK_CREATE];
+
+const owner: AuthUser = { id: 'dashboard-owner', email: 'owner@example.com', role: 'user', permissions };
+const member: AuthUser = { id: 'dashboard-member', email: 'member@example.com', role: 'user', permissions };
+const outsider: AuthUser = { id: 'dashboard-outsider', email: 'outsider@example.com', role: 'user', permissions };
+
+describe('ListService dashboard', () => {
+  it('covers personal lists and the lists shared with the user', async () => {
+    const own = await listService.createList({ name: 'Member list' }, member);
+    await taskService.createTask({ list_id: own.id, title: 'Own task' }, member);
+
+    const shared = await listService.createList({ name: 'Shared list' }, owner);
+    await taskService.createTask({ list_id: shared.id, title: 'Shared task' }, owner);
+    await listMemberRepository.create(shared.id, member.id, 'viewer', owner.id);
+
+    const dashboard = await listService.getDashboard(member);
+
+    expect(dashboard.lists.map(entry => entry.list.id)).toEqual([own.id, shared.id]);
+    expect(dashboard.listsCount).toBe(2);
+    expect(dashboard.stats.totalTasks).toBe(2);
+
+    const outsiderDashboard = await listService.getDashboard(outsider);
+    expect(outsiderDashboard.listsCount).toBe(0);
+  });
+});
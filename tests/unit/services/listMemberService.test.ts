@@ -0,0 +1,91 @@
+import { listMemberService, listService, taskService } from '../../../src/services';
+import { roleRepository, userRepository } from '../../../src/repositories';
+import { ApiResponseCode, AuthUser, List } from '../../../src/models';
+
+const createUser = async (name: string): Promise<AuthUser> => {
+  const email = `${name}-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const user = await userRepository.create({ email, password: 'Sharing123!', role: 'user' });
+  return { id: user.id, email, role: 'user', permissions: await roleRepository.getPermissions('user') };
+};
+
+const forbidden = { code: ApiResponseCode.FORBIDDEN };
+
+describe('ListMemberService', () => {
+  let owner: AuthUser;
+  let viewer: AuthUser;
+  let editor: AuthUser;
+  let outsider: AuthUser;
+  let list: List;
+
+  beforeEach(async () => {
+    owner = await createUser('owner');
+    viewer = await createUser('viewer');
+    editor = await createUser('editor');
+    outsider = await createUser('outsider');
+
+    list = await listService.createList({ name: 'Shared list' }, owner);
+    await listMemberService.addMember(list.id, { email: viewer.email, role: 'viewer' }, owner);
+    await listMemberService.addMember(list.id, { email: editor.email, role: 'editor' }, owner);
+  });
+
+  it('lets viewers read the list and its tasks but not change them', async () => {
+    const task = await taskService.createTask({ list_id: list.id, title: 'Task' }, owner);
+
+    await expect(listService.getListById(list.id, viewer)).resolves.toMatchObject({ id: list.id });
+    await expect(taskService.getTaskById(task.id, viewer)).resolves.toMatchObject({ id: task.id });
+    await expect(listMemberService.getMembers(list.id, viewer)).resolves.toHaveLength(3);
+
+    await expect(taskService.createTask({ list_id: list.id, title: 'Other' }, viewer)).rejects.toMatchObject(forbidden);
+    await expect(taskService.updateTask(task.id, { title: 'Renamed' }, viewer)).rejects.toMatchObject(forbidden);
+    await expect(listService.updateList(list.id, { name: 'Renamed' }, viewer)).rejects.toMatchObject(forbidden);
+  });
+
+  it('lets editors change tasks but not the list or its members', async () => {
+    const task = await taskService.createTask({ list_id: list.id, title: 'Task' }, editor);
+
+    await expect(taskService.updateTask(task.id, { title: 'Renamed' }, editor)).resolves.toMatchObject({
+      title: 'Renamed',
+    });
+    await expect(taskService.deleteTask(task.id, editor)).resolves.toBeDefined();
+
+    await expect(listService.deleteList(list.id, {}, editor)).rejects.toMatchObject(forbidden);
+    await expect(
+      listMemberService.addMember(list.id, { email: outsider.email, role: 'viewer' }, editor)
+    ).rejects.toMatchObject(forbidden);
+    await expect(listMemberService.updateMember(list.id, viewer.id, 'editor', editor)).rejects.toMatchObject(forbidden);
+    await expect(listMemberService.removeMember(list.id, viewer.id, editor)).rejects.toMatchObject(forbidden);
+  });
+
+  it('lets owners manage members, but not their own access', async () => {
+    await expect(listMemberService.updateMember(list.id, viewer.id, 'editor', owner)).resolves.toMatchObject({
+      role: 'editor',
+    });
+    await expect(taskService.createTask({ list_id: list.id, title: 'Task' }, viewer)).resolves.toBeDefined();
+
+    await expect(listMemberService.updateMember(list.id, owner.id, 'viewer', owner)).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+    });
+    await expect(listMemberService.removeMember(list.id, owner.id, owner)).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+    });
+  });
+
+  it('keeps lists from users they are not shared with', async () => {
+    await expect(listService.getListById(list.id, outsider)).rejects.toMatchObject(forbidden);
+    await expect(listMemberService.getMembers(list.id, outsider)).rejects.toMatchObject(forbidden);
+    await expect(taskService.createTask({ list_id: list.id, title: 'Task' }, outsider)).rejects.toMatchObject(forbidden);
+  });
+
+  it('takes the list away from removed members', async () => {
+    await listMemberService.removeMember(list.id, editor.id, owner);
+    // Members can leave a list themselves
+    await listMemberService.removeMember(list.id, viewer.id, viewer);
+
+    await expect(listService.getListById(list.id, editor)).rejects.toMatchObject(forbidden);
+    await expect(listService.getListById(list.id, viewer)).rejects.toMatchObject(forbidden);
+    await expect(taskService.createTask({ list_id: list.id, title: 'Task' }, editor)).rejects.toMatchObject(forbidden);
+    await expect(listMemberService.removeMember(list.id, editor.id, owner)).rejects.toMatchObject({
+      code: ApiResponseCode.NOT_FOUND,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { listService, taskService } from '../../../src/services';
+import { taskRepository } from '../../../src/repositories';
+import { AuthUser, Permission, RecurrenceFrequency, TaskStatus } from '../../../src/models';
+
+const user: AuthUser = {
+  id: 'bulk-user',
+  email: 'bulk@example.com',
+  role: 'admin',
+  permissions: Object.values(Permission),
+};
+
+describe('TaskService atomic bulk operations', () => {
+  let listId: string;
+
+  const createTask = async (title: string, deadline?: Date) =>
+    taskService.createTask({ list_id: listId, title, ...(deadline && { deadline }) }, user);
+
+  const getListTasks = async () => taskRepository.getAllTasks({ list_id: listId });
+
+  beforeEach(async () => {
+    const list = await listService.createList({ name: `Bulk ${Date.now()}` }, user);
+    listId = list.id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rolls back every task when one of them fails', async () => {
+    const task = await createTask('First');
+    const missingId = '00000000-0000-4000-8000-000000000000';
+
+    const result = await taskService.bulkUpdateTasks(
+      { taskIds: [task.id, missingId], operation: 'status', status: TaskStatus.COMPLETED, atomic: true },
+      user
+    );
+
+    expect(result.summary).toMatchObject({ successful: 0, failed: 1, rolledBack: true });
+    const restored = await taskRepository.getTaskById(task.id);
+    expect(restored?.status).toBe(TaskStatus.PENDING);
+    expect(restored?.completed_at).toBeUndefined();
+  });
+
+  it('removes the next occurrence of a completed recurring task on rollback', async () => {
+    const task = await createTask('Recurring', new Date('2030-01-01T10:00:00.000Z'));
+    await taskService.setRecurrence(task.id, { frequency: RecurrenceFrequency.DAILY }, user);
+    const missingId = '00000000-0000-4000-8000-000000000000';
+
+    const result = await taskService.bulkUpdateTasks(
+      { taskIds: [task.id, missingId], operation: 'status', status: TaskStatus.COMPLETED, atomic: true },
+      user
+    );
+
+    expect(result.summary.rolledBack).toBe(true);
+    const restored = await taskRepository.getTaskById(task.id);
+    expect(restored?.next_occurrence_id).toBeUndefined();
+    expect((await getListTasks()).tasks.map(listTask => listTask.id)).toEqual([task.id]);
+  });
+
+  it('restores a task whose operation fails after its first write', async () => {
+    const task = await createTask('Recurring', new Date('2030-01-01T10:00:00.000Z'));
+    await taskService.setRecurrence(task.id, { frequency: RecurrenceFrequency.DAILY }, user);
+
+    // Completing writes the task and creates the next occurrence before the recurrence is handed over
+    jest.spyOn(taskRepository, 'setTaskRecurrence').mockRejectedValueOnce(new Error('Storage failure'));
+
+    const result = await taskService.bulkUpdateTasks(
+      { taskIds: [task.id], operation: 'status', status: TaskStatus.COMPLETED, atomic: true },
+      user
+    );
+
+    expect(result.summary).toMatchObject({ failed: 1, rolledBack: true });
+    const restored = await taskRepository.getTaskById(task.id);
+    expect(restored?.status).toBe(TaskStatus.PENDING);
+    expect(restored?.recurrence).toBeDefined();
+    expect((await getListTasks()).tasks.map(listTask => listTask.id)).toEqual([task.id]);
+  });
+});
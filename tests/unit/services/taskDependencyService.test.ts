@@ -0,0 +1,67 @@
+import { listService, taskService } from '../../../src/services';
+import { ApiResponseCode, AuthUser, Permission } from '../../../src/models';
+
+const user: AuthUser = {
+  id: 'dependency-user',
+  email: 'dependency@example.com',
+  role: 'admin',
+  permissions: Object.values(Permission),
+};
+
+describe('TaskService dependencies', () => {
+  let listId: string;
+
+  const createTask = async (title: string) => taskService.createTask({ list_id: listId, title }, user);
+
+  beforeEach(async () => {
+    const list = await listService.createList({ name: `Dependencies ${Date.now()}` }, user);
+    listId = list.id;
+  });
+
+  it('rejects a task blocking itself', async () => {
+    const task = await createTask('Self');
+
+    await expect(taskService.addDependency(task.id, task.id, user)).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+    });
+  });
+
+  it('rejects a direct cycle', async () => {
+    const a = await createTask('A');
+    const b = await createTask('B');
+    await taskService.addDependency(b.id, a.id, user);
+
+    await expect(taskService.addDependency(a.id, b.id, user)).rejects.toMatchObject({
+      code: ApiResponseCode.BAD_REQUEST,
+      details: { cycle: [a.id, b.id, a.id] },
+    });
+  });
+
+  it('rejects a cycle through several tasks and reports its path', async () => {
+    const a = await createTask('A');
+    const b = await createTask('B');
+    const c = await createTask('C');
+    await taskService.addDependency(b.id, a.id, user);
+    await taskService.addDependency(c.id, b.id, user);
+
+    const error = await taskService.addDependency(a.id, c.id, user).catch(caught => caught);
+
+    expect(error.code).toBe(ApiResponseCode.BAD_REQUEST);
+    expect(error.details.cycle).toEqual([a.id, c.id, b.id, a.id]);
+
+    const unchanged = await taskService.getTaskById(a.id, user);
+    expect(unchanged.blocked_by || []).toEqual([]);
+  });
+
+  it('allows tasks sharing a blocker without a cycle', async () => {
+    const root = await createTask('Root');
+    const left = await createTask('Left');
+    const right = await createTask('Right');
+    await taskService.addDependency(left.id, root.id, user);
+    await taskService.addDependency(right.id, root.id, user);
+
+    const joined = await taskService.addDependency(right.id, left.id, user);
+
+    expect(joined.blocked_by).toEqual([root.id, left.id]);
+  });
+});
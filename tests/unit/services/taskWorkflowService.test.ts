@@ -0,0 +1,162 @@
+import { listService, taskService } from '../../../src/services';
+import { taskRepository } from '../../../src/repositories';
+import { AuthUser, Permission, RecurrenceFrequency, TaskStatus } from '../../../src/models';
+
+const user: AuthUser = {
+  id: 'workflow-user',
+  email: 'workflow@example.com',
+  role: 'admin',
+  permissions: Object.values(Permission),
+};
+
+describe('TaskService workflow states', () => {
+  let listId: string;
+
+  const createTask = async (title: string, deadline?: Date) =>
+    taskService.createTask({ list_id: listId, title, ...(deadline && { deadline }) }, user);
+
+  // The service only accepts future deadlines
+  const createOverdueTask = async (title: string) => {
+    const task = await createTask(title);
+    await taskRepository.updateTask(task.id, { deadline: new Date(Date.now() - 24 * 60 * 60 * 1000) });
+    return task;
+  };
+
+  beforeEach(async () => {
+    const list = await listService.createList({ name: `Workflow ${Date.now()}` }, user);
+    listId = list.id;
+  });
+
+  it('starts new tasks in the initial state with a history entry', async () => {
+    const task = await createTask('New');
+
+    expect(task.state).toBe('todo');
+    expect(task.status).toBe(TaskStatus.PENDING);
+    expect(task.state_history?.map(transition => [transition.from, transition.to])).toEqual([[null, 'todo']]);
+  });
+
+  it('refuses moves the current state does not allow', async () => {
+    const task = await createTask('Blocked');
+    await taskService.transitionTask(task.id, 'blocked', user);
+
+    await expect(taskService.transitionTask(task.id, 'done', user)).rejects.toMatchObject({
+      code: 'CONFLICT',
+      details: { state: 'blocked' },
+    });
+  });
+
+  it('completes and sets completed_at only in the complete state', async () => {
+    const task = await createTask('Done');
+
+    const done = await taskService.transitionTask(task.id, 'done', user);
+    expect(done.status).toBe(TaskStatus.COMPLETED);
+    expect(done.completed_at).toBeInstanceOf(Date);
+
+    const reopened = await taskService.transitionTask(done.id, 'todo', user);
+    expect(reopened.status).toBe(TaskStatus.PENDING);
+    expect(reopened.completed_at).toBeUndefined();
+  });
+
+  it('keeps cancelled tasks pending without completed_at', async () => {
+    const task = await createTask('Cancelled');
+
+    const cancelled = await taskService.transitionTask(task.id, 'cancelled', user);
+
+    expect(cancelled.state).toBe('cancelled');
+    expect(cancelled.status).toBe(TaskStatus.PENDING);
+    expect(cancelled.completed_at).toBeUndefined();
+  });
+
+  it('does not create the next occurrence when a recurring task is cancelled', async () => {
+    const task = await createTask('Recurring', new Date('2030-01-01T10:00:00.000Z'));
+    await taskService.setRecurrence(task.id, { frequency: RecurrenceFrequency.DAILY }, user);
+
+    const cancelled = await taskService.transitionTask(task.id, 'cancelled', user);
+    expect(cancelled.next_occurrence_id).toBeUndefined();
+    expect(cancelled.recurrence).toBeDefined();
+
+    const done = await taskService.completeTask(task.id, user);
+    expect(done.next_occurrence_id).toBeDefined();
+  });
+
+  it('unblocks dependents of a cancelled blocker', async () => {
+    const blocker = await createTask('Blocker');
+    const dependent = await createTask('Dependent');
+    await taskService.addDependency(dependent.id, blocker.id, user);
+
+    await expect(taskService.completeTask(dependent.id, user)).rejects.toMatchObject({ code: 'CONFLICT' });
+    await taskService.transitionTask(blocker.id, 'cancelled', user);
+
+    const [flagged] = await taskRepository.withBlockedFlagAll([(await taskRepository.getTaskById(dependent.id))!]);
+    expect(flagged?.is_blocked).toBe(false);
+
+    const completed = await taskService.completeTask(dependent.id, user);
+    expect(completed.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('leaves cancelled subtasks out of the progress and auto-completes the parent', async () => {
+    const parent = await taskService.createTask({ list_id: listId, title: 'Parent', auto_complete: true }, user);
+    const done = await taskService.createTask({ list_id: listId, title: 'Done', parent_task_id: parent.id }, user);
+    const cancelled = await taskService.createTask(
+      { list_id: listId, title: 'Cancelled', parent_task_id: parent.id },
+      user
+    );
+
+    await taskService.completeTask(done.id, user);
+    expect((await taskService.getTaskById(parent.id, user)).status).toBe(TaskStatus.PENDING);
+
+    await taskService.transitionTask(cancelled.id, 'cancelled', user);
+
+    const completedParent = await taskService.getTaskById(parent.id, user);
+    expect(completedParent.status).toBe(TaskStatus.COMPLETED);
+    expect(completedParent.progress).toEqual({ done: 1, total: 1 });
+
+    // Reopening the cancelled subtask brings the work back
+    await taskService.transitionTask(cancelled.id, 'todo', user);
+    const reopenedParent = await taskService.getTaskById(parent.id, user);
+    expect(reopenedParent.status).toBe(TaskStatus.PENDING);
+    expect(reopenedParent.progress).toEqual({ done: 1, total: 2 });
+  });
+
+  it('does not count cancelled tasks as completed or overdue in list statistics', async () => {
+    const task = await createOverdueTask('Late');
+    await taskService.transitionTask(task.id, 'cancelled', user);
+
+    const { stats } = await listService.getListStatistics(listId, user);
+
+    expect(stats.completedTasks).toBe(0);
+    expect(stats.overdueTasksCount).toBe(0);
+  });
+
+  it('does not count cancelled tasks as completed on the dashboard', async () => {
+    const task = await createTask('Cancelled');
+    await taskService.transitionTask(task.id, 'cancelled', user);
+
+    const dashboard = await listService.getDashboard(user);
+    const listStats = dashboard.lists.find(entry => entry.list.id === listId)?.stats;
+
+    expect(listStats?.completedTasks).toBe(0);
+    expect(listStats?.pendingTasks).toBe(1);
+  });
+
+  it('leaves cancelled tasks out of the overdue tasks', async () => {
+    const task = await createOverdueTask('Late');
+    await taskService.transitionTask(task.id, 'cancelled', user);
+
+    const { tasks } = await taskService.getOverdueTasks({ list_id: listId }, undefined, 1, 50, user);
+
+    expect(tasks.map(overdue => overdue.id)).not.toContain(task.id);
+  });
+
+  it('moves a cancelled task to the complete state with /complete', async () => {
+    const task = await createTask('Cancelled then done');
+    await taskService.transitionTask(task.id, 'cancelled', user);
+
+    const completed = await taskService.completeTask(task.id, user);
+
+    expect(completed.state).toBe('done');
+    expect(completed.status).toBe(TaskStatus.COMPLETED);
+    expect(completed.completed_at).toBeInstanceOf(Date);
+    expect(completed.state_history?.slice(-1)[0]).toMatchObject({ from: 'cancelled', to: 'done' });
+  });
+});
@@ -0,0 +1,138 @@
+import { adminService, listService, taskService, workspaceService } from '../../../src/services';
+import { roleRepository, userRepository } from '../../../src/repositories';
+import { ApiResponseCode, AuthUser, Permission } from '../../../src/models';
+
+const createUser = async (name: string): Promise<AuthUser> => {
+  const email = `${name}-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const user = await userRepository.create({ email, password: 'Workspace123!', role: 'user' });
+  return { id: user.id, email, role: 'user', permissions: await roleRepository.getPermissions('user') };
+};
+
+const admin: AuthUser = {
+  id: 'workspace-admin',
+  email: 'workspace-admin@example.com',
+  role: 'admin',
+  permissions: Object.values(Permission),
+};
+
+describe('WorkspaceService', () => {
+  let owner: AuthUser;
+  let editor: AuthUser;
+  let workspaceId: string;
+
+  beforeEach(async () => {
+    owner = await createUser('owner');
+    editor = await createUser('editor');
+
+    const workspace = await workspaceService.createWorkspace({ name: 'Team' }, owner);
+    workspaceId = workspace.id;
+    await workspaceService.addMember(workspaceId, { email: editor.email, role: 'editor' }, owner);
+  });
+
+  it('gives members their workspace role on every list of the workspace', async () => {
+    const list = await listService.createList({ name: 'Team list', workspace_id: workspaceId }, owner);
+
+    await expect(listService.getListById(list.id, editor)).resolves.toMatchObject({ id: list.id });
+    await expect(taskService.createTask({ list_id: list.id, title: 'Task' }, editor)).resolves.toBeDefined();
+    // Deleting a list takes owner access
+    await expect(listService.deleteList(list.id, {}, editor)).rejects.toMatchObject({ code: ApiResponseCode.FORBIDDEN });
+  });
+
+  it('takes every workspace list away from a removed member, including the lists they created', async () => {
+    const created = await listService.createList({ name: 'Editor list', workspace_id: workspaceId }, editor);
+    await expect(listService.getListById(created.id, editor)).resolves.toMatchObject({ id: created.id });
+
+    await workspaceService.removeMember(workspaceId, editor.id, owner);
+
+    await expect(listService.getListById(created.id, editor)).rejects.toMatchObject({
+      code: ApiResponseCode.FORBIDDEN,
+    });
+    await expect(listService.deleteList(created.id, {}, editor)).rejects.toMatchObject({
+      code: ApiResponseCode.FORBIDDEN,
+    });
+    await expect(taskService.createTask({ list_id: created.id, title: 'Task' }, editor)).rejects.toMatchObject({
+      code: ApiResponseCode.FORBIDDEN,
+    });
+    await expect(listService.getListById(created.id, owner)).resolves.toMatchObject({ id: created.id });
+  });
+
+  it('keeps workspace lists in the workspace when their creator is deleted', async () => {
+    const personal = await listService.createList({ name: 'Personal' }, editor);
+    const team = await listService.createList({ name: 'Team work', workspace_id: workspaceId }, editor);
+
+    const outsider = await createUser('outsider');
+    const result = await adminService.deleteUser(editor.id, { lists: 'transfer', transferToUserId: outsider.id }, admin);
+
+    expect(result.lists.count).toBe(1);
+    await expect(listService.getListById(personal.id, outsider)).resolves.toMatchObject({ owner_id: outsider.id });
+    await expect(listService.getListById(team.id, owner)).resolves.toMatchObject({ workspace_id: workspaceId });
+    await expect(listService.getListById(team.id, outsider)).rejects.toMatchObject({ code: ApiResponseCode.FORBIDDEN });
+  });
+
+  it('does not delete workspace lists with the user who created them', async () => {
+    const team = await listService.createList({ name: 'Team backlog', workspace_id: workspaceId }, editor);
+
+    await adminService.deleteUser(editor.id, {}, admin);
+
+    await expect(listService.getListById(team.id, owner)).resolves.toMatchObject({ id: team.id });
+  });
+
+  describe('scoping', () => {
+    const listIds = async (user: AuthUser, workspace?: string | null) =>
+      (await listService.getAllLists(workspace === undefined ? {} : { workspace_id: workspace }, undefined, 1, 100, user))
+        .lists.map(list => list.id);
+    const taskIds = async (user: AuthUser) =>
+      (await taskService.getAllTasks(undefined, undefined, 1, 100, user)).tasks.map(task => task.id);
+
+    it('scopes list and task queries to the active workspace', async () => {
+      const personal = await listService.createList({ name: 'Personal' }, owner);
+      const team = await listService.createList({ name: 'Team list', workspace_id: workspaceId }, owner);
+      const personalTask = await taskService.createTask({ list_id: personal.id, title: 'Personal task' }, owner);
+      const teamTask = await taskService.createTask({ list_id: team.id, title: 'Team task' }, owner);
+
+      expect(await listIds(owner)).toEqual([personal.id]);
+      expect(await taskIds(owner)).toEqual([personalTask.id]);
+
+      await workspaceService.switchWorkspace(workspaceId, owner);
+      expect(await listIds(owner)).toEqual([team.id]);
+      expect(await taskIds(owner)).toEqual([teamTask.id]);
+      // An explicitly requested scope wins over the active workspace
+      expect(await listIds(owner, null)).toEqual([personal.id]);
+
+      await workspaceService.switchWorkspace(null, owner);
+      expect(await listIds(owner)).toEqual([personal.id]);
+    });
+
+    it('lets viewers read workspace lists but not change them', async () => {
+      const viewer = await createUser('viewer');
+      await workspaceService.addMember(workspaceId, { email: viewer.email, role: 'viewer' }, owner);
+      const team = await listService.createList({ name: 'Team list', workspace_id: workspaceId }, owner);
+
+      await workspaceService.switchWorkspace(workspaceId, viewer);
+      expect(await listIds(viewer)).toEqual([team.id]);
+      await expect(taskService.createTask({ list_id: team.id, title: 'Task' }, viewer)).rejects.toMatchObject({
+        code: ApiResponseCode.FORBIDDEN,
+      });
+    });
+
+    it('keeps non-members out of the workspace', async () => {
+      const outsider = await createUser('outsider');
+      await listService.createList({ name: 'Team list', workspace_id: workspaceId }, owner);
+
+      await expect(workspaceService.switchWorkspace(workspaceId, outsider)).rejects.toMatchObject({
+        code: ApiResponseCode.FORBIDDEN,
+      });
+      await expect(listIds(outsider, workspaceId)).rejects.toMatchObject({ code: ApiResponseCode.FORBIDDEN });
+    });
+
+    it('falls back to personal lists once the active workspace is left', async () => {
+      const personal = await listService.createList({ name: 'Personal' }, editor);
+      await listService.createList({ name: 'Team list', workspace_id: workspaceId }, owner);
+      await workspaceService.switchWorkspace(workspaceId, editor);
+
+      await workspaceService.removeMember(workspaceId, editor.id, owner);
+
+      expect(await listIds(editor)).toEqual([personal.id]);
+    });
+  });
+});
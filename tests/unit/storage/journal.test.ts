@@ -0,0 +1,81 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Journal } from '../../../src/storage/journal';
+
+describe('Journal', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'journal-'));
+    filePath = join(directory, 'todo.journal.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reads back appended entries with their dates', () => {
+    const journal = new Journal(filePath);
+    journal.append({ op: 'deleteTask', id: 'a' });
+    journal.append({ op: 'deleteTask', id: 'b' });
+
+    const entries = new Journal(filePath).readEntries();
+
+    expect(entries.map(entry => entry.seq)).toEqual([1, 2]);
+    expect(entries[0]?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('only returns entries after the given sequence number', () => {
+    const journal = new Journal(filePath);
+    journal.append({ op: 'deleteTask', id: 'a' });
+    journal.append({ op: 'deleteTask', id: 'b' });
+    journal.append({ op: 'deleteTask', id: 'c' });
+
+    const reader = new Journal(filePath);
+    const entries = reader.readEntries(2);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ op: 'deleteTask', id: 'c', seq: 3 });
+    expect(reader.getLastSeq()).toBe(3);
+  });
+
+  it('discards and truncates a torn last line', () => {
+    const journal = new Journal(filePath);
+    journal.append({ op: 'deleteTask', id: 'a' });
+    const validContent = readFileSync(filePath, 'utf8');
+    appendFileSync(filePath, '{"op":"deleteTask","id":"b","se');
+
+    const reader = new Journal(filePath);
+    const entries = reader.readEntries();
+
+    expect(entries).toHaveLength(1);
+    expect(readFileSync(filePath, 'utf8')).toBe(validContent);
+
+    // Appending after the recovery continues the sequence on a clean line
+    reader.append({ op: 'deleteTask', id: 'c' });
+    expect(new Journal(filePath).readEntries().map(entry => entry.seq)).toEqual([1, 2]);
+  });
+
+  it('fails on a corrupt line in the middle of the file', () => {
+    const journal = new Journal(filePath);
+    journal.append({ op: 'deleteTask', id: 'a' });
+    appendFileSync(filePath, 'not json\n');
+    journal.append({ op: 'deleteTask', id: 'b' });
+
+    expect(() => new Journal(filePath).readEntries()).toThrow(/corrupted at line 2/);
+  });
+
+  it('keeps only the entries after the compacted sequence number', () => {
+    const journal = new Journal(filePath);
+    journal.append({ op: 'deleteTask', id: 'a' });
+    journal.append({ op: 'deleteTask', id: 'b' });
+    journal.append({ op: 'deleteTask', id: 'c' });
+
+    journal.compact(2);
+
+    expect(journal.getEntryCount()).toBe(1);
+    expect(new Journal(filePath).readEntries().map(entry => entry.seq)).toEqual([3]);
+  });
+});
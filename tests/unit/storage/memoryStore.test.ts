@@ -0,0 +1,101 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryStore } from '../../../src/storage/memoryStore';
+import { List, Task, TaskPriority, TaskStatus } from '../../../src/models';
+
+const createList = (id: string): List => ({
+  id,
+  owner_id: 'owner',
+  name: `List ${id}`,
+  tasks_count: 0,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const createTask = (id: string, listId: string): Task => ({
+  id,
+  list_id: listId,
+  title: `Task ${id}`,
+  priority: TaskPriority.MEDIUM,
+  status: TaskStatus.PENDING,
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+describe('MemoryStore journal replay', () => {
+  let directory: string;
+  let snapshotPath: string;
+  let journalPath: string;
+
+  const openStore = async (): Promise<MemoryStore> => {
+    const store = new MemoryStore(10000, true, snapshotPath, journalPath);
+    await store.initialize();
+    return store;
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'memory-store-'));
+    snapshotPath = join(directory, 'todo-data.json');
+    journalPath = join(directory, 'todo-data.journal.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('replays the changes made after a compaction on top of the snapshot', async () => {
+    const store = await openStore();
+    store.createList(createList('list-1'));
+    await store.flush();
+
+    // Changes after the snapshot only live in the journal, as after a crash
+    store.createTask(createTask('task-1', 'list-1'));
+    store.updateTask('task-1', { title: 'Renamed' });
+    store.updateList('list-1', { name: 'Renamed list' });
+
+    const reopened = await openStore();
+
+    expect(reopened.getListById('list-1')?.name).toBe('Renamed list');
+    expect(reopened.getTaskById('task-1')?.title).toBe('Renamed');
+    expect(reopened.getTasksByStatus(TaskStatus.PENDING)).toHaveLength(1);
+    await reopened.flush();
+  });
+
+  it('skips journal entries already covered by the snapshot', async () => {
+    const store = await openStore();
+    store.createList(createList('list-1'));
+    store.createTask(createTask('task-1', 'list-1'));
+    const journalBeforeCompaction = readFileSync(journalPath, 'utf8');
+    await store.flush();
+
+    // Crash between writing the snapshot and compacting the journal
+    writeFileSync(journalPath, journalBeforeCompaction, 'utf8');
+    store.updateTask('task-1', { title: 'Renamed' });
+
+    const createTaskSpy = jest.spyOn(MemoryStore.prototype, 'createTask');
+    const reopened = await openStore();
+
+    expect(createTaskSpy).not.toHaveBeenCalled();
+    expect(reopened.getAllTasks()).toHaveLength(1);
+    expect(reopened.getTaskById('task-1')?.title).toBe('Renamed');
+    createTaskSpy.mockRestore();
+    await reopened.flush();
+  });
+
+  it('replays deletes recorded after the snapshot', async () => {
+    const store = await openStore();
+    store.createList(createList('list-1'));
+    store.createTask(createTask('task-1', 'list-1'));
+    store.createTask(createTask('task-2', 'list-1'));
+    await store.flush();
+
+    store.deleteList('list-1', true);
+
+    const reopened = await openStore();
+
+    expect(reopened.getAllLists()).toHaveLength(0);
+    expect(reopened.getAllTasks()).toHaveLength(0);
+    await reopened.flush();
+  });
+});
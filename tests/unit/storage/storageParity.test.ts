@@ -0,0 +1,137 @@
+import { MemoryStore } from '../../../src/storage/memoryStore';
+import { SqliteStore } from '../../../src/storage/sqliteStore';
+import { ListQuery, StorageBackend, TaskQuery } from '../../../src/storage/storageBackend';
+import { List, Task, TaskPriority, TaskStatus } from '../../../src/models';
+
+const at = (minutes: number): Date => new Date(Date.UTC(2026, 9, 1, 8, minutes));
+
+const createList = (id: string, ownerId: string, minutes: number, extra: Partial<List> = {}): List => ({
+  id,
+  owner_id: ownerId,
+  name: `List ${id}`,
+  tasks_count: 0,
+  created_at: at(minutes),
+  updated_at: at(minutes),
+  ...extra,
+});
+
+const createTask = (id: string, listId: string, minutes: number, extra: Partial<Task> = {}): Task => ({
+  id,
+  list_id: listId,
+  title: `Task ${id}`,
+  priority: TaskPriority.MEDIUM,
+  status: TaskStatus.PENDING,
+  created_at: at(minutes),
+  updated_at: at(minutes),
+  ...extra,
+});
+
+const LISTS: List[] = [
+  createList('personal-a', 'alice', 1, { name: 'Groceries', description: 'Weekly 100% organic' }),
+  createList('personal-b', 'bob', 2, { name: 'Garden' }),
+  createList('team-a', 'alice', 3, { name: 'Sprint_1', workspace_id: 'workspace-1' }),
+  createList('team-b', 'bob', 4, { name: 'Roadmap', workspace_id: 'workspace-1' }),
+];
+
+const TASKS: Task[] = [
+  createTask('t1', 'personal-a', 10, { title: 'Buy milk', priority: TaskPriority.HIGH, deadline: at(120) }),
+  createTask('t2', 'personal-a', 11, {
+    title: 'bake bread',
+    status: TaskStatus.COMPLETED,
+    state: 'done',
+    label_ids: ['red', 'blue'],
+  }),
+  createTask('t3', 'personal-b', 12, { title: 'Water plants', state: 'cancelled', deadline: at(60) }),
+  createTask('t4', 'personal-b', 13, { title: 'Mow lawn', priority: TaskPriority.LOW, label_ids: ['red'] }),
+  createTask('t5', 'team-a', 14, {
+    title: 'Ship 50% of scope',
+    description: 'Release_candidate',
+    state: 'in_progress',
+    deadline: at(240),
+    label_ids: ['blue'],
+  }),
+  createTask('t6', 'team-b', 15, { title: 'Plan Q3', priority: TaskPriority.HIGH, deadline: at(30) }),
+];
+
+const LIST_QUERIES: Array<[string, ListQuery]> = [
+  ['all lists', {}],
+  ['owner', { filters: { owner_id: 'alice' } }],
+  ['owner with shared lists', { filters: { owner_id: 'alice', shared_list_ids: ['personal-b', 'personal-a'] } }],
+  ['personal lists', { filters: { workspace_id: null } }],
+  ['workspace lists', { filters: { workspace_id: 'workspace-1' } }],
+  ['owner in a workspace', { filters: { owner_id: 'bob', workspace_id: 'workspace-1' } }],
+  ['search', { filters: { search: 'GAR' } }],
+  ['search with LIKE wildcards', { filters: { search: '100%' } }],
+  ['search with an underscore', { filters: { search: 't_1' } }],
+  ['sort by name', { sort: { field: 'name', order: 'asc' } }],
+  ['pagination', { sort: { field: 'created_at', order: 'asc' }, limit: 2, offset: 1 }],
+];
+
+const TASK_QUERIES: Array<[string, TaskQuery]> = [
+  ['all tasks', {}],
+  ['list', { filters: { list_id: 'personal-b' } }],
+  ['owner', { filters: { owner_id: 'alice' } }],
+  ['owner with shared lists', { filters: { owner_id: 'alice', shared_list_ids: ['personal-b'] } }],
+  ['personal tasks', { filters: { workspace_id: null } }],
+  ['workspace tasks', { filters: { workspace_id: 'workspace-1' } }],
+  ['status', { filters: { status: TaskStatus.PENDING } }],
+  ['excluded states', { filters: { exclude_states: ['cancelled', 'in_progress'] } }],
+  ['status and excluded states', { filters: { status: TaskStatus.PENDING, exclude_states: ['cancelled'] } }],
+  ['priority', { filters: { priority: TaskPriority.HIGH } }],
+  ['any label', { filters: { labels: { match: 'any', label_ids: ['red', 'blue'] } } }],
+  ['all labels', { filters: { labels: { match: 'all', label_ids: ['red', 'blue'] } } }],
+  ['all labels with a repeated label', { filters: { labels: { match: 'all', label_ids: ['red', 'red'] } } }],
+  ['deadline from', { filters: { deadline_from: at(60) } }],
+  ['deadline to', { filters: { deadline_to: at(60) } }],
+  ['deadline between', { filters: { deadline_from: at(45), deadline_to: at(130) } }],
+  ['deadline range', { deadlineRange: { from: at(0), to: at(0) } }],
+  ['search', { filters: { search: 'BREAD' } }],
+  ['search in the description', { filters: { search: 'release_' } }],
+  ['search with LIKE wildcards', { filters: { search: '50%' } }],
+  ['sort by title', { sort: { field: 'title', order: 'asc' } }],
+  ['sort by priority', { sort: { field: 'priority', order: 'desc' } }],
+  ['sort by deadline', { sort: { field: 'deadline', order: 'asc' } }],
+  ['sort by deadline descending', { sort: { field: 'deadline', order: 'desc' } }],
+  ['pagination', { sort: { field: 'created_at', order: 'asc' }, limit: 2, offset: 2 }],
+];
+
+describe('Storage backend parity', () => {
+  let memory: StorageBackend;
+  let sqlite: StorageBackend;
+
+  const seed = (store: StorageBackend): void => {
+    LISTS.forEach(list => store.createList({ ...list }));
+    TASKS.forEach(task => store.createTask({ ...task }));
+  };
+
+  beforeAll(() => {
+    memory = new MemoryStore();
+    sqlite = new SqliteStore(':memory:');
+    seed(memory);
+    seed(sqlite);
+  });
+
+  it.each(LIST_QUERIES)('returns the same lists for %s', (_name, query) => {
+    const expected = memory.queryLists(query);
+    const actual = sqlite.queryLists(query);
+
+    expect(expected.lists.length).toBeGreaterThan(0);
+    expect(actual.lists.map(list => list.id)).toEqual(expected.lists.map(list => list.id));
+    expect(actual.total).toBe(expected.total);
+  });
+
+  it.each(TASK_QUERIES)('returns the same tasks for %s', (_name, query) => {
+    const expected = memory.queryTasks(query);
+    const actual = sqlite.queryTasks(query);
+
+    expect(expected.tasks.length).toBeGreaterThan(0);
+    expect(actual.tasks.map(task => task.id)).toEqual(expected.tasks.map(task => task.id));
+    expect(actual.total).toBe(expected.total);
+  });
+
+  it('keeps the same task counts on lists', () => {
+    for (const list of LISTS) {
+      expect(sqlite.getListById(list.id)?.tasks_count).toBe(memory.getListById(list.id)?.tasks_count);
+    }
+  });
+});
@@ -0,0 +1,94 @@
+import { getNextOccurrence, getNextRecurrenceDate, sortWeekdays } from '../../../src/utils/recurrence';
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '../../../src/models';
+
+const utc = (value: string): Date => new Date(`${value}Z`);
+
+describe('recurrence', () => {
+  describe('getNextRecurrenceDate', () => {
+    it('adds the interval in days and keeps the time of day', () => {
+      const rule: RecurrenceRule = { frequency: RecurrenceFrequency.DAILY, interval: 3 };
+
+      expect(getNextRecurrenceDate(rule, utc('2026-02-27T09:30:00'))).toEqual(utc('2026-03-02T09:30:00'));
+    });
+
+    it('moves weekly rules without weekdays by whole weeks', () => {
+      const rule: RecurrenceRule = { frequency: RecurrenceFrequency.WEEKLY, interval: 2 };
+
+      expect(getNextRecurrenceDate(rule, utc('2026-10-19T08:00:00'))).toEqual(utc('2026-11-02T08:00:00'));
+    });
+
+    it('moves weekly rules to the next listed weekday, then to the first one interval weeks later', () => {
+      const rule: RecurrenceRule = {
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 2,
+        by_weekday: [Weekday.MONDAY, Weekday.THURSDAY],
+      };
+
+      // 2026-10-19 is a Monday
+      const thursday = getNextRecurrenceDate(rule, utc('2026-10-19T08:00:00'));
+      expect(thursday).toEqual(utc('2026-10-22T08:00:00'));
+      expect(getNextRecurrenceDate(rule, thursday)).toEqual(utc('2026-11-02T08:00:00'));
+    });
+
+    it('clamps monthly rules to the last day of shorter months and returns to the rule day', () => {
+      const rule: RecurrenceRule = { frequency: RecurrenceFrequency.MONTHLY, interval: 1, by_month_day: 31 };
+
+      const february = getNextRecurrenceDate(rule, utc('2026-01-31T12:00:00'));
+      expect(february).toEqual(utc('2026-02-28T12:00:00'));
+
+      const march = getNextRecurrenceDate(rule, february);
+      expect(march).toEqual(utc('2026-03-31T12:00:00'));
+
+      expect(getNextRecurrenceDate(rule, march)).toEqual(utc('2026-04-30T12:00:00'));
+    });
+
+    it('uses February 29 in leap years', () => {
+      const rule: RecurrenceRule = { frequency: RecurrenceFrequency.MONTHLY, interval: 1, by_month_day: 30 };
+
+      expect(getNextRecurrenceDate(rule, utc('2028-01-30T00:00:00'))).toEqual(utc('2028-02-29T00:00:00'));
+    });
+
+    it('moves monthly rules to by_month_day across years', () => {
+      const rule: RecurrenceRule = { frequency: RecurrenceFrequency.MONTHLY, interval: 3, by_month_day: 15 };
+
+      expect(getNextRecurrenceDate(rule, utc('2026-11-03T07:00:00'))).toEqual(utc('2027-02-15T07:00:00'));
+    });
+
+    it('keeps the day of the deadline for monthly rules without by_month_day', () => {
+      const rule: RecurrenceRule = { frequency: RecurrenceFrequency.MONTHLY, interval: 1 };
+
+      expect(getNextRecurrenceDate(rule, utc('2026-12-10T07:00:00'))).toEqual(utc('2027-01-10T07:00:00'));
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('counts occurrences and ends the series after count', () => {
+      const rule: RecurrenceRule = { frequency: RecurrenceFrequency.DAILY, interval: 1, count: 3 };
+
+      expect(getNextOccurrence(rule, utc('2026-10-19T00:00:00'), 2)).toEqual({
+        deadline: utc('2026-10-20T00:00:00'),
+        occurrence: 3,
+      });
+      expect(getNextOccurrence(rule, utc('2026-10-20T00:00:00'), 3)).toBeNull();
+    });
+
+    it('ends the series when the next deadline is after until', () => {
+      const rule: RecurrenceRule = {
+        frequency: RecurrenceFrequency.WEEKLY,
+        interval: 1,
+        until: utc('2026-10-26T08:00:00'),
+      };
+
+      expect(getNextOccurrence(rule, utc('2026-10-19T08:00:00'), 1)?.deadline).toEqual(utc('2026-10-26T08:00:00'));
+      expect(getNextOccurrence(rule, utc('2026-10-26T08:00:00'), 2)).toBeNull();
+    });
+  });
+
+  it('sorts weekdays from Monday without duplicates', () => {
+    expect(sortWeekdays([Weekday.SUNDAY, Weekday.MONDAY, Weekday.SUNDAY, Weekday.WEDNESDAY])).toEqual([
+      Weekday.MONDAY,
+      Weekday.WEDNESDAY,
+      Weekday.SUNDAY,
+    ]);
+  });
+});
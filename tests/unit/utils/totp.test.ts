@@ -0,0 +1,44 @@
+import { base32Decode, base32Encode, generateTotp, getTimeStep, verifyTotp } from '../../../src/utils/totp';
+
+// RFC 6238 appendix B, SHA1 vectors; the RFC uses 8 digits, the last 6 are the 6-digit codes
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+];
+
+describe('totp', () => {
+  it.each(RFC_VECTORS)('generates the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(seconds * 1000))).toBe(code);
+  });
+
+  it('round-trips secrets through base32', () => {
+    const bytes = Buffer.from('12345678901234567890', 'ascii');
+
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).equals(bytes)).toBe(true);
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').equals(bytes)).toBe(true);
+  });
+
+  it('accepts codes one time step either side and returns the matching step', () => {
+    const timeMs = 1111111111 * 1000;
+    const step = getTimeStep(timeMs);
+
+    expect(verifyTotp(RFC_SECRET, '050471', timeMs)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), timeMs)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), timeMs)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), timeMs)).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    const timeMs = 59 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '287 082', timeMs)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708', timeMs)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '28708a', timeMs)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { DEFAULT_WORKFLOW, TaskWorkflow, WorkflowDefinition } from '../../../src/workflow';
+import { Task, TaskPriority, TaskStatus } from '../../../src/models';
+
+const createTask = (status: TaskStatus, state?: string): Task => ({
+  id: 'task-1',
+  list_id: 'list-1',
+  title: 'Task',
+  priority: TaskPriority.MEDIUM,
+  status,
+  ...(state && { state }),
+  created_at: new Date(),
+  updated_at: new Date(),
+});
+
+const withStates = (states: WorkflowDefinition['states']): WorkflowDefinition => ({
+  ...DEFAULT_WORKFLOW,
+  states,
+});
+
+describe('TaskWorkflow', () => {
+  const workflow = new TaskWorkflow(DEFAULT_WORKFLOW);
+
+  it('allows only the transitions of the current state', () => {
+    expect(workflow.canTransition('todo', 'in_progress')).toBe(true);
+    expect(workflow.canTransition('blocked', 'done')).toBe(false);
+    expect(workflow.canTransition('cancelled', 'done')).toBe(false);
+    expect(workflow.getTransitions('unknown')).toEqual([]);
+  });
+
+  it('makes only the complete state completed', () => {
+    expect(workflow.getStatus('done')).toBe(TaskStatus.COMPLETED);
+    expect(workflow.getStatus('cancelled')).toBe(TaskStatus.PENDING);
+    expect(workflow.getStatus('in_progress')).toBe(TaskStatus.PENDING);
+    expect(workflow.getTerminalStates()).toEqual(['cancelled']);
+  });
+
+  it('treats pending tasks outside terminal states as open', () => {
+    expect(workflow.isOpen(createTask(TaskStatus.PENDING))).toBe(true);
+    expect(workflow.isOpen(createTask(TaskStatus.PENDING, 'blocked'))).toBe(true);
+    expect(workflow.isOpen(createTask(TaskStatus.PENDING, 'cancelled'))).toBe(false);
+    expect(workflow.isOpen(createTask(TaskStatus.COMPLETED, 'done'))).toBe(false);
+  });
+
+  it('resolves the state of tasks stored before workflow states from their status', () => {
+    expect(workflow.getState(createTask(TaskStatus.PENDING))).toBe('todo');
+    expect(workflow.getState(createTask(TaskStatus.COMPLETED))).toBe('done');
+    expect(workflow.getState(createTask(TaskStatus.PENDING, 'in_progress'))).toBe('in_progress');
+    // A state that disagrees with the status, such as a cancelled task stored as completed
+    expect(workflow.getState(createTask(TaskStatus.COMPLETED, 'cancelled'))).toBe('done');
+  });
+
+  it('rejects transitions to unknown states', () => {
+    expect(() => new TaskWorkflow(withStates([
+      ...DEFAULT_WORKFLOW.states.filter(state => state.name !== 'todo'),
+      { name: 'todo', transitions: ['archived'] },
+    ]))).toThrow(/invalid transition to 'archived'/);
+  });
+
+  it('rejects duplicate and malformed state names', () => {
+    expect(() => new TaskWorkflow(withStates([...DEFAULT_WORKFLOW.states, { name: 'todo', transitions: [] }])))
+      .toThrow(/defined twice/);
+    expect(() => new TaskWorkflow(withStates([...DEFAULT_WORKFLOW.states, { name: 'In Progress', transitions: [] }])))
+      .toThrow(/Invalid workflow state name/);
+  });
+
+  it('rejects a terminal or completed initial state and a terminal complete state', () => {
+    expect(() => new TaskWorkflow({ ...DEFAULT_WORKFLOW, initial_state: 'cancelled' })).toThrow(/initial/);
+    expect(() => new TaskWorkflow({ ...DEFAULT_WORKFLOW, reopen_state: 'done' })).toThrow(/reopen/);
+    expect(() => new TaskWorkflow({ ...DEFAULT_WORKFLOW, complete_state: 'cancelled' })).toThrow(/cannot be terminal/);
+    expect(() => new TaskWorkflow({ ...DEFAULT_WORKFLOW, complete_state: 'shipped' })).toThrow(/not defined/);
+  });
+});